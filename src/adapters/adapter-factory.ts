@@ -2,6 +2,9 @@ import { MCPServerConfig, ServerAdapter } from '../types/index.js';
 import { StdioAdapter } from './stdio-adapter.js';
 import { HttpSseAdapter } from './http-sse-adapter.js';
 import { StreamableHttpAdapter } from './streamable-http-adapter.js';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('adapter');
 
 export class AdapterFactory {
   // List of sensitive environment variable keywords
@@ -113,7 +116,7 @@ export class AdapterFactory {
       if (warnings.length > 0) {
         // Output security warnings to console, but do not treat as validation errors
         warnings.forEach(warning => {
-          console.warn(`[SECURITY WARNING] ${warning} for server configuration`);
+          log.warn(`[SECURITY WARNING] ${warning} for server configuration`);
         });
       }
 
@@ -3,21 +3,33 @@ import axios, { AxiosInstance } from 'axios';
 import * as EventSourceLib from 'eventsource';
 // @ts-ignore - CommonJS module in ESM context
 const EventSource = (EventSourceLib as any).EventSource;
-import { MCPServerConfig, MCPTool, MCPRequest, MCPResponse, ServerAdapter } from '../types/index.js';
+import { MCPServerConfig, MCPTool, MCPRequest, MCPResponse, MCPResource, MCPResourceTemplate, MCPPrompt, ServerAdapter, RequestOptions, ToolCallOptions, RequestQueueStats, CircuitBreakerStats, MCPLogLevel } from '../types/index.js';
+import { ProtocolVersion } from '../utils/protocol-version.js';
+import { MCPDOG_VERSION } from '../utils/package-info.js';
+import { RequestQueue } from '../utils/request-queue.js';
+import { CircuitBreaker } from '../utils/circuit-breaker.js';
+import { UpstreamError } from '../utils/upstream-error.js';
+import { globalTracer, Tracer } from '../tracing/tracer.js';
+import { globalLogger, ComponentLogger } from '../logging/logger.js';
 
 export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
   public readonly name: string;
+  private readonly log: ComponentLogger;
   public readonly config: MCPServerConfig;
   public isConnected: boolean = false;
 
   private httpClient: AxiosInstance;
   private sseEventSource?: any; // Use any type to avoid EventSource type complexity
   private requestId: number = 1;
+  private serverCapabilities: Record<string, any> = {}; // Capabilities advertised by the upstream server
+  public protocolVersion?: string; // Negotiated during initialize
   private pendingRequests: Map<string | number, {
     resolve: (value: MCPResponse) => void;
     reject: (error: Error) => void;
     timeout: NodeJS.Timeout;
   }> = new Map();
+  private requestQueue: RequestQueue; // Enforces maxConcurrentRequests / queueTimeout
+  private circuitBreaker: CircuitBreaker; // Fails fast while the server keeps erroring
 
   private baseUrl: string;
   private sseUrl: string;
@@ -31,7 +43,12 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
   constructor(name: string, config: MCPServerConfig) {
     super();
     this.name = name;
+    this.log = globalLogger.child(`adapter:${name}`);
     this.config = config;
+    this.requestQueue = new RequestQueue(name, () => this.config);
+    this.circuitBreaker = new CircuitBreaker(name, () => this.config, transition => {
+      this.emit('circuit-state-changed', { serverName: this.name, ...transition });
+    });
 
     if (config.transport !== 'http-sse') {
       throw new Error(`Invalid transport for HttpSseAdapter: ${config.transport}`);
@@ -67,7 +84,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
     }
 
     try {
-      console.error(`Connecting to ${this.name} via HTTP+SSE: ${this.baseUrl}`);
+      this.log.info(`Connecting to ${this.name} via HTTP+SSE: ${this.baseUrl}`);
 
       // 1. Establish SSE connection
       await this.connectSSE();
@@ -80,7 +97,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
 
       // Mark as connected, let router manage tool list fetching
       this.isConnected = true;
-      console.error(`Connected to ${this.name}`);
+      this.log.info(`Connected to ${this.name}`);
       this.emit('connected', { serverName: this.name });
 
     } catch (error) {
@@ -94,7 +111,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
       return;
     }
 
-    console.error(`Disconnecting from ${this.name}`);
+    this.log.info(`Disconnecting from ${this.name}`);
 
     // Cancel all pending requests
     for (const [id, pending] of this.pendingRequests) {
@@ -102,11 +119,12 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
       pending.reject(new Error('Connection closed'));
     }
     this.pendingRequests.clear();
+    this.requestQueue.clear('Connection closed');
 
     this.cleanup();
     this.isConnected = false;
 
-    console.error(`Disconnected from ${this.name}`);
+    this.log.info(`Disconnected from ${this.name}`);
     this.emit('disconnected', { serverName: this.name });
   }
 
@@ -122,7 +140,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
           }
         };
 
-        console.error(`Establishing SSE connection to ${this.sseUrl}`);
+        this.log.info(`Establishing SSE connection to ${this.sseUrl}`);
         
         this.sseEventSource = new EventSource(this.sseUrl, sseOptions);
         
@@ -143,7 +161,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
 
     // Connection successful
     this.sseEventSource.onopen = (event: any) => {
-      console.error(`SSE connection opened for ${this.name}`);
+      this.log.info(`SSE connection opened for ${this.name}`);
       if (resolve) {
         resolve();
         resolve = undefined; // Avoid duplicate calls
@@ -156,7 +174,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
         // Handle typed SSE events
         if (event.type === 'endpoint' || event.lastEventId === 'endpoint') {
           this.dynamicEndpoint = event.data;
-          console.error(`Updated dynamic endpoint for ${this.name}: ${this.dynamicEndpoint}`);
+          this.log.debug(`Updated dynamic endpoint for ${this.name}: ${this.dynamicEndpoint}`);
           return;
         }
         
@@ -164,23 +182,30 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
         this.handleSSEMessage(message);
         
         // Check if it's an MCP response
-        if (message.id && (message.result || message.error)) {
+        if (message.method && message.id !== undefined) {
+          // Request from the server (sampling, elicitation, roots)
+          this.log.debug(`Received MCP request from ${this.name}:`, message.method);
+          this.emit('server-request', { serverName: this.name, request: message });
+        } else if (message.id && (message.result || message.error)) {
           this.handleMCPResponse(message);
+        } else if (message.method && message.id === undefined) {
+          // Server-pushed notification delivered as a plain message event
+          this.handleMCPNotification(message);
         }
       } catch (error) {
         // May be plain text message, try to handle as endpoint
         if (event.data && event.data.startsWith('/mcp/messages/')) {
           this.dynamicEndpoint = event.data;
-          console.error(`Updated dynamic endpoint from text for ${this.name}: ${this.dynamicEndpoint}`);
+          this.log.debug(`Updated dynamic endpoint from text for ${this.name}: ${this.dynamicEndpoint}`);
         } else {
-          console.error(`Failed to parse SSE message from ${this.name}:`, event.data);
+          this.log.error(`Failed to parse SSE message from ${this.name}:`, event.data);
         }
       }
     };
 
     // Connection error
     this.sseEventSource.onerror = (event: any) => {
-      console.error(`SSE connection error for ${this.name}:`, event);
+      this.log.error(`SSE connection error for ${this.name}:`, event);
       
       if (reject) {
         reject(new Error(`SSE connection failed for ${this.name}`));
@@ -197,7 +222,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
         const response = JSON.parse(event.data);
         this.handleMCPResponse(response);
       } catch (error) {
-        console.error(`Failed to parse MCP response from ${this.name}:`, event.data);
+        this.log.error(`Failed to parse MCP response from ${this.name}:`, event.data);
       }
     });
 
@@ -207,14 +232,14 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
         const notification = JSON.parse(event.data);
         this.handleMCPNotification(notification);
       } catch (error) {
-        console.error(`Failed to parse MCP notification from ${this.name}:`, event.data);
+        this.log.error(`Failed to parse MCP notification from ${this.name}:`, event.data);
       }
     });
 
     // Listen for endpoint events
     this.sseEventSource.addEventListener('endpoint', (event: any) => {
       this.dynamicEndpoint = event.data;
-      console.error(`Received endpoint event for ${this.name}: ${this.dynamicEndpoint}`);
+      this.log.debug(`Received endpoint event for ${this.name}: ${this.dynamicEndpoint}`);
       
       // Extract sessionId (if exists)
       this.extractSessionId();
@@ -233,7 +258,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
       
       if (urlSessionId) {
         this.sessionId = urlSessionId;
-        console.error(`Extracted sessionId from URL for ${this.name}: ${this.sessionId}`);
+        this.log.debug(`Extracted sessionId from URL for ${this.name}: ${this.sessionId}`);
         return;
       }
 
@@ -241,17 +266,17 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
       const pathMatch = this.dynamicEndpoint.match(/\/mcp\/messages\/([^/?]+)/);
       if (pathMatch && pathMatch[1]) {
         this.sessionId = pathMatch[1];
-        console.error(`Extracted sessionId from path for ${this.name}: ${this.sessionId}`);
+        this.log.debug(`Extracted sessionId from path for ${this.name}: ${this.sessionId}`);
         return;
       }
 
       // If sessionMode is required but no sessionId found, log warning
       if (this.sessionMode === 'required' && !this.sessionId) {
-        console.error(`Warning: Session mode is required but no sessionId found in endpoint: ${this.dynamicEndpoint}`);
+        this.log.warn(`Session mode is required but no sessionId found in endpoint: ${this.dynamicEndpoint}`);
       }
 
     } catch (error) {
-      console.error(`Failed to extract sessionId from endpoint ${this.dynamicEndpoint}:`, error);
+      this.log.error(`Failed to extract sessionId from endpoint ${this.dynamicEndpoint}:`, error);
     }
   }
 
@@ -261,13 +286,16 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
       id: this.getNextRequestId(),
       method: 'initialize',
       params: {
-        protocolVersion: '2024-11-05',
+        protocolVersion: ProtocolVersion.LATEST,
         capabilities: {
-          tools: {}
+          tools: {},
+          roots: {},
+          elicitation: {},
+          ...(this.config.sampling?.enabled !== false && { sampling: {} })
         },
         clientInfo: {
           name: 'mcpdog',
-          version: '2.0.0'
+          version: MCPDOG_VERSION
         }
       }
     };
@@ -278,15 +306,24 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
       throw new Error(`Initialize failed: ${response.error.message}`);
     }
 
+    this.serverCapabilities = response.result?.capabilities || {};
+
+    // The server answers with the revision it will speak, which may be older than ours
+    const protocolVersion: string = response.result?.protocolVersion || ProtocolVersion.LATEST;
+    this.protocolVersion = protocolVersion;
+    if (!ProtocolVersion.isSupported(protocolVersion)) {
+      this.log.warn(`${this.name} uses unsupported protocol version ${protocolVersion}, continuing anyway`);
+    }
+
     // Send initialized notification (some servers like GitHub Copilot may not support this)
     try {
       await this.sendNotification({
         jsonrpc: '2.0',
         method: 'notifications/initialized'
       });
-      console.error(`Sent initialized notification to ${this.name}`);
+      this.log.debug(`Sent initialized notification to ${this.name}`);
     } catch (error) {
-      console.warn(`Failed to send initialized notification to ${this.name} (this is normal for some servers like GitHub Copilot):`, (error as Error).message);
+      this.log.warn(`Failed to send initialized notification to ${this.name} (this is normal for some servers like GitHub Copilot):`, (error as Error).message);
       // Don't throw error - some servers don't support this notification
     }
   }
@@ -309,31 +346,171 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
     return response.result?.tools || [];
   }
 
-  async callTool(name: string, args: any): Promise<MCPResponse> {
+  async callTool(name: string, args: any, options?: ToolCallOptions): Promise<MCPResponse> {
     const request: MCPRequest = {
       jsonrpc: '2.0',
       id: this.getNextRequestId(),
       method: 'tools/call',
       params: {
         name,
-        arguments: args
+        arguments: args,
+        ...(options?.progressToken !== undefined && { _meta: { progressToken: options.progressToken } })
       }
     };
 
-    return this.sendRequest(request);
+    return this.sendRequest(request, options);
+  }
+
+  async getResources(): Promise<MCPResource[]> {
+    if (!this.serverCapabilities.resources) {
+      return [];
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/list',
+      params: {}
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to get resources: ${response.error.message}`);
+    }
+
+    return response.result?.resources || [];
+  }
+
+  async getResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    if (!this.serverCapabilities.resources) {
+      return [];
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/templates/list',
+      params: {}
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to get resource templates: ${response.error.message}`);
+    }
+
+    return response.result?.resourceTemplates || [];
+  }
+
+  async readResource(uri: string): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/read',
+      params: { uri }
+    });
+  }
+
+  async subscribeResource(uri: string): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/subscribe',
+      params: { uri }
+    });
+  }
+
+  async unsubscribeResource(uri: string): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/unsubscribe',
+      params: { uri }
+    });
   }
 
-  async sendRequest(request: MCPRequest): Promise<MCPResponse> {
+  async getPrompts(): Promise<MCPPrompt[]> {
+    if (!this.serverCapabilities.prompts) {
+      return [];
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'prompts/list',
+      params: {}
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to get prompts: ${response.error.message}`);
+    }
+
+    return response.result?.prompts || [];
+  }
+
+  async getPrompt(name: string, args?: Record<string, string>): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'prompts/get',
+      params: {
+        name,
+        arguments: args || {}
+      }
+    });
+  }
+
+  async setLogLevel(level: MCPLogLevel): Promise<void> {
+    if (!this.serverCapabilities.logging) {
+      return;
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'logging/setLevel',
+      params: { level }
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to set log level: ${response.error.message}`);
+    }
+  }
+
+  async sendRequest(request: MCPRequest, options?: RequestOptions): Promise<MCPResponse> {
+    return globalTracer.traceUpstream(this.name, 'http-sse', request, (tracedRequest, span) => {
+      // initialize must not wait behind the requests that depend on it
+      if (tracedRequest.method === 'initialize') {
+        return this.dispatchRequest(tracedRequest, options);
+      }
+      this.circuitBreaker.check(); // Fail fast before taking a queue slot
+      return this.requestQueue.run(
+        () => this.circuitBreaker.run(() => {
+          span.addEvent('dequeued');
+          return this.dispatchRequest(tracedRequest, options);
+        }, options),
+        options?.signal
+      );
+    });
+  }
+
+  getQueueStats(): RequestQueueStats {
+    return this.requestQueue.getStats();
+  }
+
+  getCircuitStats(): CircuitBreakerStats {
+    return this.circuitBreaker.getStats();
+  }
+
+  private async dispatchRequest(request: MCPRequest, options?: RequestOptions): Promise<MCPResponse> {
     // Allow sending initialize request during connection process
     if (!this.isConnected && !this.sseEventSource) {
-      throw new Error(`Not connected to ${this.name}`);
+      throw UpstreamError.notDispatched(`Not connected to ${this.name}`);
     }
 
+    const onAbort = () => this.cancelRequest(request.id, options!.signal!.reason);
     return new Promise<MCPResponse>(async (resolve, reject) => {
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(request.id);
         reject(new Error(`Request timeout for ${this.name}`));
-      }, this.config.timeout || 30000);
+      }, options?.timeout || this.config.timeout || 30000);
 
       this.pendingRequests.set(request.id, {
         resolve,
@@ -341,10 +518,18 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
         timeout
       });
 
+      if (options?.signal) {
+        if (options.signal.aborted) {
+          this.cancelRequest(request.id, options.signal.reason);
+          return;
+        }
+        options.signal.addEventListener('abort', onAbort, { once: true });
+      }
+
       try {
         // Use dynamic endpoint or fall back to default endpoint
         let endpoint = this.dynamicEndpoint || '/mcp';
-        console.error(`Sending request to ${this.name} via: ${endpoint}`);
+        this.log.debug(`Sending request to ${this.name} via: ${endpoint}`);
         
         // If dynamic endpoint and relative path, need to construct full URL
         if (this.dynamicEndpoint && this.dynamicEndpoint.startsWith('/')) {
@@ -352,11 +537,11 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
           endpoint = url.pathname + url.search;
         }
         
-        // Prepare request headers, including session info (if any)
-        const requestHeaders: Record<string, string> = {};
+        // Prepare request headers: session info (if any) and the trace context also carried in _meta
+        const requestHeaders: Record<string, string> = Tracer.headersFor(request);
         if (this.sessionId && this.sessionMode !== 'disabled') {
           requestHeaders['Mcp-Session-Id'] = this.sessionId;
-          console.error(`Adding session header for ${this.name}: Mcp-Session-Id=${this.sessionId}`);
+          this.log.debug(`Adding session header for ${this.name}: Mcp-Session-Id=${this.sessionId}`);
         }
         
         // Send request via HTTP POST
@@ -374,20 +559,59 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
           }
         }
       } catch (error) {
+        if (!this.pendingRequests.has(request.id)) {
+          return; // Already settled (e.g. cancelled while the POST was in flight)
+        }
         this.pendingRequests.delete(request.id);
         clearTimeout(timeout);
         
         // Check for session-related errors
         if ((error as any).response?.status === 404 && this.sessionId) {
-          console.error(`Session expired for ${this.name}, sessionId: ${this.sessionId}`);
+          this.log.info(`Session expired for ${this.name}, sessionId: ${this.sessionId}`);
           // Clear expired sessionId, trigger reconnect to get new session
           this.sessionId = undefined;
           this.handleSSEDisconnection();
         }
         
-        reject(new Error(`Failed to send request to ${this.name}: ${(error as Error).message}`));
+        reject(UpstreamError.fromHttp(`Failed to send request to ${this.name}: ${(error as Error).message}`, error));
       }
+    }).finally(() => options?.signal?.removeEventListener('abort', onAbort));
+  }
+
+  async sendResponse(response: MCPResponse): Promise<void> {
+    let endpoint = this.dynamicEndpoint || '/mcp';
+    if (this.dynamicEndpoint && this.dynamicEndpoint.startsWith('/')) {
+      const url = new URL(this.dynamicEndpoint, this.baseUrl);
+      endpoint = url.pathname + url.search;
+    }
+
+    const requestHeaders: Record<string, string> = {};
+    if (this.sessionId && this.sessionMode !== 'disabled') {
+      requestHeaders['Mcp-Session-Id'] = this.sessionId;
+    }
+
+    await this.httpClient.post(endpoint, response, {
+      headers: requestHeaders
+    });
+  }
+
+  // Reject a pending request locally and tell the upstream server to stop working on it
+  private cancelRequest(requestId: string | number, reason?: any): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) {
+      return;
+    }
+
+    this.pendingRequests.delete(requestId);
+    clearTimeout(pending.timeout);
+    const reasonText = typeof reason === 'string' ? reason : undefined;
+    this.sendNotification({
+      jsonrpc: '2.0',
+      method: 'notifications/cancelled',
+      params: { requestId, ...(reasonText && { reason: reasonText }) }
     });
+    this.log.info(`Request ${requestId} to ${this.name} cancelled${reasonText ? `: ${reasonText}` : ''}`);
+    pending.reject(new Error(`Request cancelled${reasonText ? `: ${reasonText}` : ''}`));
   }
 
   private async sendNotification(notification: any): Promise<void> {
@@ -409,7 +633,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
         headers: requestHeaders
       });
     } catch (error) {
-      console.error(`Failed to send notification to ${this.name}:`, error);
+      this.log.error(`Failed to send notification to ${this.name}:`, error);
     }
   }
 
@@ -419,12 +643,12 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
 
   private handleSSEMessage(message: any): void {
     // Handle generic SSE message
-    console.error(`Received SSE message from ${this.name}:`, message);
+    this.log.debug(`Received SSE message from ${this.name}:`, message);
     
     // Check if it's an endpoint message
     if (message.endpoint) {
       this.dynamicEndpoint = message.endpoint;
-      console.error(`Updated dynamic endpoint for ${this.name}: ${this.dynamicEndpoint}`);
+      this.log.debug(`Updated dynamic endpoint for ${this.name}: ${this.dynamicEndpoint}`);
     }
   }
 
@@ -436,17 +660,25 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
       clearTimeout(pending.timeout);
       pending.resolve(response);
     } else {
-      console.warn(`Received response for unknown request ID: ${response.id}`);
+      this.log.warn(`Received response for unknown request ID: ${response.id}`);
     }
   }
 
   private handleMCPNotification(notification: any): void {
-    console.error(`Received MCP notification from ${this.name}:`, notification.method);
+    this.log.debug(`Received MCP notification from ${this.name}:`, notification.method);
     
     if (notification.method === 'notifications/tools/list_changed') {
       // Tool list changed, notify router for unified handling
       this.emit('tools-changed', { serverName: this.name });
     }
+
+    if (notification.method === 'notifications/resources/list_changed') {
+      this.emit('resources-changed', { serverName: this.name });
+    }
+
+    if (notification.method === 'notifications/prompts/list_changed') {
+      this.emit('prompts-changed', { serverName: this.name });
+    }
     
     // Forward notification to upper layer
     this.emit('notification', { serverName: this.name, notification });
@@ -459,7 +691,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
 
     // If server is disabled, should not auto-reconnect
     if (this.isDisabled) {
-      console.error(`❌ ${this.name} is disabled, no auto-reconnect`);
+      this.log.warn(`${this.name} is disabled, no auto-reconnect`);
       this.isConnected = false;
       this.emit('disconnected', { 
         serverName: this.name,
@@ -471,7 +703,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
     this.isConnected = false;
     this.isReconnecting = true;
     
-    console.error(`SSE connection lost for ${this.name}, attempting reconnection...`);
+    this.log.info(`SSE connection lost for ${this.name}, attempting reconnection...`);
     this.emit('disconnected', { 
       serverName: this.name,
       error: new Error('SSE connection lost')
@@ -489,27 +721,30 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
       return;
     }
 
-    try {
-      console.error(`Attempting to reconnect ${this.name}...`);
-      
-      // Clean up old connection
-      this.cleanup();
-      
-      // Reconnect
-      await this.connect();
-      
-      this.isReconnecting = false;
-      console.error(`Successfully reconnected ${this.name}`);
-      
-    } catch (error) {
-      console.error(`Reconnection failed for ${this.name}:`, (error as Error).message);
-      
-      // Continue trying to reconnect
-      const reconnectInterval = this.config.sseReconnectInterval || 5000;
-      this.reconnectTimer = setTimeout(() => {
-        this.attemptReconnection();
-      }, reconnectInterval * 2); // Exponential backoff
-    }
+    await globalTracer.trace('reconnect', { root: true, attributes: { 'mcpdog.server': this.name } }, async span => {
+      try {
+        this.log.info(`Attempting to reconnect ${this.name}...`);
+        
+        // Clean up old connection
+        this.cleanup();
+        
+        // Reconnect
+        await this.connect();
+        
+        this.isReconnecting = false;
+        this.log.info(`Successfully reconnected ${this.name}`);
+        
+      } catch (error) {
+        span.setError(error);
+        this.log.error(`Reconnection failed for ${this.name}:`, (error as Error).message);
+        
+        // Continue trying to reconnect
+        const reconnectInterval = this.config.sseReconnectInterval || 5000;
+        this.reconnectTimer = setTimeout(() => {
+          this.attemptReconnection();
+        }, reconnectInterval * 2); // Exponential backoff
+      }
+    });
   }
 
   private cleanup(): void {
@@ -556,7 +791,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
 
   // Disable adapter, prevent auto-reconnect
   disable(): void {
-    console.error(`🚫 Disabling ${this.name} - no auto-reconnect`);
+    this.log.info(`Disabling ${this.name} - no auto-reconnect`);
     this.isDisabled = true;
     // Clear reconnect timer
     if (this.reconnectTimer) {
@@ -568,7 +803,7 @@ export class HttpSseAdapter extends EventEmitter implements ServerAdapter {
 
   // Re-enable adapter, allow auto-reconnect
   enable(): void {
-    console.error(`✅ Enabling ${this.name} - auto-reconnect allowed`);
+    this.log.info(`Enabling ${this.name} - auto-reconnect allowed`);
     this.isDisabled = false;
   }
 }
\ No newline at end of file
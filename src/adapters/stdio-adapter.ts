@@ -1,20 +1,32 @@
 import { spawn, ChildProcess } from 'child_process';
 import { EventEmitter } from 'events';
-import { MCPServerConfig, MCPTool, MCPRequest, MCPResponse, ServerAdapter } from '../types/index.js';
+import { MCPServerConfig, MCPTool, MCPRequest, MCPResponse, MCPResource, MCPResourceTemplate, MCPPrompt, ServerAdapter, RequestOptions, ToolCallOptions, RequestQueueStats, CircuitBreakerStats, MCPLogLevel } from '../types/index.js';
+import { ProtocolVersion } from '../utils/protocol-version.js';
+import { MCPDOG_VERSION } from '../utils/package-info.js';
 import { globalLogManager } from '../logging/server-log-manager.js';
+import { RequestQueue } from '../utils/request-queue.js';
+import { CircuitBreaker } from '../utils/circuit-breaker.js';
+import { UpstreamError } from '../utils/upstream-error.js';
+import { globalTracer } from '../tracing/tracer.js';
+import { globalLogger, ComponentLogger } from '../logging/logger.js';
 
 export class StdioAdapter extends EventEmitter implements ServerAdapter {
   public readonly name: string;
+  private readonly log: ComponentLogger;
   public readonly config: MCPServerConfig;
   public isConnected: boolean = false;
 
   private process?: ChildProcess;
   private requestId: number = 1;
+  private serverCapabilities: Record<string, any> = {}; // Capabilities advertised by the upstream server
+  public protocolVersion?: string; // Negotiated during initialize
   private pendingRequests: Map<string | number, {
     resolve: (value: MCPResponse) => void;
     reject: (error: Error) => void;
     timeout: NodeJS.Timeout;
   }> = new Map();
+  private requestQueue: RequestQueue; // Enforces maxConcurrentRequests / queueTimeout
+  private circuitBreaker: CircuitBreaker; // Fails fast while the server keeps erroring
 
   private buffer: string = '';
   private stderrBuffer: string = '';
@@ -27,11 +39,18 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
   private isBlacklisted: boolean = false; // Whether blacklisted
   private blacklistUntil: number = 0; // Blacklist release time
   private isDisabled: boolean = false; // Whether disabled, should not auto-reconnect if disabled
+  private lifetimeCrashes: number = 0; // Unlike crashCount, never decays or resets
+  private reconnectAttempts: number = 0;
 
   constructor(name: string, config: MCPServerConfig) {
     super();
     this.name = name;
+    this.log = globalLogger.child(`adapter:${name}`);
     this.config = config;
+    this.requestQueue = new RequestQueue(name, () => this.config);
+    this.circuitBreaker = new CircuitBreaker(name, () => this.config, transition => {
+      this.emit('circuit-state-changed', { serverName: this.name, ...transition });
+    });
 
     if (config.transport !== 'stdio') {
       throw new Error(`Invalid transport for StdioAdapter: ${config.transport}`);
@@ -40,18 +59,18 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
 
   async connect(): Promise<void> {
     if (this.isConnected) {
-      console.error(`[${this.name}] Already connected, skipping connect() call.`);
+      this.log.debug(`Already connected, skipping connect() call.`);
       return;
     }
 
     if (this.isDisabled) {
-      console.error(`[${this.name}] Adapter is disabled, skipping connect() call.`);
+      this.log.warn(`Adapter is disabled, skipping connect() call.`);
       throw new Error(`Adapter ${this.name} is disabled.`);
     }
 
     if (this.isBlacklisted) {
       const remaining = Math.ceil((this.blacklistUntil - Date.now()) / 1000);
-      console.error(`[${this.name}] Adapter is blacklisted for ${remaining}s, skipping connect() call.`);
+      this.log.warn(`Adapter is blacklisted for ${remaining}s, skipping connect() call.`);
       throw new Error(`Adapter ${this.name} is blacklisted.`);
     }
 
@@ -60,7 +79,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     }
 
     try {
-      console.error(`[${this.name}] Attempting to connect via stdio: ${this.config.command} ${this.config.args?.join(' ') || ''}`);
+      this.log.info(`Attempting to connect via stdio: ${this.config.command} ${this.config.args?.join(' ') || ''}`);
 
       // Environment variable debug log
       this.logEnvironmentVariables();
@@ -84,17 +103,17 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
         spawnOptions.shell = false; // Avoid shell interpretation issues
         // Increase buffer size for high-volume stderr output
         spawnOptions.stdio = ['pipe', 'pipe', 'pipe'];
-        console.error(`[${this.name}] Using special spawn options for playwright`);
+        this.log.debug(`Using special spawn options for playwright`);
         
         // Verify critical environment variables are set
         if (processEnv.DEBUG) {
-          console.error(`[${this.name}] ✅ DEBUG environment variable set: ${processEnv.DEBUG}`);
+          this.log.info(`DEBUG environment variable set: ${processEnv.DEBUG}`);
         } else {
-          console.error(`[${this.name}] ⚠️ DEBUG environment variable not set`);
+          this.log.warn(`DEBUG environment variable not set`);
         }
         
         if (processEnv.PWDEBUG) {
-          console.error(`[${this.name}] ✅ PWDEBUG environment variable set`);
+          this.log.info(`PWDEBUG environment variable set`);
         }
       }
       
@@ -107,7 +126,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       
       // Mark as connected, let router manage tool list fetching
       this.isConnected = true;
-      console.error(`[${this.name}] Connected successfully.`);
+      this.log.info(`Connected successfully.`);
       globalLogManager.updateConnectionStatus(this.name, true);
       globalLogManager.addLog(this.name, 'info', `MCP server connected successfully (command: ${this.config.command}, args: ${this.config.args?.join(' ') || 'none'})`, 'system');
       this.emit('connected', { serverName: this.name });
@@ -115,7 +134,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     } catch (error) {
       this.cleanup();
       const errorMsg = `[${this.name}] Failed to connect: ${(error as Error).message}`;
-      console.error(errorMsg);
+      this.log.error(errorMsg);
       globalLogManager.updateConnectionStatus(this.name, false, errorMsg);
       throw new Error(errorMsg);
     }
@@ -123,12 +142,12 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
 
   async disconnect(): Promise<void> {
     if (!this.isConnected) {
-      console.error(`[${this.name}] Already disconnected, skipping disconnect() call.`);
+      this.log.debug(`Already disconnected, skipping disconnect() call.`);
       globalLogManager.addLog(this.name, 'warn', 'Disconnect called but server already disconnected', 'system');
       return;
     }
 
-    console.error(`[${this.name}] Attempting to disconnect...`);
+    this.log.info(`Attempting to disconnect...`);
     globalLogManager.addLog(this.name, 'info', 'Initiating disconnect...', 'system');
     
     // Cancel all pending requests
@@ -137,11 +156,12 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       pending.reject(new Error('Connection closed'));
     }
     this.pendingRequests.clear();
+    this.requestQueue.clear('Connection closed');
 
     this.cleanup();
     this.isConnected = false;
     
-    console.error(`[${this.name}] Disconnected successfully.`);
+    this.log.info(`Disconnected successfully.`);
     globalLogManager.updateConnectionStatus(this.name, false);
     globalLogManager.addLog(this.name, 'info', 'MCP server disconnected successfully', 'system');
     this.emit('disconnected', { serverName: this.name });
@@ -149,6 +169,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
 
   private setupProcessHandlers(): void {
     if (!this.process) return;
+    const child = this.process;
 
     this.process.stdout?.on('data', (data: Buffer) => {
       const stdout = data.toString();
@@ -180,8 +201,8 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
         if (line.trim()) {
           const stderr = line.trim();
           // Add debug logging for stderr
-          console.error(`[${this.name}] DEBUG: STDERR received - length: ${stderr.length}`);
-          console.error(`[${this.name}] DEBUG: STDERR content: ${stderr.substring(0, 200)}`);
+          this.log.debug(`STDERR received - length: ${stderr.length}`);
+          this.log.debug(`STDERR content: ${stderr.substring(0, 200)}`);
           // Log to log manager
           globalLogManager.addServerOutput(this.name, stderr, 'stderr');
           this.emit('log', { stream: 'stderr', data: stderr }); // Ensure all output is sent to frontend
@@ -189,7 +210,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
           // Detect browsermcp stack overflow errors
           if (stderr.includes('Maximum call stack size exceeded') || 
               stderr.includes('RangeError')) {
-            console.error(`⚠️ ${this.name} detected stack overflow, will auto-restart on next request`);
+            this.log.warn(`${this.name} detected stack overflow, will auto-restart on next request`);
             globalLogManager.addLog(this.name, 'warn', 'Stack overflow detected, will auto-restart on next request', 'system');
           }
         }
@@ -197,19 +218,25 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     });
 
     this.process.on('error', (error: Error) => {
-      console.error(`${this.name} process error:`, error);
+      this.log.error(`${this.name} process error:`, error);
       globalLogManager.addLog(this.name, 'error', `Process error: ${error.message}`, 'system');
       this.emit('error', { error, context: `${this.name}-process` });
     });
 
     this.process.on('exit', (code: number | null, signal: string | null) => {
-      console.error(`[${this.name}] DEBUG: Process exited with code ${code}, signal ${signal}.`);
-      console.error(`[${this.name}] DEBUG: Pending requests at exit: ${this.pendingRequests.size}`);
+      if (child !== this.process) {
+        // Stopped on purpose by disconnect() (e.g. an idle on-demand server), not a crash
+        this.log.info(`Stopped process exited with code ${code}, signal ${signal}.`);
+        return;
+      }
+      this.log.debug(`Process exited with code ${code}, signal ${signal}.`);
+      this.log.debug(`Pending requests at exit: ${this.pendingRequests.size}`);
       globalLogManager.addLog(this.name, 'error', `Process exited with code ${code}, signal ${signal}`, 'system');
       
       // Log crash history
       const now = Date.now();
       this.crashCount++;
+      this.lifetimeCrashes++;
       this.lastCrashTime = now;
       this.crashHistory.push(now);
       
@@ -219,7 +246,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       
       if (signal === 'SIGKILL') {
         const killMsg = `⚠️  Process was killed with SIGKILL - likely due to internal errors or resource issues. Crash count: ${this.crashCount} (${this.crashHistory.length} in last 5min)`;
-        console.error(`[${this.name}] ${killMsg}`);
+        this.log.info(killMsg);
         globalLogManager.addLog(this.name, 'error', killMsg, 'system');
       }
       
@@ -237,7 +264,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       if (this.shouldAttemptReconnect(signal)) {
         const delay = this.getReconnectDelay();
         const reconnectMsg = `🔄 Will attempt reconnect in ${delay}ms`;
-        console.error(`[${this.name}] ${reconnectMsg}`);
+        this.log.info(reconnectMsg);
         globalLogManager.addLog(this.name, 'info', reconnectMsg, 'system');
         
         setTimeout(() => {
@@ -245,36 +272,39 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
         }, delay);
       } else {
         const noReconnectMsg = '🚫 Not attempting reconnect';
-        console.error(`[${this.name}] ${noReconnectMsg}`);
+        this.log.info(noReconnectMsg);
         globalLogManager.addLog(this.name, 'warn', noReconnectMsg, 'system');
       }
     });
   }
 
   private handleStdoutData(data: string): void {
-    console.error(`[${this.name}] DEBUG: Received stdout data - length: ${data.length}`);
+    this.log.debug(`Received stdout data - length: ${data.length}`);
     this.buffer += data;
     
     const lines = this.buffer.split('\n');
     this.buffer = lines.pop() || ''; // Keep the last incomplete line
-    console.error(`[${this.name}] DEBUG: Split into ${lines.length} lines, buffer remaining: ${this.buffer.length}`);
+    this.log.debug(`Split into ${lines.length} lines, buffer remaining: ${this.buffer.length}`);
 
     for (const line of lines) {
       if (line.trim()) {
-        console.error(`[${this.name}] DEBUG: Processing line length: ${line.length}`);
+        this.log.debug(`Processing line length: ${line.length}`);
         try {
           const message = JSON.parse(line);
-          console.error(`[${this.name}] DEBUG: Parsed message - id: ${message.id}, method: ${message.method}`);
+          this.log.debug(`Parsed message - id: ${message.id}, method: ${message.method}`);
           this.handleMessage(message);
         } catch (error) {
-          console.error(`Failed to parse message from ${this.name}:`, line);
+          this.log.error(`Failed to parse message from ${this.name}:`, line);
         }
       }
     }
   }
 
   private handleMessage(message: any): void {
-    if (message.id && this.pendingRequests.has(message.id)) {
+    if (message.method && message.id !== undefined) {
+      // This is a request from the server (sampling, elicitation, roots)
+      this.handleServerRequest(message);
+    } else if (message.id && this.pendingRequests.has(message.id)) {
       // This is a response to a request
       const pending = this.pendingRequests.get(message.id)!;
       this.pendingRequests.delete(message.id);
@@ -294,8 +324,14 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     }
   }
 
+  private handleServerRequest(request: MCPRequest): void {
+    this.log.debug(`Request from ${this.name}:`, request.method);
+    globalLogManager.addLog(this.name, 'info', `Server request received: ${request.method} (ID: ${request.id})`, 'system');
+    this.emit('server-request', { serverName: this.name, request });
+  }
+
   private handleNotification(notification: any): void {
-    console.error(`Notification from ${this.name}:`, notification.method);
+    this.log.debug(`Notification from ${this.name}:`, notification.method);
     globalLogManager.addLog(this.name, 'info', `Notification received: ${notification.method}`, 'system');
     
     if (notification.method === 'notifications/tools/list_changed') {
@@ -303,6 +339,14 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       globalLogManager.addLog(this.name, 'info', 'Tools list changed, notifying router', 'system');
       this.emit('tools-changed', { serverName: this.name });
     }
+
+    if (notification.method === 'notifications/resources/list_changed') {
+      this.emit('resources-changed', { serverName: this.name });
+    }
+
+    if (notification.method === 'notifications/prompts/list_changed') {
+      this.emit('prompts-changed', { serverName: this.name });
+    }
     
     // Forward notification to upper layer
     this.emit('notification', { serverName: this.name, notification });
@@ -314,13 +358,16 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       id: this.getNextRequestId(),
       method: 'initialize',
       params: {
-        protocolVersion: '2024-11-05',
+        protocolVersion: ProtocolVersion.LATEST,
         capabilities: {
-          tools: {}
+          tools: {},
+          roots: {},
+          elicitation: {},
+          ...(this.config.sampling?.enabled !== false && { sampling: {} })
         },
         clientInfo: {
           name: 'mcpdog',
-          version: '2.0.0'
+          version: MCPDOG_VERSION
         }
       }
     };
@@ -331,6 +378,15 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       throw new Error(`Initialize failed: ${response.error.message}`);
     }
 
+    this.serverCapabilities = response.result?.capabilities || {};
+
+    // The server answers with the revision it will speak, which may be older than ours
+    const protocolVersion: string = response.result?.protocolVersion || ProtocolVersion.LATEST;
+    this.protocolVersion = protocolVersion;
+    if (!ProtocolVersion.isSupported(protocolVersion)) {
+      this.log.warn(`${this.name} uses unsupported protocol version ${protocolVersion}, continuing anyway`);
+    }
+
     // Send initialized notification
     const initializedNotification = {
       jsonrpc: '2.0',
@@ -358,7 +414,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     return response.result?.tools || [];
   }
 
-  async callTool(name: string, args: any): Promise<MCPResponse> {
+  async callTool(name: string, args: any, options?: ToolCallOptions): Promise<MCPResponse> {
     const startTime = Date.now();
     globalLogManager.addLog(this.name, 'info', `Calling tool: ${name}`, 'system');
     
@@ -368,12 +424,13 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       method: 'tools/call',
       params: {
         name,
-        arguments: args
+        arguments: args,
+        ...(options?.progressToken !== undefined && { _meta: { progressToken: options.progressToken } })
       }
     };
 
     try {
-      const response = await this.sendRequest(request);
+      const response = await this.sendRequest(request, options);
       const duration = Date.now() - startTime;
       
       if (response.error) {
@@ -395,39 +452,183 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     }
   }
 
-  async sendRequest(request: MCPRequest): Promise<MCPResponse> {
+  async getResources(): Promise<MCPResource[]> {
+    if (!this.serverCapabilities.resources) {
+      return [];
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/list',
+      params: {}
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to get resources: ${response.error.message}`);
+    }
+
+    return response.result?.resources || [];
+  }
+
+  async getResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    if (!this.serverCapabilities.resources) {
+      return [];
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/templates/list',
+      params: {}
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to get resource templates: ${response.error.message}`);
+    }
+
+    return response.result?.resourceTemplates || [];
+  }
+
+  async readResource(uri: string): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/read',
+      params: { uri }
+    });
+  }
+
+  async subscribeResource(uri: string): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/subscribe',
+      params: { uri }
+    });
+  }
+
+  async unsubscribeResource(uri: string): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/unsubscribe',
+      params: { uri }
+    });
+  }
+
+  async getPrompts(): Promise<MCPPrompt[]> {
+    if (!this.serverCapabilities.prompts) {
+      return [];
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'prompts/list',
+      params: {}
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to get prompts: ${response.error.message}`);
+    }
+
+    return response.result?.prompts || [];
+  }
+
+  async getPrompt(name: string, args?: Record<string, string>): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'prompts/get',
+      params: {
+        name,
+        arguments: args || {}
+      }
+    });
+  }
+
+  async setLogLevel(level: MCPLogLevel): Promise<void> {
+    if (!this.serverCapabilities.logging) {
+      return;
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'logging/setLevel',
+      params: { level }
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to set log level: ${response.error.message}`);
+    }
+  }
+
+  async sendRequest(request: MCPRequest, options?: RequestOptions): Promise<MCPResponse> {
+    return globalTracer.traceUpstream(this.name, 'stdio', request, (tracedRequest, span) => {
+      // initialize must not wait behind the requests that depend on it
+      if (tracedRequest.method === 'initialize') {
+        return this.dispatchRequest(tracedRequest, options);
+      }
+      this.circuitBreaker.check(); // Fail fast before taking a queue slot
+      return this.requestQueue.run(
+        () => this.circuitBreaker.run(() => {
+          span.addEvent('dequeued');
+          return this.dispatchRequest(tracedRequest, options);
+        }, options),
+        options?.signal
+      );
+    });
+  }
+
+  getQueueStats(): RequestQueueStats {
+    return this.requestQueue.getStats();
+  }
+
+  getCircuitStats(): CircuitBreakerStats {
+    return this.circuitBreaker.getStats();
+  }
+
+  private async dispatchRequest(request: MCPRequest, options?: RequestOptions): Promise<MCPResponse> {
     // Add detailed debug logging for troubleshooting
-    console.error(`[${this.name}] DEBUG: sendRequest called - method: ${request.method}, id: ${request.id}`);
+    this.log.debug(`sendRequest called - method: ${request.method}, id: ${request.id}`);
     globalLogManager.addLog(this.name, 'info', `DEBUG: Sending request ${request.method} (ID: ${request.id})`, 'system');
     
     // Check process status, try to reconnect if dead
     if (!this.process?.stdin || this.process.killed || this.process.exitCode !== null) {
-      console.error(`${this.name} process is dead, attempting reconnection...`);
+      this.log.warn(`${this.name} process is dead, attempting reconnection...`);
       globalLogManager.addLog(this.name, 'warn', 'Process is dead, attempting reconnection...', 'system');
-      try {
-        await this.connect();
-        globalLogManager.addLog(this.name, 'info', 'Reconnection successful', 'system');
-      } catch (error) {
-        const errorMsg = `Failed to reconnect to ${this.name}: ${(error as Error).message}`;
-        globalLogManager.addLog(this.name, 'error', errorMsg, 'system');
-        throw new Error(errorMsg);
-      }
+      this.reconnectAttempts++;
+      const attributes = { 'mcpdog.server': this.name, 'mcpdog.reconnect_attempt': this.reconnectAttempts };
+      await globalTracer.trace('reconnect', { attributes }, async () => {
+        try {
+          await this.connect();
+          globalLogManager.addLog(this.name, 'info', 'Reconnection successful', 'system');
+        } catch (error) {
+          const errorMsg = `Failed to reconnect to ${this.name}: ${(error as Error).message}`;
+          globalLogManager.addLog(this.name, 'error', errorMsg, 'system');
+          throw UpstreamError.notDispatched(errorMsg);
+        }
+      });
     }
     
     if (!this.process?.stdin) {
       const errorMsg = `Not connected to ${this.name}`;
       globalLogManager.addLog(this.name, 'error', errorMsg, 'system');
-      throw new Error(errorMsg);
+      throw UpstreamError.notDispatched(errorMsg);
     }
 
     const startTime = Date.now();
+    // Removed once the request settles so long-lived signals do not collect listeners
+    const onAbort = () => this.cancelRequest(request.id, options!.signal!.reason);
     return new Promise<MCPResponse>((resolve, reject) => {
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(request.id);
-        const timeoutMsg = `Request timeout for ${this.name} (method: ${request.method}, timeout: ${this.config.timeout || 30000}ms)`;
+        const timeoutMsg = `Request timeout for ${this.name} (method: ${request.method}, timeout: ${options?.timeout || this.config.timeout || 30000}ms)`;
         globalLogManager.addLog(this.name, 'error', timeoutMsg, 'system');
         reject(new Error(timeoutMsg));
-      }, this.config.timeout || 30000);
+      }, options?.timeout || this.config.timeout || 30000);
 
       this.pendingRequests.set(request.id, {
         resolve: (response: MCPResponse) => {
@@ -442,11 +643,19 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
         timeout
       });
 
+      if (options?.signal) {
+        if (options.signal.aborted) {
+          this.cancelRequest(request.id, options.signal.reason);
+          return;
+        }
+        options.signal.addEventListener('abort', onAbort, { once: true });
+      }
+
       try {
         const requestStr = JSON.stringify(request) + '\n';
-        console.error(`[${this.name}] DEBUG: Writing to stdin - length: ${requestStr.length}`);
+        this.log.debug(`Writing to stdin - length: ${requestStr.length}`);
         this.process!.stdin!.write(requestStr);
-        console.error(`[${this.name}] DEBUG: Successfully wrote to stdin`);
+        this.log.debug(`Successfully wrote to stdin`);
       } catch (error) {
         this.pendingRequests.delete(request.id);
         clearTimeout(timeout);
@@ -454,7 +663,34 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
         globalLogManager.addLog(this.name, 'error', errorMsg, 'system');
         reject(new Error(errorMsg));
       }
+    }).finally(() => options?.signal?.removeEventListener('abort', onAbort));
+  }
+
+  async sendResponse(response: MCPResponse): Promise<void> {
+    if (!this.process?.stdin) {
+      throw new Error(`Not connected to ${this.name}`);
+    }
+
+    this.process.stdin.write(JSON.stringify(response) + '\n');
+  }
+
+  // Reject a pending request locally and tell the upstream server to stop working on it
+  private cancelRequest(requestId: string | number, reason?: any): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) {
+      return;
+    }
+
+    this.pendingRequests.delete(requestId);
+    clearTimeout(pending.timeout);
+    const reasonText = typeof reason === 'string' ? reason : undefined;
+    this.sendNotification({
+      jsonrpc: '2.0',
+      method: 'notifications/cancelled',
+      params: { requestId, ...(reasonText && { reason: reasonText }) }
     });
+    globalLogManager.addLog(this.name, 'info', `Request cancelled (ID: ${requestId}${reasonText ? `, reason: ${reasonText}` : ''})`, 'system');
+    pending.reject(new Error(`Request cancelled${reasonText ? `: ${reasonText}` : ''}`));
   }
 
   private sendNotification(notification: any): void {
@@ -466,7 +702,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       const notificationStr = JSON.stringify(notification) + '\n';
       this.process.stdin.write(notificationStr);
     } catch (error) {
-      console.error(`Failed to send notification to ${this.name}:`, error);
+      this.log.error(`Failed to send notification to ${this.name}:`, error);
     }
   }
 
@@ -488,7 +724,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
           }
         }, 2000);
       } catch (error) {
-        console.error(`Error killing process for ${this.name}:`, error);
+        this.log.error(`Error killing process for ${this.name}:`, error);
       }
       
       this.process = undefined;
@@ -537,7 +773,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
   // Manually clear blacklist (admin function)
   clearBlacklist(): void {
     if (this.isBlacklisted) {
-      console.error(`🟢 Manually clearing blacklist for ${this.name}`);
+      this.log.info(`Manually clearing blacklist for ${this.name}`);
       this.isBlacklisted = false;
       this.blacklistUntil = 0;
       this.crashCount = 0;
@@ -552,6 +788,8 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     crashHistory: string[];
     isBlacklisted: boolean;
     nextAttemptIn?: number;
+    lifetimeCrashes: number;
+    reconnectAttempts: number;
   } {
     const now = Date.now();
     return {
@@ -559,7 +797,9 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       recentCrashes: this.crashHistory.length,
       crashHistory: this.crashHistory.map(time => new Date(time).toISOString()),
       isBlacklisted: this.isBlacklisted,
-      nextAttemptIn: this.isBlacklisted ? Math.max(0, this.blacklistUntil - now) : undefined
+      nextAttemptIn: this.isBlacklisted ? Math.max(0, this.blacklistUntil - now) : undefined,
+      lifetimeCrashes: this.lifetimeCrashes,
+      reconnectAttempts: this.reconnectAttempts
     };
   }
 
@@ -574,7 +814,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     
     // If blacklist time has passed, remove from blacklist
     if (this.isBlacklisted && now >= this.blacklistUntil) {
-      console.error(`🟢 ${this.name} removed from blacklist, allowing reconnection`);
+      this.log.info(`${this.name} removed from blacklist, allowing reconnection`);
       this.isBlacklisted = false;
       this.blacklistUntil = 0;
       // Reset some statistics
@@ -588,12 +828,12 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       // More than 5 crashes in 5 minutes, blacklist for 30 minutes
       this.isBlacklisted = true;
       this.blacklistUntil = now + 30 * 60 * 1000; // 30 minutes
-      console.error(`🔴 ${this.name} blacklisted for 30 minutes due to ${recentCrashes} crashes in 5 minutes`);
+      this.log.warn(`${this.name} blacklisted for 30 minutes due to ${recentCrashes} crashes in 5 minutes`);
     } else if (recentCrashes >= 3) {
       // More than 3 crashes in 5 minutes, blacklist for 10 minutes
       this.isBlacklisted = true;
       this.blacklistUntil = now + 10 * 60 * 1000; // 10 minutes
-      console.error(`🟡 ${this.name} blacklisted for 10 minutes due to ${recentCrashes} crashes in 5 minutes`);
+      this.log.warn(`${this.name} blacklisted for 10 minutes due to ${recentCrashes} crashes in 5 minutes`);
     }
   }
 
@@ -601,7 +841,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
   private shouldAttemptReconnect(signal: string | null): boolean {
     // If server is disabled, should not auto-reconnect
     if (this.isDisabled) {
-      console.error(`❌ ${this.name} is disabled, no auto-reconnect`);
+      this.log.warn(`${this.name} is disabled, no auto-reconnect`);
       return false;
     }
 
@@ -614,7 +854,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     const now = Date.now();
     if (this.isBlacklisted && now < this.blacklistUntil) {
       const remainingMinutes = Math.ceil((this.blacklistUntil - now) / (60 * 1000));
-      console.error(`❌ ${this.name} is blacklisted for ${remainingMinutes} more minutes, no auto-reconnect`);
+      this.log.warn(`${this.name} is blacklisted for ${remainingMinutes} more minutes, no auto-reconnect`);
       return false;
     }
 
@@ -625,7 +865,7 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       
       // If two crashes are less than 30 seconds apart, pause reconnect
       if (timeBetweenCrashes < 30 * 1000) {
-        console.error(`⏸️ ${this.name} crashing too quickly (${Math.round(timeBetweenCrashes/1000)}s apart), pausing auto-reconnect`);
+        this.log.warn(`${this.name} crashing too quickly (${Math.round(timeBetweenCrashes/1000)}s apart), pausing auto-reconnect`);
         return false;
       }
     }
@@ -667,35 +907,41 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     }
 
     this.isRecovering = true;
-    console.error(`🔧 ${this.name} attempting recovery (attempt ${this.crashCount})`);
+    this.reconnectAttempts++;
+    this.log.info(`${this.name} attempting recovery (attempt ${this.crashCount})`);
 
-    try {
-      // Clean up old state
-      this.cleanup();
-      
-      // Wait a bit for system resources to be released
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      // Try to reconnect
-      await this.connect();
-      
-      console.error(`✅ ${this.name} recovered successfully`);
-      
-      // Reset crash counter (after successful connection)
-      if (this.isConnected) {
-        this.crashCount = Math.max(0, this.crashCount - 1);
+    // Recovery follows a crash, not the request that happened to start the process, so it starts its own trace
+    const attributes = { 'mcpdog.server': this.name, 'mcpdog.reconnect_attempt': this.reconnectAttempts };
+    await globalTracer.trace('reconnect', { root: true, attributes }, async span => {
+      try {
+        // Clean up old state
+        this.cleanup();
+        
+        // Wait a bit for system resources to be released
+        await new Promise(resolve => setTimeout(resolve, 1000));
+        
+        // Try to reconnect
+        await this.connect();
+        
+        this.log.info(`${this.name} recovered successfully`);
+        
+        // Reset crash counter (after successful connection)
+        if (this.isConnected) {
+          this.crashCount = Math.max(0, this.crashCount - 1);
+        }
+        
+      } catch (error) {
+        span.setError(error);
+        this.log.error(`${this.name} recovery failed:`, (error as Error).message);
+      } finally {
+        this.isRecovering = false;
       }
-      
-    } catch (error) {
-      console.error(`❌ ${this.name} recovery failed:`, (error as Error).message);
-    } finally {
-      this.isRecovering = false;
-    }
+    });
   }
 
   // Manually trigger recovery (for external calls)
   async forceReconnect(): Promise<void> {
-    console.error(`🔄 Force reconnecting ${this.name}...`);
+    this.log.info(`Force reconnecting ${this.name}...`);
     this.crashCount = 0; // Reset counter
     await this.disconnect();
     await this.attemptRecovery();
@@ -703,13 +949,13 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
 
   // Disable adapter, prevent auto-reconnect
   disable(): void {
-    console.error(`🚫 Disabling ${this.name} - no auto-reconnect`);
+    this.log.info(`Disabling ${this.name} - no auto-reconnect`);
     this.isDisabled = true;
   }
 
   // Re-enable adapter, allow auto-reconnect
   enable(): void {
-    console.error(`✅ Enabling ${this.name} - auto-reconnect allowed`);
+    this.log.info(`Enabling ${this.name} - auto-reconnect allowed`);
     this.isDisabled = false;
   }
 
@@ -720,15 +966,15 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     const configEnv = this.config.env;
     
     if (!configEnv || Object.keys(configEnv).length === 0) {
-      console.error(`[${this.name}] 🔧 No custom environment variables configured`);
+      this.log.debug(`No custom environment variables configured`);
       return;
     }
 
-    console.error(`[${this.name}] 🔧 Environment Variables Configuration:`);
+    this.log.debug(`Environment Variables Configuration:`);
     
     // Statistics
     const envKeys = Object.keys(configEnv);
-    console.error(`[${this.name}] 📊 Total custom environment variables: ${envKeys.length}`);
+    this.log.debug(`Total custom environment variables: ${envKeys.length}`);
     
     // Detailed log (safely, without showing sensitive values)
     envKeys.forEach(key => {
@@ -736,11 +982,11 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
       const isSensitive = this.isSensitiveEnvVar(key);
       
       if (isSensitive) {
-        console.error(`[${this.name}] 🔐 ${key}=[REDACTED] (${value.length} chars, sensitive)`);
+        this.log.debug(`${key}=[REDACTED] (${value.length} chars, sensitive)`);
       } else {
         // For non-sensitive variables, also limit display length
         const displayValue = value.length > 50 ? `${value.substring(0, 47)}...` : value;
-        console.error(`[${this.name}] 🔧 ${key}=${displayValue}`);
+        this.log.debug(`${key}=${displayValue}`);
       }
     });
 
@@ -749,14 +995,14 @@ export class StdioAdapter extends EventEmitter implements ServerAdapter {
     const overriddenKeys = envKeys.filter(key => systemEnvKeys.includes(key));
     
     if (overriddenKeys.length > 0) {
-      console.error(`[${this.name}] ⚠️  Overriding ${overriddenKeys.length} system environment variables: ${overriddenKeys.join(', ')}`);
+      this.log.warn(`Overriding ${overriddenKeys.length} system environment variables: ${overriddenKeys.join(', ')}`);
     }
 
     // Working directory information
     if (this.config.cwd) {
-      console.error(`[${this.name}] 📁 Working directory: ${this.config.cwd}`);
+      this.log.debug(`Working directory: ${this.config.cwd}`);
     } else {
-      console.error(`[${this.name}] 📁 Working directory: ${process.cwd()} (default)`);
+      this.log.debug(`Working directory: ${process.cwd()} (default)`);
     }
   }
 
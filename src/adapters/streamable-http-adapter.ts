@@ -1,19 +1,31 @@
 import { EventEmitter } from 'events';
 import axios, { AxiosInstance } from 'axios';
-import { MCPServerConfig, MCPTool, MCPRequest, MCPResponse, ServerAdapter } from '../types/index.js';
+import { MCPServerConfig, MCPTool, MCPRequest, MCPResponse, MCPResource, MCPResourceTemplate, MCPPrompt, ServerAdapter, RequestOptions, ToolCallOptions, RequestQueueStats, CircuitBreakerStats, MCPLogLevel } from '../types/index.js';
+import { ProtocolVersion } from '../utils/protocol-version.js';
+import { MCPDOG_VERSION } from '../utils/package-info.js';
+import { RequestQueue } from '../utils/request-queue.js';
+import { CircuitBreaker } from '../utils/circuit-breaker.js';
+import { UpstreamError } from '../utils/upstream-error.js';
+import { globalTracer, Tracer } from '../tracing/tracer.js';
+import { globalLogger, ComponentLogger } from '../logging/logger.js';
 
 export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter {
   public readonly name: string;
+  private readonly log: ComponentLogger;
   public readonly config: MCPServerConfig;
   public isConnected: boolean = false;
 
   private httpClient: AxiosInstance;
   private requestId: number = 1;
+  private serverCapabilities: Record<string, any> = {}; // Capabilities advertised by the upstream server
+  public protocolVersion?: string; // Negotiated during initialize
   private pendingRequests: Map<string | number, {
     resolve: (value: MCPResponse) => void;
     reject: (error: Error) => void;
     timeout: NodeJS.Timeout;
   }> = new Map();
+  private requestQueue: RequestQueue; // Enforces maxConcurrentRequests / queueTimeout
+  private circuitBreaker: CircuitBreaker; // Fails fast while the server keeps erroring
 
   private endpoint: string;
   private endpointPath: string = '/'; // Path part of the endpoint URL
@@ -23,7 +35,12 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
   constructor(name: string, config: MCPServerConfig) {
     super();
     this.name = name;
+    this.log = globalLogger.child(`adapter:${name}`);
     this.config = config;
+    this.requestQueue = new RequestQueue(name, () => this.config);
+    this.circuitBreaker = new CircuitBreaker(name, () => this.config, transition => {
+      this.emit('circuit-state-changed', { serverName: this.name, ...transition });
+    });
 
     if (config.transport !== 'streamable-http') {
       throw new Error(`Invalid transport for StreamableHttpAdapter: ${config.transport}`);
@@ -67,14 +84,14 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
     }
 
     try {
-      console.error(`Connecting to ${this.name} via Streamable HTTP: ${this.endpoint}`);
+      this.log.info(`Connecting to ${this.name} via Streamable HTTP: ${this.endpoint}`);
 
       // 1. Initialize handshake
       await this.initialize();
 
       // Mark as connected, let router manage tool list fetching
       this.isConnected = true;
-      console.error(`Connected to ${this.name}`);
+      this.log.info(`Connected to ${this.name}`);
       this.emit('connected', { serverName: this.name });
 
     } catch (error) {
@@ -87,7 +104,7 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
       return;
     }
 
-    console.error(`Disconnecting from ${this.name}`);
+    this.log.info(`Disconnecting from ${this.name}`);
     
     // Cancel all pending requests
     for (const [id, pending] of this.pendingRequests) {
@@ -95,9 +112,10 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
       pending.reject(new Error('Connection closed'));
     }
     this.pendingRequests.clear();
+    this.requestQueue.clear('Connection closed');
 
     this.isConnected = false;
-    console.error(`Disconnected from ${this.name}`);
+    this.log.info(`Disconnected from ${this.name}`);
     this.emit('disconnected', { serverName: this.name });
   }
 
@@ -107,15 +125,18 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
       id: this.getNextRequestId(),
       method: 'initialize',
       params: {
-        protocolVersion: '2024-11-05',
+        protocolVersion: ProtocolVersion.LATEST,
         capabilities: {
           tools: {},
           prompts: {},
-          resources: {}
+          resources: {},
+          roots: {},
+          elicitation: {},
+          ...(this.config.sampling?.enabled !== false && { sampling: {} })
         },
         clientInfo: {
-          name: 'MCPClient',
-          version: '1.0.0'
+          name: 'mcpdog',
+          version: MCPDOG_VERSION
         }
       }
     };
@@ -126,10 +147,19 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
       throw new Error(`Initialize failed: ${response.error.message}`);
     }
 
+    this.serverCapabilities = response.result?.capabilities || {};
+
+    // The server answers with the revision it will speak, which may be older than ours
+    const protocolVersion: string = response.result?.protocolVersion || ProtocolVersion.LATEST;
+    this.protocolVersion = protocolVersion;
+    if (!ProtocolVersion.isSupported(protocolVersion)) {
+      this.log.warn(`${this.name} uses unsupported protocol version ${protocolVersion}, continuing anyway`);
+    }
+
     // Check for session ID (get from extended properties)
     if ((response as any).sessionId) {
       this.sessionId = (response as any).sessionId;
-      console.error(`Received session ID for ${this.name}: ${this.sessionId}`);
+      this.log.debug(`Received session ID for ${this.name}: ${this.sessionId}`);
     }
 
     // Send initialized notification (some servers like GitHub Copilot may not support this)
@@ -138,9 +168,9 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
         jsonrpc: '2.0',
         method: 'notifications/initialized'
       });
-      console.error(`Sent initialized notification to ${this.name}`);
+      this.log.debug(`Sent initialized notification to ${this.name}`);
     } catch (error) {
-      console.warn(`Failed to send initialized notification to ${this.name} (this is normal for some servers like GitHub Copilot):`, (error as Error).message);
+      this.log.warn(`Failed to send initialized notification to ${this.name} (this is normal for some servers like GitHub Copilot):`, (error as Error).message);
       // Don't throw error - some servers don't support this notification
     }
   }
@@ -163,30 +193,170 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
     return response.result?.tools || [];
   }
 
-  async callTool(name: string, args: any): Promise<MCPResponse> {
+  async callTool(name: string, args: any, options?: ToolCallOptions): Promise<MCPResponse> {
     const request: MCPRequest = {
       jsonrpc: '2.0',
       id: this.getNextRequestId(),
       method: 'tools/call',
       params: {
         name,
-        arguments: args
+        arguments: args,
+        ...(options?.progressToken !== undefined && { _meta: { progressToken: options.progressToken } })
       }
     };
 
-    return this.sendRequest(request);
+    return this.sendRequest(request, options);
+  }
+
+  async getResources(): Promise<MCPResource[]> {
+    if (!this.serverCapabilities.resources) {
+      return [];
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/list',
+      params: {}
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to get resources: ${response.error.message}`);
+    }
+
+    return response.result?.resources || [];
+  }
+
+  async getResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    if (!this.serverCapabilities.resources) {
+      return [];
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/templates/list',
+      params: {}
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to get resource templates: ${response.error.message}`);
+    }
+
+    return response.result?.resourceTemplates || [];
+  }
+
+  async readResource(uri: string): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/read',
+      params: { uri }
+    });
+  }
+
+  async subscribeResource(uri: string): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/subscribe',
+      params: { uri }
+    });
+  }
+
+  async unsubscribeResource(uri: string): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'resources/unsubscribe',
+      params: { uri }
+    });
+  }
+
+  async getPrompts(): Promise<MCPPrompt[]> {
+    if (!this.serverCapabilities.prompts) {
+      return [];
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'prompts/list',
+      params: {}
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to get prompts: ${response.error.message}`);
+    }
+
+    return response.result?.prompts || [];
+  }
+
+  async getPrompt(name: string, args?: Record<string, string>): Promise<MCPResponse> {
+    return this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'prompts/get',
+      params: {
+        name,
+        arguments: args || {}
+      }
+    });
+  }
+
+  async setLogLevel(level: MCPLogLevel): Promise<void> {
+    if (!this.serverCapabilities.logging) {
+      return;
+    }
+
+    const response = await this.sendRequest({
+      jsonrpc: '2.0',
+      id: this.getNextRequestId(),
+      method: 'logging/setLevel',
+      params: { level }
+    });
+
+    if (response.error) {
+      throw new Error(`Failed to set log level: ${response.error.message}`);
+    }
   }
 
-  async sendRequest(request: MCPRequest): Promise<MCPResponse> {
+  async sendRequest(request: MCPRequest, options?: RequestOptions): Promise<MCPResponse> {
+    return globalTracer.traceUpstream(this.name, 'streamable-http', request, (tracedRequest, span) => {
+      // initialize must not wait behind the requests that depend on it
+      if (tracedRequest.method === 'initialize') {
+        return this.dispatchRequest(tracedRequest, options);
+      }
+      this.circuitBreaker.check(); // Fail fast before taking a queue slot
+      return this.requestQueue.run(
+        () => this.circuitBreaker.run(() => {
+          span.addEvent('dequeued');
+          return this.dispatchRequest(tracedRequest, options);
+        }, options),
+        options?.signal
+      );
+    });
+  }
+
+  getQueueStats(): RequestQueueStats {
+    return this.requestQueue.getStats();
+  }
+
+  getCircuitStats(): CircuitBreakerStats {
+    return this.circuitBreaker.getStats();
+  }
+
+  private async dispatchRequest(request: MCPRequest, options?: RequestOptions): Promise<MCPResponse> {
     if (!this.isConnected && request.method !== 'initialize') {
-      throw new Error(`Not connected to ${this.name}`);
+      throw UpstreamError.notDispatched(`Not connected to ${this.name}`);
     }
 
+    const onAbort = () => this.cancelRequest(request.id, options!.signal!.reason);
     return new Promise<MCPResponse>(async (resolve, reject) => {
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(request.id);
         reject(new Error(`Request timeout for ${this.name}`));
-      }, this.config.timeout || 30000);
+      }, options?.timeout || this.config.timeout || 30000);
 
       this.pendingRequests.set(request.id, {
         resolve,
@@ -194,37 +364,53 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
         timeout
       });
 
+      if (options?.signal) {
+        if (options.signal.aborted) {
+          this.cancelRequest(request.id, options.signal.reason);
+          return;
+        }
+        options.signal.addEventListener('abort', onAbort, { once: true });
+      }
+
       try {
-        console.error(`Sending request to ${this.name}: ${request.method}`);
+        this.log.debug(`Sending request to ${this.name}: ${request.method}`);
         
-        // Prepare request headers, including session info (if any)
-        const requestHeaders: Record<string, string> = {};
+        // Prepare request headers: session info (if any) and the trace context also carried in _meta
+        const requestHeaders: Record<string, string> = Tracer.headersFor(request);
         if (this.sessionId && this.sessionMode !== 'disabled') {
           requestHeaders['Mcp-Session-Id'] = this.sessionId;
         }
+        if (this.protocolVersion && ProtocolVersion.supports(this.protocolVersion, 'protocolVersionHeader')) {
+          requestHeaders['MCP-Protocol-Version'] = this.protocolVersion;
+        }
         
         // Send HTTP POST request to the correct endpoint path
         const response = await this.httpClient.post(this.endpointPath, request, {
           headers: requestHeaders,
-          responseType: 'text' // Receive raw text to handle SSE
+          responseType: 'stream', // Stream so SSE messages (e.g. progress) are handled as they arrive
+          signal: options?.signal,
+          ...(options?.timeout && { timeout: options.timeout })
         });
         
         // Handle response
         await this.handleResponse(response, request.id);
         
       } catch (error) {
+        if (!this.pendingRequests.has(request.id)) {
+          return; // Already settled (e.g. cancelled while the POST was in flight)
+        }
         this.pendingRequests.delete(request.id);
         clearTimeout(timeout);
         
         // Check for session-related errors
         if ((error as any).response?.status === 404 && this.sessionId) {
-          console.error(`Session expired for ${this.name}, sessionId: ${this.sessionId}`);
+          this.log.info(`Session expired for ${this.name}, sessionId: ${this.sessionId}`);
           this.sessionId = undefined;
         }
         
-        reject(new Error(`Failed to send request to ${this.name}: ${(error as Error).message}`));
+        reject(UpstreamError.fromHttp(`Failed to send request to ${this.name}: ${(error as Error).message}`, error));
       }
-    });
+    }).finally(() => options?.signal?.removeEventListener('abort', onAbort));
   }
 
   private async handleResponse(response: any, requestId: string | number): Promise<void> {
@@ -238,7 +424,7 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
       const sessionId = response.headers['mcp-session-id'];
       if (sessionId) {
         this.sessionId = sessionId;
-        console.error(`Extracted session ID from response headers for ${this.name}: ${this.sessionId}`);
+        this.log.debug(`Extracted session ID from response headers for ${this.name}: ${this.sessionId}`);
       }
 
       const contentType = response.headers['content-type'] || '';
@@ -248,55 +434,94 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
         await this.handleSSEResponse(response.data, requestId);
       } else if (contentType.includes('application/json')) {
         // Handle single JSON response
-        const jsonResponse = typeof response.data === 'string' 
-          ? JSON.parse(response.data) 
-          : response.data;
+        const jsonResponse = JSON.parse(await this.readStream(response.data));
         
         this.handleJSONResponse(jsonResponse, requestId);
       } else {
         throw new Error(`Unsupported response content type: ${contentType}`);
       }
     } catch (error) {
-      pending.reject(new Error(`Failed to handle response: ${(error as Error).message}`));
+      // The server answered, so it may have run the request even though its answer was unusable
+      pending.reject(UpstreamError.fromHttp(`Failed to handle response: ${(error as Error).message}`, { response }));
       this.pendingRequests.delete(requestId);
       clearTimeout(pending.timeout);
     }
   }
 
-  private async handleSSEResponse(sseData: string, requestId: string | number): Promise<void> {
-    const lines = sseData.split('\n');
+  private handleSSEResponse(stream: NodeJS.ReadableStream, requestId: string | number): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      let buffer = '';
+
+      stream.on('data', (chunk: Buffer | string) => {
+        buffer += chunk.toString();
+        // Events are separated by a blank line; keep the trailing partial event buffered
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop() || '';
+        for (const event of events) {
+          this.handleSSEEvent(event, requestId);
+        }
+      });
+      stream.on('end', () => {
+        if (buffer.trim()) {
+          this.handleSSEEvent(buffer, requestId);
+        }
+        resolve();
+      });
+      stream.on('error', reject);
+    });
+  }
+
+  private handleSSEEvent(event: string, requestId: string | number): void {
     let eventType = 'message';
-    let data = '';
+    const dataLines: string[] = [];
 
-    for (const line of lines) {
+    for (const line of event.split(/\r?\n/)) {
       if (line.startsWith('event:')) {
         eventType = line.substring(6).trim();
       } else if (line.startsWith('data:')) {
-        data = line.substring(5).trim();
-        
-        if (eventType === 'message' && data) {
-          try {
-            const message = JSON.parse(data);
-            
-            // Check for session ID
-            if ((message as any).sessionId) {
-              this.sessionId = (message as any).sessionId;
-              console.error(`Updated session ID for ${this.name}: ${this.sessionId}`);
-            }
-            
-            // Handle MCP response
-            if (message.id === requestId) {
-              this.handleJSONResponse(message, requestId);
-            } else if (message.method) {
-              // Handle server-pushed notifications
-              this.handleServerNotification(message);
-            }
-          } catch (error) {
-            console.error(`Failed to parse SSE data from ${this.name}:`, data);
-          }
-        }
+        dataLines.push(line.substring(5).trim());
       }
     }
+
+    const data = dataLines.join('\n');
+    if (eventType !== 'message' || !data) {
+      return;
+    }
+
+    try {
+      const message = JSON.parse(data);
+      
+      // Check for session ID
+      if ((message as any).sessionId) {
+        this.sessionId = (message as any).sessionId;
+        this.log.debug(`Updated session ID for ${this.name}: ${this.sessionId}`);
+      }
+      
+      // Handle MCP response
+      if (message.method && message.id !== undefined) {
+        // Request from the server (sampling, elicitation, roots) related to this call
+        this.log.debug(`Received server request from ${this.name}:`, message.method);
+        this.emit('server-request', { serverName: this.name, request: message });
+      } else if (message.id === requestId) {
+        this.handleJSONResponse(message, requestId);
+      } else if (message.method) {
+        // Handle server-pushed notifications
+        this.handleServerNotification(message);
+      }
+    } catch (error) {
+      this.log.error(`Failed to parse SSE data from ${this.name}:`, data);
+    }
+  }
+
+  private readStream(stream: NodeJS.ReadableStream): Promise<string> {
+    return new Promise<string>((resolve, reject) => {
+      let body = '';
+      stream.on('data', (chunk: Buffer | string) => {
+        body += chunk.toString();
+      });
+      stream.on('end', () => resolve(body));
+      stream.on('error', reject);
+    });
   }
 
   private handleJSONResponse(message: MCPResponse, requestId: string | number): void {
@@ -308,7 +533,7 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
       // Check session ID in response headers
       if ((message as any).sessionId) {
         this.sessionId = (message as any).sessionId;
-        console.error(`Updated session ID from response for ${this.name}: ${this.sessionId}`);
+        this.log.debug(`Updated session ID from response for ${this.name}: ${this.sessionId}`);
       }
       
       pending.resolve(message);
@@ -316,17 +541,58 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
   }
 
   private handleServerNotification(notification: any): void {
-    console.error(`Received server notification from ${this.name}:`, notification.method);
+    this.log.debug(`Received server notification from ${this.name}:`, notification.method);
     
     if (notification.method === 'notifications/tools/list_changed') {
       // Tool list changed, notify router for unified handling  
       this.emit('tools-changed', { serverName: this.name });
     }
+
+    if (notification.method === 'notifications/resources/list_changed') {
+      this.emit('resources-changed', { serverName: this.name });
+    }
+
+    if (notification.method === 'notifications/prompts/list_changed') {
+      this.emit('prompts-changed', { serverName: this.name });
+    }
     
     // Forward notification to upper layer
     this.emit('notification', { serverName: this.name, notification });
   }
 
+  async sendResponse(response: MCPResponse): Promise<void> {
+    const requestHeaders: Record<string, string> = {};
+    if (this.sessionId && this.sessionMode !== 'disabled') {
+      requestHeaders['Mcp-Session-Id'] = this.sessionId;
+    }
+    if (this.protocolVersion && ProtocolVersion.supports(this.protocolVersion, 'protocolVersionHeader')) {
+      requestHeaders['MCP-Protocol-Version'] = this.protocolVersion;
+    }
+
+    await this.httpClient.post(this.endpointPath, response, {
+      headers: requestHeaders
+    });
+  }
+
+  // Reject a pending request locally and tell the upstream server to stop working on it
+  private cancelRequest(requestId: string | number, reason?: any): void {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) {
+      return;
+    }
+
+    this.pendingRequests.delete(requestId);
+    clearTimeout(pending.timeout);
+    const reasonText = typeof reason === 'string' ? reason : undefined;
+    this.sendNotification({
+      jsonrpc: '2.0',
+      method: 'notifications/cancelled',
+      params: { requestId, ...(reasonText && { reason: reasonText }) }
+    });
+    this.log.info(`Request ${requestId} to ${this.name} cancelled${reasonText ? `: ${reasonText}` : ''}`);
+    pending.reject(new Error(`Request cancelled${reasonText ? `: ${reasonText}` : ''}`));
+  }
+
   private async sendNotification(notification: any): Promise<void> {
     if (!this.isConnected && notification.method !== 'notifications/initialized') {
       return;
@@ -338,12 +604,15 @@ export class StreamableHttpAdapter extends EventEmitter implements ServerAdapter
       if (this.sessionId && this.sessionMode !== 'disabled') {
         requestHeaders['Mcp-Session-Id'] = this.sessionId;
       }
+      if (this.protocolVersion && ProtocolVersion.supports(this.protocolVersion, 'protocolVersionHeader')) {
+        requestHeaders['MCP-Protocol-Version'] = this.protocolVersion;
+      }
       
       await this.httpClient.post(this.endpointPath, notification, {
         headers: requestHeaders
       });
     } catch (error) {
-      console.error(`Failed to send notification to ${this.name}:`, error);
+      this.log.error(`Failed to send notification to ${this.name}:`, error);
     }
   }
 
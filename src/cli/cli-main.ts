@@ -29,12 +29,14 @@ async function main() {
         'http-only': { type: 'boolean' },
         'no-dashboard': { type: 'boolean' },
         port: { type: 'string', short: 'p' },
+        profile: { type: 'string' },
         // Config command options
         endpoint: { type: 'string' },
         transport: { type: 'string' },
         timeout: { type: 'string' },
         retries: { type: 'string' },
         description: { type: 'string' },
+        alias: { type: 'string' },
         // Add command options
         'auto-detect': { type: 'boolean' },
         headers: { type: 'string' },
@@ -45,6 +47,14 @@ async function main() {
         security: { type: 'boolean' },
         compliance: { type: 'boolean' },
         export: { type: 'string' },
+        client: { type: 'string' },
+        server: { type: 'string' },
+        tool: { type: 'string' },
+        status: { type: 'string' },
+        since: { type: 'string' },
+        until: { type: 'string' },
+        search: { type: 'string' },
+        limit: { type: 'string' },
         // Detect command options
         all: { type: 'boolean' },
         detailed: { type: 'boolean' },
@@ -257,10 +257,12 @@ ${CLIUtils.colorize('Examples:', 'yellow')}
 `,
 
       audit: `
-${CLIUtils.colorize('mcpdog audit', 'cyan')} - Configuration audit
+${CLIUtils.colorize('mcpdog audit', 'cyan')} - Configuration audit and tool call log
 
 ${CLIUtils.colorize('Usage:', 'yellow')}
   mcpdog audit [options]
+  mcpdog audit calls [--client <name>] [--server <name>] [--tool <name>] [--status success|error]
+                     [--since <time>] [--until <time>] [--search <text>] [--limit <n>] [--detailed]
 
 ${CLIUtils.colorize('Options:', 'yellow')}
   --performance         Performance analysis
@@ -271,6 +273,7 @@ ${CLIUtils.colorize('Options:', 'yellow')}
 ${CLIUtils.colorize('Examples:', 'yellow')}
   mcpdog audit --performance
   mcpdog audit --security --export json
+  mcpdog audit calls --since 2h --status error
 `
     };
 
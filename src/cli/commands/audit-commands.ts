@@ -2,7 +2,9 @@
  * Configuration Audit CLI Commands
  */
 
+import { dirname } from 'path';
 import { ConfigManager } from '../../config/config-manager.js';
+import { AuditLog, AuditRecord } from '../../logging/audit-log.js';
 import { MCPServerConfig } from '../../types/index.js';
 import { CLIUtils } from '../cli-utils.js';
 
@@ -15,6 +17,11 @@ export class AuditCommands {
       return;
     }
 
+    if (args[0] === 'calls') {
+      await this.queryCalls(options);
+      return;
+    }
+
     const auditType = this.determineAuditType(options);
     
     switch (auditType) {
@@ -32,6 +39,91 @@ export class AuditCommands {
     }
   }
 
+  /**
+   * Read the tool-call audit log directly from disk, so it works whether or not the daemon is running
+   */
+  private async queryCalls(options: Record<string, any>): Promise<void> {
+    const auditLog = new AuditLog(dirname(this.configManager.getConfigPath()), () => this.configManager.getConfig().audit);
+    if (options.status && options.status !== 'success' && options.status !== 'error') {
+      throw new Error('--status must be success or error');
+    }
+    const limit = options.limit !== undefined ? Number(options.limit) : 50;
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error('--limit must be a positive integer');
+    }
+
+    const { records, hasMore } = await auditLog.query({
+      client: options.client,
+      server: options.server,
+      tool: options.tool,
+      status: options.status,
+      since: options.since && this.parseTime(options.since, '--since'),
+      until: options.until && this.parseTime(options.until, '--until'),
+      search: options.search,
+      limit
+    });
+
+    if (CLIUtils.isJsonMode()) {
+      CLIUtils.jsonOutput({ records, hasMore });
+      return;
+    }
+
+    if (!auditLog.isEnabled()) {
+      CLIUtils.warn('Tool-call auditing is disabled; set "audit": { "enabled": true } in the config to record calls');
+    }
+    if (records.length === 0) {
+      CLIUtils.info(`No matching tool calls in ${auditLog.getFilePath()}`);
+      return;
+    }
+
+    if (options.detailed) {
+      records.forEach(record => this.displayCallDetails(record));
+    } else {
+      CLIUtils.printTable(
+        ['Time', 'Client', 'Tool', 'Server', 'Status', 'Duration'],
+        records.map(record => [
+          new Date(record.timestamp).toLocaleString(),
+          record.clientName || record.clientId || '-',
+          record.toolName,
+          record.serverName || '-',
+          record.status === 'success' ? '✅ success' : `❌ ${record.error?.message || 'error'}`.slice(0, 50),
+          `${record.duration}ms`
+        ])
+      );
+    }
+    if (hasMore) {
+      CLIUtils.info(`Showing the ${records.length} most recent matches; use --limit or narrower filters to see more`);
+    }
+  }
+
+  private displayCallDetails(record: AuditRecord): void {
+    const status = record.status === 'success' ? CLIUtils.colorize('success', 'green') : CLIUtils.colorize('error', 'red');
+    console.log(`\n${CLIUtils.colorize(record.timestamp, 'cyan')} ${record.toolName} → ${record.serverName || '-'} [${status}, ${record.duration}ms]`);
+    console.log(`  Client: ${record.clientName || '-'}${record.clientVersion ? ` ${record.clientVersion}` : ''} (${record.clientId || 'unknown session'})${record.profile ? `, profile ${record.profile}` : ''}`);
+    if (record.args !== undefined) {
+      console.log(`  Args:   ${JSON.stringify(record.args)}`);
+    }
+    if (record.error) {
+      console.log(`  Error:  ${record.error.code} ${record.error.message}`);
+    }
+    if (record.result !== undefined) {
+      console.log(`  Result: ${JSON.stringify(record.result)}`);
+    }
+  }
+
+  // Accepts an ISO timestamp or a relative duration such as 30m, 2h or 7d
+  private parseTime(value: string, option: string): string {
+    const relative = /^(\d+)([smhd])$/.exec(value);
+    if (relative) {
+      const unit = { s: 1000, m: 60000, h: 3600000, d: 86400000 }[relative[2] as 's' | 'm' | 'h' | 'd'];
+      return new Date(Date.now() - parseInt(relative[1]) * unit).toISOString();
+    }
+    if (isNaN(Date.parse(value))) {
+      throw new Error(`${option} must be an ISO timestamp or a duration like 30m, 2h or 7d`);
+    }
+    return new Date(value).toISOString();
+  }
+
   private determineAuditType(options: Record<string, any>): string {
     if (options.performance) return 'performance';
     if (options.security) return 'security';
@@ -481,12 +573,26 @@ ${CLIUtils.colorize('Audit Types:', 'yellow')}
 ${CLIUtils.colorize('Options:', 'yellow')}
   --export <format>     Export audit report (json|txt)
 
+${CLIUtils.colorize('Tool Call Log:', 'yellow')}
+  mcpdog audit calls [filters]
+  --client <name>       Client name (clientInfo.name) or session ID
+  --server <name>       Server that handled the call
+  --tool <name>         Tool name as called by the client
+  --status <status>     success or error
+  --since <time>        ISO timestamp or duration (30m, 2h, 7d)
+  --until <time>        ISO timestamp or duration
+  --search <text>       Text anywhere in the record (args, result, error)
+  --limit <n>           Maximum records to show (default 50)
+  --detailed            Show arguments and results
+
 ${CLIUtils.colorize('Examples:', 'yellow')}
   mcpdog audit                           # Full audit
   mcpdog audit --performance             # Performance audit
   mcpdog audit --security                # Security audit
   mcpdog audit --compliance              # Compliance audit
   mcpdog audit --export json             # Export JSON report
+  mcpdog audit calls --since 1h --status error
+  mcpdog audit calls --client claude-desktop --tool read_file --detailed
 `);
   }
 }
\ No newline at end of file
@@ -5,6 +5,7 @@
 import { ConfigManager } from '../../config/config-manager.js';
 import { MCPServerConfig } from '../../types/index.js';
 import { CLIUtils } from '../cli-utils.js';
+import { ToolNamespace } from '../../utils/tool-namespace.js';
 import { createInterface } from 'readline';
 import fs from 'fs/promises';
 
@@ -95,6 +96,9 @@ export class ConfigCommands {
       case 'disable':
         await this.disableServer(subArgs, options);
         break;
+      case 'tool':
+        await this.updateToolSettings(subArgs, options);
+        break;
       case 'validate':
         await this.validateConfig(subArgs, options);
         break;
@@ -401,6 +405,79 @@ export class ConfigCommands {
     }
   }
 
+  private async updateToolSettings(args: string[], options: Record<string, any>): Promise<void> {
+    const [serverName, toolName] = args;
+
+    if (!serverName || !toolName) {
+      CLIUtils.error('使用方法: mcpdog config tool <server> <tool> [--alias <name>] [--description <text>]');
+      return;
+    }
+
+    const server = this.configManager.getServer(serverName);
+    if (!server) {
+      CLIUtils.error(`服务器 '${serverName}' 不存在`);
+      return;
+    }
+
+    const current = server.toolsConfig?.toolSettings?.[toolName];
+
+    // 未指定选项时只显示当前设置
+    if (options.alias === undefined && options.description === undefined) {
+      if (CLIUtils.isJsonMode()) {
+        CLIUtils.jsonOutput(current || {});
+        return;
+      }
+      CLIUtils.info(`${serverName}/${toolName}`);
+      CLIUtils.info(`  别名: ${current?.alias || '-'}`);
+      CLIUtils.info(`  描述: ${current?.description || '-'}`);
+      return;
+    }
+
+    // 别名不能与其他已配置的别名或工具名重复（上游工具名的冲突由路由器在运行时检测）
+    const alias = options.alias as string | undefined;
+    if (alias && !ToolNamespace.isValidName(alias)) {
+      CLIUtils.error(`别名 '${alias}' 无效：只能包含字母、数字、_、- 和 .（最多 128 个字符）`);
+      process.exit(1);
+    }
+    if (alias) {
+      for (const [otherServer, config] of Object.entries(this.configManager.getServers())) {
+        for (const [otherTool, settings] of Object.entries(config.toolsConfig?.toolSettings || {})) {
+          if (otherServer === serverName && otherTool === toolName) continue;
+          if (settings.alias === alias || (otherTool === alias && !settings.alias)) {
+            CLIUtils.error(`别名 '${alias}' 与 ${otherServer}/${otherTool} 冲突`);
+            process.exit(1);
+          }
+        }
+      }
+    }
+
+    try {
+      const toolsConfig = server.toolsConfig || { mode: 'all' as const };
+      const settings = { enabled: current?.enabled ?? toolsConfig.mode !== 'whitelist', ...current };
+
+      // 空字符串表示清除覆盖
+      if (options.alias !== undefined) settings.alias = alias || undefined;
+      if (options.description !== undefined) settings.description = options.description || undefined;
+
+      await this.configManager.updateServer(serverName, {
+        toolsConfig: {
+          ...toolsConfig,
+          toolSettings: { ...toolsConfig.toolSettings, [toolName]: settings }
+        }
+      });
+      await this.configManager.saveConfig();
+      CLIUtils.success(`✅ 工具 '${serverName}/${toolName}' 设置已更新`);
+
+      if (!CLIUtils.isJsonMode()) {
+        CLIUtils.info(`  别名: ${settings.alias || '-'}`);
+        CLIUtils.info(`  描述: ${settings.description || '-'}`);
+      }
+    } catch (error) {
+      CLIUtils.error(`更新工具设置失败: ${(error as Error).message}`);
+      process.exit(1);
+    }
+  }
+
   private async generateMCPConfig(args: string[], options: Record<string, any>): Promise<void> {
     const config = this.configManager.getConfig();
     const servers = this.configManager.getServers();
@@ -799,7 +876,10 @@ Validating configuration file: ${CLIUtils.colorize(configPath, 'yellow')}
     // 4. 验证Web配置
     this.validateWebConfig(config.web, validationResults);
 
-    // 5. 检查可能的最佳实践问题
+    // 5. 验证工具命名（命名空间策略和别名）
+    this.validateToolNaming(config, validationResults);
+
+    // 6. 检查可能的最佳实践问题
     this.validateBestPractices(config, validationResults);
 
     // 显示结果
@@ -1020,6 +1100,43 @@ ${CLIUtils.colorize('Summary:', 'cyan')}
     }
   }
 
+  private validateToolNaming(config: any, results: ValidationResult[]): void {
+    const strategies: Array<[string, string]> = [];
+    if (config.toolNamespacing) {
+      strategies.push(['global', config.toolNamespacing]);
+    }
+    for (const [name, server] of Object.entries(config.servers || {}) as Array<[string, any]>) {
+      if (server.toolNamespacing) {
+        strategies.push([name, server.toolNamespacing]);
+      }
+    }
+
+    for (const [scope, strategy] of strategies) {
+      const error = ToolNamespace.validateStrategy(strategy);
+      results.push({
+        category: 'Tool Naming',
+        test: `Namespacing (${scope})`,
+        status: error ? 'error' : 'pass',
+        message: error || `Strategy "${strategy}" is valid`,
+        suggestion: error ? 'Use never, on-conflict, always or a template such as "{server}__{tool}"' : undefined
+      });
+    }
+
+    for (const [name, server] of Object.entries(config.servers || {}) as Array<[string, any]>) {
+      for (const [toolName, settings] of Object.entries(server.toolsConfig?.toolSettings || {}) as Array<[string, any]>) {
+        if (settings.alias && !ToolNamespace.isValidName(settings.alias)) {
+          results.push({
+            category: 'Tool Naming',
+            test: `Alias (${name}/${toolName})`,
+            status: 'error',
+            message: `Invalid alias: ${settings.alias}`,
+            suggestion: 'Tool names may only contain letters, digits, _, - and . (at most 128 characters)'
+          });
+        }
+      }
+    }
+  }
+
   private validateBestPractices(config: any, results: ValidationResult[]): void {
     const servers = config.servers || {};
     const enabledServers = Object.values(servers).filter((s: any) => s.enabled);
@@ -1098,6 +1215,7 @@ ${CLIUtils.colorize('子命令:', 'yellow')}
   show <name>             显示服务器详情
   enable <name>           启用服务器
   disable <name>          禁用服务器
+  tool <server> <tool>    查看或设置工具别名和描述
   mcp-config              生成MCP客户端配置
 
 ${CLIUtils.colorize('add命令选项:', 'yellow')}
@@ -1116,12 +1234,17 @@ ${CLIUtils.colorize('update命令选项:', 'yellow')}
   --retries <num>        更新重试次数
   --description <text>   更新描述信息
 
+${CLIUtils.colorize('tool命令选项:', 'yellow')}
+  --alias <name>         设置工具别名 (空字符串清除)
+  --description <text>   设置自定义描述 (空字符串清除)
+
 ${CLIUtils.colorize('示例:', 'yellow')}
   mcpdog config list
   mcpdog config add my-api https://api.example.com --auto-detect
   mcpdog config add stdio-server "node server.js" --transport stdio
   mcpdog config show my-api
   mcpdog config update my-api --timeout 60000
+  mcpdog config tool playwright browser_navigate --alias open_page
   mcpdog config remove old-server
   mcpdog config mcp-config                      # 生成MCP客户端配置
 `);
@@ -264,7 +264,8 @@ ${CLIUtils.colorize('Daemon Info:', 'cyan')}
 
 ${CLIUtils.colorize('MCP Server Status:', 'cyan')}
   🚀 Initialized: ${mcpServer.initialized ? '✅ Yes' : '❌ No'}
-  🎯 Client: ${mcpServer.client?.clientName || 'Unknown'} v${mcpServer.client?.clientVersion || 'Unknown'}
+  🎯 Sessions: ${this.formatSessions(mcpServer.sessions || [])}
+  💾 Result cache: ${this.formatCache(mcpServer.cache)}
 
 ${CLIUtils.colorize('MCP Servers:', 'cyan')}`);
 
@@ -272,9 +273,14 @@ ${CLIUtils.colorize('MCP Servers:', 'cyan')}`);
       console.log('  📭 No MCP servers configured');
     } else {
       servers.forEach((server: any) => {
-        const status = server.connected ? '✅' : '❌';
+        const status = server.connected ? '✅' : server.standby ? '💤' : '❌';
         const toolCount = server.toolCount || 0;
-        console.log(`  ${status} ${server.name} (${toolCount} tools)`);
+        const protocol = server.protocolVersion ? `, protocol ${server.protocolVersion}` : '';
+        const circuit = server.circuit && server.circuit.state !== 'closed'
+          ? ` ⚡ circuit ${server.circuit.state}: ${server.circuit.reason}`
+          : '';
+        const standby = server.standby ? ', standby until first call' : '';
+        console.log(`  ${status} ${server.name} (${toolCount} tools${protocol}${standby})${circuit}`);
       });
     }
 
@@ -283,7 +289,8 @@ ${CLIUtils.colorize('MCP Servers:', 'cyan')}`);
       daemon.clients.forEach((client: any) => {
         const lastSeen = new Date(client.lastSeen);
         const timeDiff = Math.round((Date.now() - lastSeen.getTime()) / 1000);
-        console.log(`  📱 ${client.type} (last active: ${timeDiff}s ago)`);
+        const name = client.clientName ? ` - ${client.clientName}` : '';
+        console.log(`  📱 ${client.type}${name} (last active: ${timeDiff}s ago)`);
       });
     }
 
@@ -295,6 +302,25 @@ ${CLIUtils.colorize('Management:', 'cyan')}
 `);
   }
 
+  private formatSessions(sessions: any[]): string {
+    if (sessions.length === 0) {
+      return 'None';
+    }
+    const names = sessions.map((session: any) =>
+      `${session.clientName} v${session.clientVersion}${session.protocolVersion ? ` @ ${session.protocolVersion}` : ''}${session.profile ? ` [${session.profile}]` : ''}`
+    );
+    return `${sessions.length} (${names.join(', ')})`;
+  }
+
+  private formatCache(cache: any): string {
+    if (!cache || cache.hits + cache.misses === 0) {
+      return 'No cached calls';
+    }
+    const hitRate = Math.round(cache.hitRate * 100);
+    const sizeKb = Math.round(cache.bytes / 1024);
+    return `${cache.hits} hits / ${cache.misses} misses (${hitRate}%), ${cache.entries} entries, ${sizeKb} KB, ${cache.evictions} evicted`;
+  }
+
   private displayConnectionError(error: Error, port: number): void {
     console.log(`
 ❌ ${CLIUtils.colorize('Cannot connect to MCPDog daemon', 'red')}
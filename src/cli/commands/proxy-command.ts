@@ -65,7 +65,7 @@ export class ProxyCommand {
       // All non-JSON output will be mistaken as responses by MCP clients
       
       const { StdioProxy } = await import('../../daemon/stdio-proxy.js');
-      const proxy = new StdioProxy(daemonPort);
+      const proxy = new StdioProxy(daemonPort, options.profile);
       
       // Graceful shutdown handling
       process.on('SIGINT', () => {
@@ -256,6 +256,8 @@ ${CLIUtils.colorize('Options:', 'yellow')}
   --transport <type>    Transport protocol: stdio (default) or streamable-http
   -p, --port <port>     Port for HTTP transport (default: 4000)
   --daemon-port <port>  Connect to daemon on specific port (default: 9999, stdio mode only)
+  --profile <name>      Only expose the tools of a profile from the config (stdio mode only;
+                        HTTP clients select a profile with the /mcp/<name> path)
   --help               Show this help message
 
 ${CLIUtils.colorize('Description:', 'yellow')}
@@ -271,6 +273,7 @@ ${CLIUtils.colorize('Examples:', 'yellow')}
   mcpdog proxy --transport streamable-http        # Start HTTP server on port 4000
   mcpdog proxy --transport streamable-http --port 8080  # Start HTTP server on port 8080
   mcpdog proxy --daemon-port 9999                # Use specific daemon port (stdio only)
+  mcpdog proxy --profile coding                   # Only expose the "coding" profile's tools
 
 ${CLIUtils.colorize('MCP Client Configuration:', 'yellow')}
   
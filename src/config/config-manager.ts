@@ -3,11 +3,15 @@ import * as fsSync from 'fs';
 import { join, dirname } from 'path';
 import { homedir } from 'os';
 import { EventEmitter } from 'events';
-import { MCPDogConfig, MCPServerConfig } from '../types/index.js';
+import { MCPDogConfig, MCPServerConfig, RateLimitRule } from '../types/index.js';
 import { AdapterFactory } from '../adapters/adapter-factory.js';
 import { AutoConfigGenerator, ConfigSuggestion } from '../core/auto-config-generator.js';
 import { ProtocolDetector } from '../core/protocol-detector.js';
 import { ServerNameValidator } from '../utils/server-name-validator.js';
+import { ToolNamespace } from '../utils/tool-namespace.js';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('config');
 
 export class ConfigManager extends EventEmitter {
   private config: MCPDogConfig;
@@ -130,7 +134,7 @@ export class ConfigManager extends EventEmitter {
         await this.saveConfig();
       }
     } catch (error) {
-      console.warn(`Failed to auto-initialize config: ${(error as Error).message}`);
+      log.warn(`Failed to auto-initialize config: ${(error as Error).message}`);
       // Keep default config
     }
   }
@@ -380,6 +384,184 @@ export class ConfigManager extends EventEmitter {
         if (serverConfig.env && typeof serverConfig.env !== 'object') {
           errors.push(`Server "${name}" env must be an object`);
         }
+
+        if (serverConfig.rateLimit) {
+          errors.push(...this.validateRateLimit(serverConfig.rateLimit, `Server "${name}"`));
+        }
+
+        for (const field of ['maxConcurrentRequests', 'maxQueueSize', 'queueTimeout'] as const) {
+          const value = serverConfig[field];
+          if (value !== undefined && !(Number.isInteger(value) && value >= (field === 'maxQueueSize' ? 0 : 1))) {
+            errors.push(`Server "${name}" ${field} must be a ${field === 'maxQueueSize' ? 'non-negative' : 'positive'} integer`);
+          }
+        }
+
+        if (serverConfig.lifecycle && !['eager', 'lazy', 'on-demand'].includes(serverConfig.lifecycle)) {
+          errors.push(`Server "${name}" lifecycle must be eager, lazy or on-demand`);
+        } else if (serverConfig.lifecycle && serverConfig.lifecycle !== 'eager' && serverConfig.transport !== 'stdio') {
+          errors.push(`Server "${name}" lifecycle ${serverConfig.lifecycle} is only supported for stdio servers`);
+        }
+        if (serverConfig.idleTimeout !== undefined && !(Number.isInteger(serverConfig.idleTimeout) && serverConfig.idleTimeout >= 1)) {
+          errors.push(`Server "${name}" idleTimeout must be a positive integer`);
+        }
+
+        const stderrLogs = serverConfig.stderrLogs;
+        if (stderrLogs) {
+          if (serverConfig.transport !== 'stdio') {
+            errors.push(`Server "${name}" stderrLogs is only supported for stdio servers`);
+          }
+          if (stderrLogs.level && !['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'].includes(stderrLogs.level)) {
+            errors.push(`Server "${name}" stderrLogs.level must be an MCP log level`);
+          }
+          if (stderrLogs.pattern !== undefined) {
+            try {
+              new RegExp(stderrLogs.pattern, 'i');
+            } catch {
+              errors.push(`Server "${name}" stderrLogs.pattern is not a valid regular expression`);
+            }
+          }
+        }
+
+        const breaker = serverConfig.circuitBreaker;
+        if (breaker) {
+          const threshold = breaker.errorRateThreshold;
+          if (threshold !== undefined && !(typeof threshold === 'number' && threshold > 0 && threshold <= 1)) {
+            errors.push(`Server "${name}" circuitBreaker.errorRateThreshold must be between 0 and 1`);
+          }
+          for (const field of ['minimumRequests', 'windowMs', 'slowCallThreshold', 'openDuration', 'halfOpenRequests'] as const) {
+            const value = breaker[field];
+            if (value !== undefined && !(Number.isInteger(value) && value >= 1)) {
+              errors.push(`Server "${name}" circuitBreaker.${field} must be a positive integer`);
+            }
+          }
+        }
+
+        if (serverConfig.toolNamespacing) {
+          const namespacingError = ToolNamespace.validateStrategy(serverConfig.toolNamespacing);
+          if (namespacingError) {
+            errors.push(`Server "${name}": ${namespacingError}`);
+          }
+        }
+
+        for (const [toolName, settings] of Object.entries(serverConfig.toolsConfig?.toolSettings || {})) {
+          if (settings.alias && !ToolNamespace.isValidName(settings.alias)) {
+            errors.push(`Server "${name}" tool "${toolName}" has an invalid alias: ${settings.alias}`);
+          }
+
+          for (const pattern of settings.transform?.result?.redact || []) {
+            try {
+              new RegExp(pattern);
+            } catch {
+              errors.push(`Server "${name}" tool "${toolName}" has an invalid redact pattern: ${pattern}`);
+            }
+          }
+
+          if (settings.timeout !== undefined && !(typeof settings.timeout === 'number' && settings.timeout > 0)) {
+            errors.push(`Server "${name}" tool "${toolName}" timeout must be a positive number`);
+          }
+
+          if (settings.cacheTtl !== undefined && !(typeof settings.cacheTtl === 'number' && settings.cacheTtl > 0)) {
+            errors.push(`Server "${name}" tool "${toolName}" cacheTtl must be a positive number`);
+          }
+
+          if (settings.rateLimit) {
+            errors.push(...this.validateRateLimit(settings.rateLimit, `Server "${name}" tool "${toolName}"`));
+          }
+        }
+      }
+    }
+
+    for (const [name, composite] of Object.entries(configToValidate.compositeTools || {})) {
+      if (!ToolNamespace.isValidName(name)) {
+        errors.push(`Composite tool "${name}" has an invalid name`);
+      }
+      if (!Array.isArray(composite.steps) || composite.steps.length === 0) {
+        errors.push(`Composite tool "${name}" must have at least one step`);
+      } else if (composite.steps.some(step => !step.tool)) {
+        errors.push(`Composite tool "${name}" has a step without a tool`);
+      }
+    }
+
+    const groupedServers = new Map<string, string>();
+    for (const [name, group] of Object.entries(configToValidate.replicaGroups || {})) {
+      if (!ToolNamespace.isValidName(name)) {
+        errors.push(`Replica group "${name}" has an invalid name`);
+      }
+      if (!Array.isArray(group.servers) || group.servers.length === 0) {
+        errors.push(`Replica group "${name}" must have at least one server`);
+        continue;
+      }
+      for (const serverName of group.servers) {
+        if (!configToValidate.servers?.[serverName]) {
+          errors.push(`Replica group "${name}" references unknown server "${serverName}"`);
+        } else if (groupedServers.has(serverName)) {
+          errors.push(`Server "${serverName}" is in both replica groups "${groupedServers.get(serverName)}" and "${name}"`);
+        }
+        groupedServers.set(serverName, groupedServers.get(serverName) || name);
+      }
+      if (group.policy && !['priority', 'round-robin', 'least-latency'].includes(group.policy)) {
+        errors.push(`Replica group "${name}" policy must be priority, round-robin or least-latency`);
+      }
+      if (group.retries !== undefined && !(Number.isInteger(group.retries) && group.retries >= 0)) {
+        errors.push(`Replica group "${name}" retries must be a non-negative integer`);
+      }
+    }
+
+    const maxBytes = configToValidate.cache?.maxBytes;
+    if (maxBytes !== undefined && !(typeof maxBytes === 'number' && maxBytes > 0)) {
+      errors.push('cache.maxBytes must be a positive number');
+    }
+
+    const audit = configToValidate.audit;
+    if (audit) {
+      for (const key of ['maxFileSize', 'maxFiles', 'maxPayloadLength'] as const) {
+        const value = audit[key];
+        if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+          errors.push(`audit.${key} must be a positive integer`);
+        }
+      }
+      if (audit.redact?.keys !== undefined && !(Array.isArray(audit.redact.keys) && audit.redact.keys.every(key => typeof key === 'string'))) {
+        errors.push('audit.redact.keys must be an array of strings');
+      }
+    }
+
+    const logging = configToValidate.logging;
+    if (logging) {
+      if (logging.level !== undefined && !['error', 'warn', 'info', 'debug'].includes(logging.level)) {
+        errors.push('logging.level must be error, warn, info or debug');
+      }
+      if (logging.format !== undefined && !['text', 'json'].includes(logging.format)) {
+        errors.push('logging.format must be text or json');
+      }
+      for (const key of ['maxFileSize', 'maxFiles'] as const) {
+        const value = logging[key];
+        if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+          errors.push(`logging.${key} must be a positive integer`);
+        }
+      }
+    }
+
+    const tracing = configToValidate.tracing;
+    if (tracing) {
+      if (tracing.exporter && !['otlp', 'file'].includes(tracing.exporter)) {
+        errors.push('tracing.exporter must be otlp or file');
+      }
+      if (tracing.sampleRate !== undefined && !(typeof tracing.sampleRate === 'number' && tracing.sampleRate >= 0 && tracing.sampleRate <= 1)) {
+        errors.push('tracing.sampleRate must be a number between 0 and 1');
+      }
+      if (tracing.endpoint !== undefined && !/^https?:\/\//.test(tracing.endpoint)) {
+        errors.push('tracing.endpoint must be an http(s) URL');
+      }
+    }
+
+    for (const [client, rule] of Object.entries(configToValidate.clientRateLimits || {})) {
+      errors.push(...this.validateRateLimit(rule, `Client "${client}"`));
+    }
+
+    if (configToValidate.toolNamespacing) {
+      const namespacingError = ToolNamespace.validateStrategy(configToValidate.toolNamespacing);
+      if (namespacingError) {
+        errors.push(namespacingError);
       }
     }
 
@@ -389,6 +571,20 @@ export class ConfigManager extends EventEmitter {
     };
   }
 
+  private validateRateLimit(rule: RateLimitRule, owner: string): string[] {
+    const errors: string[] = [];
+    for (const field of ['requestsPerMinute', 'burst', 'dailyQuota'] as const) {
+      const value = rule[field];
+      if (value !== undefined && !(typeof value === 'number' && value > 0)) {
+        errors.push(`${owner} rateLimit.${field} must be a positive number`);
+      }
+    }
+    if (rule.burst !== undefined && !rule.requestsPerMinute) {
+      errors.push(`${owner} rateLimit.burst requires requestsPerMinute`);
+    }
+    return errors;
+  }
+
   /**
    * Optimize configuration by detecting protocols and suggesting improvements
    */
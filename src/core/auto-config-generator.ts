@@ -1,5 +1,8 @@
 import { ProtocolDetector, ProtocolDetectionResult } from './protocol-detector.js';
 import { MCPServerConfig } from '../types/index.js';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('detect');
 
 export interface AutoConfigOptions {
   timeout?: number;
@@ -31,7 +34,7 @@ export class AutoConfigGenerator {
     endpoint: string,
     options?: AutoConfigOptions
   ): Promise<ConfigSuggestion> {
-    console.error(`🔧 Generating auto-config for ${name}: ${endpoint}`);
+    log.info(`Generating auto-config for ${name}: ${endpoint}`);
 
     // 检测协议
     const detection = await this.detector.detectBestProtocol(endpoint, {
@@ -262,7 +265,7 @@ export class AutoConfigGenerator {
   ): Promise<Map<string, ConfigSuggestion>> {
     const results = new Map<string, ConfigSuggestion>();
     
-    console.error(`🔧 Generating configs for ${endpoints.length} endpoints`);
+    log.info(`Generating configs for ${endpoints.length} endpoints`);
 
     const configPromises = endpoints.map(async ({ name, endpoint, options }) => {
       try {
@@ -290,7 +293,7 @@ export class AutoConfigGenerator {
 
     await Promise.allSettled(configPromises);
     
-    console.error(`✅ Generated ${results.size} configurations`);
+    log.info(`Generated ${results.size} configurations`);
     return results;
   }
 
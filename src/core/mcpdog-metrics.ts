@@ -0,0 +1,124 @@
+/**
+ * MCPDog Metrics
+ * Prometheus metrics for one MCPDogServer: tool calls counted from router events as they finish,
+ * everything else read from the router, adapters, sessions and server logs at scrape time.
+ */
+
+import { MetricsRegistry } from '../utils/metrics-registry.js';
+import { globalLogManager } from '../logging/server-log-manager.js';
+import { MCPDOG_VERSION } from '../utils/package-info.js';
+import { CircuitState } from '../types/index.js';
+import type { MCPDogServer } from './mcpdog-server.js';
+
+const CIRCUIT_STATES: CircuitState[] = ['closed', 'open', 'half-open'];
+
+export class MCPDogMetrics {
+  private registry = new MetricsRegistry();
+  private startedAt = Date.now();
+
+  constructor(private server: MCPDogServer) {
+    const registry = this.registry;
+    registry.gauge('mcpdog_info', 'MCPDog version');
+    registry.gauge('mcpdog_uptime_seconds', 'Seconds since MCPDog started');
+    registry.counter('mcpdog_tool_calls_total', 'Tool calls forwarded upstream, by outcome (cache hits included)');
+    registry.counter('mcpdog_tool_call_errors_total', 'Failed tool calls by kind: timeout, connection, or upstream (error response or isError result)');
+    registry.histogram('mcpdog_tool_call_duration_seconds', 'Tool call latency, cache hits excluded');
+    registry.gauge('mcpdog_upstream_connected', 'Whether the upstream server is connected (1) or not (0)');
+    registry.gauge('mcpdog_upstream_standby', 'Whether a lazy or on-demand server is stopped with its tools still published');
+    registry.gauge('mcpdog_upstream_tools', 'Tools published for the upstream server');
+    registry.gauge('mcpdog_upstream_pending_requests', 'Requests sent upstream and awaiting a response');
+    registry.gauge('mcpdog_upstream_queued_requests', 'Requests waiting for a maxConcurrentRequests slot');
+    registry.gauge('mcpdog_upstream_circuit_state', 'Circuit breaker state (1 for the current state)');
+    registry.counter('mcpdog_upstream_crashes_total', 'Unexpected exits of stdio server processes', { collected: true });
+    registry.counter('mcpdog_upstream_reconnect_attempts_total', 'Reconnect attempts after stdio server processes died', { collected: true });
+    registry.counter('mcpdog_upstream_log_entries_total', 'Log entries recorded per upstream server (reset when its logs are cleared)', { collected: true });
+    registry.gauge('mcpdog_client_sessions', 'Initialized client sessions by client name');
+    registry.counter('mcpdog_rate_limit_rejections_total', 'Tool calls rejected by a rate limit or quota', { collected: true });
+    registry.counter('mcpdog_cache_hits_total', 'Result cache hits', { collected: true });
+    registry.counter('mcpdog_cache_misses_total', 'Result cache misses', { collected: true });
+
+    const toolRouter = server.getToolRouter();
+    toolRouter.on('tool-called', ({ serverName, toolName, duration, cached, isError }) => {
+      registry.inc('mcpdog_tool_calls_total', { server: serverName, tool: toolName, status: isError ? 'error' : 'success' });
+      if (isError) {
+        registry.inc('mcpdog_tool_call_errors_total', { server: serverName, tool: toolName, kind: 'upstream' });
+      }
+      if (!cached) {
+        registry.observe('mcpdog_tool_call_duration_seconds', { server: serverName, tool: toolName }, duration / 1000);
+      }
+    });
+    toolRouter.on('tool-call-failed', ({ serverName, toolName, duration, timedOut }) => {
+      registry.inc('mcpdog_tool_calls_total', { server: serverName, tool: toolName, status: 'error' });
+      registry.inc('mcpdog_tool_call_errors_total', { server: serverName, tool: toolName, kind: timedOut ? 'timeout' : 'connection' });
+      registry.observe('mcpdog_tool_call_duration_seconds', { server: serverName, tool: toolName }, duration / 1000);
+    });
+
+    registry.addCollector(() => this.collect());
+  }
+
+  render(): string {
+    return this.registry.render();
+  }
+
+  getContentType(): string {
+    return MetricsRegistry.CONTENT_TYPE;
+  }
+
+  private collect(): void {
+    const registry = this.registry;
+    const toolRouter = this.server.getToolRouter();
+    registry.set('mcpdog_info', { version: MCPDOG_VERSION }, 1);
+    registry.set('mcpdog_uptime_seconds', {}, (Date.now() - this.startedAt) / 1000);
+
+    for (const adapter of toolRouter.getAllAdapters()) {
+      const server = { server: adapter.name };
+      registry.set('mcpdog_upstream_connected', { ...server, transport: adapter.config?.transport || 'unknown' }, adapter.isConnected ? 1 : 0);
+      registry.set('mcpdog_upstream_standby', server, toolRouter.isStandby(adapter.name) ? 1 : 0);
+      registry.set('mcpdog_upstream_tools', server, toolRouter.getToolsByServer(adapter.name).length);
+
+      const status = adapter.getStatus?.();
+      if (status) {
+        registry.set('mcpdog_upstream_pending_requests', server, status.pendingRequests);
+      }
+      const queue = adapter.getQueueStats?.();
+      if (queue) {
+        registry.set('mcpdog_upstream_queued_requests', server, queue.queued);
+      }
+      const circuit = adapter.getCircuitStats?.();
+      if (circuit?.enabled) {
+        for (const state of CIRCUIT_STATES) {
+          registry.set('mcpdog_upstream_circuit_state', { ...server, state }, circuit.state === state ? 1 : 0);
+        }
+      }
+    }
+
+    for (const [serverName, crashStats] of Object.entries(toolRouter.getAllCrashStats())) {
+      registry.set('mcpdog_upstream_crashes_total', { server: serverName }, crashStats.lifetimeCrashes ?? crashStats.totalCrashes ?? 0);
+      registry.set('mcpdog_upstream_reconnect_attempts_total', { server: serverName }, crashStats.reconnectAttempts ?? 0);
+    }
+
+    for (const [serverName, logStats] of globalLogManager.getAllStats()) {
+      const other = logStats.totalLogs - logStats.errorCount - logStats.warnCount;
+      registry.set('mcpdog_upstream_log_entries_total', { server: serverName, level: 'error' }, logStats.errorCount);
+      registry.set('mcpdog_upstream_log_entries_total', { server: serverName, level: 'warn' }, logStats.warnCount);
+      registry.set('mcpdog_upstream_log_entries_total', { server: serverName, level: 'other' }, Math.max(0, other));
+    }
+
+    const sessionsByClient = new Map<string, number>();
+    for (const session of this.server.getSessionManager().getInitialized()) {
+      const client = session.clientInfo?.name || 'unknown';
+      sessionsByClient.set(client, (sessionsByClient.get(client) || 0) + 1);
+    }
+    for (const [client, count] of sessionsByClient) {
+      registry.set('mcpdog_client_sessions', { client }, count);
+    }
+
+    for (const usage of this.server.getRateLimitUsage()) {
+      registry.set('mcpdog_rate_limit_rejections_total', { scope: usage.scope, key: usage.key }, usage.rejected);
+    }
+
+    const cache = toolRouter.getCacheStats();
+    registry.set('mcpdog_cache_hits_total', {}, cache.hits);
+    registry.set('mcpdog_cache_misses_total', {}, cache.misses);
+  }
+}
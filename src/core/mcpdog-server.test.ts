@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { MCPDogServer } from './mcpdog-server';
+import { ConfigManager } from '../config/config-manager';
+import { EventEmitter } from 'events';
+import { MCPDogConfig } from '../types';
+
+describe('MCPDogServer', () => {
+  let configManager: ConfigManager;
+  let server: MCPDogServer;
+
+  const initialize = (clientId: string) => server.handleRequest({
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    // A standard MCP client: no capabilities.notifications
+    params: { protocolVersion: '2025-06-18', capabilities: { roots: {} }, clientInfo: { name: clientId, version: '1.0.0' } }
+  }, clientId);
+
+  beforeEach(() => {
+    configManager = new ConfigManager('/fake/path/mcpdog.config.json', false);
+    server = new MCPDogServer(configManager);
+  });
+
+  describe('log messages', () => {
+    it('should forward upstream log messages to standard clients by session level', async () => {
+      await initialize('quiet');
+      await initialize('verbose');
+      await server.handleRequest({ jsonrpc: '2.0', id: 2, method: 'logging/setLevel', params: { level: 'debug' } }, 'verbose');
+      const notifications: [any, string][] = [];
+      server.on('notification', (notification, clientId) => notifications.push([notification, clientId]));
+
+      server.getToolRouter().emit('log-message', { serverName: 'files', level: 'debug', logger: 'files', data: 'scanning' });
+      server.getToolRouter().emit('log-message', { serverName: 'files', level: 'warning', logger: 'files/fs', data: 'slow disk' });
+
+      expect(notifications).toEqual([
+        [{ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'debug', logger: 'files', data: 'scanning' } }, 'verbose'],
+        [{ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'warning', logger: 'files/fs', data: 'slow disk' } }, 'quiet'],
+        [{ jsonrpc: '2.0', method: 'notifications/message', params: { level: 'warning', logger: 'files/fs', data: 'slow disk' } }, 'verbose']
+      ]);
+    });
+
+    it('should ask upstream servers for the most verbose level any session chose', async () => {
+      const setUpstreamLogLevel = vi.spyOn(server.getToolRouter(), 'setUpstreamLogLevel');
+      await initialize('a');
+      await initialize('b');
+
+      await server.handleRequest({ jsonrpc: '2.0', id: 2, method: 'logging/setLevel', params: { level: 'error' } }, 'a');
+      expect(setUpstreamLogLevel).toHaveBeenLastCalledWith('info');
+      await server.handleRequest({ jsonrpc: '2.0', id: 3, method: 'logging/setLevel', params: { level: 'debug' } }, 'b');
+      expect(setUpstreamLogLevel).toHaveBeenLastCalledWith('debug');
+    });
+  });
+
+  describe('server requests', () => {
+    it('should answer at once when no client can handle the request', async () => {
+      // Like the daemon's own initialize: a session without client capabilities
+      await server.handleRequest({
+        jsonrpc: '2.0', id: 1, method: 'initialize',
+        params: { protocolVersion: '2025-06-18', capabilities: {}, clientInfo: { name: 'MCPDog Daemon', version: '1.0.0' } }
+      }, 'daemon-init');
+      const sendResponse = vi.fn(async () => {});
+      server.getToolRouter().addAdapter(Object.assign(new EventEmitter(), {
+        name: 'files', config: { name: 'files', enabled: true, transport: 'stdio' as const }, isConnected: true,
+        connect: async () => {}, disconnect: async () => {}, getTools: async () => [],
+        callTool: async () => ({ jsonrpc: '2.0' as const, id: 1, result: {} }),
+        sendRequest: async () => ({ jsonrpc: '2.0' as const, id: 1, result: {} }),
+        sendResponse
+      }));
+      const request = vi.fn();
+      server.on('request', request);
+
+      server.getToolRouter().emit('server-request', { serverName: 'files', request: { jsonrpc: '2.0', id: 'r1', method: 'roots/list' } });
+      await vi.waitFor(() => expect(sendResponse).toHaveBeenCalled());
+
+      expect(sendResponse).toHaveBeenCalledWith({ jsonrpc: '2.0', id: 'r1', error: { code: -32601, message: 'No connected client supports roots' } });
+      expect(request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('tools/list', () => {
+    it('should not wait for standby servers', async () => {
+      const servers: MCPDogConfig['servers'] = {
+        files: { name: 'files', enabled: true, transport: 'stdio', lifecycle: 'on-demand' },
+        search: { name: 'search', enabled: true, transport: 'stdio', lifecycle: 'lazy' }
+      };
+      vi.spyOn(configManager, 'getEnabledServers').mockReturnValue(servers);
+      for (const [name, config] of Object.entries(servers)) {
+        const adapter = Object.assign(new EventEmitter(), {
+          name, config, isConnected: true,
+          connect: async () => {}, disconnect: async () => {},
+          getTools: async () => [{ name: `${name}_tool`, description: 'desc', inputSchema: { type: 'object' as const } }],
+          callTool: async () => ({ jsonrpc: '2.0' as const, id: 1, result: {} }),
+          sendRequest: async () => ({ jsonrpc: '2.0' as const, id: 1, result: {} })
+        });
+        server.getToolRouter().addAdapter(adapter);
+        adapter.emit('connected');
+        await server.getToolRouter().getAllTools();
+        // Stopped while idle: its tools stay published until the next call starts it
+        adapter.isConnected = false;
+        adapter.emit('disconnected');
+      }
+      await initialize('client');
+
+      const started = Date.now();
+      const response = await server.handleRequest({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, 'client');
+
+      expect(response.result.tools.map((tool: { name: string }) => tool.name)).toEqual(['files_tool', 'search_tool']);
+      expect(Date.now() - started).toBeLessThan(500);
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should charge composite steps against the step tool quota', async () => {
+      const config: MCPDogConfig = {
+        version: '2.0.0',
+        servers: {
+          search: {
+            name: 'search', enabled: true, transport: 'stdio',
+            toolsConfig: { mode: 'all', toolSettings: { query: { enabled: true, rateLimit: { dailyQuota: 1 } } } }
+          }
+        },
+        compositeTools: { lookup: { description: 'Query the index', steps: [{ tool: 'query' }] } }
+      };
+      vi.spyOn(configManager, 'getConfig').mockReturnValue(config);
+      const adapter = Object.assign(new EventEmitter(), {
+        name: 'search',
+        config: config.servers.search,
+        isConnected: true,
+        connect: async () => {},
+        disconnect: async () => {},
+        getTools: async () => [{ name: 'query', description: 'desc', inputSchema: { type: 'object' as const } }],
+        callTool: vi.fn(async () => ({ jsonrpc: '2.0' as const, id: 1, result: { content: [{ type: 'text', text: 'hit' }] } })),
+        sendRequest: async () => ({ jsonrpc: '2.0' as const, id: 1, result: {} })
+      });
+      server.getToolRouter().addAdapter(adapter);
+      adapter.emit('connected');
+      await initialize('client');
+      await server.handleRequest({ jsonrpc: '2.0', id: 2, method: 'tools/list' }, 'client');
+
+      const call = (id: number) => server.handleRequest({ jsonrpc: '2.0', id, method: 'tools/call', params: { name: 'lookup', arguments: {} } }, 'client');
+      expect((await call(3)).result.content).toEqual([{ type: 'text', text: 'hit' }]);
+      const rejected = await call(4);
+      expect(rejected.error?.code).toBe(-32003);
+      expect(rejected.error?.message).toMatch(/^Step 1 \(query\) of lookup failed: Daily quota exceeded for tool "search\/query"/);
+      expect(adapter.callTool).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,31 +1,72 @@
 import { EventEmitter } from 'events';
+import { dirname, join } from 'path';
 import { ConfigManager } from '../config/config-manager.js';
 import { ToolRouter } from '../router/tool-router.js';
 import { AdapterFactory } from '../adapters/adapter-factory.js';
+import { SessionManager } from './session-manager.js';
+import { ProtocolVersion } from '../utils/protocol-version.js';
+import { ToolProfile } from '../utils/tool-profile.js';
+import { RateLimiter, RateLimitTarget, RateLimitUsage } from '../utils/rate-limiter.js';
+import { ResultCacheStats } from '../utils/result-cache.js';
+import { AuditLog } from '../logging/audit-log.js';
+import { MCPDogMetrics } from './mcpdog-metrics.js';
+import { globalTracer } from '../tracing/tracer.js';
+import { MCPDOG_VERSION } from '../utils/package-info.js';
 import { 
   MCPRequest, 
   MCPResponse, 
   MCPNotification, 
   ClientCapabilities, 
+  ClientSession,
+  MCPLogLevel,
   ServerAdapter,
-  MCPServerConfig 
+  MCPServerConfig,
+  ProfileConfig
 } from '../types/index.js';
+import { globalLogger, Logger } from '../logging/logger.js';
+
+const log = globalLogger.child('server');
+
+const LOG_LEVELS: MCPLogLevel[] = ['debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'];
+// Minimum level of upstream log messages for sessions that never sent logging/setLevel
+const DEFAULT_CLIENT_LOG_LEVEL: MCPLogLevel = 'info';
+
+// Upstream request methods relayed to clients, with the client capability each requires
+const CLIENT_FEATURES: Record<string, string> = {
+  'sampling/createMessage': 'sampling',
+  'elicitation/create': 'elicitation',
+  'roots/list': 'roots'
+};
 
 export class MCPDogServer extends EventEmitter {
   private configManager: ConfigManager;
   private toolRouter: ToolRouter;
-  private clientCapabilities?: ClientCapabilities;
-  private isInitialized: boolean = false;
+  private sessionManager: SessionManager = new SessionManager();
   private requestId: number = 1;
   private isStarted: boolean = false; // Prevent duplicate starts
+  private inFlightRequests: Map<string, AbortController> = new Map(); // Keyed by `${clientId}:${requestId}`
+  private rateLimiter: RateLimiter = new RateLimiter();
+  private auditLog: AuditLog;
+  private metrics: MCPDogMetrics;
+  private pendingClientRequests: Map<string | number, {
+    clientId: string;
+    resolve: (value: MCPResponse) => void;
+    reject: (error: Error) => void;
+    timeout: NodeJS.Timeout;
+  }> = new Map();
+  private clientRequestTimeout: number = 5 * 60 * 1000; // Sampling and elicitation may wait on a human
 
   constructor(configManager: ConfigManager) {
     super();
     
-    console.error(`[SERVER] Creating MCPDogServer instance (PID: ${process.pid})`);
+    log.debug(`Creating MCPDogServer instance (PID: ${process.pid})`);
     
     this.configManager = configManager;
     this.toolRouter = new ToolRouter(this.configManager);
+    this.auditLog = new AuditLog(dirname(this.configManager.getConfigPath()), () => this.configManager.getConfig().audit);
+    this.metrics = new MCPDogMetrics(this);
+    globalLogger.configure(dirname(this.configManager.getConfigPath()), () => this.configManager.getConfig().logging);
+    globalTracer.configure(dirname(this.configManager.getConfigPath()), () => this.configManager.getConfig().tracing);
 
     this.setupEventHandlers();
   }
@@ -38,12 +79,12 @@ export class MCPDogServer extends EventEmitter {
 
       // If it's a server or tool related toggle, skip full reinitialization
       if (changeType === 'server-toggle') {
-        console.log(`[SERVER] Skipping adapter reinitialization for server toggle: ${serverName}`);
+        log.info(`Skipping adapter reinitialization for server toggle: ${serverName}`);
       } else if (changeType === 'tool-toggle' || changeType === 'tool-config-update') {
-        console.log(`[SERVER] Skipping adapter reinitialization for tool update on: ${serverName}`);
+        log.info(`Skipping adapter reinitialization for tool update on: ${serverName}`);
       } else {
         this.handleConfigUpdate().catch((error: any) => {
-          console.error('Error handling config update:', error);
+          log.error('Error handling config update:', error);
         });
       }
     });
@@ -52,10 +93,10 @@ export class MCPDogServer extends EventEmitter {
 
     // Listen for single server toggle status changes
     this.configManager.on('server-toggled', async ({ name, enabled }) => {
-      console.error(`[SERVER] Server ${name} toggled to ${enabled}`);
+      log.info(`Server ${name} toggled to ${enabled}`);
       const serverConfig = this.configManager.getServerConfig(name);
       if (!serverConfig) {
-        console.error(`[SERVER] Toggled server ${name} not found in config.`);
+        log.info(`Toggled server ${name} not found in config.`);
         return;
       }
 
@@ -67,81 +108,126 @@ export class MCPDogServer extends EventEmitter {
             adapter = AdapterFactory.createAdapter(name, serverConfig);
             this.setupAdapterEvents(adapter);
             this.toolRouter.addAdapter(adapter);
-            console.error(`[SERVER] Created and added adapter for ${name}`);
+            log.info(`Created and added adapter for ${name}`);
           } catch (error) {
-            console.error(`[SERVER] Failed to create adapter for ${name}:`, error);
+            log.error(`Failed to create adapter for ${name}:`, error);
             return;
           }
         }
-        if (adapter && !adapter.isConnected) {
+        if (adapter && !adapter.isConnected && !this.toolRouter.isStandby(name)) {
           try {
             await adapter.connect();
-            console.error(`[SERVER] Connected adapter for ${name}`);
+            log.info(`Connected adapter for ${name}`);
           } catch (error) {
-            console.error(`[SERVER] Failed to connect adapter for ${name}:`, error);
+            log.error(`Failed to connect adapter for ${name}:`, error);
           }
         }
       } else {
         // Disable server: remove adapter
         this.toolRouter.removeAdapter(name);
-        console.error(`[SERVER] Removed adapter for ${name}`);
+        log.info(`Removed adapter for ${name}`);
       }
       this.notifyToolsChanged().catch(error => {
-        console.error('Error notifying tools changed after toggle:', error);
+        log.error('Error notifying tools changed after toggle:', error);
       });
     });
 
     // Tool router event handling
     this.toolRouter.on('routes-updated', ({ serverName, toolCount }) => {
-      console.error(`Tools updated for ${serverName}: ${toolCount} tools`);
+      log.info(`Tools updated for ${serverName}: ${toolCount} tools`);
       this.notifyToolsChanged().catch(error => {
-        console.error('Error notifying tools changed:', error);
+        log.error('Error notifying tools changed:', error);
+      });
+    });
+
+    this.toolRouter.on('resources-updated', ({ serverName }) => {
+      log.info(`Resources updated for ${serverName}`);
+      this.notifyResourcesChanged().catch(error => {
+        log.error('Error notifying resources changed:', error);
+      });
+    });
+
+    this.toolRouter.on('prompts-updated', ({ serverName }) => {
+      log.info(`Prompts updated for ${serverName}`);
+      this.notifyPromptsChanged().catch(error => {
+        log.error('Error notifying prompts changed:', error);
+      });
+    });
+
+    this.toolRouter.on('resource-updated', ({ uri, clientIds }) => {
+      const notification: MCPNotification = {
+        jsonrpc: '2.0',
+        method: 'notifications/resources/updated',
+        params: { uri }
+      };
+
+      // Only subscribed clients receive resource updates
+      for (const clientId of clientIds) {
+        this.emit('notification', notification, clientId);
+      }
+    });
+
+    this.toolRouter.on('progress', ({ clientId, notification }) => {
+      // Progress only makes sense to the client that issued the call
+      this.emit('notification', notification, clientId);
+    });
+
+    this.toolRouter.on('log-message', ({ serverName, level, logger, data }) => {
+      this.forwardLogMessage(serverName, { level, logger, data });
+    });
+
+    this.toolRouter.on('server-request', ({ serverName, request, clientId }) => {
+      this.handleServerRequest(serverName, request, clientId).catch(error => {
+        log.error(`Error relaying ${request.method} from ${serverName}:`, error);
       });
     });
 
     this.toolRouter.on('tool-called', ({ serverName, toolName, args, result, duration }) => {
-      console.error(`Tool executed: ${serverName}.${toolName} (${duration}ms)`);
+      log.debug(`Tool executed: ${serverName}.${toolName} (${duration}ms)`);
     });
 
     this.toolRouter.on('error', ({ error, context }) => {
-      console.error(`Router error [${context}]:`, error);
+      log.error(`Router error [${context}]:`, error);
       this.emit('error', { error, context });
     });
   }
 
   async start(): Promise<void> {
     if (this.isStarted) {
-      console.error(`[SERVER] MCPDog Server already started, ignoring duplicate start() call`);
+      log.info(`MCPDog Server already started, ignoring duplicate start() call`);
       return;
     }
     
     try {
-      console.error(`[SERVER] Starting MCPDog Server... (PID: ${process.pid})`);
+      log.info(`Starting MCPDog Server... (PID: ${process.pid})`);
       this.isStarted = true;
       
       // Load config
       await this.configManager.loadConfig();
-      console.error(`[SERVER] Config loaded in MCPDogServer: ${JSON.stringify(this.configManager.getConfig().servers)}`);
+      log.debug(`Config loaded in MCPDogServer: ${JSON.stringify(this.configManager.getConfig().servers)}`);
       
       // Start watching config file changes
       this.configManager.startWatching();
       
+      // Known tools of lazy / on-demand servers, kept next to the config file
+      await this.toolRouter.loadToolManifest(join(dirname(this.configManager.getConfigPath()), 'tool-manifest.json'));
+      
       // Initialize adapters
       await this.initializeAdapters();
       
-      console.error(`[SERVER] MCPDog Server started successfully (PID: ${process.pid})`);
+      log.info(`MCPDog Server started successfully (PID: ${process.pid})`);
       this.emit('started');
       
     } catch (error) {
       this.isStarted = false; // Reset status, allow retry
-      console.error('Failed to start MCPDog Server:', error);
+      log.error('Failed to start MCPDog Server:', error);
       throw error;
     }
   }
 
   async stop(): Promise<void> {
     try {
-      console.error('Stopping MCPDog Server...');
+      log.info('Stopping MCPDog Server...');
       
       // Stop config watching
       this.configManager.stopWatching();
@@ -150,14 +236,16 @@ export class MCPDogServer extends EventEmitter {
       await this.toolRouter.disconnectAll();
       
       // Cleanup
-      this.isInitialized = false;
-      this.clientCapabilities = undefined;
+      this.sessionManager.clear();
+
+      // Export spans still waiting for the next batch
+      await globalTracer.flush();
       
-      console.error('MCPDog Server stopped');
+      log.info('MCPDog Server stopped');
       this.emit('stopped');
       
     } catch (error) {
-      console.error('Error stopping MCPDog Server:', error);
+      log.error('Error stopping MCPDog Server:', error);
       throw error;
     }
   }
@@ -166,19 +254,19 @@ export class MCPDogServer extends EventEmitter {
     const config = this.configManager.getConfig();
     const enabledServers = this.configManager.getEnabledServers();
 
-    console.error(`[SERVER] Initializing ${Object.keys(enabledServers).length} enabled servers from config: ${JSON.stringify(enabledServers)}`);
+    log.debug(`Initializing ${Object.keys(enabledServers).length} enabled servers from config: ${JSON.stringify(enabledServers)}`);
 
     // First create all adapters (fast operation)
     for (const [serverName, serverConfig] of Object.entries(enabledServers)) {
       try {
         await this.createAndAddAdapter(serverName, serverConfig);
       } catch (error) {
-        console.error(`Failed to initialize adapter ${serverName}:`, error);
+        log.error(`Failed to initialize adapter ${serverName}:`, error);
       }
     }
 
     // Asynchronously connect all adapters, do not wait for completion
-    console.error(`[SERVER] Starting asynchronous connection of ${Object.keys(enabledServers).length} servers...`);
+    log.info(`Starting asynchronous connection of ${Object.keys(enabledServers).length} servers...`);
     this.connectAdaptersInBackground();
   }
 
@@ -188,9 +276,9 @@ export class MCPDogServer extends EventEmitter {
       timeout: 5000,  // 5 second timeout to avoid long waits for problematic servers
       maxConcurrent: 2  // Limit concurrency to avoid excessive system resource usage
     }).then(() => {
-      console.error(`[SERVER] ✅ Background server connection process completed`);
+      log.info(`Background server connection process completed`);
     }).catch(error => {
-      console.error(`[SERVER] ❌ Error during background server connection:`, error);
+      log.error(`Error during background server connection:`, error);
       // Do not throw error, let server continue running
     });
   }
@@ -204,9 +292,9 @@ export class MCPDogServer extends EventEmitter {
       this.setupAdapterEvents(adapter);
       
       this.toolRouter.addAdapter(adapter);
-      console.error(`Added adapter: ${serverName} (${config.transport})`);
+      log.info(`Added adapter: ${serverName} (${config.transport})`);
     } catch (error) {
-      console.error(`Failed to create adapter ${serverName}:`, (error as Error).message);
+      log.error(`Failed to create adapter ${serverName}:`, (error as Error).message);
       throw error;
     }
   }
@@ -214,19 +302,19 @@ export class MCPDogServer extends EventEmitter {
   private setupAdapterEvents(adapter: ServerAdapter): void {
     // Listen for connection events
     adapter.on('connected', (data) => {
-      console.error(`Connected to ${adapter.name}`);
+      log.info(`Connected to ${adapter.name}`);
       const eventData = {
         serverName: adapter.name,
         timestamp: new Date().toISOString(),
         ...data
       };
-      console.error(`[SERVER] Emitting server-connected event:`, eventData);
+      log.debug(`Emitting server-connected event:`, eventData);
       this.emit('server-connected', eventData);
     });
 
     // Listen for disconnection events
     adapter.on('disconnected', (data) => {
-      console.error(`Disconnected from ${adapter.name}`);
+      log.info(`Disconnected from ${adapter.name}`);
       this.emit('server-disconnected', {
         serverName: adapter.name,
         timestamp: new Date().toISOString(),
@@ -236,7 +324,7 @@ export class MCPDogServer extends EventEmitter {
 
     // Listen for error events
     adapter.on('error', (error) => {
-      console.error(`Adapter error for ${adapter.name}:`, error);
+      log.error(`Adapter error for ${adapter.name}:`, error);
       this.emit('server-error', {
         serverName: adapter.name,
         error: error.message,
@@ -244,6 +332,15 @@ export class MCPDogServer extends EventEmitter {
       });
     });
 
+    // Listen for circuit breaker transitions
+    adapter.on('circuit-state-changed', (data) => {
+      log.info(`Circuit for ${adapter.name}: ${data.from} -> ${data.to} (${data.reason})`);
+      this.emit('circuit-state-changed', {
+        serverName: adapter.name,
+        ...data
+      });
+    });
+
     // Listen for log events
     adapter.on('log', (log) => {
       this.emit('server-log', { 
@@ -279,7 +376,7 @@ export class MCPDogServer extends EventEmitter {
         this.setupAdapterEvents(adapter);
         this.toolRouter.addAdapter(adapter);
       } catch (error: any) {
-        console.error(`Failed to create adapter ${serverName} during reinitialization:`, error);
+        log.error(`Failed to create adapter ${serverName} during reinitialization:`, error);
       }
     }
     this.connectAdaptersInBackground();
@@ -304,11 +401,11 @@ export class MCPDogServer extends EventEmitter {
         this.toolRouter.addAdapter(adapter);
         await adapter.connect();
       } catch (error: any) {
-        console.error(`Failed to add and connect server ${name}:`, error);
+        log.error(`Failed to add and connect server ${name}:`, error);
       }
     }
     this.notifyToolsChanged().catch((error: any) => {
-      console.error('Error notifying tools changed after addServer:', error);
+      log.error('Error notifying tools changed after addServer:', error);
     });
   }
 
@@ -316,7 +413,7 @@ export class MCPDogServer extends EventEmitter {
     this.toolRouter.removeAdapter(name);
     await this.configManager.removeServer(name);
     this.notifyToolsChanged().catch((error: any) => {
-      console.error('Error notifying tools changed after removeServer:', error);
+      log.error('Error notifying tools changed after removeServer:', error);
     });
   }
 
@@ -333,41 +430,90 @@ export class MCPDogServer extends EventEmitter {
   }
 
   async updateServerTools(serverName: string): Promise<void> {
-    console.log(`[SERVER] Updating tools for server: ${serverName}`);
+    log.info(`Updating tools for server: ${serverName}`);
     await this.toolRouter.updateServerTools(serverName);
     this.notifyToolsChanged().catch(error => {
-      console.error(`Error notifying tools changed after tool update for ${serverName}:`, error);
+      log.error(`Error notifying tools changed after tool update for ${serverName}:`, error);
     });
   }
 
   // MCP protocol handling methods
   async handleRequest(request: MCPRequest, clientId?: string): Promise<MCPResponse> {
+    // Callers continue their trace by putting a W3C traceparent in params._meta
+    const meta = request.params?._meta;
+    const target = request.method === 'tools/call' || request.method === 'prompts/get' ? request.params?.name : undefined;
+    const options = {
+      kind: 'server' as const,
+      traceparent: typeof meta?.traceparent === 'string' ? meta.traceparent : undefined,
+      traceState: typeof meta?.tracestate === 'string' ? meta.tracestate : undefined,
+      attributes: {
+        'rpc.system': 'jsonrpc',
+        'mcp.method.name': request.method,
+        'mcp.request.id': request.id !== undefined ? String(request.id) : undefined,
+        'mcp.session.id': clientId
+      }
+    };
+
+    return globalTracer.trace(target ? `${request.method} ${target}` : request.method, options, async span => {
+      const response = await this.routeRequest(request, clientId);
+      span.setAttribute('mcp.client.name', this.sessionManager.get(clientId || 'default')?.clientInfo?.name);
+      if (response.error) {
+        span.setAttribute('rpc.jsonrpc.error_code', response.error.code);
+        span.setError(response.error.message);
+      } else if (response.result?.isError) {
+        span.setError('Tool returned isError');
+      }
+      return response;
+    });
+  }
+
+  private async routeRequest(request: MCPRequest, clientId?: string): Promise<MCPResponse> {
+    this.sessionManager.touch(clientId || 'default');
+
     try {
       // For initialize requests, allow multiple clients to initialize, but do not re-initialize the server
       if (request.method === 'initialize') {
-        return await this.handleInitialize(request);
+        return await this.handleInitialize(request, clientId);
       }
 
       
-      console.error(`Handling request: ${request.method} (id: ${request.id})`);
+      log.debug(`Handling request: ${request.method} (id: ${request.id})`);
 
       switch (request.method) {
         case 'initialize':
           // This branch will never be executed, as it's handled above
-          return await this.handleInitialize(request);
+          return await this.handleInitialize(request, clientId);
         
         case 'tools/list':
-          return await this.handleToolsList(request);
+          return await this.handleToolsList(request, clientId);
         
         case 'tools/call':
-          return await this.handleToolCall(request);
+          return await this.handleToolCall(request, clientId);
         
         case 'resources/list':
           return await this.handleResourcesList(request);
         
+        case 'resources/templates/list':
+          return await this.handleResourceTemplatesList(request);
+        
+        case 'resources/read':
+          return await this.handleResourceRead(request);
+        
+        case 'resources/subscribe':
+          return await this.handleResourceSubscribe(request, clientId);
+        
+        case 'resources/unsubscribe':
+          return await this.handleResourceUnsubscribe(request, clientId);
+        
         case 'prompts/list':
           return await this.handlePromptsList(request);
         
+        case 'prompts/get':
+          return await this.handlePromptGet(request);
+        
+        case 'logging/setLevel':
+          return this.handleSetLogLevel(request, clientId);
+        
         default:
           return {
             jsonrpc: '2.0',
@@ -379,7 +525,7 @@ export class MCPDogServer extends EventEmitter {
           };
       }
     } catch (error) {
-      console.error(`Error handling request ${request.method}:`, error);
+      log.error(`Error handling request ${request.method}:`, error);
       return {
         jsonrpc: '2.0',
         id: request.id,
@@ -391,32 +537,31 @@ export class MCPDogServer extends EventEmitter {
     }
   }
 
-  private async handleInitialize(request: MCPRequest): Promise<MCPResponse> {
+  private async handleInitialize(request: MCPRequest, clientId?: string): Promise<MCPResponse> {
     const params = request.params || {};
-    
-    // Record current client capabilities, but do not overwrite previous ones (supports multiple clients)
-    const clientCapabilities = {
-      supportsNotifications: params.capabilities?.notifications !== undefined,
-      clientName: params.clientInfo?.name || 'unknown',
-      clientVersion: params.clientInfo?.version || 'unknown'
-    };
 
-    console.error(`Client connected: ${clientCapabilities.clientName} v${clientCapabilities.clientVersion}`);
-    console.error(`Notifications supported: ${clientCapabilities.supportsNotifications}`);
+    // Every client gets its own session; one client's capabilities never decide for another
+    const protocolVersion = ProtocolVersion.negotiate(params.protocolVersion);
+    const session = this.sessionManager.initialize(clientId || 'default', params, protocolVersion);
 
-    // If it's the first client, set primary capabilities; otherwise retain existing capabilities
-    if (!this.isInitialized) {
-      this.clientCapabilities = clientCapabilities;
-      this.isInitialized = true;
-    }
+    log.info(`Client connected: ${session.clientInfo?.name} v${session.clientInfo?.version} (session: ${session.id})`);
+    log.debug(`Protocol version: ${protocolVersion}${params.protocolVersion !== protocolVersion ? ` (client requested ${params.protocolVersion})` : ''}`);
+    log.debug(`Notifications supported: ${session.supportsNotifications}`);
 
     return {
       jsonrpc: '2.0',
       id: request.id,
       result: {
-        protocolVersion: '2024-11-05',
+        protocolVersion,
         capabilities: {
           tools: {},
+          resources: {
+            subscribe: true,
+            listChanged: true
+          },
+          prompts: {
+            listChanged: true
+          },
           logging: {},
           notifications: {
             tools: {
@@ -426,14 +571,15 @@ export class MCPDogServer extends EventEmitter {
         },
         serverInfo: {
           name: 'mcpdog',
-          version: '2.0.0'
+          version: MCPDOG_VERSION
         }
       }
     };
   }
 
-  private async handleToolsList(request: MCPRequest): Promise<MCPResponse> {
-    if (!this.isInitialized) {
+  private async handleToolsList(request: MCPRequest, clientId?: string): Promise<MCPResponse> {
+    const session = this.getRequestSession(clientId);
+    if (!session) {
       return {
         jsonrpc: '2.0',
         id: request.id,
@@ -447,10 +593,12 @@ export class MCPDogServer extends EventEmitter {
     // Smart waiting mechanism: give slower servers more connection time
     const waitTime = this.calculateOptimalWaitTime();
     if (waitTime > 0) {
-      console.error(`⏳ Waiting ${waitTime}ms for all servers to connect...`);
+      log.info(`Waiting ${waitTime}ms for all servers to connect...`);
       // For health checks, use a shorter wait time
       const maxWaitTime = Math.min(waitTime, 3000); // Wait at most 3 seconds
-      await new Promise(resolve => setTimeout(resolve, maxWaitTime));
+      await globalTracer.trace('wait for servers', { attributes: { 'mcpdog.wait_ms': maxWaitTime } }, () =>
+        new Promise(resolve => setTimeout(resolve, maxWaitTime))
+      );
     }
 
     // Try multiple times to get a stable tool list
@@ -462,18 +610,32 @@ export class MCPDogServer extends EventEmitter {
     const enabledServers = Object.keys(this.configManager.getEnabledServers()).length;
     const expectedMinTools = Math.max(5, enabledServers * 5);
     
-    // If tool count is too low, some servers might not be fully connected, try again
-    while (attempts < maxAttempts && tools.length < expectedMinTools && enabledServers > 1) {
-      console.error(`🔄 Tools count low (${tools.length}), retrying... (attempt ${attempts + 1})`);
-      await new Promise(resolve => setTimeout(resolve, 500));
+    // If tool count is too low, some servers might not be fully connected, try again.
+    // Standby servers already publish their known tools, so waiting on them adds nothing.
+    while (attempts < maxAttempts && tools.length < expectedMinTools && enabledServers > 1 &&
+      this.toolRouter.getReadyServerCount() < enabledServers) {
+      log.info(`Tools count low (${tools.length}), retrying... (attempt ${attempts + 1})`);
+      await globalTracer.trace('wait for servers', { attributes: { 'mcpdog.wait_ms': 500, 'mcpdog.tools_count': tools.length } }, () =>
+        new Promise(resolve => setTimeout(resolve, 500))
+      );
       tools = await this.toolRouter.getAllTools(true);
       attempts++;
     }
 
     // Log current tool distribution
     const toolsByServer = this.toolRouter.getToolDistribution();
-    console.error(`📊 Current tool distribution:`, toolsByServer);
-    console.error(`🔢 Total tools returned: ${tools.length}`);
+    log.debug(`Current tool distribution:`, toolsByServer);
+    log.debug(`Total tools returned: ${tools.length}`);
+
+    // Clients bound to a profile only see the tools it selects
+    const profile = this.getSessionProfile(session);
+    if (profile) {
+      tools = ToolProfile.apply(tools, profile, name => this.toolRouter.findToolRoute(name));
+      log.info(`Profile ${session.profile}: exposing ${tools.length} tools`);
+    }
+
+    // Tool fields newer than the client's protocol revision are dropped
+    tools = ProtocolVersion.adaptTools(tools, session.protocolVersion);
 
     return {
       jsonrpc: '2.0',
@@ -485,7 +647,8 @@ export class MCPDogServer extends EventEmitter {
   }
 
   private calculateOptimalWaitTime(): number {
-    const connectedServers = this.toolRouter.getConnectedServerCount();
+    // Standby (lazy/on-demand) servers count as ready: they start on the first call, not on tools/list
+    const connectedServers = this.toolRouter.getReadyServerCount();
     const totalServers = this.toolRouter.getTotalServerCount();
     
     // If all servers are connected, no need to wait
@@ -509,8 +672,9 @@ export class MCPDogServer extends EventEmitter {
     return Math.min(3000, totalServers * 800); // At most 3 seconds, 800ms per server
   }
 
-  private async handleToolCall(request: MCPRequest): Promise<MCPResponse> {
-    if (!this.isInitialized) {
+  private async handleToolCall(request: MCPRequest, clientId?: string): Promise<MCPResponse> {
+    const session = this.getRequestSession(clientId);
+    if (!session) {
       return {
         jsonrpc: '2.0',
         id: request.id,
@@ -521,8 +685,30 @@ export class MCPDogServer extends EventEmitter {
       };
     }
 
+    // Every call is audited with its outcome, including ones rejected before reaching a server
+    const startTime = Date.now();
+    const response = await this.dispatchToolCall(request, session, clientId);
+    const toolName = request.params?.name;
+    if (toolName) {
+      const profile = this.getSessionProfile(session);
+      this.auditLog.record({
+        clientId: session.id,
+        clientName: session.clientInfo?.name,
+        clientVersion: session.clientInfo?.version,
+        profile: session.profile,
+        toolName,
+        serverName: this.toolRouter.findToolRoute(profile ? ToolProfile.resolve(profile, toolName) : toolName)?.serverName,
+        args: request.params?.arguments || {},
+        response,
+        duration: Date.now() - startTime
+      });
+    }
+    return response;
+  }
+
+  private async dispatchToolCall(request: MCPRequest, session: ClientSession, clientId?: string): Promise<MCPResponse> {
     const params = request.params || {};
-    const toolName = params.name;
+    let toolName = params.name;
     const args = params.arguments || {};
 
     if (!toolName) {
@@ -536,48 +722,483 @@ export class MCPDogServer extends EventEmitter {
       };
     }
 
-    const response = await this.toolRouter.callTool(toolName, args);
-    
-    // Use original request ID
-    return {
-      ...response,
-      id: request.id
-    };
+    // Profile aliases map back to the published name; tools outside the profile do not exist for the client
+    const profile = this.getSessionProfile(session);
+    if (profile) {
+      const publishedName = ToolProfile.resolve(profile, toolName);
+      if (!ToolProfile.includes(profile, publishedName, this.toolRouter.findToolRoute(publishedName))) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: {
+            code: -32601,
+            message: `Tool not found: ${toolName}`,
+            data: { profile: session.profile }
+          }
+        };
+      }
+      toolName = publishedName;
+    }
+
+    // Charged before any upstream work, against the client, the server and the tool
+    const rateLimitError = this.checkRateLimits(session, toolName);
+    if (rateLimitError) {
+      return { ...rateLimitError, id: request.id };
+    }
+
+    // Track the call so a notifications/cancelled from the client can abort it
+    const requestKey = this.getInFlightKey(clientId, request.id);
+    const controller = new AbortController();
+    this.inFlightRequests.set(requestKey, controller);
+
+    try {
+      const response = await this.toolRouter.callTool(toolName, args, {
+        clientId,
+        progressToken: params._meta?.progressToken,
+        signal: controller.signal,
+        timeout: typeof params._meta?.timeout === 'number' ? params._meta.timeout : undefined,
+        // A composite counts once against the client; each step is charged to its own server and tool
+        checkStepLimits: stepTool => this.checkRateLimits(session, stepTool, false)
+      });
+      
+      // Use original request ID; results are translated down to the client's protocol revision
+      const protocolVersion = this.sessionManager.get(clientId || 'default')?.protocolVersion;
+      return {
+        ...response,
+        ...(response.result && { result: ProtocolVersion.adaptToolResult(response.result, protocolVersion) }),
+        id: request.id
+      };
+    } finally {
+      this.inFlightRequests.delete(requestKey);
+    }
   }
 
-  private async notifyToolsChanged(): Promise<void> {
-    if (!this.isInitialized || !this.clientCapabilities?.supportsNotifications) {
+  /**
+   * Handle a notification sent by a client (no response is produced)
+   */
+  async handleNotification(notification: MCPNotification, clientId?: string): Promise<void> {
+    switch (notification.method) {
+      case 'notifications/cancelled': {
+        const requestId = notification.params?.requestId;
+        const controller = this.inFlightRequests.get(this.getInFlightKey(clientId, requestId));
+        if (!controller) {
+          log.info(`Cancellation for unknown or finished request: ${requestId}`);
+          return;
+        }
+        log.info(`Client cancelled request ${requestId}${notification.params?.reason ? `: ${notification.params.reason}` : ''}`);
+        controller.abort(notification.params?.reason || 'Cancelled by client');
+        return;
+      }
+
+      case 'notifications/initialized':
+        return;
+
+      default:
+        log.info(`Ignoring client notification: ${notification.method}`);
+    }
+  }
+
+  /**
+   * Handle a response from a client to a request MCPDog sent it (sampling, elicitation, roots)
+   */
+  handleClientResponse(response: MCPResponse, clientId?: string): void {
+    const pending = this.pendingClientRequests.get(response.id);
+    if (!pending || pending.clientId !== (clientId || 'default')) {
+      log.info(`Ignoring response for unknown client request: ${response.id}`);
       return;
     }
 
+    this.pendingClientRequests.delete(response.id);
+    clearTimeout(pending.timeout);
+    pending.resolve(response);
+  }
+
+  // Relay a request from an upstream server to a client and send the answer back upstream
+  private async handleServerRequest(serverName: string, request: MCPRequest, clientId?: string): Promise<void> {
+    const adapter = this.toolRouter.getAdapter(serverName);
+    if (!adapter?.sendResponse) {
+      log.info(`Adapter ${serverName} cannot answer server requests, dropping ${request.method}`);
+      return;
+    }
+
+    let response: MCPResponse;
+    try {
+      response = { ...(await this.relayServerRequest(serverName, request, clientId)), id: request.id };
+    } catch (error) {
+      response = {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32603,
+          message: (error as Error).message
+        }
+      };
+    }
+
+    await adapter.sendResponse(response);
+  }
+
+  private async relayServerRequest(serverName: string, request: MCPRequest, clientId?: string): Promise<MCPResponse> {
+    if (request.method === 'ping') {
+      return { jsonrpc: '2.0', id: request.id, result: {} };
+    }
+
+    const feature = CLIENT_FEATURES[request.method];
+    if (!feature) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32601,
+          message: `Method not found: ${request.method}`
+        }
+      };
+    }
+
+    let params = request.params;
+    if (feature === 'sampling') {
+      const sampling = this.configManager.getServerConfig(serverName)?.sampling;
+      if (sampling?.enabled === false) {
+        return {
+          jsonrpc: '2.0',
+          id: request.id,
+          error: {
+            code: -32000,
+            message: `Sampling is disabled for server: ${serverName}`
+          }
+        };
+      }
+      if (sampling?.maxTokens && params?.maxTokens > sampling.maxTokens) {
+        params = { ...params, maxTokens: sampling.maxTokens };
+      }
+    }
+
+    const targetClientId = this.resolveClientForFeature(feature, clientId);
+    if (!targetClientId) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32601,
+          message: `No connected client supports ${feature}`
+        }
+      };
+    }
+
+    log.info(`Relaying ${request.method} from ${serverName} to client ${targetClientId}`);
+    return this.sendClientRequest(targetClientId, request.method, params);
+  }
+
+  // Prefer the client that triggered the work, then the configured default, then the latest client
+  private resolveClientForFeature(feature: string, preferredClientId?: string): string | undefined {
+    const supports = (id: string) => this.sessionManager.get(id)?.capabilities[feature] !== undefined;
+    if (preferredClientId && supports(preferredClientId)) {
+      return preferredClientId;
+    }
+
+    const candidates = this.sessionManager.getInitialized().filter(session => supports(session.id));
+    const defaultClient = this.configManager.getConfig().defaultClient;
+    const configured = defaultClient
+      ? candidates.find(session => session.clientInfo?.name === defaultClient)
+      : undefined;
+
+    return (configured || candidates[candidates.length - 1])?.id;
+  }
+
+  private sendClientRequest(clientId: string, method: string, params: any): Promise<MCPResponse> {
+    const request: MCPRequest = {
+      jsonrpc: '2.0',
+      id: `mcpdog-${this.requestId++}`,
+      method,
+      params
+    };
+
+    return new Promise<MCPResponse>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.pendingClientRequests.delete(request.id);
+        reject(new Error(`Client ${clientId} did not answer ${method} within ${this.clientRequestTimeout}ms`));
+      }, this.clientRequestTimeout);
+
+      this.pendingClientRequests.set(request.id, { clientId, resolve, reject, timeout });
+      this.emit('request', request, clientId);
+    });
+  }
+
+  private getInFlightKey(clientId: string | undefined, requestId: string | number): string {
+    return `${clientId || 'default'}:${requestId}`;
+  }
+
+  private async notifyToolsChanged(): Promise<void> {
     const notification: MCPNotification = {
       jsonrpc: '2.0',
       method: 'notifications/tools/list_changed'
     };
 
-    this.emit('notification', notification);
+    this.notifySessions(notification);
+  }
+
+  private async notifyResourcesChanged(): Promise<void> {
+    const notification: MCPNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/resources/list_changed'
+    };
+
+    this.notifySessions(notification);
+  }
+
+  private async notifyPromptsChanged(): Promise<void> {
+    const notification: MCPNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/prompts/list_changed'
+    };
+
+    this.notifySessions(notification);
+  }
+
+  // Send a notification to every initialized session that accepts notifications
+  private notifySessions(notification: MCPNotification): void {
+    for (const session of this.sessionManager.getInitialized()) {
+      if (session.supportsNotifications) {
+        this.emit('notification', notification, session.id);
+      }
+    }
+  }
+
+  // Upstream log messages go to sessions whose level admits them and whose profile can see the server
+  private forwardLogMessage(serverName: string, params: { level: MCPLogLevel; logger: string; data: any }): void {
+    const severity = LOG_LEVELS.includes(params.level) ? LOG_LEVELS.indexOf(params.level) : LOG_LEVELS.indexOf('info');
+    const notification: MCPNotification = {
+      jsonrpc: '2.0',
+      method: 'notifications/message',
+      params
+    };
+
+    for (const session of this.sessionManager.getInitialized()) {
+      if (!session.supportsNotifications || severity < LOG_LEVELS.indexOf(session.logLevel || DEFAULT_CLIENT_LOG_LEVEL)) {
+        continue;
+      }
+      const profile = this.getSessionProfile(session);
+      if (profile && !this.profileIncludesServer(profile, serverName)) {
+        continue;
+      }
+      this.emit('notification', notification, session.id);
+    }
+  }
+
+  private profileIncludesServer(profile: ProfileConfig, serverName: string): boolean {
+    const group = Object.entries(this.configManager.getConfig().replicaGroups || {})
+      .find(([, replicaGroup]) => replicaGroup.servers.includes(serverName))?.[0];
+    return ToolProfile.includes(profile, '', { serverName, group })
+      || !!profile.tools?.some(toolName => this.toolRouter.findToolRoute(toolName)?.serverName === serverName);
+  }
+
+  // Session a request is served under. A client that never sent initialize (e.g. a stdio proxy that
+  // reconnected to a restarted daemon) gets an implicit session once any client has initialized.
+  private getRequestSession(clientId?: string): ClientSession | undefined {
+    const id = clientId || 'default';
+    const session = this.sessionManager.get(id);
+    if (session?.initialized) {
+      return session;
+    }
+    return this.sessionManager.hasInitialized() ? this.sessionManager.open(id) : undefined;
+  }
+
+  // Profile a session is bound to. A profile removed from the config while in use exposes nothing.
+  private getSessionProfile(session: ClientSession): ProfileConfig | undefined {
+    if (!session.profile) {
+      return undefined;
+    }
+    return this.getProfile(session.profile) || { tools: [] };
+  }
+
+  private checkRateLimits(session: ClientSession, toolName: string, chargeClient: boolean = true): MCPResponse | undefined {
+    const config = this.configManager.getConfig();
+    const targets: RateLimitTarget[] = [];
+
+    const clientIdentity = session.clientInfo?.name || session.id;
+    const clientRule = config.clientRateLimits?.[clientIdentity] || config.clientRateLimits?.['*'];
+    if (clientRule && chargeClient) {
+      targets.push({ scope: 'client', key: clientIdentity, rule: clientRule });
+    }
+
+    // Composite tools have no route; their steps are checked as they run
+    const route = this.toolRouter.findToolRoute(toolName);
+    if (route) {
+      const serverConfig = config.servers[route.serverName];
+      if (serverConfig?.rateLimit) {
+        targets.push({ scope: 'server', key: route.serverName, rule: serverConfig.rateLimit });
+      }
+      const toolRule = serverConfig?.toolsConfig?.toolSettings?.[route.originalName]?.rateLimit;
+      if (toolRule) {
+        targets.push({ scope: 'tool', key: `${route.serverName}/${route.originalName}`, rule: toolRule });
+      }
+    }
+
+    const rejection = targets.length > 0 ? this.rateLimiter.consume(targets) : undefined;
+    if (!rejection) {
+      return undefined;
+    }
+
+    const retryAfter = Math.ceil(rejection.retryAfterMs / 1000);
+    const limitText = rejection.reason === 'quota'
+      ? `Daily quota exceeded for ${rejection.scope} "${rejection.key}" (${rejection.limit} calls/day)`
+      : `Rate limit exceeded for ${rejection.scope} "${rejection.key}" (${rejection.limit} requests/minute)`;
+    log.info(`${limitText}, rejected ${toolName} from ${clientIdentity}`);
+
+    return {
+      jsonrpc: '2.0',
+      id: 0,
+      error: {
+        code: -32003,
+        message: `${limitText}, retry after ${retryAfter}s`,
+        data: {
+          toolName,
+          ...rejection,
+          retryAfter,
+          retryAt: new Date(Date.now() + rejection.retryAfterMs).toISOString()
+        }
+      }
+    };
+  }
+
+  /**
+   * Current consumption of every rate limit bucket that has seen a call
+   */
+  getRateLimitUsage(): RateLimitUsage[] {
+    return this.rateLimiter.getUsage();
+  }
+
+  getAuditLog(): AuditLog {
+    return this.auditLog;
+  }
+
+  getMetrics(): MCPDogMetrics {
+    return this.metrics;
+  }
+
+  getProfile(name: string): ProfileConfig | undefined {
+    return this.configManager.getConfig().profiles?.[name];
+  }
+
+  /**
+   * Bind a client to a named profile so it only sees the tools the profile selects
+   */
+  setSessionProfile(clientId: string, profileName: string): void {
+    if (!this.getProfile(profileName)) {
+      throw new Error(`Unknown profile: ${profileName}`);
+    }
+    this.sessionManager.open(clientId).profile = profileName;
+    log.info(`Client ${clientId} bound to profile ${profileName}`);
+  }
+
+  private handleSetLogLevel(request: MCPRequest, clientId?: string): MCPResponse {
+    const level = request.params?.level as MCPLogLevel;
+    if (!LOG_LEVELS.includes(level)) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32602,
+          message: `Invalid log level: ${level}`,
+          data: { validLevels: LOG_LEVELS }
+        }
+      };
+    }
+
+    this.sessionManager.open(clientId || 'default').logLevel = level;
+    // MCPDog's own log output follows the most recent request until logging.level is edited in the config
+    globalLogger.setLevel(Logger.fromMCPLevel(level));
+    log.info(`Log level set to ${globalLogger.getLevel()} by ${clientId || 'default'}`);
+
+    // Upstream servers emit at the most verbose level any session wants; sessions filter the rest
+    const levels = this.sessionManager.getAll().map(session => LOG_LEVELS.indexOf(session.logLevel || DEFAULT_CLIENT_LOG_LEVEL));
+    this.toolRouter.setUpstreamLogLevel(LOG_LEVELS[Math.min(...levels)]);
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {}
+    };
+  }
+
+  /**
+   * Release per-client state (pending calls, relayed requests, subscriptions) when a client disconnects
+   */
+  async releaseClient(clientId: string): Promise<void> {
+    // Nobody is left to receive results of the client's pending calls
+    const prefix = `${clientId}:`;
+    for (const [key, controller] of this.inFlightRequests) {
+      if (key.startsWith(prefix)) {
+        controller.abort('Client disconnected');
+      }
+    }
+
+    this.sessionManager.close(clientId);
+    for (const [id, pending] of this.pendingClientRequests) {
+      if (pending.clientId === clientId) {
+        this.pendingClientRequests.delete(id);
+        clearTimeout(pending.timeout);
+        pending.reject(new Error(`Client ${clientId} disconnected`));
+      }
+    }
+    await this.toolRouter.releaseClient(clientId);
   }
 
-  
 
   // Status query method
   getStatus(): {
     initialized: boolean;
     client?: ClientCapabilities;
+    sessions: Array<{
+      id: string;
+      clientName: string;
+      clientVersion: string;
+      protocolVersion?: string;
+      supportsNotifications: boolean;
+      logLevel?: MCPLogLevel;
+      profile?: string;
+      subscriptions: number;
+      lastActivity: string;
+    }>;
+    upstreams: Array<{ name: string; connected: boolean; protocolVersion?: string }>;
     config: any;
     routes: any;
+    cache: ResultCacheStats;
   } {
+    const sessions = this.sessionManager.getInitialized();
+    const latest = sessions[sessions.length - 1];
+
     return {
-      initialized: this.isInitialized,
-      client: this.clientCapabilities,
+      initialized: sessions.length > 0,
+      client: latest ? SessionManager.toCapabilities(latest) : undefined,
+      sessions: sessions.map(session => ({
+        id: session.id,
+        clientName: session.clientInfo?.name || 'unknown',
+        clientVersion: session.clientInfo?.version || 'unknown',
+        protocolVersion: session.protocolVersion,
+        supportsNotifications: session.supportsNotifications,
+        logLevel: session.logLevel,
+        profile: session.profile,
+        subscriptions: session.subscriptions.size,
+        lastActivity: session.lastActivity.toISOString()
+      })),
+      upstreams: this.toolRouter.getAllAdapters().map(adapter => ({
+        name: adapter.name,
+        connected: adapter.isConnected,
+        protocolVersion: adapter.protocolVersion
+      })),
       config: {
         servers: Object.keys(this.configManager.getConfig().servers).length,
         enabled: Object.keys(this.configManager.getEnabledServers()).length
       },
-      routes: this.toolRouter.getRouteStatus()
+      routes: this.toolRouter.getRouteStatus(),
+      cache: this.toolRouter.getCacheStats()
     };
   }
 
+  getSessionManager(): SessionManager {
+    return this.sessionManager;
+  }
+
   getConfigManager(): ConfigManager {
     return this.configManager;
   }
@@ -595,27 +1216,122 @@ export class MCPDogServer extends EventEmitter {
   }
 
   private async handleResourcesList(request: MCPRequest): Promise<MCPResponse> {
-    // MCPDog currently does not provide resources, return empty list for Cursor compatibility
+    const resources = await this.toolRouter.getAllResources();
     return {
       jsonrpc: '2.0',
       id: request.id,
       result: {
-        resources: []
+        resources
       }
     };
   }
 
+  private async handleResourceTemplatesList(request: MCPRequest): Promise<MCPResponse> {
+    const resourceTemplates = await this.toolRouter.getAllResourceTemplates();
+    return {
+      jsonrpc: '2.0',
+      id: request.id,
+      result: {
+        resourceTemplates
+      }
+    };
+  }
+
+  private async handleResourceRead(request: MCPRequest): Promise<MCPResponse> {
+    const uri = request.params?.uri;
+    if (!uri) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32602,
+          message: 'Resource URI is required'
+        }
+      };
+    }
+
+    const response = await this.toolRouter.readResource(uri);
+    return {
+      ...response,
+      id: request.id
+    };
+  }
+
+  private async handleResourceSubscribe(request: MCPRequest, clientId: string = 'default'): Promise<MCPResponse> {
+    const uri = request.params?.uri;
+    if (!uri) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32602,
+          message: 'Resource URI is required'
+        }
+      };
+    }
+
+    const response = await this.toolRouter.subscribeResource(uri, clientId);
+    if (!response.error) {
+      this.sessionManager.get(clientId)?.subscriptions.add(uri);
+    }
+    return {
+      ...response,
+      id: request.id
+    };
+  }
+
+  private async handleResourceUnsubscribe(request: MCPRequest, clientId: string = 'default'): Promise<MCPResponse> {
+    const uri = request.params?.uri;
+    if (!uri) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32602,
+          message: 'Resource URI is required'
+        }
+      };
+    }
+
+    const response = await this.toolRouter.unsubscribeResource(uri, clientId);
+    this.sessionManager.get(clientId)?.subscriptions.delete(uri);
+    return {
+      ...response,
+      id: request.id
+    };
+  }
+
   private async handlePromptsList(request: MCPRequest): Promise<MCPResponse> {
-    // MCPDog currently does not provide prompt templates, return empty list for Cursor compatibility
+    const prompts = await this.toolRouter.getAllPrompts();
     return {
       jsonrpc: '2.0',
       id: request.id,
       result: {
-        prompts: []
+        prompts
       }
     };
   }
 
+  private async handlePromptGet(request: MCPRequest): Promise<MCPResponse> {
+    const params = request.params || {};
+    if (!params.name) {
+      return {
+        jsonrpc: '2.0',
+        id: request.id,
+        error: {
+          code: -32602,
+          message: 'Prompt name is required'
+        }
+      };
+    }
+
+    const response = await this.toolRouter.getPrompt(params.name, params.arguments);
+    return {
+      ...response,
+      id: request.id
+    };
+  }
+
   async waitForToolsReady(): Promise<void> {
     const maxAttempts = 10;
     const delay = 500; // 500ms
@@ -628,18 +1344,18 @@ export class MCPDogServer extends EventEmitter {
 
       // If no enabled servers, return directly
       if (enabledServersCount === 0) {
-        console.error(`[SERVER] No enabled servers, skipping wait.`);
+        log.info(`No enabled servers, skipping wait.`);
         return;
       }
 
       // If all servers are connected, or enough tools are available
       if (enabledServersCount === connectedAdaptersCount || 
           (connectedAdaptersCount > 0 && totalTools >= connectedAdaptersCount * 2)) {
-        console.error(`[SERVER] ${connectedAdaptersCount}/${enabledServersCount} servers connected and ${totalTools} tools loaded.`);
+        log.info(`${connectedAdaptersCount}/${enabledServersCount} servers connected and ${totalTools} tools loaded.`);
         return;
       }
 
-      console.error(`[SERVER] Waiting for tools to be ready. Connected: ${connectedAdaptersCount}/${enabledServersCount}, Tools: ${totalTools}`);
+      log.info(`Waiting for tools to be ready. Connected: ${connectedAdaptersCount}/${enabledServersCount}, Tools: ${totalTools}`);
       await new Promise(resolve => setTimeout(resolve, delay));
     }
     
@@ -647,14 +1363,14 @@ export class MCPDogServer extends EventEmitter {
     const connectedCount = this.toolRouter.getConnectedServerCount();
     const totalCount = Object.keys(this.configManager.getEnabledServers()).length;
     
-    console.error(`[SERVER] Timeout after ${elapsedTime}ms. ${connectedCount}/${totalCount} servers connected.`);
+    log.warn(`Timeout after ${elapsedTime}ms. ${connectedCount}/${totalCount} servers connected.`);
     
     // Do not throw error, but warn and continue running
     if (connectedCount > 0) {
-      console.error(`[SERVER] Proceeding with ${connectedCount} connected servers (some servers may have failed to start).`);
+      log.info(`Proceeding with ${connectedCount} connected servers (some servers may have failed to start).`);
       return;
     } else {
-      console.error(`[SERVER] Warning: No servers connected, but proceeding anyway.`);
+      log.warn(`No servers connected, but proceeding anyway.`);
       // Even if no servers are connected, do not throw an error, let the system continue to run
       return;
     }
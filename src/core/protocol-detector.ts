@@ -1,5 +1,8 @@
 import axios, { AxiosResponse } from 'axios';
 import { MCPServerConfig } from '../types/index.js';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('detect');
 
 export interface ProtocolDetectionResult {
   protocol: 'stdio' | 'http-sse' | 'streamable-http' | 'unknown';
@@ -35,7 +38,7 @@ export class ProtocolDetector {
     timeout?: number;
     headers?: Record<string, string>;
   }): Promise<ProtocolDetectionResult> {
-    console.error(`🔍 Starting protocol detection for: ${endpoint}`);
+    log.info(`Starting protocol detection for: ${endpoint}`);
 
     // 并行测试所有协议
     const testResults = await Promise.allSettled([
@@ -52,7 +55,7 @@ export class ProtocolDetector {
       if (result.status === 'fulfilled') {
         results.push(result.value);
       } else {
-        console.error(`Protocol test ${i} failed:`, result.reason);
+        log.debug(`Protocol test ${i} failed:`, result.reason);
       }
     }
 
@@ -357,8 +360,8 @@ export class ProtocolDetector {
       }
     }
 
-    console.error(`🎯 Best protocol for ${endpoint}: ${bestResult.protocol} (confidence: ${bestResult.confidence}%)`);
-    console.error(`📋 Reason: ${bestResult.reason}`);
+    log.info(`Best protocol for ${endpoint}: ${bestResult.protocol} (confidence: ${bestResult.confidence}%)`);
+    log.info(`Reason: ${bestResult.reason}`);
     
     return bestResult;
   }
@@ -414,7 +417,7 @@ export class ProtocolDetector {
   async detectMultipleEndpoints(endpoints: string[]): Promise<Map<string, ProtocolDetectionResult>> {
     const results = new Map<string, ProtocolDetectionResult>();
     
-    console.error(`🔍 Batch protocol detection for ${endpoints.length} endpoints`);
+    log.info(`Batch protocol detection for ${endpoints.length} endpoints`);
     
     const detectionPromises = endpoints.map(async (endpoint) => {
       try {
@@ -432,7 +435,7 @@ export class ProtocolDetector {
 
     await Promise.allSettled(detectionPromises);
     
-    console.error(`✅ Batch detection completed: ${results.size} results`);
+    log.info(`Batch detection completed: ${results.size} results`);
     return results;
   }
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+import { EventEmitter } from 'events';
+import { ClientCapabilities, ClientSession } from '../types/index.js';
+
+export class SessionManager extends EventEmitter {
+  private sessions: Map<string, ClientSession> = new Map();
+
+  /**
+   * Get the session for a client, creating an uninitialized one if needed
+   */
+  open(clientId: string): ClientSession {
+    let session = this.sessions.get(clientId);
+    if (!session) {
+      const now = new Date();
+      session = {
+        id: clientId,
+        initialized: false,
+        capabilities: {},
+        supportsNotifications: false,
+        subscriptions: new Set(),
+        createdAt: now,
+        lastActivity: now
+      };
+      this.sessions.set(clientId, session);
+      this.emit('session-opened', session);
+    }
+    return session;
+  }
+
+  /**
+   * Record the outcome of a client's initialize request
+   */
+  initialize(clientId: string, params: any, protocolVersion: string): ClientSession {
+    const session = this.open(clientId);
+    session.initialized = true;
+    session.protocolVersion = protocolVersion;
+    session.clientInfo = {
+      name: params.clientInfo?.name || 'unknown',
+      version: params.clientInfo?.version || 'unknown'
+    };
+    session.capabilities = params.capabilities || {};
+    // MCP has no client capability for notifications: every MCPDog transport (stdio, daemon socket,
+    // Streamable HTTP) can deliver them once the client has initialized
+    session.supportsNotifications = true;
+    session.lastActivity = new Date();
+    this.emit('session-initialized', session);
+    return session;
+  }
+
+  get(clientId: string): ClientSession | undefined {
+    return this.sessions.get(clientId);
+  }
+
+  getAll(): ClientSession[] {
+    return Array.from(this.sessions.values());
+  }
+
+  getInitialized(): ClientSession[] {
+    return this.getAll().filter(session => session.initialized);
+  }
+
+  hasInitialized(): boolean {
+    return this.getAll().some(session => session.initialized);
+  }
+
+  touch(clientId: string): void {
+    const session = this.sessions.get(clientId);
+    if (session) {
+      session.lastActivity = new Date();
+    }
+  }
+
+  close(clientId: string): boolean {
+    const session = this.sessions.get(clientId);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(clientId);
+    this.emit('session-closed', session);
+    return true;
+  }
+
+  clear(): void {
+    for (const clientId of Array.from(this.sessions.keys())) {
+      this.close(clientId);
+    }
+  }
+
+  // Summary in the legacy single-client shape used by status output
+  static toCapabilities(session: ClientSession): ClientCapabilities {
+    return {
+      supportsNotifications: session.supportsNotifications,
+      clientName: session.clientInfo?.name || 'unknown',
+      clientVersion: session.clientInfo?.version || 'unknown'
+    };
+  }
+}
@@ -5,11 +5,15 @@
 
 import { EventEmitter } from 'events';
 import { Socket } from 'net';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('daemon-client');
 
 export interface DaemonClientConfig {
   host?: string;
   port?: number;
   clientType: 'stdio' | 'web' | 'cli';
+  profile?: string; // Named tool profile to bind this client to
   reconnect?: boolean;
   reconnectInterval?: number;
   silent?: boolean; // Silent mode, no log output
@@ -39,7 +43,7 @@ export class DaemonClient extends EventEmitter {
   private setupSocket() {
     this.socket.on('connect', () => {
       if (!this.config.silent) {
-        console.log('[DAEMON-CLIENT] Connected to daemon');
+        log.info('Connected to daemon');
       }
       this.isConnected = true;
       this.clearReconnectTimer();
@@ -47,7 +51,8 @@ export class DaemonClient extends EventEmitter {
       // Send handshake message
       this.send({
         type: 'handshake',
-        clientType: this.config.clientType
+        clientType: this.config.clientType,
+        ...(this.config.profile && { profile: this.config.profile })
       });
       
       this.emit('connected');
@@ -61,7 +66,7 @@ export class DaemonClient extends EventEmitter {
           this.handleMessage(message);
         } catch (error) {
           if (!this.config.silent) {
-            console.error('[DAEMON-CLIENT] Invalid message:', error);
+            log.error('Invalid message:', error);
           }
         }
       });
@@ -69,7 +74,7 @@ export class DaemonClient extends EventEmitter {
 
     this.socket.on('close', () => {
       if (!this.config.silent) {
-        console.log('[DAEMON-CLIENT] Disconnected from daemon');
+        log.info('Disconnected from daemon');
       }
       this.isConnected = false;
       this.emit('disconnected');
@@ -81,7 +86,7 @@ export class DaemonClient extends EventEmitter {
 
     this.socket.on('error', (error) => {
       if (!this.config.silent) {
-        console.error('[DAEMON-CLIENT] Socket error:', error);
+        log.error('Socket error:', error);
       }
       this.emit('error', error);
     });
@@ -91,18 +96,23 @@ export class DaemonClient extends EventEmitter {
     switch (message.type) {
       case 'welcome':
         if (!this.config.silent) {
-          console.log(`[DAEMON-CLIENT] Welcome, client ID: ${message.clientId}`);
+          log.debug(`Welcome, client ID: ${message.clientId}`);
         }
         this.emit('welcome', message);
         break;
 
       case 'handshake-ack':
         if (!this.config.silent) {
-          console.log('[DAEMON-CLIENT] Handshake acknowledged');
+          log.debug('Handshake acknowledged');
         }
         this.emit('ready', message.serverStatus);
         break;
 
+      case 'handshake-error':
+        // Daemon rejected the handshake (e.g. unknown profile)
+        this.emit('handshake-error', new Error(message.error));
+        break;
+
       case 'mcp-response':
         // MCP request response
         const responseCallback = this.pendingRequests.get(message.requestId);
@@ -121,6 +131,16 @@ export class DaemonClient extends EventEmitter {
         }
         break;
 
+      case 'mcp-notification':
+        // MCP notification pushed by the daemon for this client
+        this.emit('mcp-notification', message.notification);
+        break;
+
+      case 'mcp-server-request':
+        // Request from an upstream server that this client must answer
+        this.emit('mcp-server-request', message.request);
+        break;
+
       case 'server-started':
       case 'server-stopped':
       case 'routes-updated':
@@ -140,7 +160,7 @@ export class DaemonClient extends EventEmitter {
 
       default:
         if (!this.config.silent) {
-          console.warn('[DAEMON-CLIENT] Unknown message type:', message.type);
+          log.warn('Unknown message type:', message.type);
         }
     }
   }
@@ -150,7 +170,7 @@ export class DaemonClient extends EventEmitter {
       this.socket.write(JSON.stringify(message) + '\n');
     } else {
       if (!this.config.silent) {
-        console.error('[DAEMON-CLIENT] Cannot send message, not connected');
+        log.error('Cannot send message, not connected');
       }
     }
   }
@@ -159,11 +179,11 @@ export class DaemonClient extends EventEmitter {
     if (this.reconnectTimer) return;
     
     if (!this.config.silent) {
-      console.log(`[DAEMON-CLIENT] Scheduling reconnect in ${this.config.reconnectInterval}ms`);
+      log.info(`Scheduling reconnect in ${this.config.reconnectInterval}ms`);
     }
     this.reconnectTimer = setTimeout(() => {
       if (!this.config.silent) {
-        console.log('[DAEMON-CLIENT] Attempting to reconnect...');
+        log.info('Attempting to reconnect...');
       }
       this.connect();
     }, this.config.reconnectInterval);
@@ -216,6 +236,22 @@ export class DaemonClient extends EventEmitter {
     });
   }
 
+  // Forward an MCP notification from the client (no response expected)
+  sendMCPNotification(notification: any): void {
+    this.send({
+      type: 'mcp-notification',
+      notification
+    });
+  }
+
+  // Answer a relayed server request (sampling, elicitation, roots)
+  sendMCPClientResponse(response: any): void {
+    this.send({
+      type: 'mcp-client-response',
+      response
+    });
+  }
+
   // Get status
   getStatus(): void {
     this.send({ type: 'get-status' });
@@ -13,7 +13,11 @@ import { MCPDogDaemon } from './mcpdog-daemon.js';
 import { ConfigManager } from '../config/config-manager.js';
 import { globalLogManager } from '../logging/server-log-manager.js';
 import { ServerNameValidator } from '../utils/server-name-validator.js';
+import { ToolNamespace } from '../utils/tool-namespace.js';
 import { createExpressAuthMiddleware } from '../middleware/auth.js';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('web');
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -57,7 +61,7 @@ export class DaemonWebServer {
     // Authentication middleware (if token is configured)
     const authToken = process.env.MCPDOG_AUTH_TOKEN;
     if (authToken) {
-      console.log('[DAEMON-WEB] Authentication enabled');
+      log.info('Authentication enabled');
       
       // Add authentication check endpoint (before auth middleware)
       this.app.get('/api/auth/status', (req, res) => {
@@ -131,6 +135,7 @@ export class DaemonWebServer {
     router.get('/servers/:name/tools', this.handleGetServerTools.bind(this));
     router.post('/servers/:name/tools/:tool/toggle', this.handleToggleServerTool.bind(this));
     router.put('/servers/:name/tools', this.handleUpdateServerTools.bind(this));
+    router.put('/servers/:name/tools/:tool/settings', this.handleUpdateToolSettings.bind(this));
     
     // Tool management API
     router.get('/tools', this.handleGetTools.bind(this));
@@ -144,6 +149,16 @@ export class DaemonWebServer {
     router.get('/daemon/clients', this.handleGetClients.bind(this));
     router.post('/daemon/reload', this.handleReloadConfig.bind(this));
     
+    // Rate limit and quota consumption API
+    router.get('/rate-limits', this.handleGetRateLimits.bind(this));
+    
+    // Result cache API
+    router.get('/cache', this.handleGetCache.bind(this));
+    router.delete('/cache', this.handlePurgeCache.bind(this));
+    
+    // Tool call audit log API
+    router.get('/audit', this.handleGetAudit.bind(this));
+    
     // Log management API
     router.get('/logs', this.handleGetAllLogs.bind(this));
     router.get('/logs/:serverName', this.handleGetServerLogs.bind(this));
@@ -154,6 +169,9 @@ export class DaemonWebServer {
   }
 
   private setupRoutes() {
+    // Prometheus scrape endpoint (behind the auth middleware when a token is configured)
+    this.app.get('/metrics', this.handleGetMetrics.bind(this));
+
     // SPA route support - all non-API routes return index.html
     this.app.get('*', (req, res) => {
       if (!req.path.startsWith('/api')) {
@@ -165,7 +183,7 @@ export class DaemonWebServer {
 
   private setupWebSocket() {
     this.io.on('connection', (socket) => {
-      console.log('[DAEMON-WEB] Web client connected:', socket.id);
+      log.debug('Web client connected:', socket.id);
       
       // Send initial status
       this.sendStatusUpdate(socket);
@@ -176,7 +194,7 @@ export class DaemonWebServer {
       });
 
       socket.on('disconnect', () => {
-        console.log('[DAEMON-WEB] Web client disconnected:', socket.id);
+        log.debug('Web client disconnected:', socket.id);
       });
     });
   }
@@ -184,13 +202,13 @@ export class DaemonWebServer {
   private setupDaemonEvents() {
     // Listen for daemon events, push to web clients in real-time
     this.daemon.on('server-started', (data) => {
-      console.log(`[DAEMON-WEB] Server started event received: ${data.serverName}`);
+      log.debug(`Server started event received: ${data.serverName}`);
       
       // Delay sending composite event to ensure adapter status is fully updated
       setTimeout(() => {
         const systemStatus = this.getSystemStatus();
         if (systemStatus) {
-          console.log(`[DAEMON-WEB] Sending server-status-changed event for: ${data.serverName}`);
+          log.debug(`Sending server-status-changed event for: ${data.serverName}`);
           this.io.emit('server-status-changed', {
             event: 'server-started',
             serverName: data.serverName,
@@ -207,12 +225,12 @@ export class DaemonWebServer {
     });
 
     this.daemon.on('server-stopped', (data) => {
-      console.log(`[DAEMON-WEB] Server stopped event received: ${data.serverName}`);
+      log.debug(`Server stopped event received: ${data.serverName}`);
       
       // Immediately get and send status
       const systemStatus = this.getSystemStatus();
       if (systemStatus) {
-        console.log(`[DAEMON-WEB] Sending server-status-changed event for: ${data.serverName}`);
+        log.debug(`Sending server-status-changed event for: ${data.serverName}`);
         this.io.emit('server-status-changed', {
           event: 'server-stopped',
           serverName: data.serverName,
@@ -235,19 +253,19 @@ export class DaemonWebServer {
       });
       // Delay broadcasting status update to ensure tool routes are fully updated
       setTimeout(() => {
-        console.log(`[DAEMON-WEB] Broadcasting delayed status update after routes-updated for: ${data.serverName}`);
+        log.debug(`Broadcasting delayed status update after routes-updated for: ${data.serverName}`);
         this.broadcastStatusUpdate();
       }, 500); // 500ms delay
     });
 
     this.daemon.on('server-connected', (data) => {
-      console.log(`[DAEMON-WEB] Server connected event received: ${data.serverName}`);
+      log.debug(`Server connected event received: ${data.serverName}`);
       
       // Delay sending composite event to ensure adapter status is fully updated
       setTimeout(() => {
         const systemStatus = this.getSystemStatus();
         if (systemStatus) {
-          console.log(`[DAEMON-WEB] Sending server-status-changed event for: ${data.serverName}`);
+          log.debug(`Sending server-status-changed event for: ${data.serverName}`);
           this.io.emit('server-status-changed', {
             event: 'server-connected',
             serverName: data.serverName,
@@ -264,12 +282,12 @@ export class DaemonWebServer {
     });
 
     this.daemon.on('server-disconnected', (data) => {
-      console.log(`[DAEMON-WEB] Server disconnected event received: ${data.serverName}`);
+      log.debug(`Server disconnected event received: ${data.serverName}`);
       
       // Immediately get and send status, as disconnection status changes are immediate
       const systemStatus = this.getSystemStatus();
       if (systemStatus) {
-        console.log(`[DAEMON-WEB] Sending server-status-changed event for: ${data.serverName}`);
+        log.debug(`Sending server-status-changed event for: ${data.serverName}`);
         this.io.emit('server-status-changed', {
           event: 'server-disconnected',
           serverName: data.serverName,
@@ -292,6 +310,11 @@ export class DaemonWebServer {
       this.io.emit('server-log', data);
     });
 
+    this.daemon.on('circuit-state-changed', (data) => {
+      this.io.emit('circuit-state-changed', data);
+      this.broadcastStatusUpdate(); // Server lists carry the breaker state
+    });
+
     this.daemon.on('tool-called', (data) => {
       this.io.emit('tool-called', {
         serverName: data.serverName,
@@ -311,7 +334,7 @@ export class DaemonWebServer {
 
     // Listen for config change events - this is the critical part for fixing!
     this.daemon.on('config-changed', (config) => {
-      console.log('[DAEMON-WEB] Config changed event received, broadcasting to WebSocket clients');
+      log.debug('Config changed event received, broadcasting to WebSocket clients');
       this.io.emit('config-changed', {
         config,
         timestamp: new Date().toISOString()
@@ -338,7 +361,7 @@ export class DaemonWebServer {
     });
 
     this.daemon.on('server-toggled', (data) => {
-      console.log(`[DAEMON-WEB] Server toggled event received: ${data.name} enabled: ${data.enabled}`);
+      log.debug(`Server toggled event received: ${data.name} enabled: ${data.enabled}`);
       const systemStatus = this.getSystemStatus();
       if (systemStatus) {
         this.io.emit('server-status-changed', {
@@ -389,8 +412,8 @@ export class DaemonWebServer {
       const serversWithTools = Object.entries(configServers).map(([serverName, serverConfig]: [string, any]) => {
         const runtimeInfo = runtimeMap.get(serverName);
         const isConnected = !!runtimeInfo?.connected;
-        const tools = isConnected ? toolRouter.getToolsByServer(serverName) : [];
-        const enabledTools = isConnected ? toolRouter.getEnabledToolsByServer(serverName) : [];
+        const tools = isConnected || runtimeInfo?.standby ? toolRouter.getToolsByServer(serverName) : [];
+        const enabledTools = isConnected || runtimeInfo?.standby ? toolRouter.getEnabledToolsByServer(serverName) : [];
         
         return {
           // Include all ServerConfig properties and ensure name is set correctly
@@ -398,6 +421,9 @@ export class DaemonWebServer {
           name: serverName, // Always use the key as the definitive name
           // Add server runtime status
           connected: isConnected,
+          queue: runtimeInfo?.queue,
+          circuit: runtimeInfo?.circuit,
+          standby: !!runtimeInfo?.standby, // Lazy/on-demand server stopped until its next call
           toolCount: tools.length,
           enabledToolCount: enabledTools.length,
           tools: tools.map(tool => ({
@@ -429,7 +455,8 @@ export class DaemonWebServer {
         const route = toolRouter.findToolRoute(tool.name);
         return {
           ...tool,
-          serverName: route?.serverName || 'unknown'
+          serverName: route?.serverName || 'unknown',
+          originalName: route?.originalName || tool.name
         };
       });
       
@@ -449,7 +476,17 @@ export class DaemonWebServer {
       
       const mcpServer = this.daemon['mcpServer'];
       const toolRouter = mcpServer.getToolRouter();
+      const startTime = Date.now();
       const result = await toolRouter.callTool(name, args || {});
+      mcpServer.getAuditLog().record({
+        clientId: `web:${req.ip}`,
+        clientName: 'mcpdog-dashboard',
+        toolName: name,
+        serverName: toolRouter.findToolRoute(name)?.serverName,
+        args: args || {},
+        response: result,
+        duration: Date.now() - startTime
+      });
       
       res.json(result);
     } catch (error) {
@@ -479,7 +516,10 @@ export class DaemonWebServer {
       const clientList = Array.from(clients.values()).map(c => ({
         id: c.id,
         type: c.type,
-        lastSeen: c.lastSeen
+        lastSeen: c.session.lastActivity,
+        clientName: c.session.clientInfo?.name,
+        protocolVersion: c.session.protocolVersion,
+        profile: c.session.profile
       }));
       res.json(clientList);
     } catch (error) {
@@ -490,6 +530,97 @@ export class DaemonWebServer {
     }
   }
 
+  private async handleGetRateLimits(req: express.Request, res: express.Response) {
+    try {
+      const usage = this.daemon['mcpServer'].getRateLimitUsage();
+      res.json({ usage, timestamp: new Date().toISOString() });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to get rate limits',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  private async handleGetCache(req: express.Request, res: express.Response) {
+    try {
+      const toolRouter = this.daemon['mcpServer'].getToolRouter();
+      res.json(toolRouter.getCacheStats());
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to get cache stats',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  // DELETE /api/cache purges everything; ?server=<name>&tool=<upstream tool> narrows it
+  private async handlePurgeCache(req: express.Request, res: express.Response) {
+    try {
+      const server = typeof req.query.server === 'string' ? req.query.server : undefined;
+      const tool = typeof req.query.tool === 'string' ? req.query.tool : undefined;
+      if (tool && !server) {
+        return res.status(400).json({ error: 'Purging a tool requires a server' });
+      }
+
+      const toolRouter = this.daemon['mcpServer'].getToolRouter();
+      const removed = toolRouter.purgeCache(server, tool);
+      res.json({ success: true, removed, stats: toolRouter.getCacheStats() });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to purge cache',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  private handleGetMetrics(req: express.Request, res: express.Response) {
+    try {
+      const metrics = this.daemon['mcpServer'].getMetrics();
+      res.type(metrics.getContentType()).send(metrics.render());
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to render metrics',
+        message: (error as Error).message
+      });
+    }
+  }
+
+  // GET /api/audit?client=&server=&tool=&status=success|error&since=&until=&search=&limit=
+  private async handleGetAudit(req: express.Request, res: express.Response) {
+    try {
+      const query = (name: string) => typeof req.query[name] === 'string' ? req.query[name] as string : undefined;
+      const status = query('status');
+      if (status && status !== 'success' && status !== 'error') {
+        return res.status(400).json({ error: 'status must be success or error' });
+      }
+      for (const name of ['since', 'until']) {
+        const value = query(name);
+        if (value && isNaN(Date.parse(value))) {
+          return res.status(400).json({ error: `${name} must be an ISO timestamp` });
+        }
+      }
+
+      const auditLog = this.daemon['mcpServer'].getAuditLog();
+      const result = await auditLog.query({
+        client: query('client'),
+        server: query('server'),
+        tool: query('tool'),
+        status: status as 'success' | 'error' | undefined,
+        since: query('since'),
+        until: query('until'),
+        search: query('search'),
+        limit: Math.min(parseInt(query('limit') || '') || 100, 1000)
+      });
+      res.json({ ...result, enabled: auditLog.isEnabled(), file: auditLog.getFilePath() });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to query audit log',
+        message: (error as Error).message
+      });
+    }
+  }
+
   private async handleReloadConfig(req: express.Request, res: express.Response) {
     try {
       await this.daemon['reloadConfig']();
@@ -519,6 +650,9 @@ export class DaemonWebServer {
       allAdapters.forEach((adapter: any) => {
         runtimeMap.set(adapter.name, {
           connected: adapter.isConnected,
+          queue: adapter.getQueueStats?.(),
+          circuit: adapter.getCircuitStats?.(),
+          standby: toolRouter.isStandby(adapter.name),
           toolCount: toolRouter.getToolsByServer(adapter.name).length,
           enabledToolCount: toolRouter.getEnabledToolsByServer(adapter.name).length
         });
@@ -530,7 +664,7 @@ export class DaemonWebServer {
         const isConnected = runtimeInfo ? !!runtimeInfo.connected : false;
         const toolCount = runtimeInfo ? runtimeInfo.toolCount : 0;
         const enabledToolCount = runtimeInfo ? runtimeInfo.enabledToolCount : 0;
-        const tools = isConnected ? toolRouter.getToolsByServer(serverName) : [];
+        const tools = isConnected || runtimeInfo?.standby ? toolRouter.getToolsByServer(serverName) : [];
         
         return {
           // Include all ServerConfig properties and ensure name is set correctly
@@ -538,6 +672,9 @@ export class DaemonWebServer {
           name: serverName, // Always use the key as the definitive name
           // Add server runtime status
           connected: isConnected,
+          queue: runtimeInfo?.queue,
+          circuit: runtimeInfo?.circuit,
+          standby: !!runtimeInfo?.standby,
           toolCount: toolCount,
           enabledToolCount: enabledToolCount,
           tools: tools.map(tool => ({
@@ -556,10 +693,10 @@ export class DaemonWebServer {
         servers: serversWithTools
       };
       
-      console.log(`[DAEMON-WEB] Broadcasting status update: ${serversWithTools.map(s => `${s.name}(connected:${s.connected}, tools:${s.toolCount})`).join(', ')}`);
+      log.debug(`Broadcasting status update: ${serversWithTools.map(s => `${s.name}(connected:${s.connected}, tools:${s.toolCount})`).join(', ')}`);
       socket.emit('status-update', enhancedStatus);
     } catch (error) {
-      console.error('[DAEMON-WEB] Error sending status update:', error);
+      log.error('Error sending status update:', error);
       socket.emit('error', {
         error: 'Failed to get status',
         message: (error as Error).message
@@ -589,6 +726,9 @@ export class DaemonWebServer {
       allAdapters.forEach((adapter: any) => {
         runtimeMap.set(adapter.name, {
           connected: adapter.isConnected,
+          queue: adapter.getQueueStats?.(),
+          circuit: adapter.getCircuitStats?.(),
+          standby: toolRouter.isStandby(adapter.name),
           toolCount: toolRouter.getToolsByServer(adapter.name).length,
           enabledToolCount: toolRouter.getEnabledToolsByServer(adapter.name).length
         });
@@ -608,11 +748,14 @@ export class DaemonWebServer {
         const isConnected = runtimeInfo ? runtimeInfo.connected : false;
         const toolCount = runtimeInfo ? runtimeInfo.toolCount : 0;
         const enabledToolCount = runtimeInfo ? runtimeInfo.enabledToolCount : 0;
-        const tools = isConnected ? toolRouter.getToolsByServer(serverConfig.name) : [];
+        const tools = isConnected || runtimeInfo?.standby ? toolRouter.getToolsByServer(serverConfig.name) : [];
         
         return {
           ...serverConfig,
           connected: isConnected,
+          queue: runtimeInfo?.queue,
+          circuit: runtimeInfo?.circuit,
+          standby: !!runtimeInfo?.standby,
           toolCount: toolCount,
           enabledToolCount: enabledToolCount,
           tools: tools.map(tool => ({
@@ -633,7 +776,7 @@ export class DaemonWebServer {
         servers: serversWithTools
       };
     } catch (error) {
-      console.error('[DAEMON-WEB] Error getting system status:', error);
+      log.error('Error getting system status:', error);
       return null;
     }
   }
@@ -669,11 +812,11 @@ export class DaemonWebServer {
         
         // Only start the server if it's enabled, without reloading all config
         if (config.enabled) {
-          console.log(`[DAEMON-WEB] Server ${name} is enabled, starting it directly`);
+          log.info(`Server ${name} is enabled, starting it directly`);
           // Use configManager's toggleServer method to start the server
           configManager.toggleServer(name, true);
         } else {
-          console.log(`[DAEMON-WEB] Server ${name} is disabled, skipping start`);
+          log.info(`Server ${name} is disabled, skipping start`);
         }
 
         // Emit a server-added event for the specific server
@@ -751,27 +894,27 @@ export class DaemonWebServer {
         // Always restart the server if it was enabled, regardless of what changed
         // This ensures any config change (command, args, env, etc.) takes effect
         if (wasEnabled) {
-          console.log(`[DAEMON-WEB] Server ${name} config updated, restarting server`);
+          log.info(`Server ${name} config updated, restarting server`);
           
           if (nameChanged) {
             // Name changed: disable old server and enable new server
-            console.log(`[DAEMON-WEB] Disabling old server: ${name}`);
+            log.info(`Disabling old server: ${name}`);
             configManager.toggleServer(name, false);
             
-            console.log(`[DAEMON-WEB] Enabling new server: ${serverConfig.name}`);
+            log.info(`Enabling new server: ${serverConfig.name}`);
             configManager.toggleServer(serverConfig.name, true);
           } else {
             // Config changed but name is the same: restart the server
-            console.log(`[DAEMON-WEB] Restarting server ${name} due to config change`);
+            log.info(`Restarting server ${name} due to config change`);
             configManager.toggleServer(name, false);
             configManager.toggleServer(name, true);
           }
         } else if (wasEnabled !== isEnabled) {
           // Only enabled status changed
-          console.log(`[DAEMON-WEB] Toggling server ${serverConfig.name || name} to ${isEnabled}`);
+          log.info(`Toggling server ${serverConfig.name || name} to ${isEnabled}`);
           configManager.toggleServer(serverConfig.name || name, isEnabled);
         } else {
-          console.log(`[DAEMON-WEB] Server ${name} updated but was not enabled, no restart needed`);
+          log.info(`Server ${name} updated but was not enabled, no restart needed`);
         }
 
         // Emit a server-updated event for the specific server
@@ -821,11 +964,11 @@ export class DaemonWebServer {
       
       // Only stop the server if it was enabled, without reloading all config
       if (wasEnabled) {
-        console.log(`[DAEMON-WEB] Server ${name} was enabled, stopping it directly`);
+        log.info(`Server ${name} was enabled, stopping it directly`);
         // Use configManager's toggleServer method to stop the server
         configManager.toggleServer(name, false);
       } else {
-        console.log(`[DAEMON-WEB] Server ${name} was disabled, skipping stop`);
+        log.info(`Server ${name} was disabled, skipping stop`);
       }
 
       // Emit a server-removed event for the specific server
@@ -869,7 +1012,7 @@ export class DaemonWebServer {
       // Save configuration to persist the change
       await configManager.saveConfig();
       
-      console.log(`[DAEMON-WEB] Server ${name} toggled: ${oldEnabled} -> ${!oldEnabled}`);
+      log.info(`Server ${name} toggled: ${oldEnabled} -> ${!oldEnabled}`);
       
       // ConfigManager's toggleServer method emits a server-toggled event
       // MCPDogServer already listens to this event and automatically handles server start/stop
@@ -879,7 +1022,7 @@ export class DaemonWebServer {
       setTimeout(() => {
         const systemStatus = this.getSystemStatus();
         if (systemStatus) {
-          console.log(`[DAEMON-WEB] Sending server-status-changed event for toggle: ${name}`);
+          log.debug(`Sending server-status-changed event for toggle: ${name}`);
           this.io.emit('server-status-changed', {
             event: serverConfig.enabled ? 'server-enabled' : 'server-disabled',
             serverName: name,
@@ -1047,6 +1190,68 @@ export class DaemonWebServer {
     }
   }
 
+  private async handleUpdateToolSettings(req: express.Request, res: express.Response) {
+    try {
+      const { name, tool } = req.params;
+      const { alias, description } = req.body;
+      const configManager = this.daemon['configManager'];
+      const mcpServer = this.daemon['mcpServer'];
+      
+      const serverConfig = configManager.getConfig().servers[name];
+      if (!serverConfig) {
+        return res.status(404).json({ error: 'Server not found' });
+      }
+      
+      if (alias && !ToolNamespace.isValidName(alias)) {
+        return res.status(400).json({
+          error: 'Invalid alias',
+          message: 'Tool names may only contain letters, digits, _, - and . (at most 128 characters)'
+        });
+      }
+      
+      // An alias must not take over a name another tool is already published under
+      if (alias) {
+        const route = mcpServer.getToolRouter().findToolRoute(alias);
+        if (route && (route.serverName !== name || route.originalName !== tool)) {
+          return res.status(409).json({
+            error: 'Alias conflict',
+            message: `Tool name ${alias} is already used by ${route.serverName}/${route.originalName}`
+          });
+        }
+      }
+      
+      if (!serverConfig.toolsConfig) {
+        serverConfig.toolsConfig = { mode: 'all' };
+      }
+      
+      if (!serverConfig.toolsConfig.toolSettings) {
+        serverConfig.toolsConfig.toolSettings = {};
+      }
+      
+      // Empty values clear the override
+      const settings = {
+        ...serverConfig.toolsConfig.toolSettings[tool],
+        enabled: this.isToolEnabled(serverConfig, tool),
+        alias: alias || undefined,
+        description: description || undefined
+      };
+      serverConfig.toolsConfig.toolSettings[tool] = settings;
+      
+      await configManager.saveConfig();
+      
+      // Republish the tool list so connected clients pick up the new names
+      await mcpServer.updateServerTools(name);
+      this.broadcastStatusUpdate();
+      
+      res.json({ success: true, tool, settings });
+    } catch (error) {
+      res.status(500).json({
+        error: 'Failed to update tool settings',
+        message: (error as Error).message
+      });
+    }
+  }
+
   // Helper method: check if tool is enabled
   private isToolEnabled(serverConfig: any, toolName: string): boolean {
     const toolsConfig = serverConfig.toolsConfig;
@@ -1145,9 +1350,9 @@ export class DaemonWebServer {
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.server.listen(this.port, () => {
-        console.log(`[DAEMON-WEB] Web interface started on port ${this.port}`);
-        console.log(`[DAEMON-WEB] Dashboard: http://localhost:${this.port}`);
-        console.log(`[DAEMON-WEB] WebSocket: ws://localhost:${this.port}`);
+        log.info(`Web interface started on port ${this.port}`);
+        log.info(`Dashboard: http://localhost:${this.port}`);
+        log.info(`WebSocket: ws://localhost:${this.port}`);
         resolve();
       });
       
@@ -1160,7 +1365,7 @@ export class DaemonWebServer {
   async stop(): Promise<void> {
     return new Promise((resolve) => {
       this.server.close(() => {
-        console.log('[DAEMON-WEB] Web server stopped');
+        log.info('Web server stopped');
         resolve();
       });
     });
@@ -9,8 +9,14 @@ import { Server as HttpServer } from 'http';
 import { MCPDogServer } from '../core/mcpdog-server.js';
 import { ConfigManager } from '../config/config-manager.js';
 import { StreamableHttpMCPServer } from '../streamable-http-server.js';
+import { ClientSession } from '../types/index.js';
+import { ProtocolVersion } from '../utils/protocol-version.js';
+import { MCPDOG_VERSION } from '../utils/package-info.js';
 import path from 'path';
 import fs from 'fs/promises';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('daemon');
 
 export interface DaemonConfig {
   configPath: string;
@@ -28,7 +34,7 @@ export interface DaemonClient {
   id: string;
   type: 'stdio' | 'web' | 'cli';
   socket?: any;
-  lastSeen: Date;
+  session: ClientSession; // MCP session state (activity, client info, capabilities)
 }
 
 export class MCPDogDaemon extends EventEmitter {
@@ -64,9 +70,9 @@ export class MCPDogDaemon extends EventEmitter {
 
     // Listen for individual server connection events
     this.mcpServer.on('server-connected', (data) => {
-      console.log(`[DAEMON] Received server-connected event for: ${data.serverName}`);
+      log.debug(`Received server-connected event for: ${data.serverName}`);
       this.broadcastToClients('server-connected', data);
-      console.log(`[DAEMON] Broadcasted server-connected event for: ${data.serverName}`);
+      log.debug(`Broadcasted server-connected event for: ${data.serverName}`);
     });
 
     this.mcpServer.on('server-disconnected', (data) => {
@@ -81,6 +87,29 @@ export class MCPDogDaemon extends EventEmitter {
       this.broadcastToClients('server-log', data);
     });
 
+    this.mcpServer.on('circuit-state-changed', (data) => {
+      this.broadcastToClients('circuit-state-changed', data);
+    });
+
+    // Forward MCP notifications to proxied MCP clients (targeted or to every stdio client)
+    this.mcpServer.on('notification', (notification, targetClientId?: string) => {
+      if (targetClientId) {
+        this.sendToClient(targetClientId, { type: 'mcp-notification', notification });
+        return;
+      }
+
+      this.clients.forEach((client, clientId) => {
+        if (client.type === 'stdio') {
+          this.sendToClient(clientId, { type: 'mcp-notification', notification });
+        }
+      });
+    });
+
+    // Requests relayed from upstream servers always target one client
+    this.mcpServer.on('request', (request, targetClientId: string) => {
+      this.sendToClient(targetClientId, { type: 'mcp-server-request', request });
+    });
+
     // Listen for tool router events
     const toolRouter = this.mcpServer.getToolRouter();
     toolRouter.on('routes-updated', (data) => {
@@ -103,10 +132,10 @@ export class MCPDogDaemon extends EventEmitter {
       const serverName = data.context?.serverName;
 
       if (changeType === 'server-toggle') {
-        console.log(`[DAEMON] Skipping full restart for server toggle: ${serverName}`);
+        log.info(`Skipping full restart for server toggle: ${serverName}`);
       } else if (changeType === 'tool-toggle' || changeType === 'tool-config-update') {
         if (serverName) {
-          console.log(`[DAEMON] Handling tool update for server: ${serverName}`);
+          log.info(`Handling tool update for server: ${serverName}`);
           this.mcpServer.updateServerTools(serverName);
         }
       } else {
@@ -116,7 +145,7 @@ export class MCPDogDaemon extends EventEmitter {
 
     // Listen for server enable/disable events
     this.configManager.on('server-toggled', (data) => {
-      console.log(`[DAEMON] Server toggled: ${data.name} enabled: ${data.enabled}`);
+      log.info(`Server toggled: ${data.name} enabled: ${data.enabled}`);
       this.emit('server-toggled', data);
     });
   }
@@ -124,14 +153,14 @@ export class MCPDogDaemon extends EventEmitter {
   private setupIPCServer() {
     this.ipcServer.on('connection', (socket) => {
       const clientId = this.generateClientId();
-      console.log(`[DAEMON] Client connected: ${clientId}`);
+      log.info(`Client connected: ${clientId}`);
 
       // Register client
       const client: DaemonClient = {
         id: clientId,
         type: 'cli', // Default type, will be updated based on handshake message
         socket,
-        lastSeen: new Date()
+        session: this.mcpServer.getSessionManager().open(clientId)
       };
       this.clients.set(clientId, client);
 
@@ -143,19 +172,32 @@ export class MCPDogDaemon extends EventEmitter {
             const message = JSON.parse(line);
             this.handleClientMessage(clientId, message);
           } catch (error) {
-            console.error(`[DAEMON] Invalid message from ${clientId}:`, error);
+            log.warn(`Invalid message from ${clientId}:`, error);
           }
         });
       });
 
-      socket.on('close', () => {
-        console.log(`[DAEMON] Client disconnected: ${clientId}`);
+      // A socket may error without a clean close, or error and then close; release the client once either way
+      let released = false;
+      const releaseClient = () => {
         this.clients.delete(clientId);
+        if (released) {
+          return;
+        }
+        released = true;
+        this.mcpServer.releaseClient(clientId).catch(error => {
+          log.error(`Failed to release client ${clientId}:`, error);
+        });
+      };
+
+      socket.on('close', () => {
+        log.info(`Client disconnected: ${clientId}`);
+        releaseClient();
       });
 
       socket.on('error', (error) => {
-        console.error(`[DAEMON] Client error ${clientId}:`, error);
-        this.clients.delete(clientId);
+        log.error(`Client error ${clientId}:`, error);
+        releaseClient();
       });
 
       // Send welcome message
@@ -171,12 +213,23 @@ export class MCPDogDaemon extends EventEmitter {
     const client = this.clients.get(clientId);
     if (!client) return;
 
-    client.lastSeen = new Date();
+    this.mcpServer.getSessionManager().touch(clientId);
 
     switch (message.type) {
       case 'handshake':
         // Client type handshake
         client.type = message.clientType || 'cli';
+        if (message.profile) {
+          try {
+            this.mcpServer.setSessionProfile(clientId, message.profile);
+          } catch (error) {
+            this.sendToClient(clientId, {
+              type: 'handshake-error',
+              error: (error as Error).message
+            });
+            break;
+          }
+        }
         this.sendToClient(clientId, {
           type: 'handshake-ack',
           serverStatus: this.mcpServer.getStatus()
@@ -201,6 +254,16 @@ export class MCPDogDaemon extends EventEmitter {
         }
         break;
 
+      case 'mcp-notification':
+        // MCP notification from the client (e.g. notifications/cancelled)
+        await this.mcpServer.handleNotification(message.notification, clientId);
+        break;
+
+      case 'mcp-client-response':
+        // Client's answer to a relayed server request
+        this.mcpServer.handleClientResponse(message.response, clientId);
+        break;
+
       case 'get-status':
         this.sendToClient(clientId, {
           type: 'status',
@@ -225,7 +288,7 @@ export class MCPDogDaemon extends EventEmitter {
         break;
 
       default:
-        console.warn(`[DAEMON] Unknown message type from ${clientId}:`, message.type);
+        log.warn(`Unknown message type from ${clientId}:`, message.type);
     }
   }
 
@@ -235,7 +298,7 @@ export class MCPDogDaemon extends EventEmitter {
       try {
         client.socket.write(JSON.stringify(message) + '\n');
       } catch (error) {
-        console.error(`[DAEMON] Failed to send to client ${clientId}:`, error);
+        log.error(`Failed to send to client ${clientId}:`, error);
         this.clients.delete(clientId);
       }
     }
@@ -265,7 +328,10 @@ export class MCPDogDaemon extends EventEmitter {
         clients: Array.from(this.clients.values()).map(c => ({
           id: c.id,
           type: c.type,
-          lastSeen: c.lastSeen
+          lastSeen: c.session.lastActivity,
+          clientName: c.session.clientInfo?.name,
+          protocolVersion: c.session.protocolVersion,
+          profile: c.session.profile
         })),
         uptime: process.uptime()
       },
@@ -275,13 +341,17 @@ export class MCPDogDaemon extends EventEmitter {
         connected: adapter.isConnected,
         toolCount: toolRouter.getToolsByServer(adapter.name).length,
         enabledToolCount: toolRouter.getEnabledToolsByServer(adapter.name).length,
+        protocolVersion: adapter.protocolVersion,
+        queue: adapter.getQueueStats?.(),
+        circuit: adapter.getCircuitStats?.(),
+        standby: toolRouter.isStandby(adapter.name),
         config: adapter.config
       }))
     };
   }
 
   private async handleConfigChange(config: any) {
-    console.log('[DAEMON] Config changed, reloading servers...');
+    log.info('Config changed, reloading servers...');
     // Reinitialize servers
     await this.mcpServer.stop();
     await this.mcpServer.start();
@@ -296,35 +366,35 @@ export class MCPDogDaemon extends EventEmitter {
       id: 'daemon-init',
       method: 'initialize',
       params: {
-        protocolVersion: '2024-11-05',
-        capabilities: {
-          roots: { listChanged: false }
-        },
+        protocolVersion: ProtocolVersion.LATEST,
+        // No socket stands behind this session, so it must never be picked to answer roots/list,
+        // sampling or elicitation requests from upstream servers
+        capabilities: {},
         clientInfo: {
           name: 'MCPDog Daemon',
-          version: '2.0.0'
+          version: MCPDOG_VERSION
         }
       }
     };
 
     try {
       await this.mcpServer.handleRequest(initializeRequest, 'daemon-init');
-      console.log('[DAEMON] MCP Server initialized successfully');
+      log.info('MCP Server initialized successfully');
     } catch (error) {
-      console.error('[DAEMON] Failed to initialize MCP Server:', error);
+      log.error('Failed to initialize MCP Server:', error);
     }
   }
 
   private async reloadConfig() {
-    console.log('[DAEMON] Manual config reload requested');
+    log.info('Manual config reload requested');
     await this.configManager.loadConfig();
     
     // Re-initialize MCP server to connect to new servers
     try {
       await this.mcpServer.handleConfigReload();
-      console.log('[DAEMON] MCP Server reinitialized after config reload');
+      log.info('MCP Server reinitialized after config reload');
     } catch (error) {
-      console.error('[DAEMON] Failed to reinitialize MCP Server after config reload:', error);
+      log.error('Failed to reinitialize MCP Server after config reload:', error);
     }
   }
 
@@ -337,13 +407,13 @@ export class MCPDogDaemon extends EventEmitter {
         break;
       // Add other config actions here
       default:
-        console.warn(`[DAEMON] Unknown config action: ${action}`);
+        log.warn(`Unknown config action: ${action}`);
     }
   }
 
   async start(): Promise<void> {
     try {
-      console.log('[DAEMON] Starting MCPDog daemon...');
+      log.info('Starting MCPDog daemon...');
       
       // Load config file
       await this.configManager.loadConfig();
@@ -358,7 +428,7 @@ export class MCPDogDaemon extends EventEmitter {
       const ipcPort = this.config.ipcPort || 9999;
       await new Promise<void>((resolve) => {
         this.ipcServer.listen(ipcPort, 'localhost', () => {
-          console.log(`[DAEMON] IPC server listening on port ${ipcPort}`);
+          log.info(`IPC server listening on port ${ipcPort}`);
           resolve();
         });
       });
@@ -368,11 +438,13 @@ export class MCPDogDaemon extends EventEmitter {
         try {
           // Get auth token from environment variable
           const authToken = process.env.MCPDOG_AUTH_TOKEN;
-          this.httpMCPServer = new StreamableHttpMCPServer(this.configManager, this.config.httpPort, authToken);
+          // HTTP clients are served by the daemon's own MCPDogServer, so they share one session model,
+          // audit log and set of metrics with stdio clients
+          this.httpMCPServer = new StreamableHttpMCPServer(this.configManager, this.config.httpPort, authToken, this.mcpServer);
           await this.httpMCPServer.start();
-          console.log(`[DAEMON] HTTP MCP server started on port ${this.config.httpPort}${authToken ? ' with authentication' : ''}`);
+          log.info(`HTTP MCP server started on port ${this.config.httpPort}${authToken ? ' with authentication' : ''}`);
         } catch (error) {
-          console.error(`[DAEMON] Failed to start HTTP MCP server on port ${this.config.httpPort}:`, error);
+          log.error(`Failed to start HTTP MCP server on port ${this.config.httpPort}:`, error);
           // HTTP transport is optional, continue without it
         }
       }
@@ -383,17 +455,17 @@ export class MCPDogDaemon extends EventEmitter {
       }
 
       this.isRunning = true;
-      console.log('[DAEMON] MCPDog daemon started successfully');
+      log.info('MCPDog daemon started successfully');
       
     } catch (error) {
-      console.error('[DAEMON] Failed to start daemon:', error);
+      log.error('Failed to start daemon:', error);
       throw error;
     }
   }
 
   async stop(): Promise<void> {
     try {
-      console.log('[DAEMON] Stopping MCPDog daemon...');
+      log.info('Stopping MCPDog daemon...');
       
       this.isRunning = false;
       
@@ -408,11 +480,10 @@ export class MCPDogDaemon extends EventEmitter {
       // Stop HTTP MCP server if running
       if (this.httpMCPServer) {
         try {
-          // StreamableHttpMCPServer doesn't have a direct stop method, 
-          // but it should clean up on process exit
-          console.log('[DAEMON] HTTP MCP server stopped');
+          await this.httpMCPServer.stop();
+          log.info('HTTP MCP server stopped');
         } catch (error) {
-          console.error('[DAEMON] Error stopping HTTP MCP server:', error);
+          log.error('Error stopping HTTP MCP server:', error);
         }
       }
 
@@ -433,10 +504,10 @@ export class MCPDogDaemon extends EventEmitter {
         }
       }
 
-      console.log('[DAEMON] MCPDog daemon stopped');
+      log.info('MCPDog daemon stopped');
       
     } catch (error) {
-      console.error('[DAEMON] Error stopping daemon:', error);
+      log.error('Error stopping daemon:', error);
       throw error;
     }
   }
@@ -450,6 +521,6 @@ export class MCPDogDaemon extends EventEmitter {
     const { DaemonWebServer } = await import('./daemon-web-server.js');
     const webServer = new DaemonWebServer(this, port);
     await webServer.start();
-    console.log(`[DAEMON] Web interface started on port ${port}`);
+    log.info(`Web interface started on port ${port}`);
   }
 }
\ No newline at end of file
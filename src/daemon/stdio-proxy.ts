@@ -11,10 +11,11 @@ export class StdioProxy {
   private readline: any;
   private isReady = false;
 
-  constructor(daemonPort?: number) {
+  constructor(daemonPort?: number, profile?: string) {
     this.daemonClient = new DaemonClient({
       port: daemonPort || 9999,
       clientType: 'stdio',
+      profile,
       reconnect: true,
       silent: true // Enable silent mode to avoid log pollution in stdio
     });
@@ -64,6 +65,13 @@ export class StdioProxy {
       this.isReady = true;
     });
 
+    this.daemonClient.on('handshake-error', (error) => {
+      // Serving the full tool list instead of the requested profile would be surprising, so give up
+      process.stderr.write(`MCPDog: ${error.message}\n`);
+      this.daemonClient.disconnect();
+      process.exit(1);
+    });
+
     this.daemonClient.on('ready', (serverStatus) => {
       // Handshake completed, ensure ready status
       this.isReady = true;
@@ -77,6 +85,16 @@ export class StdioProxy {
     this.daemonClient.on('routes-updated', (data) => {
       // Tool routes updated, may need to send notifications
     });
+
+    // MCP notifications from the daemon are written straight to the MCP client
+    this.daemonClient.on('mcp-notification', (notification) => {
+      this.sendStdioResponse(notification);
+    });
+
+    // Requests relayed from upstream servers (sampling, elicitation, roots)
+    this.daemonClient.on('mcp-server-request', (request) => {
+      this.sendStdioResponse(request);
+    });
   }
 
   private async handleStdioInput(line: string) {
@@ -85,9 +103,16 @@ export class StdioProxy {
     try {
       const request = JSON.parse(line);
       
+      // Responses to relayed server requests (no method field) go back to the daemon
+      if (!('method' in request)) {
+        this.daemonClient.sendMCPClientResponse(request);
+        return;
+      }
+
       // Check if it's a notification message (no id field)
       if (!('id' in request)) {
-        // Notification messages are temporarily ignored or forwarded to daemon
+        // Notifications (e.g. notifications/cancelled) are forwarded to the daemon
+        this.daemonClient.sendMCPNotification(request);
         return;
       }
 
@@ -3,6 +3,9 @@ import { MCPDogServer } from './core/mcpdog-server.js';
 import { MCPDogConfig, MCPMessage, MCPNotification, MCPNotificationRequest, MCPResponse, MCPRequest } from './types/index.js';
 import { ConfigManager } from './config/config-manager.js';
 import { StreamableHttpMCPServer } from './streamable-http-server.js';
+import { globalLogger } from './logging/logger.js';
+
+const log = globalLogger.child('stdio');
 
 export class StdioMCPServer {
   private server: MCPDogServer;
@@ -10,7 +13,7 @@ export class StdioMCPServer {
   private lastProcessedLine: string = ''; // Prevent duplicate line processing
 
   constructor(configManager: ConfigManager) {
-    console.error(`[STDIO] Creating StdioMCPServer instance`);
+    log.info(`Creating StdioMCPServer instance`);
     this.server = new MCPDogServer(configManager);
     this.setupServer();
     this.setupStdio();
@@ -21,16 +24,21 @@ export class StdioMCPServer {
       this.sendMessage(notification);
     });
 
+    // Requests relayed from upstream servers (sampling, elicitation, roots)
+    this.server.on('request', (request: MCPRequest) => {
+      this.sendMessage(request);
+    });
+
     this.server.on('error', ({ error, context }) => {
-      console.error(`MCPDog error [${context}]:`, error);
+      log.error(`MCPDog error [${context}]:`, error);
     });
 
     this.server.on('started', () => {
-      console.error('MCPDog Server started (stdio mode)');
+      log.info('MCPDog Server started (stdio mode)');
     });
 
     this.server.on('stopped', () => {
-      console.error('MCPDog Server stopped');
+      log.info('MCPDog Server stopped');
     });
   }
 
@@ -42,7 +50,7 @@ export class StdioMCPServer {
     });
 
     this.readline.on('line', (line: string) => {
-      console.error(`[STDIO] Received line: ${line.substring(0, 50)}...`);
+      log.debug(`Received line: ${line.substring(0, 50)}...`);
       this.handleInput(line.trim());
     });
 
@@ -54,13 +62,13 @@ export class StdioMCPServer {
     process.on('SIGINT', () => this.shutdown());
     process.on('SIGTERM', () => this.shutdown());
     process.on('uncaughtException', (error) => {
-      console.error('Uncaught exception:', error);
+      log.error('Uncaught exception:', error);
       this.shutdown();
     });
   }
 
   private async handleInput(line: string): Promise<void> {
-    console.error(`[STDIO] handleInput called with: ${line.substring(0, 30)}...`);
+    log.debug(`handleInput called with: ${line.substring(0, 30)}...`);
     
     if (!line) {
       return;
@@ -68,7 +76,7 @@ export class StdioMCPServer {
     
     // Prevent processing duplicate lines
     if (line === this.lastProcessedLine) {
-      console.error(`[DEDUP] Ignoring duplicate line processing`);
+      log.debug(`Ignoring duplicate line processing`);
       return;
     }
     this.lastProcessedLine = line;
@@ -76,24 +84,31 @@ export class StdioMCPServer {
     try {
       const message = JSON.parse(line) as MCPMessage;
       
+      // Responses to requests we relayed to the client (no method field)
+      if (!('method' in message)) {
+        this.server.handleClientResponse(message as MCPResponse, 'stdio-client');
+        return;
+      }
+      
       // Check if it's a notification message (no id field)
       if (!('id' in message)) {
         const notification = message as MCPNotificationRequest;
-        console.error(`Handling notification: ${notification.method}`);
+        log.debug(`Handling notification: ${notification.method}`);
         // Notifications don't need responses
+        await this.server.handleNotification(notification, 'stdio-client');
         return;
       }
       
       // Handle regular requests
       const request = message as MCPRequest;
       
-      console.error(`Processing request: ${request.method} (id: ${request.id})`);
+      log.debug(`Processing request: ${request.method} (id: ${request.id})`);
       const response = await this.server.handleRequest(request, 'stdio-client');
-      console.error(`Sending response for: ${request.method} (id: ${request.id})`);
+      log.debug(`Sending response for: ${request.method} (id: ${request.id})`);
       this.sendMessage(response);
       
     } catch (error) {
-      console.error('Error processing request:', error);
+      log.error('Error processing request:', error);
       // Don't send error response, only log error
     }
   }
@@ -106,17 +121,17 @@ export class StdioMCPServer {
 
   async start(): Promise<void> {
     try {
-      console.error(`[STDIO] Starting StdioMCPServer...`);
+      log.info(`Starting StdioMCPServer...`);
       await this.server.start();
-      console.error(`[STDIO] StdioMCPServer started successfully`);
+      log.info(`StdioMCPServer started successfully`);
     } catch (error) {
-      console.error('Failed to start server:', error);
+      log.error('Failed to start server:', error);
       process.exit(1);
     }
   }
 
   private async shutdown(): Promise<void> {
-    console.error('Shutting down MCPDog Server...');
+    log.info('Shutting down MCPDog Server...');
     
     try {
       if (this.readline) {
@@ -126,7 +141,7 @@ export class StdioMCPServer {
       await this.server.stop();
       process.exit(0);
     } catch (error) {
-      console.error('Error during shutdown:', error);
+      log.error('Error during shutdown:', error);
       process.exit(1);
     }
   }
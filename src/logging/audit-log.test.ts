@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readdir, stat } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { AuditLog } from './audit-log';
+import { AuditConfig } from '../types';
+
+describe('AuditLog', () => {
+  const createLog = async (config: AuditConfig) => {
+    const dir = await mkdtemp(join(tmpdir(), 'mcpdog-audit-'));
+    return { dir, auditLog: new AuditLog(dir, () => ({ enabled: true, ...config })) };
+  };
+  const call = (toolName: string, overrides: Record<string, any> = {}) => ({
+    clientId: 'session-1',
+    clientName: 'claude-desktop',
+    toolName,
+    serverName: 'files',
+    args: {},
+    response: { jsonrpc: '2.0' as const, id: 1, result: { content: [{ type: 'text', text: 'ok' }] } },
+    duration: 5,
+    ...overrides
+  });
+
+  it('should redact sensitive keys and truncate oversized payloads', async () => {
+    const { auditLog } = await createLog({ maxPayloadLength: 100, redact: { keys: ['ssn'] } });
+
+    await auditLog.record(call('login', {
+      args: { user: 'ada', password: 'hunter2', headers: { 'API-Key': 'abc', SSN: '123' } },
+      response: { jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: 'x'.repeat(500) }] } }
+    }));
+
+    const [record] = (await auditLog.query()).records;
+    expect(record.args).toEqual({ user: 'ada', password: '[REDACTED]', headers: { 'API-Key': '[REDACTED]', SSN: '[REDACTED]' } });
+    expect(record.result).toMatchObject({ truncated: true, length: expect.any(Number) });
+    expect(record.result.preview).toHaveLength(100);
+  });
+
+  it('should filter newest first across rotated files', async () => {
+    const { dir, auditLog } = await createLog({ maxFileSize: 400, maxFiles: 2 });
+
+    for (let i = 0; i < 6; i++) {
+      await auditLog.record(call(`tool_${i}`, i === 4
+        ? { response: { jsonrpc: '2.0', id: 1, error: { code: -32003, message: 'Rate limit exceeded' } } }
+        : {}));
+    }
+
+    expect((await readdir(join(dir, 'audit'))).sort()).toEqual(['tool-calls.jsonl', 'tool-calls.jsonl.1', 'tool-calls.jsonl.2']);
+
+    const { records, hasMore } = await auditLog.query({ limit: 2 });
+    expect(records.map(record => record.toolName)).toEqual(['tool_5', 'tool_4']);
+    expect(hasMore).toBe(true);
+
+    const errors = await auditLog.query({ status: 'error' });
+    expect(errors.records).toMatchObject([{ toolName: 'tool_4', error: { code: -32003 } }]);
+    expect((await auditLog.query({ search: 'RATE LIMIT' })).records).toHaveLength(1);
+    expect((await auditLog.query({ client: 'other-client' })).records).toHaveLength(0);
+  });
+
+  it('should rotate by the size on disk when several writers share the file', async () => {
+    const { dir, auditLog } = await createLog({ maxFileSize: 1000, maxFiles: 5 });
+    const other = new AuditLog(dir, () => ({ enabled: true, maxFileSize: 1000, maxFiles: 5 }));
+
+    for (let i = 0; i < 6; i++) {
+      await (i % 2 ? other : auditLog).record(call(`tool_${i}`));
+    }
+
+    const files = await readdir(join(dir, 'audit'));
+    const sizes = await Promise.all(files.map(file => stat(join(dir, 'audit', file)).then(stats => stats.size)));
+    expect(Math.max(...sizes)).toBeLessThanOrEqual(1000);
+    expect((await auditLog.query()).records.map(record => record.toolName)).toEqual(['tool_5', 'tool_4', 'tool_3', 'tool_2', 'tool_1', 'tool_0']);
+  });
+
+  it('should write nothing unless enabled', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'mcpdog-audit-'));
+    const auditLog = new AuditLog(dir, () => undefined);
+
+    await auditLog.record(call('read_file'));
+    expect(await readdir(dir)).toEqual([]);
+    expect((await auditLog.query()).records).toEqual([]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Audit Log
+ * Durable record of the tool calls clients make: who called which tool, with which arguments and
+ * what came back. Records are appended to a JSONL file that rotates by size. Sensitive keys are
+ * redacted and oversized payloads truncated before anything reaches the disk.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import { randomUUID } from 'crypto';
+import { AuditConfig, MCPResponse } from '../types/index.js';
+import { globalLogger } from './logger.js';
+
+const log = globalLogger.child('audit');
+
+export interface AuditRecord {
+  id: string;
+  timestamp: string;
+  clientId?: string;       // Session the call arrived on
+  clientName?: string;     // clientInfo.name from initialize
+  clientVersion?: string;
+  profile?: string;
+  toolName: string;        // Name the client called
+  serverName?: string;
+  status: 'success' | 'error';  // Tool results flagged isError count as errors
+  args?: any;
+  result?: any;
+  error?: { code: number; message: string };
+  duration: number;
+}
+
+export interface AuditCall {
+  clientId?: string;
+  clientName?: string;
+  clientVersion?: string;
+  profile?: string;
+  toolName: string;
+  serverName?: string;
+  args: any;
+  response: MCPResponse;
+  duration: number;
+}
+
+export interface AuditQuery {
+  since?: string;          // ISO timestamps, inclusive
+  until?: string;
+  client?: string;         // Matches clientName or clientId
+  server?: string;
+  tool?: string;
+  status?: AuditRecord['status'];
+  search?: string;         // Case-insensitive substring of the whole record
+  limit?: number;
+}
+
+export interface AuditQueryResult {
+  records: AuditRecord[];  // Newest first
+  hasMore: boolean;
+}
+
+export class AuditLog {
+  static readonly DEFAULT_FILE = 'audit/tool-calls.jsonl';
+  static readonly DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+  static readonly DEFAULT_MAX_FILES = 5;
+  static readonly DEFAULT_MAX_PAYLOAD_LENGTH = 4096;
+  static readonly DEFAULT_QUERY_LIMIT = 100;
+  static readonly DEFAULT_REDACT_KEYS = ['password', 'passwd', 'secret', 'token', 'apiKey', 'accessToken', 'refreshToken', 'authorization', 'cookie'];
+  static readonly REDACTED = '[REDACTED]';
+
+  private writing: Promise<void> = Promise.resolve();
+  private directoryReady?: string; // File whose directory has been created
+
+  // baseDir is the config file's directory, which relative audit.file paths are resolved against
+  constructor(private baseDir: string, private getConfig: () => AuditConfig | undefined) {}
+
+  isEnabled(): boolean {
+    return this.getConfig()?.enabled === true;
+  }
+
+  getFilePath(): string {
+    return resolve(this.baseDir, this.getConfig()?.file || AuditLog.DEFAULT_FILE);
+  }
+
+  /**
+   * Append a call to the log. Never throws; a failed write is reported and the call goes on.
+   */
+  record(call: AuditCall): Promise<void> {
+    const config = this.getConfig();
+    if (config?.enabled !== true) {
+      return Promise.resolve();
+    }
+
+    const { response } = call;
+    const failed = !!response.error || response.result?.isError === true;
+    const record: AuditRecord = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      clientId: call.clientId,
+      clientName: call.clientName,
+      clientVersion: call.clientVersion,
+      profile: call.profile,
+      toolName: call.toolName,
+      serverName: call.serverName,
+      status: failed ? 'error' : 'success',
+      ...(!config.redact?.arguments && { args: this.sanitize(call.args, config) }),
+      ...(response.result !== undefined && !config.redact?.results && { result: this.sanitize(response.result, config) }),
+      ...(response.error && { error: { code: response.error.code, message: response.error.message } }),
+      duration: call.duration
+    };
+
+    const line = JSON.stringify(record) + '\n';
+    const maxFileSize = config.maxFileSize ?? AuditLog.DEFAULT_MAX_FILE_SIZE;
+    const maxFiles = config.maxFiles ?? AuditLog.DEFAULT_MAX_FILES;
+    const filePath = this.getFilePath();
+
+    // Appends are chained so rotation never races a concurrent write
+    this.writing = this.writing.then(async () => {
+      try {
+        await this.append(filePath, line, maxFileSize, maxFiles);
+      } catch (error) {
+        log.warn(`Failed to write audit log ${filePath}: ${(error as Error).message}`);
+      }
+    });
+    return this.writing;
+  }
+
+  /**
+   * Read records back, newest first, from the current file and then the rotated ones
+   */
+  async query(filter: AuditQuery = {}): Promise<AuditQueryResult> {
+    await this.writing;
+    const limit = filter.limit ?? AuditLog.DEFAULT_QUERY_LIMIT;
+    const since = filter.since ? Date.parse(filter.since) : undefined;
+    const until = filter.until ? Date.parse(filter.until) : undefined;
+    const search = filter.search?.toLowerCase();
+    const records: AuditRecord[] = [];
+
+    for (const file of await this.listFiles()) {
+      const lines = (await fs.readFile(file, 'utf-8')).split('\n');
+      for (let i = lines.length - 1; i >= 0; i--) {
+        let record: AuditRecord;
+        try {
+          record = JSON.parse(lines[i]);
+        } catch {
+          continue; // Blank line, or a record torn by a crash mid-write
+        }
+
+        const time = Date.parse(record.timestamp);
+        if (since !== undefined && time < since) {
+          return { records, hasMore: false }; // Everything further back is older still
+        }
+        if ((until !== undefined && time > until) ||
+            (filter.client && record.clientName !== filter.client && record.clientId !== filter.client) ||
+            (filter.server && record.serverName !== filter.server) ||
+            (filter.tool && record.toolName !== filter.tool) ||
+            (filter.status && record.status !== filter.status) ||
+            (search && !lines[i].toLowerCase().includes(search))) {
+          continue;
+        }
+
+        if (records.length === limit) {
+          return { records, hasMore: true };
+        }
+        records.push(record);
+      }
+    }
+    return { records, hasMore: false };
+  }
+
+  private async append(filePath: string, line: string, maxFileSize: number, maxFiles: number): Promise<void> {
+    if (this.directoryReady !== filePath) {
+      await fs.mkdir(dirname(filePath), { recursive: true });
+      this.directoryReady = filePath;
+    }
+
+    // The size comes from disk rather than a running count: another writer (a second MCPDog process on
+    // the same config) may have appended to or rotated the file since our last record
+    const size = await fs.stat(filePath).then(stats => stats.size, () => 0);
+    if (size > 0 && size + Buffer.byteLength(line) > maxFileSize) {
+      await this.rotate(filePath, maxFiles);
+    }
+    await fs.appendFile(filePath, line);
+  }
+
+  // file.1 is the most recent rotation; whatever would become file.<maxFiles + 1> is dropped
+  private async rotate(filePath: string, maxFiles: number): Promise<void> {
+    await fs.rm(`${filePath}.${maxFiles}`, { force: true });
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      await fs.rename(`${filePath}.${i}`, `${filePath}.${i + 1}`).catch(() => undefined);
+    }
+    await fs.rename(filePath, `${filePath}.1`);
+  }
+
+  private async listFiles(): Promise<string[]> {
+    const filePath = this.getFilePath();
+    const files: string[] = [];
+    for (let i = 0; ; i++) {
+      const file = i === 0 ? filePath : `${filePath}.${i}`;
+      const exists = await fs.access(file).then(() => true, () => false);
+      if (!exists) {
+        // A fresh log may not have its current file yet while rotated ones remain
+        if (i === 0) continue;
+        break;
+      }
+      files.push(file);
+    }
+    return files;
+  }
+
+  private sanitize(value: any, config: AuditConfig): any {
+    const keys = new Set([...AuditLog.DEFAULT_REDACT_KEYS, ...(config.redact?.keys || [])].map(AuditLog.normalizeKey));
+    const redacted = AuditLog.redact(value, keys);
+
+    const maxLength = config.maxPayloadLength ?? AuditLog.DEFAULT_MAX_PAYLOAD_LENGTH;
+    const json = JSON.stringify(redacted);
+    if (json !== undefined && json.length > maxLength) {
+      return { truncated: true, length: json.length, preview: json.slice(0, maxLength) };
+    }
+    return redacted;
+  }
+
+  private static redact(value: any, keys: Set<string>): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item, keys));
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+        [key, keys.has(this.normalizeKey(key)) ? AuditLog.REDACTED : this.redact(item, keys)]
+      ));
+    }
+    return value;
+  }
+
+  // apiKey, api_key and API-KEY all name the same field
+  private static normalizeKey(key: string): string {
+    return key.toLowerCase().replace(/[-_]/g, '');
+  }
+}
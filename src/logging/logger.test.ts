@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readdir, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Logger } from './logger';
+import { LoggingConfig } from '../types';
+
+describe('Logger', () => {
+  const createLogger = (config: LoggingConfig) => {
+    const lines: string[] = [];
+    const logger = new Logger({ write: (chunk: string) => lines.push(chunk) > 0 });
+    logger.configure(tmpdir(), () => config);
+    return { logger, lines };
+  };
+
+  it('should filter by level and tag entries with their component', () => {
+    const { logger, lines } = createLogger({ level: 'warn' });
+    const log = logger.child('adapter:files');
+
+    log.info('Connected');
+    log.warn('Slow response', { ms: 1200 });
+
+    expect(lines).toHaveLength(1);
+    expect(lines[0]).toMatch(/^\d{4}-\d\d-\d\dT.* WARN  \[adapter:files\] Slow response \{ ms: 1200 \}\n$/);
+  });
+
+  it('should write JSON entries with error details', () => {
+    const { logger, lines } = createLogger({ format: 'json' });
+
+    logger.child('router').error('Tool call failed:', new Error('boom'));
+
+    const entry = JSON.parse(lines[0]);
+    expect(entry).toMatchObject({ level: 'error', component: 'router', msg: 'Tool call failed:', error: { name: 'Error', message: 'boom' } });
+    expect(entry.error.stack).toContain('boom');
+  });
+
+  it('should keep a runtime level until the configured level changes', () => {
+    const config: LoggingConfig = { level: 'info' };
+    const { logger } = createLogger(config);
+
+    logger.setLevel(Logger.fromMCPLevel('debug'));
+    expect(logger.isEnabled('debug')).toBe(true);
+    expect(Logger.fromMCPLevel('critical')).toBe('error');
+
+    config.level = 'error';
+    expect(logger.getLevel()).toBe('error');
+  });
+
+  it('should rotate the log file by size', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'mcpdog-log-'));
+    const { logger, lines } = createLogger({ file: join(dir, 'mcpdog.log'), console: false, maxFileSize: 200, maxFiles: 2 });
+    const log = logger.child('daemon');
+
+    for (let i = 0; i < 8; i++) {
+      log.info(`entry ${i} ${'x'.repeat(60)}`);
+    }
+
+    expect(lines).toEqual([]);
+    expect((await readdir(dir)).sort()).toEqual(['mcpdog.log', 'mcpdog.log.1', 'mcpdog.log.2']);
+    expect(await readFile(join(dir, 'mcpdog.log'), 'utf-8')).toContain('entry 7');
+    expect(await readFile(join(dir, 'mcpdog.log.2'), 'utf-8')).not.toContain('entry 0');
+  });
+});
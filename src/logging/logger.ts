@@ -0,0 +1,193 @@
+/**
+ * Logger
+ * Central leveled logger for MCPDog's own diagnostics. Every entry carries a component tag (server,
+ * router, adapter:<name>, daemon, http, ...) and is written to stderr, as text or JSON lines, and
+ * optionally to a file that rotates by size. stdout is left alone so the stdio transport stays clean.
+ */
+
+import { closeSync, fstatSync, mkdirSync, openSync, renameSync, rmSync, writeSync } from 'fs';
+import { dirname, resolve } from 'path';
+import { inspect } from 'util';
+import { LoggingConfig, MCPLogLevel } from '../types/index.js';
+
+export type LogLevel = NonNullable<LoggingConfig['level']>;
+
+export interface LogEntry {
+  time: string;
+  level: LogLevel;
+  component: string;
+  msg: string;
+  error?: { name: string; message: string; stack?: string };
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+export class ComponentLogger {
+  constructor(private logger: Logger, readonly component: string) {}
+
+  debug(message: string, ...args: unknown[]): void {
+    this.logger.log('debug', this.component, message, args);
+  }
+
+  info(message: string, ...args: unknown[]): void {
+    this.logger.log('info', this.component, message, args);
+  }
+
+  warn(message: string, ...args: unknown[]): void {
+    this.logger.log('warn', this.component, message, args);
+  }
+
+  error(message: string, ...args: unknown[]): void {
+    this.logger.log('error', this.component, message, args);
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return this.logger.isEnabled(level);
+  }
+}
+
+export class Logger {
+  static readonly LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+  static readonly DEFAULT_LEVEL: LogLevel = 'info';
+  static readonly DEFAULT_MAX_FILE_SIZE = 10 * 1024 * 1024;
+  static readonly DEFAULT_MAX_FILES = 5;
+
+  private baseDir = process.cwd();
+  private getConfig: () => LoggingConfig | undefined = () => undefined;
+  // Set by logging/setLevel; dropped once logging.level in the config changes
+  private override?: { level: LogLevel; configLevel?: LogLevel };
+  private file?: { path: string; fd: number; size: number };
+  private failedPath?: string;  // A file that could not be written is reported once, not on every entry
+
+  constructor(private stderr: Pick<NodeJS.WritableStream, 'write'> = process.stderr) {}
+
+  // baseDir is the config file's directory, which relative logging.file paths are resolved against
+  configure(baseDir: string, getConfig: () => LoggingConfig | undefined): void {
+    this.baseDir = baseDir;
+    this.getConfig = getConfig;
+  }
+
+  child(component: string): ComponentLogger {
+    return new ComponentLogger(this, component);
+  }
+
+  getLevel(): LogLevel {
+    const configLevel = this.getConfig()?.level;
+    if (this.override && this.override.configLevel === configLevel) {
+      return this.override.level;
+    }
+    this.override = undefined;
+    return configLevel && LEVEL_ORDER[configLevel] ? configLevel : Logger.DEFAULT_LEVEL;
+  }
+
+  /**
+   * Change the level at runtime without touching the config file
+   */
+  setLevel(level: LogLevel): void {
+    this.override = { level, configLevel: this.getConfig()?.level };
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LEVEL_ORDER[level] >= LEVEL_ORDER[this.getLevel()];
+  }
+
+  // MCP has eight syslog levels; notice folds into info and everything above error into error
+  static fromMCPLevel(level: MCPLogLevel): LogLevel {
+    switch (level) {
+      case 'debug':
+        return 'debug';
+      case 'info':
+      case 'notice':
+        return 'info';
+      case 'warning':
+        return 'warn';
+      default:
+        return 'error';
+    }
+  }
+
+  log(level: LogLevel, component: string, message: string, args: unknown[] = []): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const config = this.getConfig() || {};
+    const error = args.find((arg): arg is Error => arg instanceof Error);
+    const entry: LogEntry = {
+      time: new Date().toISOString(),
+      level,
+      component,
+      msg: [message, ...args.filter(arg => arg !== error || config.format !== 'json')].map(Logger.stringify).join(' ')
+    };
+    if (error && config.format === 'json') {
+      entry.error = { name: error.name, message: error.message, stack: error.stack };
+    }
+
+    const line = config.format === 'json'
+      ? JSON.stringify(entry) + '\n'
+      : `${entry.time} ${level.toUpperCase().padEnd(5)} [${component}] ${entry.msg}\n`;
+    if (config.console !== false) {
+      this.stderr.write(line);
+    }
+    if (config.file) {
+      this.writeFile(resolve(this.baseDir, config.file), line, config);
+    }
+  }
+
+  private static stringify(arg: unknown): string {
+    if (typeof arg === 'string') {
+      return arg;
+    }
+    return inspect(arg, { depth: 4, breakLength: Infinity });
+  }
+
+  private writeFile(filePath: string, line: string, config: LoggingConfig): void {
+    try {
+      if (this.file?.path !== filePath) {
+        this.closeFile();
+        mkdirSync(dirname(filePath), { recursive: true });
+        const fd = openSync(filePath, 'a');
+        this.file = { path: filePath, fd, size: fstatSync(fd).size };
+      }
+
+      const bytes = Buffer.byteLength(line);
+      if (this.file.size > 0 && this.file.size + bytes > (config.maxFileSize ?? Logger.DEFAULT_MAX_FILE_SIZE)) {
+        this.rotate(filePath, config.maxFiles ?? Logger.DEFAULT_MAX_FILES);
+      }
+      writeSync(this.file!.fd, line);
+      this.file!.size += bytes;
+      this.failedPath = undefined;
+    } catch (error) {
+      this.closeFile();
+      if (this.failedPath !== filePath) {
+        this.failedPath = filePath;
+        this.stderr.write(`Failed to write log file ${filePath}: ${(error as Error).message}\n`);
+      }
+    }
+  }
+
+  // file -> file.1 -> ... -> file.<maxFiles>; the oldest is dropped
+  private rotate(filePath: string, maxFiles: number): void {
+    this.closeFile();
+    rmSync(`${filePath}.${maxFiles}`, { force: true });
+    for (let index = maxFiles - 1; index >= 1; index--) {
+      try {
+        renameSync(`${filePath}.${index}`, `${filePath}.${index + 1}`);
+      } catch {
+        // Not rotated that far yet
+      }
+    }
+    renameSync(filePath, `${filePath}.1`);
+    const fd = openSync(filePath, 'a');
+    this.file = { path: filePath, fd, size: 0 };
+  }
+
+  private closeFile(): void {
+    if (this.file) {
+      closeSync(this.file.fd);
+      this.file = undefined;
+    }
+  }
+}
+
+export const globalLogger = new Logger();
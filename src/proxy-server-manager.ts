@@ -1,5 +1,8 @@
 import { spawn, ChildProcess } from 'child_process';
 import { MCPServerConfig } from './mcp-registry.js';
+import { globalLogger } from './logging/logger.js';
+
+const log = globalLogger.child('proxy');
 
 interface ActiveServer {
   process: ChildProcess;
@@ -21,7 +24,7 @@ export class ProxyServerManager {
       }
     }
 
-    console.log(`[MCPDog] Starting ${serverName} server...`);
+    log.info(`Starting ${serverName} server...`);
     
     try {
       const serverProcess = spawn(config.command, config.args, {
@@ -40,7 +43,7 @@ export class ProxyServerManager {
       // Listen to server output, wait for server to be ready
       return new Promise((resolve, reject) => {
         const timeout = setTimeout(() => {
-          console.log(`[MCPDog] ${serverName} server startup timeout`);
+          log.warn(`${serverName} server startup timeout`);
           this.stopServer(serverName);
           reject(new Error(`Server ${serverName} startup timeout`));
         }, this.serverTimeout);
@@ -55,24 +58,24 @@ export class ProxyServerManager {
           if (!activeServer.isReady) {
             activeServer.isReady = true;
             clearTimeout(timeout);
-            console.log(`[MCPDog] ${serverName} server is ready`);
+            log.info(`${serverName} server is ready`);
             resolve(true);
           }
         });
 
         serverProcess.stderr?.on('data', (data) => {
-          console.error(`[MCPDog] ${serverName} error:`, data.toString());
+          log.warn(`${serverName} error:`, data.toString());
         });
 
         serverProcess.on('error', (error) => {
           clearTimeout(timeout);
-          console.error(`[MCPDog] ${serverName} startup failed:`, error);
+          log.error(`${serverName} startup failed:`, error);
           this.stopServer(serverName);
           reject(error);
         });
 
         serverProcess.on('exit', (code) => {
-          console.log(`[MCPDog] ${serverName} server exited with code: ${code}`);
+          log.info(`${serverName} server exited with code: ${code}`);
           this.activeServers.delete(serverName);
         });
 
@@ -99,7 +102,7 @@ export class ProxyServerManager {
       });
 
     } catch (error) {
-      console.error(`[MCPDog] Failed to start ${serverName}:`, error);
+      log.error(`Failed to start ${serverName}:`, error);
       return false;
     }
   }
@@ -157,7 +160,7 @@ export class ProxyServerManager {
     if (server) {
       server.process.kill();
       this.activeServers.delete(serverName);
-      console.log(`[MCPDog] ${serverName} server stopped`);
+      log.info(`${serverName} server stopped`);
     }
   }
 
@@ -1,7 +1,10 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { ToolRouter } from './tool-router';
+import { CircuitBreaker } from '../utils/circuit-breaker';
+import { UpstreamError } from '../utils/upstream-error';
 import { EventEmitter } from 'events';
-import { MCPTool, MCPResponse, ServerAdapter, MCPRequest } from '../types';
+import { MCPTool, MCPResponse, ServerAdapter, MCPRequest, MCPResource, MCPDogConfig, ToolNamespacing, MCPServerConfig, CompositeToolConfig, ReplicaGroupConfig } from '../types';
+import { ConfigManager } from '../config/config-manager';
 
 // Mock ServerAdapter
 class MockAdapter extends EventEmitter implements ServerAdapter {
@@ -32,7 +35,7 @@ class MockAdapter extends EventEmitter implements ServerAdapter {
     return this.tools;
   });
 
-  callTool = vi.fn(async (toolName: string, args: any): Promise<MCPResponse> => {
+  callTool = vi.fn(async (toolName: string, args: any, _options?: any): Promise<MCPResponse> => {
     if (!this.isConnected) throw new Error('Not connected');
     return {
       jsonrpc: '2.0',
@@ -51,6 +54,55 @@ class MockAdapter extends EventEmitter implements ServerAdapter {
   });
 }
 
+// Mock adapter exposing resources
+class MockResourceAdapter extends MockAdapter {
+  private resources: MCPResource[];
+
+  constructor(name: string, resources: MCPResource[]) {
+    super(name, []);
+    this.resources = resources;
+  }
+
+  getResources = vi.fn(async () => this.resources);
+
+  getResourceTemplates = vi.fn(async () => [
+    { uriTemplate: `${this.name}://items/{id}`, name: 'item' }
+  ]);
+
+  readResource = vi.fn(async (uri: string): Promise<MCPResponse> => ({
+    jsonrpc: '2.0',
+    id: 1,
+    result: { contents: [{ uri, text: `Contents of ${uri} from ${this.name}` }] }
+  }));
+
+  subscribeResource = vi.fn(async (): Promise<MCPResponse> => ({ jsonrpc: '2.0', id: 1, result: {} }));
+
+  unsubscribeResource = vi.fn(async (): Promise<MCPResponse> => ({ jsonrpc: '2.0', id: 1, result: {} }));
+}
+
+// Mock adapter exposing prompts
+class MockPromptAdapter extends MockAdapter {
+  constructor(name: string, private promptNames: string[]) {
+    super(name, []);
+  }
+
+  getPrompts = vi.fn(async () => this.promptNames.map(name => ({ name, description: `${name} prompt` })));
+
+  getPrompt = vi.fn(async (name: string, args?: Record<string, string>): Promise<MCPResponse> => ({
+    jsonrpc: '2.0',
+    id: 1,
+    result: { messages: [{ role: 'user', content: { type: 'text', text: `${this.name}.${name} ${JSON.stringify(args)}` } }] }
+  }));
+}
+
+// Router backed by a fixed config; version and servers default to an empty config
+const routerWithConfig = (config: Partial<MCPDogConfig>) => {
+  const configManager: Pick<ConfigManager, 'getConfig'> = {
+    getConfig: () => ({ version: '2.0.0', servers: {}, ...config })
+  };
+  return new ToolRouter(configManager as ConfigManager);
+};
+
 describe('ToolRouter', () => {
   let toolRouter: ToolRouter;
 
@@ -110,7 +162,7 @@ describe('ToolRouter', () => {
 
     const response = await toolRouter.callTool('tool2', {});
     expect(response.result.content).toBe('Result from server2.tool2');
-    expect(adapter2.callTool).toHaveBeenCalledWith('tool2', {});
+    expect(adapter2.callTool).toHaveBeenCalledWith('tool2', {}, expect.objectContaining({ timeout: 30000 }));
     expect(adapter1.callTool).not.toHaveBeenCalled();
   });
 
@@ -136,4 +188,585 @@ describe('ToolRouter', () => {
     const route = toolRouter.findToolRoute('tool1');
     expect(route).toBeUndefined();
   });
-});
\ No newline at end of file
+
+  describe('resources', () => {
+    it('should aggregate resources and prefix conflicting URIs', async () => {
+      const adapter1 = new MockResourceAdapter('server1', [
+        { uri: 'file:///shared.txt', name: 'shared' },
+        { uri: 'file:///one.txt', name: 'one' }
+      ]);
+      const adapter2 = new MockResourceAdapter('server2', [{ uri: 'file:///shared.txt', name: 'shared' }]);
+
+      toolRouter.addAdapter(adapter1);
+      toolRouter.addAdapter(adapter2);
+      await adapter1.connect();
+      await adapter2.connect();
+
+      const uris = (await toolRouter.getAllResources()).map(r => r.uri).sort();
+      expect(uris).toEqual(['file:///one.txt', 'server1-file:///shared.txt', 'server2-file:///shared.txt']);
+
+      const response = await toolRouter.readResource('server2-file:///shared.txt');
+      expect(adapter2.readResource).toHaveBeenCalledWith('file:///shared.txt');
+      expect(adapter1.readResource).not.toHaveBeenCalled();
+      expect(response.result.contents[0].uri).toBe('server2-file:///shared.txt');
+    });
+
+    it('should route reads through resource templates', async () => {
+      const adapter = new MockResourceAdapter('server1', []);
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+
+      const response = await toolRouter.readResource('server1://items/42');
+      expect(response.error).toBeUndefined();
+      expect(adapter.readResource).toHaveBeenCalledWith('server1://items/42');
+
+      const missing = await toolRouter.readResource('unknown://nothing');
+      expect(missing.error?.code).toBe(-32002);
+    });
+
+    it('should notify only subscribed clients of upstream updates', async () => {
+      const adapter = new MockResourceAdapter('server1', [{ uri: 'file:///watched.txt', name: 'watched' }]);
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+
+      const updates: any[] = [];
+      toolRouter.on('resource-updated', update => updates.push(update));
+
+      await toolRouter.subscribeResource('file:///watched.txt', 'client-a');
+      await toolRouter.subscribeResource('file:///watched.txt', 'client-b');
+      expect(adapter.subscribeResource).toHaveBeenCalledTimes(1);
+
+      adapter.emit('notification', {
+        serverName: 'server1',
+        notification: { method: 'notifications/resources/updated', params: { uri: 'file:///watched.txt' } }
+      });
+      expect(updates).toEqual([{ serverName: 'server1', uri: 'file:///watched.txt', clientIds: ['client-a', 'client-b'] }]);
+
+      await toolRouter.unsubscribeResource('file:///watched.txt', 'client-a');
+      await toolRouter.releaseClient('client-b');
+      expect(adapter.unsubscribeResource).toHaveBeenCalledWith('file:///watched.txt');
+    });
+  });
+
+  describe('prompts', () => {
+    it('should prefix conflicting prompt names and route prompts/get to the owner', async () => {
+      const adapter1 = new MockPromptAdapter('server1', ['review', 'summarize']);
+      const adapter2 = new MockPromptAdapter('server2', ['review']);
+
+      toolRouter.addAdapter(adapter1);
+      toolRouter.addAdapter(adapter2);
+      await adapter1.connect();
+      await adapter2.connect();
+
+      const names = (await toolRouter.getAllPrompts()).map(p => p.name).sort();
+      expect(names).toEqual(['server1-review', 'server2-review', 'summarize']);
+
+      await toolRouter.getPrompt('server2-review', { file: 'a.ts' });
+      expect(adapter2.getPrompt).toHaveBeenCalledWith('review', { file: 'a.ts' });
+      expect(adapter1.getPrompt).not.toHaveBeenCalled();
+
+      const missing = await toolRouter.getPrompt('review');
+      expect(missing.error?.code).toBe(-32602);
+    });
+  });
+
+  describe('progress and cancellation', () => {
+    it('should rewrite progress tokens and route progress back to the calling client', async () => {
+      const adapter = new MockAdapter('server1', [{ name: 'slow', description: 'desc', inputSchema: { type: 'object' } }]);
+      adapter.callTool.mockImplementation(async (_toolName: string, _args: any, options?: any) => {
+        adapter.emit('notification', {
+          serverName: 'server1',
+          notification: {
+            jsonrpc: '2.0',
+            method: 'notifications/progress',
+            params: { progressToken: options.progressToken, progress: 1, total: 2 }
+          }
+        });
+        return { jsonrpc: '2.0', id: 1, result: { content: [] } };
+      });
+
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+      await toolRouter.getAllTools(true);
+
+      const progress = vi.fn();
+      toolRouter.on('progress', progress);
+
+      await toolRouter.callTool('slow', {}, { clientId: 'client-a', progressToken: 'client-token' });
+
+      const upstreamToken = adapter.callTool.mock.calls[0][2].progressToken;
+      expect(upstreamToken).not.toBe('client-token');
+      expect(progress).toHaveBeenCalledWith(expect.objectContaining({
+        clientId: 'client-a',
+        notification: expect.objectContaining({
+          params: { progressToken: 'client-token', progress: 1, total: 2 }
+        })
+      }));
+
+      // Progress arriving after the call finished is dropped
+      adapter.emit('notification', {
+        serverName: 'server1',
+        notification: { jsonrpc: '2.0', method: 'notifications/progress', params: { progressToken: upstreamToken, progress: 2 } }
+      });
+      expect(progress).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass the abort signal through to the adapter', async () => {
+      const adapter = new MockAdapter('server1', [{ name: 'slow', description: 'desc', inputSchema: { type: 'object' } }]);
+      adapter.callTool.mockImplementation(async (_toolName: string, _args: any, options?: any) => {
+        await new Promise(resolve => options.signal.addEventListener('abort', resolve));
+        throw new Error('Request cancelled');
+      });
+
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+      await toolRouter.getAllTools(true);
+
+      const controller = new AbortController();
+      const pending = toolRouter.callTool('slow', {}, { clientId: 'client-a', signal: controller.signal });
+      controller.abort('user cancelled');
+
+      const response = await pending;
+      expect(response.error?.message).toContain('Request cancelled');
+    });
+  });
+
+  describe('server requests', () => {
+    it('should attribute upstream requests to the client whose call is in flight', async () => {
+      const adapter = new MockAdapter('server1', [{ name: 'ask', description: 'desc', inputSchema: { type: 'object' } }]);
+      const samplingRequest = { jsonrpc: '2.0', id: 7, method: 'sampling/createMessage', params: { maxTokens: 10 } };
+      adapter.callTool.mockImplementation(async () => {
+        adapter.emit('server-request', { serverName: 'server1', request: samplingRequest });
+        return { jsonrpc: '2.0', id: 1, result: { content: [] } };
+      });
+
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+      await toolRouter.getAllTools(true);
+
+      const serverRequest = vi.fn();
+      toolRouter.on('server-request', serverRequest);
+
+      await toolRouter.callTool('ask', {}, { clientId: 'client-b' });
+      expect(serverRequest).toHaveBeenCalledWith({ serverName: 'server1', request: samplingRequest, clientId: 'client-b' });
+      expect(toolRouter.getActiveClient('server1')).toBeUndefined();
+    });
+  });
+
+  describe('log messages', () => {
+    it('should tag upstream log messages and relay opted-in stderr lines', async () => {
+      const adapter = new MockAdapter('files', []);
+      adapter.config = { stderrLogs: { enabled: true, pattern: 'watch' } };
+      toolRouter.addAdapter(adapter);
+      const logMessage = vi.fn();
+      toolRouter.on('log-message', logMessage);
+
+      adapter.emit('notification', {
+        serverName: 'files',
+        notification: { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'warning', logger: 'fs', data: { path: '/tmp' } } }
+      });
+      adapter.emit('log', { stream: 'stderr', data: 'Starting server' });
+      adapter.emit('log', { stream: 'stderr', data: 'Error: watch limit reached' });
+
+      expect(logMessage.mock.calls.map(([message]) => message)).toEqual([
+        { serverName: 'files', level: 'warning', logger: 'files/fs', data: { path: '/tmp' } },
+        { serverName: 'files', level: 'error', logger: 'files', data: 'Error: watch limit reached' }
+      ]);
+    });
+
+    it('should apply the upstream log level to servers that connect later', async () => {
+      const adapter = new MockAdapter('files', []);
+      const setLogLevel = vi.fn(async () => {});
+      Object.assign(adapter, { setLogLevel });
+      toolRouter.addAdapter(adapter);
+
+      toolRouter.setUpstreamLogLevel('debug');
+      expect(setLogLevel).not.toHaveBeenCalled();
+      await adapter.connect();
+      expect(setLogLevel).toHaveBeenCalledWith('debug');
+    });
+  });
+
+  describe('tool settings', () => {
+    const withToolSettings = (servers: Record<string, NonNullable<MCPServerConfig['toolsConfig']>['toolSettings']>) => routerWithConfig({
+      servers: Object.fromEntries(Object.entries(servers).map(([name, toolSettings]) => [
+        name,
+        { name, enabled: true, transport: 'stdio', toolsConfig: { mode: 'all', toolSettings } }
+      ]))
+    });
+
+    it('should publish aliases and descriptions and route aliased calls to the original tool', async () => {
+      toolRouter = withToolSettings({
+        server1: { read: { enabled: true, alias: 'read_file', description: 'Read a file from disk' } }
+      });
+      const adapter = new MockAdapter('server1', [{ name: 'read', description: 'desc', inputSchema: { type: 'object' } }]);
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+
+      const [tool] = await toolRouter.getAllTools();
+      expect(tool.name).toBe('read_file');
+      expect(tool.description).toBe('[server1] Read a file from disk');
+
+      await toolRouter.callTool('read_file', {});
+      expect(adapter.callTool).toHaveBeenCalledWith('read', {}, expect.objectContaining({ timeout: 30000 }));
+    });
+
+    it('should ignore and report aliases that collide with another tool', async () => {
+      toolRouter = withToolSettings({ server1: { fetch: { enabled: true, alias: 'search' } }, server2: {} });
+      const adapter1 = new MockAdapter('server1', [{ name: 'fetch', description: 'desc1', inputSchema: { type: 'object' } }]);
+      const adapter2 = new MockAdapter('server2', [{ name: 'search', description: 'desc2', inputSchema: { type: 'object' } }]);
+      toolRouter.addAdapter(adapter1);
+      toolRouter.addAdapter(adapter2);
+      await adapter1.connect();
+      await adapter2.connect();
+
+      const toolNames = (await toolRouter.getAllTools()).map(t => t.name).sort();
+      expect(toolNames).toEqual(['fetch', 'search']);
+      expect(toolRouter.getRouteStatus().aliasConflicts).toEqual([{ serverName: 'server1', toolName: 'fetch', alias: 'search' }]);
+    });
+  });
+
+  describe('namespacing', () => {
+    const withNamespacing = (global: ToolNamespacing | undefined, perServer: Record<string, ToolNamespacing> = {}) => routerWithConfig({
+      toolNamespacing: global,
+      servers: {
+        server1: { name: 'server1', enabled: true, transport: 'stdio', toolNamespacing: perServer.server1 },
+        server2: { name: 'server2', enabled: true, transport: 'stdio', toolNamespacing: perServer.server2 }
+      }
+    });
+
+    const connectBoth = async () => {
+      const adapter1 = new MockAdapter('server1', [{ name: 'read_file', description: 'desc1', inputSchema: { type: 'object' } }]);
+      const adapter2 = new MockAdapter('server2', [{ name: 'read_file', description: 'desc2', inputSchema: { type: 'object' } }]);
+      toolRouter.addAdapter(adapter1);
+      toolRouter.addAdapter(adapter2);
+      await adapter1.connect();
+      await adapter2.connect();
+      return [adapter1, adapter2];
+    };
+
+    it('should apply templates and route calls back to the original name', async () => {
+      toolRouter = withNamespacing('{server}__{tool}');
+      const [, adapter2] = await connectBoth();
+
+      const toolNames = (await toolRouter.getAllTools()).map(t => t.name).sort();
+      expect(toolNames).toEqual(['server1__read_file', 'server2__read_file']);
+
+      await toolRouter.callTool('server2__read_file', {});
+      expect(adapter2.callTool).toHaveBeenCalledWith('read_file', {}, expect.objectContaining({ timeout: 30000 }));
+    });
+
+    it('should let per-server strategies override the global one', async () => {
+      toolRouter = withNamespacing('always', { server1: 'never' });
+      await connectBoth();
+
+      const toolNames = (await toolRouter.getAllTools()).map(t => t.name).sort();
+      expect(toolNames).toEqual(['read_file', 'server2-read_file']);
+    });
+
+    it('should hide later duplicates when conflicts are not prefixed', async () => {
+      toolRouter = withNamespacing('never');
+      await connectBoth();
+
+      const tools = await toolRouter.getAllTools();
+      expect(tools.map(t => t.name)).toEqual(['read_file']);
+      expect(toolRouter.findToolRoute('read_file')?.serverName).toBe('server1');
+      expect(toolRouter.getRouteStatus().hiddenTools).toEqual(['server2/read_file']);
+    });
+  });
+
+  describe('argument validation', () => {
+    const schemaTool: MCPTool = {
+      name: 'navigate',
+      description: 'desc',
+      inputSchema: { type: 'object', properties: { url: { type: 'string' } }, required: ['url'] }
+    };
+    const withValidation = (argumentValidation?: MCPServerConfig['argumentValidation']) => routerWithConfig({
+      servers: { server1: { name: 'server1', enabled: true, transport: 'stdio', argumentValidation } }
+    });
+
+    it('should reject invalid arguments without calling the upstream server', async () => {
+      toolRouter = withValidation();
+      const adapter = new MockAdapter('server1', [schemaTool]);
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+      await toolRouter.getAllTools();
+
+      const response = await toolRouter.callTool('navigate', { url: 42 });
+      expect(response.error?.code).toBe(-32602);
+      expect(response.error?.message).toBe('Invalid arguments for tool navigate: /url must be string, got number');
+      expect(response.error?.data.violations).toEqual([{ path: '/url', message: 'must be string, got number' }]);
+      expect(adapter.callTool).not.toHaveBeenCalled();
+    });
+
+    it('should forward invalid arguments in warn mode', async () => {
+      toolRouter = withValidation('warn');
+      const adapter = new MockAdapter('server1', [schemaTool]);
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+      await toolRouter.getAllTools();
+
+      const response = await toolRouter.callTool('navigate', {});
+      expect(response.error).toBeUndefined();
+      expect(adapter.callTool).toHaveBeenCalledWith('navigate', {}, expect.objectContaining({ timeout: 30000 }));
+    });
+  });
+
+  describe('composite tools', () => {
+    const browserTools: MCPTool[] = [
+      { name: 'navigate', description: 'desc', inputSchema: { type: 'object' } },
+      { name: 'snapshot', description: 'desc', inputSchema: { type: 'object' } }
+    ];
+    const withComposite = (steps: CompositeToolConfig['steps']) => routerWithConfig({
+      servers: { browser: { name: 'browser', enabled: true, transport: 'stdio' } },
+      compositeTools: {
+        open_and_snapshot: {
+          description: 'Open a page and snapshot it',
+          inputSchema: { type: 'object', properties: { url: { type: 'string' } }, required: ['url'] },
+          steps
+        }
+      }
+    });
+
+    it('should run steps in order with templated arguments', async () => {
+      toolRouter = withComposite([
+        { id: 'open', tool: 'navigate', arguments: { url: '{{input.url}}' } },
+        { tool: 'snapshot', arguments: { after: '{{steps.open.text}}' } }
+      ]);
+      const adapter = new MockAdapter('browser', browserTools);
+      adapter.callTool.mockImplementation(async (toolName: string) => ({
+        jsonrpc: '2.0', id: 1, result: { content: [{ type: 'text', text: `${toolName} done` }] }
+      }));
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+
+      const toolNames = (await toolRouter.getAllTools()).map(t => t.name);
+      expect(toolNames).toContain('open_and_snapshot');
+
+      const toolCalled = vi.fn();
+      toolRouter.on('tool-called', toolCalled);
+
+      const response = await toolRouter.callTool('open_and_snapshot', { url: 'https://example.com' });
+      expect(adapter.callTool).toHaveBeenNthCalledWith(1, 'navigate', { url: 'https://example.com' }, expect.objectContaining({ timeout: 30000 }));
+      expect(adapter.callTool).toHaveBeenNthCalledWith(2, 'snapshot', { after: 'navigate done' }, expect.objectContaining({ timeout: 30000 }));
+      expect(response.result.content).toEqual([
+        { type: 'text', text: 'navigate done' },
+        { type: 'text', text: 'snapshot done' }
+      ]);
+      expect(toolCalled).toHaveBeenCalledTimes(2);
+      expect(toolCalled.mock.calls[1][0]).toMatchObject({ toolName: 'snapshot', compositeTool: 'open_and_snapshot', step: 1 });
+    });
+
+    it('should stop at the first failing step and report it', async () => {
+      toolRouter = withComposite([
+        { tool: 'navigate', arguments: { url: '{{input.url}}' } },
+        { tool: 'snapshot' }
+      ]);
+      const adapter = new MockAdapter('browser', browserTools);
+      adapter.callTool.mockImplementation(async () => { throw new Error('browser crashed'); });
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+      await toolRouter.getAllTools();
+
+      const response = await toolRouter.callTool('open_and_snapshot', { url: 'https://example.com' });
+      expect(response.error?.message).toBe('Step 1 (navigate) of open_and_snapshot failed: Tool call failed: browser crashed');
+      expect(response.error?.data).toMatchObject({ compositeTool: 'open_and_snapshot', step: 0, tool: 'navigate' });
+      expect(adapter.callTool).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('timeouts', () => {
+    const slowTool: MCPTool = { name: 'crawl', description: 'desc', inputSchema: { type: 'object' } };
+
+    const connectSlowAdapter = async () => {
+      toolRouter = routerWithConfig({
+        servers: {
+          web: {
+            name: 'web', enabled: true, transport: 'stdio', timeout: 5000,
+            toolsConfig: { mode: 'all', toolSettings: { crawl: { enabled: true, timeout: 20 } } }
+          }
+        }
+      });
+      const adapter = new MockAdapter('web', [slowTool]);
+      // Never answers; settles only when the router aborts the request
+      adapter.callTool.mockImplementation((_name: string, _args: any, options?: any) => new Promise((_, reject) => {
+        options.signal.addEventListener('abort', () => reject(new Error(`Request cancelled: ${options.signal.reason}`)));
+      }));
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+      await toolRouter.getAllTools();
+      return adapter;
+    };
+
+    it('should cancel the upstream call and report a timeout error', async () => {
+      const adapter = await connectSlowAdapter();
+
+      const response = await toolRouter.callTool('crawl', {});
+      expect(response.error?.code).toBe(-32001);
+      expect(response.error?.message).toMatch(/^Tool call timed out: crawl on web after \d+ms \(limit 20ms\)$/);
+      expect(response.error?.data).toMatchObject({ toolName: 'crawl', serverName: 'web', timeout: 20 });
+      expect(adapter.callTool.mock.calls[0][2].signal.aborted).toBe(true);
+    });
+
+    it('should let a client hint shorten but not extend the limit', async () => {
+      const adapter = await connectSlowAdapter();
+
+      expect((await toolRouter.callTool('crawl', {}, { timeout: 5 })).error?.data.timeout).toBe(5);
+      expect((await toolRouter.callTool('crawl', {}, { timeout: 60000 })).error?.data.timeout).toBe(20);
+      expect(adapter.callTool).toHaveBeenCalledTimes(2);
+    });
+
+    it('should count timeouts against the circuit breaker', async () => {
+      const adapter = await connectSlowAdapter();
+      const breaker = new CircuitBreaker('web', () => ({ name: 'web', enabled: true, transport: 'stdio', circuitBreaker: { minimumRequests: 2 } }));
+      const hang = adapter.callTool.getMockImplementation()!;
+      adapter.callTool.mockImplementation((name: string, args: any, options?: any) => breaker.run(() => hang(name, args, options), options));
+
+      expect((await toolRouter.callTool('crawl', {})).error?.code).toBe(-32001);
+      expect((await toolRouter.callTool('crawl', {})).error?.code).toBe(-32001);
+      expect(breaker.getStats()).toMatchObject({ state: 'open', failures: 2 });
+      expect((await toolRouter.callTool('crawl', {})).error?.message).toMatch(/Circuit open for web/);
+    });
+  });
+
+  describe('result cache', () => {
+    const docsTool: MCPTool = { name: 'lookup', description: 'desc', inputSchema: { type: 'object' } };
+
+    it('should serve repeated calls from the cache until the server changes its tools', async () => {
+      toolRouter = routerWithConfig({
+        servers: {
+          docs: {
+            name: 'docs', enabled: true, transport: 'stdio',
+            toolsConfig: { mode: 'all', toolSettings: { lookup: { enabled: true, cacheTtl: 60000 } } }
+          }
+        }
+      });
+      const adapter = new MockAdapter('docs', [docsTool]);
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+      await toolRouter.getAllTools();
+
+      const first = await toolRouter.callTool('lookup', { topic: 'hooks', lang: 'en' });
+      const second = await toolRouter.callTool('lookup', { lang: 'en', topic: 'hooks' });
+      expect(second.result).toEqual(first.result);
+      expect(adapter.callTool).toHaveBeenCalledTimes(1);
+      expect(toolRouter.getCacheStats()).toMatchObject({ hits: 1, misses: 1, entries: 1 });
+
+      adapter.emit('tools-changed');
+      await toolRouter.callTool('lookup', { topic: 'hooks', lang: 'en' });
+      expect(adapter.callTool).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('replica groups', () => {
+    const searchTool: MCPTool = { name: 'search', description: 'desc', inputSchema: { type: 'object' } };
+
+    const connectReplicas = async (group: Partial<ReplicaGroupConfig>) => {
+      toolRouter = routerWithConfig({
+        servers: {
+          'search-local': { name: 'search-local', enabled: true, transport: 'stdio' },
+          'search-remote': { name: 'search-remote', enabled: true, transport: 'streamable-http' }
+        },
+        replicaGroups: { search: { servers: ['search-local', 'search-remote'], ...group } }
+      });
+      // Added in reverse so the group's order, not registration order, decides the primary
+      const remote = new MockAdapter('search-remote', [searchTool]);
+      const local = new MockAdapter('search-local', [searchTool]);
+      toolRouter.addAdapter(remote);
+      toolRouter.addAdapter(local);
+      await remote.connect();
+      await local.connect();
+      return { local, remote, tools: await toolRouter.getAllTools() };
+    };
+
+    it('should publish shared tools once and fail over on connection-level failures only', async () => {
+      const { local, remote, tools } = await connectReplicas({});
+      expect(tools.map(tool => tool.name)).toEqual(['search']);
+      expect(tools[0].description).toBe('[search] desc');
+
+      expect((await toolRouter.callTool('search', {})).result).toEqual({ content: 'Result from search-local.search' });
+
+      local.callTool.mockRejectedValueOnce(UpstreamError.notDispatched('Not connected to search-local'));
+      const failoverSpy = vi.fn();
+      toolRouter.on('tool-failover', failoverSpy);
+      expect((await toolRouter.callTool('search', {})).result).toEqual({ content: 'Result from search-remote.search' });
+      expect(failoverSpy).toHaveBeenCalledWith(expect.objectContaining({ fromServer: 'search-local', toServer: 'search-remote' }));
+
+      // An upstream error is an answer, so it is not retried elsewhere
+      local.callTool.mockResolvedValueOnce({ jsonrpc: '2.0', id: 1, error: { code: -32603, message: 'Quota exceeded' } });
+      expect((await toolRouter.callTool('search', {})).error?.message).toBe('Quota exceeded');
+      expect(remote.callTool).toHaveBeenCalledTimes(1);
+
+      local.callTool.mockRejectedValueOnce(UpstreamError.notDispatched('Not connected to search-local'));
+      remote.callTool.mockRejectedValueOnce(UpstreamError.fromHttp('connect ECONNREFUSED 10.0.0.2:443', { code: 'ECONNREFUSED' }));
+      const response = await toolRouter.callTool('search', {});
+      expect(response.error?.data).toMatchObject({ group: 'search', triedServers: ['search-local', 'search-remote'] });
+    });
+
+    it('should fail over on gateway errors but not on other HTTP errors', async () => {
+      const { local, remote } = await connectReplicas({});
+
+      local.callTool.mockRejectedValueOnce(UpstreamError.fromHttp('Request failed with status code 503', { response: { status: 503 } }));
+      expect((await toolRouter.callTool('search', {})).result).toEqual({ content: 'Result from search-remote.search' });
+
+      // The server saw the request and may have run the tool already
+      local.callTool.mockRejectedValueOnce(UpstreamError.fromHttp('Request failed with status code 500', { response: { status: 500 } }));
+      const response = await toolRouter.callTool('search', {});
+      expect(response.error?.message).toContain('status code 500');
+      expect(response.error?.data.connectionError).toBeUndefined();
+      expect(remote.callTool).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not fail over once the request may have reached the server', async () => {
+      const { local, remote } = await connectReplicas({});
+      const failures = [
+        UpstreamError.fromHttp('socket hang up', { code: 'ECONNRESET' }),
+        UpstreamError.fromHttp('timeout of 30000ms exceeded', { code: 'ECONNABORTED' }),
+        new Error('Request timeout for search-local'),
+        new Error('Connection closed')
+      ];
+
+      for (const failure of failures) {
+        local.callTool.mockRejectedValueOnce(failure);
+        const response = await toolRouter.callTool('search', {});
+        expect(response.error?.message).toContain(failure.message);
+        expect(response.error?.data.connectionError).toBeUndefined();
+      }
+      expect(remote.callTool).not.toHaveBeenCalled();
+    });
+
+    it('should rotate members under round-robin', async () => {
+      const { local, remote } = await connectReplicas({ policy: 'round-robin' });
+
+      await toolRouter.callTool('search', {});
+      await toolRouter.callTool('search', {});
+      await toolRouter.callTool('search', {});
+      expect(local.callTool).toHaveBeenCalledTimes(2);
+      expect(remote.callTool).toHaveBeenCalledTimes(1);
+      expect(toolRouter.getRouteStatus().replicaGroups.search).toMatchObject({
+        policy: 'round-robin',
+        members: [{ serverName: 'search-local', connected: true }, { serverName: 'search-remote', connected: true }]
+      });
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should stop an idle on-demand server and start it again on the next call', async () => {
+      const adapter = new MockAdapter('files', [{ name: 'read_file', description: 'desc', inputSchema: { type: 'object' } }]);
+      adapter.config = { name: 'files', enabled: true, transport: 'stdio', lifecycle: 'on-demand', idleTimeout: 20 };
+      toolRouter.addAdapter(adapter);
+      await adapter.connect();
+      await toolRouter.getAllTools();
+
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(adapter.disconnect).toHaveBeenCalledTimes(1);
+      expect(toolRouter.isStandby('files')).toBe(true);
+      expect((await toolRouter.getAllTools()).map(tool => tool.name)).toEqual(['read_file']);
+
+      const response = await toolRouter.callTool('read_file', {});
+      expect(response.result).toEqual({ content: 'Result from files.read_file' });
+      expect(adapter.connect).toHaveBeenCalledTimes(2);
+      expect(toolRouter.isStandby('files')).toBe(false);
+    });
+  });
+});
@@ -1,47 +1,155 @@
 import { EventEmitter } from 'events';
-import { MCPTool, MCPRequest, MCPResponse, ServerAdapter, MCPServerConfig } from '../types/index.js';
+import { MCPTool, MCPRequest, MCPResponse, MCPResource, MCPResourceTemplate, MCPPrompt, ServerAdapter, MCPServerConfig, ToolCallOptions, RequestQueueStats, ToolNamespacing, ToolTransform, CompositeToolConfig, ReplicaGroupConfig, CircuitState, MCPLogLevel } from '../types/index.js';
 import { ConfigManager } from '../config/config-manager.js';
+import { ToolNamespace } from '../utils/tool-namespace.js';
+import { SchemaValidator, SchemaViolation } from '../utils/schema-validator.js';
+import { ToolTransformer } from '../utils/tool-transformer.js';
+import { ArgumentTemplate, TemplateScope } from '../utils/argument-template.js';
+import { ResultCache, ResultCacheStats } from '../utils/result-cache.js';
+import { ToolManifest } from '../utils/tool-manifest.js';
+import { IdleTracker } from '../utils/idle-tracker.js';
+import { UpstreamError } from '../utils/upstream-error.js';
+import { globalTracer } from '../tracing/tracer.js';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('router');
 
 export interface ToolRoute {
+  toolName: string;     // Name published to clients (alias and/or server prefix applied)
+  originalName: string; // Name as known by the upstream server
+  serverName: string;
+  adapter: ServerAdapter;
+  group?: string;         // Replica group the tool is published for
+  replicas?: ToolRoute[]; // Every connected member's route in the group's order (group routes only)
+}
+
+export interface ToolAliasConflict {
+  serverName: string;
   toolName: string;
+  alias: string;
+}
+
+export interface ResourceRoute {
+  uri: string;          // URI published to clients (may carry a server prefix)
+  originalUri: string;  // URI as known by the upstream server
+  serverName: string;
+  adapter: ServerAdapter;
+}
+
+export interface PromptRoute {
+  promptName: string;   // Name published to clients (may carry a server prefix)
+  originalName: string; // Name as known by the upstream server
+  serverName: string;
+  adapter: ServerAdapter;
+}
+
+export interface ToolCallContext {
+  clientId?: string;               // Client that issued the call (progress is routed back to it)
+  progressToken?: string | number; // _meta.progressToken supplied by the client
+  signal?: AbortSignal;            // Aborted when the client cancels the request
+  timeout?: number;                // _meta.timeout hint (ms) supplied by the client; can only shorten the configured limit
+  composite?: { name: string; step: number }; // Set when the call is a step of a composite tool
+  checkStepLimits?: (toolName: string) => MCPResponse | undefined; // Rate limits for each composite step; an error response rejects it
+}
+
+interface ResourceTemplateRoute {
+  uriTemplate: string;  // Template published to clients
+  prefix: string;       // Server prefix added on conflict ('' if none)
+  pattern: RegExp;      // Matches URIs expanded from the original template
   serverName: string;
   adapter: ServerAdapter;
 }
 
+interface ResourceSubscription {
+  serverName: string;
+  originalUri: string;
+  clientIds: Set<string>;
+}
+
+interface ProgressRoute {
+  clientId?: string;
+  progressToken: string | number; // Token the client supplied
+}
+
 export class ToolRouter extends EventEmitter {
+  // Same default the adapters apply to requests when config.timeout is unset
+  static readonly DEFAULT_CALL_TIMEOUT = 30000;
+  static readonly DEFAULT_IDLE_TIMEOUT = 300000;
+
   private adapters: Map<string, ServerAdapter> = new Map();
   private toolRoutes: Map<string, ToolRoute> = new Map();
   private toolsByServer: Map<string, MCPTool[]> = new Map();
   private lastStableToolsList: MCPTool[] = []; // Cache the last stable tool list
   private lastStableToolsCount: number = 0;
   private configManager?: ConfigManager;
+  private resourceRoutes: Map<string, ResourceRoute> = new Map();
+  private resourceTemplateRoutes: ResourceTemplateRoute[] = [];
+  private resourceSubscriptions: Map<string, ResourceSubscription> = new Map(); // Keyed by published URI
+  private promptRoutes: Map<string, PromptRoute> = new Map();
+  private progressRoutes: Map<string, ProgressRoute> = new Map(); // Keyed by upstream progress token
+  private progressCounter: number = 0;
+  private resultCache: ResultCache; // Results of tools with toolSettings.<tool>.cacheTtl
+  private activeCallClients: Map<string, string[]> = new Map(); // serverName -> clients with tool calls in flight
+  private replicaCursors: Map<string, number> = new Map(); // Round-robin position per replica group
+  private serverLatency: Map<string, number> = new Map(); // Moving average of successful call durations (ms)
+  private upstreamLogLevel?: MCPLogLevel; // Most verbose level any client asked for, applied to servers as they connect
+  private toolManifest: ToolManifest = new ToolManifest(); // Last known tools per server, for lazy servers
+  private idleTracker: IdleTracker; // Stops on-demand servers after idleTimeout
+  private starting: Map<string, Promise<void>> = new Map(); // Lazy starts in progress, shared by concurrent calls
+  private aliasConflicts: ToolAliasConflict[] = [];
+  private hiddenTools: string[] = []; // "server/tool" entries shadowed by an identically named tool
 
   constructor(configManager?: ConfigManager) {
     super();
     this.configManager = configManager;
+    this.resultCache = new ResultCache(() => this.configManager?.getConfig().cache?.maxBytes || ResultCache.DEFAULT_MAX_BYTES);
+    this.idleTracker = new IdleTracker(serverName => this.stopIdleServer(serverName));
   }
 
   // Check if tool is enabled
   private isToolEnabled(serverName: string, toolName: string): boolean {
-    if (!this.configManager) return true; // If no config manager, default to enabled
-    
-    const config = this.configManager.getConfig();
-    const serverConfig = config.servers[serverName];
-    if (!serverConfig) return true;
-    
-    const toolsConfig = serverConfig.toolsConfig;
+    const serverConfig = this.getServerConfig(serverName);
+    const toolsConfig = serverConfig?.toolsConfig;
     if (!toolsConfig) return true; // No tool config, default to enabled
 
-    const { mode, toolSettings } = toolsConfig;
-    const toolSetting = toolSettings?.[toolName];
+    return this.isEnabledByMode(toolsConfig.mode, toolsConfig.toolSettings?.[toolName]);
+  }
+
+  // Check if resource is enabled (same rules as tools, keyed by resource URI)
+  private isResourceEnabled(serverName: string, uri: string): boolean {
+    const serverConfig = this.getServerConfig(serverName);
+    const resourcesConfig = serverConfig?.resourcesConfig;
+    if (!resourcesConfig) return true;
+
+    return this.isEnabledByMode(resourcesConfig.mode, resourcesConfig.resourceSettings?.[uri]);
+  }
+
+  // Check if prompt is enabled (same rules as tools, keyed by prompt name)
+  private isPromptEnabled(serverName: string, promptName: string): boolean {
+    const serverConfig = this.getServerConfig(serverName);
+    const promptsConfig = serverConfig?.promptsConfig;
+    if (!promptsConfig) return true;
+
+    return this.isEnabledByMode(promptsConfig.mode, promptsConfig.promptSettings?.[promptName]);
+  }
+
+  private getToolSettings(serverName: string, toolName: string): { alias?: string; description?: string; transform?: ToolTransform; timeout?: number; cacheTtl?: number } | undefined {
+    return this.getServerConfig(serverName)?.toolsConfig?.toolSettings?.[toolName];
+  }
+
+  private getServerConfig(serverName: string): MCPServerConfig | undefined {
+    if (!this.configManager) return undefined; // If no config manager, default to enabled
+    return this.configManager.getConfig().servers[serverName];
+  }
 
+  private isEnabledByMode(mode: 'all' | 'whitelist' | 'blacklist', setting?: { enabled: boolean }): boolean {
     switch (mode) {
       case 'all':
-        return toolSetting ? toolSetting.enabled : true;
+        return setting ? setting.enabled : true;
       case 'whitelist':
-        return toolSetting ? toolSetting.enabled : false;
+        return setting ? setting.enabled : false;
       case 'blacklist':
-        return toolSetting ? toolSetting.enabled : true;
+        return setting ? setting.enabled : true;
       default:
         return true;
     }
@@ -53,25 +161,91 @@ export class ToolRouter extends EventEmitter {
     }
 
     this.adapters.set(adapter.name, adapter);
+
+    // Lazy and on-demand servers publish their last known tools without being started
+    const knownTools = this.getLifecycle(adapter) !== 'eager' ? this.toolManifest.get(adapter.name, adapter.config) : undefined;
+    if (knownTools) {
+      this.toolsByServer.set(adapter.name, knownTools);
+      this.rebuildToolRoutes();
+    }
     
     // Listen for adapter events
     adapter.on('connected', () => {
+      // A restarted server may return different results
+      this.resultCache.purge(adapter.name);
       this.refreshToolRoutes(adapter.name).catch(error => {
-        console.error(`Failed to refresh routes for ${adapter.name}:`, error);
+        log.error(`Failed to refresh routes for ${adapter.name}:`, error);
+      });
+      if (this.getLifecycle(adapter) === 'on-demand') {
+        this.idleTracker.arm(adapter.name, this.getIdleTimeout(adapter));
+      }
+      this.restoreResourceSubscriptions(adapter).catch(error => {
+        log.error(`Failed to restore resource subscriptions for ${adapter.name}:`, error);
       });
+      if (this.upstreamLogLevel) {
+        this.applyLogLevel(adapter, this.upstreamLogLevel);
+      }
     });
 
     adapter.on('disconnected', () => {
-      this.removeToolRoutes(adapter.name);
+      this.idleTracker.cancel(adapter.name);
+      if (this.isStandby(adapter.name)) {
+        // Tools stay published; the next call starts the server again
+        this.rebuildToolRoutes();
+      } else {
+        this.removeToolRoutes(adapter.name);
+      }
+      this.removeResourceRoutes(adapter.name);
+      this.removePromptRoutes(adapter.name);
+    });
+
+    adapter.on('resources-changed', () => {
+      this.emit('resources-updated', { serverName: adapter.name });
+    });
+
+    adapter.on('prompts-changed', () => {
+      this.emit('prompts-updated', { serverName: adapter.name });
+    });
+
+    adapter.on('notification', ({ notification }) => {
+      if (notification?.method === 'notifications/resources/updated' && notification.params?.uri) {
+        this.handleUpstreamResourceUpdated(adapter.name, notification.params.uri);
+      } else if (notification?.method === 'notifications/progress' && notification.params?.progressToken !== undefined) {
+        this.handleUpstreamProgress(adapter.name, notification.params);
+      } else if (notification?.method === 'notifications/message' && notification.params) {
+        const { level, logger, data } = notification.params;
+        this.emit('log-message', {
+          serverName: adapter.name,
+          level: level || 'info',
+          logger: logger ? `${adapter.name}/${logger}` : adapter.name,
+          data
+        });
+      }
+    });
+
+    adapter.on('log', ({ stream, data }) => {
+      if (stream === 'stderr') {
+        this.relayStderr(adapter, data);
+      }
+    });
+
+    adapter.on('server-request', ({ request }) => {
+      // Upstream requests are attributed to the client whose call the server is working on
+      this.emit('server-request', {
+        serverName: adapter.name,
+        request,
+        clientId: this.getActiveClient(adapter.name)
+      });
     });
 
     adapter.on('tools-changed', () => {
+      this.resultCache.purge(adapter.name);
       this.refreshToolRoutes(adapter.name).catch(error => {
-        console.error(`Failed to refresh routes for ${adapter.name}:`, error);
+        log.error(`Failed to refresh routes for ${adapter.name}:`, error);
       });
     });
 
-    console.error(`Added adapter: ${adapter.name}`);
+    log.info(`Added adapter: ${adapter.name}`);
   }
 
   removeAdapter(serverName: string): void {
@@ -81,7 +255,16 @@ export class ToolRouter extends EventEmitter {
     }
 
     // Remove all related routes
+    this.idleTracker.forget(serverName);
     this.removeToolRoutes(serverName);
+    this.removeResourceRoutes(serverName);
+    this.removePromptRoutes(serverName);
+    this.resultCache.purge(serverName);
+    for (const [uri, subscription] of this.resourceSubscriptions) {
+      if (subscription.serverName === serverName) {
+        this.resourceSubscriptions.delete(uri);
+      }
+    }
     
     // Disable adapter to prevent auto-reconnect
     if ('disable' in adapter && typeof adapter.disable === 'function') {
@@ -91,7 +274,7 @@ export class ToolRouter extends EventEmitter {
     // Disconnect
     if (adapter.isConnected) {
       adapter.disconnect().catch(error => {
-        console.error(`Error disconnecting ${serverName}:`, error);
+        log.error(`Error disconnecting ${serverName}:`, error);
       });
     }
 
@@ -99,7 +282,7 @@ export class ToolRouter extends EventEmitter {
     adapter.removeAllListeners();
 
     this.adapters.delete(serverName);
-    console.error(`Removed adapter: ${serverName}`);
+    log.info(`Removed adapter: ${serverName}`);
   }
 
   getAdapter(serverName: string): ServerAdapter | undefined {
@@ -110,6 +293,52 @@ export class ToolRouter extends EventEmitter {
     return Array.from(this.adapters.values());
   }
 
+  /**
+   * Read the persisted tool manifest. Call before adding adapters so lazy servers can be published unstarted.
+   */
+  async loadToolManifest(filePath: string): Promise<void> {
+    await this.toolManifest.load(filePath);
+  }
+
+  /**
+   * Whether a server is stopped on purpose (lazy or on-demand) while its known tools stay published
+   */
+  isStandby(serverName: string): boolean {
+    const adapter = this.adapters.get(serverName);
+    return !!adapter && !adapter.isConnected && this.getLifecycle(adapter) !== 'eager' && this.toolsByServer.has(serverName);
+  }
+
+  private getLifecycle(adapter: ServerAdapter): NonNullable<MCPServerConfig['lifecycle']> {
+    return adapter.config?.lifecycle || 'eager';
+  }
+
+  private getIdleTimeout(adapter: ServerAdapter): number {
+    return adapter.config?.idleTimeout || ToolRouter.DEFAULT_IDLE_TIMEOUT;
+  }
+
+  // Start a lazy or on-demand server for a call; concurrent callers wait on the same start
+  private startServer(adapter: ServerAdapter): Promise<void> {
+    let starting = this.starting.get(adapter.name);
+    if (!starting) {
+      log.info(`Starting ${this.getLifecycle(adapter)} server ${adapter.name} for a tool call`);
+      starting = this.connectWithTimeout(adapter, adapter.config?.timeout || ToolRouter.DEFAULT_CALL_TIMEOUT)
+        .finally(() => this.starting.delete(adapter.name));
+      this.starting.set(adapter.name, starting);
+    }
+    return starting;
+  }
+
+  private stopIdleServer(serverName: string): void {
+    const adapter = this.adapters.get(serverName);
+    if (!adapter?.isConnected || this.getLifecycle(adapter) !== 'on-demand') {
+      return;
+    }
+    log.info(`Stopping idle on-demand server ${serverName} (idleTimeout: ${this.getIdleTimeout(adapter)}ms)`);
+    adapter.disconnect().catch(error => {
+      log.error(`Error stopping idle server ${serverName}:`, error);
+    });
+  }
+
   getConnectedAdapters(): ServerAdapter[] {
     return Array.from(this.adapters.values()).filter(adapter => adapter.isConnected);
   }
@@ -124,52 +353,16 @@ export class ToolRouter extends EventEmitter {
       // Get server's tool list
       const tools = await adapter.getTools();
       
-      // Remove old routes for this server
-      this.removeToolRoutes(serverName);
-      
-      // Cache tool list
+      // Cache tool list and rebuild routes, since conflicts depend on every server's tools
       this.toolsByServer.set(serverName, tools);
+      this.rebuildToolRoutes();
+      this.toolManifest.set(serverName, adapter.config, tools).catch(() => {});
 
-      // Create new routes
-      for (const tool of tools) {
-        const originalToolName = tool.name;
-        let prefixedToolName = tool.name;
-        
-        // Check for name conflict
-        const existingRoute = this.toolRoutes.get(originalToolName);
-        
-        if (existingRoute) {
-          console.warn(`Tool name conflict: ${originalToolName} exists in both ${existingRoute.serverName} and ${serverName}`);
-          // Resolve conflict by prefixing with server name
-          prefixedToolName = `${serverName}-${originalToolName}`;
-          console.log(`🔧 Resolving conflict: ${originalToolName} -> ${prefixedToolName}`);
-          
-          // Also prefix the original tool
-          const originalRoute = this.toolRoutes.get(originalToolName);
-          if (originalRoute) {
-            const originalPrefixedName = `${originalRoute.serverName}-${originalToolName}`;
-            this.toolRoutes.set(originalPrefixedName, {
-              ...originalRoute,
-              toolName: originalPrefixedName
-            });
-            console.log(`🔧 Original tool renamed: ${originalToolName} -> ${originalPrefixedName}`);
-          }
-        }
-
-        const route: ToolRoute = {
-          toolName: prefixedToolName,
-          serverName,
-          adapter
-        };
-
-        this.toolRoutes.set(prefixedToolName, route);
-      }
-
-      console.error(`Refreshed ${tools.length} tool routes for ${serverName}`);
+      log.info(`Refreshed ${tools.length} tool routes for ${serverName}`);
       this.emit('routes-updated', { serverName, toolCount: tools.length });
 
     } catch (error) {
-      console.error(`Failed to refresh tool routes for ${serverName}:`, error);
+      log.error(`Failed to refresh tool routes for ${serverName}:`, error);
       this.emit('error', { 
         error: error as Error, 
         context: `refresh-routes-${serverName}` 
@@ -178,50 +371,211 @@ export class ToolRouter extends EventEmitter {
   }
 
   private removeToolRoutes(serverName: string): void {
-    // Remove all tool routes for this server
-    const toolsToRemove: string[] = [];
-    
-    for (const [toolName, route] of this.toolRoutes) {
-      if (route.serverName === serverName) {
-        toolsToRemove.push(toolName);
+    // Clear cache, remaining servers may lose their conflict prefixes
+    const hadTools = this.toolsByServer.delete(serverName);
+    this.rebuildToolRoutes();
+
+    if (hadTools) {
+      log.info(`Removed tool routes for ${serverName}`);
+      this.emit('routes-updated', { serverName, toolCount: 0 });
+    }
+  }
+
+  /**
+   * Rebuild the published tool list and its routes from the cached tools of connected servers.
+   * toolSettings aliases are applied first, then each server's namespacing strategy.
+   */
+  private rebuildToolRoutes(): MCPTool[] {
+    const entries: Array<{
+      tool: MCPTool;
+      serverName: string;
+      adapter: ServerAdapter;
+      strategy: ToolNamespacing;
+      name: string;
+      aliased: boolean;
+      group?: string;
+    }> = [];
+    for (const adapter of this.getPublishingAdapters()) {
+      const strategy = this.getNamespacing(adapter.name);
+      // Replica group members are namespaced as the group, so their copies of a tool share one name
+      const group = this.getReplicaGroupOf(adapter.name);
+      for (const tool of this.toolsByServer.get(adapter.name) || []) {
+        if (!this.isToolEnabled(adapter.name, tool.name)) {
+          continue;
+        }
+
+        let alias = this.getToolSettings(adapter.name, tool.name)?.alias;
+        if (alias && !ToolNamespace.isValidName(alias)) {
+          log.warn(`Invalid alias for ${adapter.name}/${tool.name}: ${alias}, keeping ${tool.name}`);
+          alias = undefined;
+        }
+        entries.push({
+          tool,
+          serverName: adapter.name,
+          adapter,
+          strategy,
+          name: alias || ToolNamespace.apply(strategy, group || adapter.name, tool.name),
+          aliased: !!alias,
+          group
+        });
+      }
+    }
+
+    // Each tool of a replica group is published once; its members are ordered as configured
+    const replicaMembers = new Map<string, typeof entries>();
+    const publishable = entries.filter(entry => {
+      if (!entry.group) {
+        return true;
       }
+      const key = `${entry.group}/${entry.name}`;
+      const members = replicaMembers.get(key);
+      if (members) {
+        members.push(entry);
+        return false;
+      }
+      replicaMembers.set(key, [entry]);
+      return true;
+    });
+    for (const members of replicaMembers.values()) {
+      const order = this.getReplicaGroups()[members[0].group!].servers;
+      members.sort((a, b) => order.indexOf(a.serverName) - order.indexOf(b.serverName));
     }
 
-    for (const toolName of toolsToRemove) {
-      this.toolRoutes.delete(toolName);
+    // An alias that collides with another tool's name is ignored, so a call can never reach the wrong tool
+    const aliasCounts = this.countToolNames(publishable);
+    const aliasConflicts: ToolAliasConflict[] = [];
+    for (const entry of publishable) {
+      if (entry.aliased && aliasCounts.get(entry.name)! > 1) {
+        aliasConflicts.push({ serverName: entry.serverName, toolName: entry.tool.name, alias: entry.name });
+        log.warn(`Alias conflict: ${entry.serverName}/${entry.tool.name} -> ${entry.name} is already taken, keeping ${entry.tool.name}`);
+        entry.name = ToolNamespace.apply(entry.strategy, entry.group || entry.serverName, entry.tool.name);
+        entry.aliased = false;
+      }
     }
+    this.aliasConflicts = aliasConflicts;
+
+    // Remaining conflicts are prefixed for 'on-conflict' servers; under other strategies the first server wins
+    const nameCounts = this.countToolNames(publishable);
+    const hiddenTools: string[] = [];
+    const allTools: MCPTool[] = [];
+    this.toolRoutes.clear();
+    for (const entry of publishable) {
+      const members = entry.group ? replicaMembers.get(`${entry.group}/${entry.name}`) : undefined;
+      const { tool, serverName, adapter } = members?.[0] || entry;
+      const { strategy, name, aliased, group } = entry;
+      const publishedName = strategy === 'on-conflict' && !aliased && nameCounts.get(name)! > 1
+        ? ToolNamespace.prefix(group || serverName, name)
+        : name;
+
+      const existingRoute = this.toolRoutes.get(publishedName);
+      if (existingRoute) {
+        log.warn(`Tool name conflict: ${publishedName} from ${serverName} is hidden, already published by ${existingRoute.serverName}`);
+        hiddenTools.push(`${serverName}/${tool.name}`);
+        continue;
+      }
 
-    // Clear cache
-    this.toolsByServer.delete(serverName);
+      this.toolRoutes.set(publishedName, {
+        toolName: publishedName,
+        originalName: tool.name,
+        serverName,
+        adapter,
+        ...(members && {
+          group,
+          replicas: members.map(member => ({
+            toolName: publishedName,
+            originalName: member.tool.name,
+            serverName: member.serverName,
+            adapter: member.adapter
+          }))
+        })
+      });
 
-    if (toolsToRemove.length > 0) {
-      console.error(`Removed ${toolsToRemove.length} tool routes for ${serverName}`);
-      this.emit('routes-updated', { serverName, toolCount: 0 });
+      const settings = this.getToolSettings(serverName, tool.name);
+      allTools.push({
+        ...tool,
+        name: publishedName,
+        // Add server (or replica group) info to tool description
+        description: `[${group || serverName}] ${settings?.description || tool.description}`,
+        ...(settings?.transform && { inputSchema: ToolTransformer.transformSchema(tool.inputSchema, settings.transform) })
+      });
+    }
+    // Composite tools are published once every step's tool is available; real tools win name conflicts
+    for (const [name, composite] of Object.entries(this.getCompositeTools())) {
+      if (this.toolRoutes.has(name)) {
+        log.warn(`Composite tool ${name} is hidden, a server already publishes a tool with that name`);
+        hiddenTools.push(`composite/${name}`);
+      } else if (composite.steps.every(step => this.toolRoutes.has(step.tool))) {
+        allTools.push({
+          name,
+          description: `[composite] ${composite.description}`,
+          inputSchema: composite.inputSchema || { type: 'object' }
+        });
+      }
+    }
+    this.hiddenTools = hiddenTools;
+
+    return allTools;
+  }
+
+  // Connected servers plus stopped lazy/on-demand servers whose tools are known
+  private getPublishingAdapters(): ServerAdapter[] {
+    return this.getAllAdapters().filter(adapter => adapter.isConnected || this.isStandby(adapter.name));
+  }
+
+  private getCompositeTools(): Record<string, CompositeToolConfig> {
+    return this.configManager?.getConfig().compositeTools || {};
+  }
+
+  private getReplicaGroups(): Record<string, ReplicaGroupConfig> {
+    return this.configManager?.getConfig().replicaGroups || {};
+  }
+
+  private getReplicaGroupOf(serverName: string): string | undefined {
+    return Object.entries(this.getReplicaGroups()).find(([, group]) => group.servers.includes(serverName))?.[0];
+  }
+
+  // Namespacing strategy for a server: its own setting, then the global one. Unusable templates fall back to the default.
+  private getNamespacing(serverName: string): ToolNamespacing {
+    const strategy = this.getServerConfig(serverName)?.toolNamespacing
+      ?? this.configManager?.getConfig().toolNamespacing
+      ?? ToolNamespace.DEFAULT;
+
+    const error = ToolNamespace.validateStrategy(strategy);
+    if (error) {
+      log.warn(`${error}, using ${ToolNamespace.DEFAULT} for ${serverName}`);
+      return ToolNamespace.DEFAULT;
+    }
+    return strategy;
+  }
+
+  private countToolNames(entries: Array<{ name: string }>): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const { name } of entries) {
+      counts.set(name, (counts.get(name) || 0) + 1);
     }
+    return counts;
   }
 
   async getAllTools(forceRefresh: boolean = false): Promise<MCPTool[]> {
     const connectedAdapters = this.getConnectedAdapters();
 
-    // If no adapters are connected, return empty tool list (security fix)
-    if (connectedAdapters.length === 0) {
-      console.error(`📦 No adapters connected, returning empty tools list for security`);
+    // If no adapters are connected (or on standby), return empty tool list (security fix)
+    if (this.getPublishingAdapters().length === 0) {
+      log.info(`No adapters connected, returning empty tools list for security`);
       // Clear stable tool cache to ensure disabled tools are not leaked
       this.lastStableToolsList = [];
       this.lastStableToolsCount = 0;
       return [];
     }
 
-    // Step 1: Collect tools from all servers, with server info
-    const allServerTools: Array<{tool: MCPTool, serverName: string}> = [];
-    
+    // Step 1: Refresh the tool cache of each connected server
     for (const adapter of connectedAdapters) {
-      let serverTools = this.toolsByServer.get(adapter.name) || [];
+      const serverTools = this.toolsByServer.get(adapter.name) || [];
       
       // If cache is empty or force refresh, try to get in real-time
       if (serverTools.length === 0 || forceRefresh) {
         try {
-          console.error(`Real-time fetching tools from ${adapter.name}...`);
+          log.debug(`Real-time fetching tools from ${adapter.name}...`);
           const freshTools = await Promise.race([
             adapter.getTools(),
             new Promise<never>((_, reject) => 
@@ -231,54 +585,23 @@ export class ToolRouter extends EventEmitter {
           
           if (freshTools.length > 0) {
             this.toolsByServer.set(adapter.name, freshTools);
-            serverTools = freshTools;
-            console.error(`✅ Got ${freshTools.length} tools from ${adapter.name}`);
+            log.debug(`Got ${freshTools.length} tools from ${adapter.name}`);
           }
         } catch (error) {
-          console.error(`⚠️ Failed to fetch tools from ${adapter.name}: ${(error as Error).message}`);
+          log.warn(`Failed to fetch tools from ${adapter.name}: ${(error as Error).message}`);
           // Continue with cached tools (if any)
         }
       }
-      
-      // Add enabled tools to the list
-      for (const tool of serverTools) {
-        if (this.isToolEnabled(adapter.name, tool.name)) {
-          allServerTools.push({ tool, serverName: adapter.name });
-        }
-      }
-    }
-
-    // Step 2: Detect tool name conflicts
-    const toolNameCounts = new Map<string, number>();
-    for (const {tool} of allServerTools) {
-      const count = toolNameCounts.get(tool.name) || 0;
-      toolNameCounts.set(tool.name, count + 1);
     }
 
-    // Step 3: Resolve conflicts, generate final tool list
-    const allTools: MCPTool[] = [];
-    for (const {tool, serverName} of allServerTools) {
-      const originalToolName = tool.name;
-      let finalToolName = originalToolName;
-      
-      // If there's a conflict, use server name as prefix
-      if (toolNameCounts.get(originalToolName)! > 1) {
-        finalToolName = `${serverName}-${originalToolName}`;
-      }
-      
-      allTools.push({
-        ...tool,
-        name: finalToolName,
-        // Add server info to tool description
-        description: `[${serverName}] ${tool.description}`
-      });
-    }
+    // Step 2: Publish enabled tools with aliases applied and conflicts resolved
+    const allTools = this.rebuildToolRoutes();
 
     // If a reasonable number of tools are obtained, update the stable cache
     if (allTools.length >= this.lastStableToolsCount * 0.8) { // At least 80% of tools
       this.lastStableToolsList = [...allTools];
       this.lastStableToolsCount = allTools.length;
-      console.error(`💾 Updated stable tools cache: ${allTools.length} tools`);
+      log.debug(`Updated stable tools cache: ${allTools.length} tools`);
     }
     
     // Security fix: always return currently available tools, do not use cache
@@ -300,12 +623,28 @@ export class ToolRouter extends EventEmitter {
     return this.toolRoutes.get(toolName);
   }
 
-  async callTool(toolName: string, args: any): Promise<MCPResponse> {
+  async callTool(toolName: string, args: any, context?: ToolCallContext): Promise<MCPResponse> {
+    const attributes = { 'gen_ai.tool.name': toolName, 'mcpdog.composite_step': context?.composite?.step };
+    return globalTracer.trace(`route ${toolName}`, { attributes }, async span => {
+      const response = await this.dispatchToolCall(toolName, args, context);
+      if (response.error) {
+        span.setError(response.error.message);
+      }
+      return response;
+    });
+  }
+
+  private async dispatchToolCall(toolName: string, args: any, context?: ToolCallContext): Promise<MCPResponse> {
+    const composite = this.getCompositeTools()[toolName];
+    if (composite && !this.toolRoutes.has(toolName)) {
+      return this.callCompositeTool(toolName, composite, args, context);
+    }
+
     const route = this.toolRoutes.get(toolName);
     
     if (!route) {
       // If tool not found, try to force refresh all tools
-      console.error(`Tool ${toolName} not found, refreshing tools...`);
+      log.info(`Tool ${toolName} not found, refreshing tools...`);
       await this.getAllTools(true); // Force refresh
       
       const refreshedRoute = this.toolRoutes.get(toolName);
@@ -321,7 +660,127 @@ export class ToolRouter extends EventEmitter {
         };
       }
       // Use refreshed route
-      return this.callTool(toolName, args);
+      return this.dispatchToolCall(toolName, args, context);
+    }
+
+    if (route.replicas) {
+      return this.callReplicas(route, toolName, args, context);
+    }
+    return this.callRoute(route, toolName, args, context);
+  }
+
+  /**
+   * Try a replica group's members in policy order. A call moves on to the next member only when it
+   * failed at the connection level, so an upstream that answered (even with an error) is never called twice.
+   */
+  private async callReplicas(route: ToolRoute, toolName: string, args: any, context?: ToolCallContext): Promise<MCPResponse> {
+    const group = this.getReplicaGroups()[route.group!];
+    const candidates = this.orderReplicas(route.group!, group?.policy || 'priority', route.replicas!);
+    const attempts = Math.min(candidates.length, 1 + (group?.retries ?? candidates.length - 1));
+
+    const tried: string[] = [];
+    let response!: MCPResponse;
+    for (const member of candidates.slice(0, attempts)) {
+      if (tried.length > 0) {
+        log.info(`Failover: retrying ${toolName} on ${member.serverName} after ${tried[tried.length - 1]} failed`);
+        this.emit('tool-failover', {
+          group: route.group,
+          toolName,
+          fromServer: tried[tried.length - 1],
+          toServer: member.serverName,
+          error: response.error?.message
+        });
+      }
+      tried.push(member.serverName);
+      globalTracer.getActiveSpan()?.addEvent('replica attempt', { 'mcpdog.replica_group': route.group, 'mcpdog.server': member.serverName });
+      response = await this.callRoute(member, toolName, args, context);
+      if (!response.error?.data?.connectionError || context?.signal?.aborted) {
+        break;
+      }
+    }
+
+    if (response.error && tried.length > 1) {
+      response.error.data = { ...response.error.data, group: route.group, triedServers: tried };
+    }
+    return response;
+  }
+
+  // Healthy members (connected, circuit not open) in policy order, then the rest as a last resort
+  private orderReplicas(groupName: string, policy: NonNullable<ReplicaGroupConfig['policy']>, replicas: ToolRoute[]): ToolRoute[] {
+    const healthy = replicas.filter(replica =>
+      replica.adapter.isConnected && replica.adapter.getCircuitStats?.().state !== 'open'
+    );
+    const unhealthy = replicas.filter(replica => !healthy.includes(replica));
+
+    let ordered = healthy;
+    if (policy === 'round-robin' && healthy.length > 1) {
+      const cursor = this.replicaCursors.get(groupName) || 0;
+      this.replicaCursors.set(groupName, cursor + 1);
+      const start = cursor % healthy.length;
+      ordered = [...healthy.slice(start), ...healthy.slice(0, start)];
+    } else if (policy === 'least-latency') {
+      // Members without a measurement yet sort first so they get one
+      ordered = [...healthy].sort((a, b) =>
+        (this.serverLatency.get(a.serverName) ?? 0) - (this.serverLatency.get(b.serverName) ?? 0)
+      );
+    }
+    return [...ordered, ...unhealthy];
+  }
+
+  private recordLatency(serverName: string, duration: number): void {
+    const previous = this.serverLatency.get(serverName);
+    this.serverLatency.set(serverName, previous === undefined ? duration : previous * 0.7 + duration * 0.3);
+  }
+
+  private async callRoute(route: ToolRoute, toolName: string, args: any, context?: ToolCallContext): Promise<MCPResponse> {
+    const span = globalTracer.getActiveSpan();
+    span?.setAttribute('mcpdog.server', route.serverName);
+
+    // Arguments are rewritten to the upstream shape first, since validation uses the upstream schema
+    const transform = this.getToolSettings(route.serverName, route.originalName)?.transform;
+    const upstreamArgs = transform ? ToolTransformer.transformArguments(args, transform) : args;
+
+    // Malformed calls are rejected here instead of costing a round trip to the upstream server
+    const validationError = this.validateArguments(route, toolName, upstreamArgs, transform);
+    if (validationError) {
+      return validationError;
+    }
+
+    // Cached results are stored untransformed and keyed on the arguments actually sent upstream
+    const cacheTtl = this.getToolSettings(route.serverName, route.originalName)?.cacheTtl;
+    if (cacheTtl) {
+      const cached = this.resultCache.get(route.serverName, route.originalName, upstreamArgs);
+      if (cached !== undefined) {
+        log.debug(`Cache hit: ${toolName} -> ${route.serverName}`);
+        span?.setAttribute('mcpdog.cache_hit', true);
+        const result = transform ? ToolTransformer.transformResult(cached, transform) : cached;
+        this.emit('tool-called', {
+          serverName: route.serverName,
+          toolName,
+          args,
+          result,
+          duration: 0,
+          cached: true,
+          ...(context?.composite && { compositeTool: context.composite.name, step: context.composite.step })
+        });
+        return { jsonrpc: '2.0', id: 0, result };
+      }
+    }
+
+    if (this.isStandby(route.serverName)) {
+      try {
+        await this.startServer(route.adapter);
+      } catch (error) {
+        return {
+          jsonrpc: '2.0',
+          id: 0,
+          error: {
+            code: -32000,
+            message: `Failed to start ${route.serverName}: ${(error as Error).message}`,
+            data: { serverName: route.serverName, connectionError: true }
+          }
+        };
+      }
     }
 
     if (!route.adapter.isConnected) {
@@ -331,51 +790,108 @@ export class ToolRouter extends EventEmitter {
         error: {
           code: -32000,
           message: `Server not connected: ${route.serverName}`,
-          data: { serverName: route.serverName }
+          data: { serverName: route.serverName, connectionError: true }
         }
       };
     }
 
-    try {
-      console.error(`Routing tool call: ${toolName} -> ${route.serverName}`);
+    if (context?.clientId) {
+      this.trackActiveCall(route.serverName, context.clientId);
+    }
+    // On-demand servers are stopped once no call has been in flight for idleTimeout
+    const onDemand = this.getLifecycle(route.adapter) === 'on-demand';
+    if (onDemand) {
+      this.idleTracker.begin(route.serverName);
+    }
 
-      // Extract the original tool name by removing the server prefix (if it was added)
-      // Only strip prefix if the tool name starts with "serverName-"
-      const serverPrefix = `${route.serverName}-`;
-      const originalToolName = toolName.startsWith(serverPrefix)
-        ? toolName.substring(serverPrefix.length)
-        : toolName;
+    // Upstream servers get a token of our own so concurrent clients cannot collide
+    const upstreamProgressToken = context?.progressToken !== undefined
+      ? this.registerProgressRoute(context.clientId, context.progressToken)
+      : undefined;
+
+    // The deadline aborts the call like a client cancellation, so the upstream server is told to stop
+    const timeout = this.getCallTimeout(route, context?.timeout);
+    const controller = new AbortController();
+    const abortFromClient = () => controller.abort(context?.signal?.reason);
+    if (context?.signal?.aborted) {
+      abortFromClient();
+    } else {
+      context?.signal?.addEventListener('abort', abortFromClient, { once: true });
+    }
+    const callOptions = this.buildToolCallOptions(upstreamProgressToken, controller.signal, timeout);
+    let timedOut = false;
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      callOptions.timedOut = true;
+      controller.abort(`Timed out after ${timeout}ms`);
+    }, timeout);
+    const startTime = Date.now();
+
+    try {
+      log.debug(`Routing tool call: ${toolName} -> ${route.serverName}`);
 
+      // The route records the upstream name, so prefixes and aliases never need to be parsed back
+      const originalToolName = route.originalName;
       if (originalToolName !== toolName) {
-        console.error(`Stripping prefix: ${toolName} -> ${originalToolName}`);
+        log.debug(`Mapping tool name: ${toolName} -> ${originalToolName}`);
       }
       
-      const startTime = Date.now();
-      const response = await route.adapter.callTool(originalToolName, args);
+      const response = await route.adapter.callTool(originalToolName, upstreamArgs, callOptions);
       const duration = Date.now() - startTime;
+      this.recordLatency(route.serverName, duration);
+
+      if (cacheTtl && response.result && !response.error && !response.result.isError) {
+        this.resultCache.set(route.serverName, route.originalName, upstreamArgs, response.result, cacheTtl);
+      }
+
+      if (transform && response.result) {
+        response.result = ToolTransformer.transformResult(response.result, transform);
+      }
 
-      console.error(`Tool call completed: ${toolName} (${duration}ms)`);
+      log.debug(`Tool call completed: ${toolName} (${duration}ms)`);
       
       this.emit('tool-called', {
         serverName: route.serverName,
         toolName,
         args,
         result: response.result,
-        duration
+        duration,
+        isError: !!response.error || response.result?.isError === true,
+        ...(context?.composite && { compositeTool: context.composite.name, step: context.composite.step })
       });
 
       return response;
 
     } catch (error) {
-      console.error(`Tool call failed: ${toolName} -> ${route.serverName}:`, error);
+      log.error(`Tool call failed: ${toolName} -> ${route.serverName}:`, error);
       
       this.emit('tool-call-failed', {
         serverName: route.serverName,
         toolName,
         args,
-        error: error as Error
+        error: error as Error,
+        duration: Date.now() - startTime,
+        timedOut
       });
 
+      if (timedOut) {
+        const elapsed = Date.now() - startTime;
+        return {
+          jsonrpc: '2.0',
+          id: 0,
+          error: {
+            code: -32001,
+            message: `Tool call timed out: ${toolName} on ${route.serverName} after ${elapsed}ms (limit ${timeout}ms)`,
+            data: {
+              toolName,
+              serverName: route.serverName,
+              timeout,
+              elapsed
+            }
+          }
+        };
+      }
+
       return {
         jsonrpc: '2.0',
         id: 0,
@@ -385,11 +901,678 @@ export class ToolRouter extends EventEmitter {
           data: { 
             toolName, 
             serverName: route.serverName,
-            originalError: (error as Error).message 
+            originalError: (error as Error).message,
+            // The request never reached upstream and nobody cancelled: safe to try a replica
+            ...(!controller.signal.aborted && UpstreamError.isRetryable(error) && { connectionError: true })
           }
         }
       };
+    } finally {
+      clearTimeout(timeoutId);
+      context?.signal?.removeEventListener('abort', abortFromClient);
+      if (upstreamProgressToken !== undefined) {
+        this.progressRoutes.delete(upstreamProgressToken);
+      }
+      if (context?.clientId) {
+        this.untrackActiveCall(route.serverName, context.clientId);
+      }
+      if (onDemand) {
+        this.idleTracker.end(route.serverName, this.getIdleTimeout(route.adapter));
+      }
+    }
+  }
+
+  private trackActiveCall(serverName: string, clientId: string): void {
+    const clients = this.activeCallClients.get(serverName) || [];
+    clients.push(clientId);
+    this.activeCallClients.set(serverName, clients);
+  }
+
+  private untrackActiveCall(serverName: string, clientId: string): void {
+    const clients = this.activeCallClients.get(serverName);
+    if (!clients) return;
+
+    const index = clients.lastIndexOf(clientId);
+    if (index !== -1) {
+      clients.splice(index, 1);
+    }
+    if (clients.length === 0) {
+      this.activeCallClients.delete(serverName);
+    }
+  }
+
+  // Most recent caller wins when several clients have calls in flight on the same server
+  getActiveClient(serverName: string): string | undefined {
+    const clients = this.activeCallClients.get(serverName);
+    return clients?.[clients.length - 1];
+  }
+
+  // Check arguments against the cached inputSchema, returning a -32602 error when the server rejects invalid calls
+  private validateArguments(route: ToolRoute, toolName: string, args: any, transform?: ToolTransform): MCPResponse | undefined {
+    const mode = this.getServerConfig(route.serverName)?.argumentValidation || 'on';
+    const tool = this.toolsByServer.get(route.serverName)?.find(t => t.name === route.originalName);
+    if (mode === 'off' || !tool?.inputSchema) {
+      return undefined;
+    }
+
+    const violations = SchemaValidator.validate(tool.inputSchema, args)
+      .map(v => transform ? { ...v, path: ToolTransformer.toClientPath(v.path, transform) } : v);
+    if (violations.length === 0) {
+      return undefined;
+    }
+
+    const summary = violations.map(v => `${v.path || '/'} ${v.message}`).join('; ');
+    if (mode === 'warn') {
+      log.warn(`Invalid arguments for ${toolName} (forwarding anyway): ${summary}`);
+      return undefined;
     }
+
+    log.info(`Rejected tool call ${toolName}: ${summary}`);
+    return this.invalidArgumentsResponse(toolName, violations, { serverName: route.serverName });
+  }
+
+  private invalidArgumentsResponse(toolName: string, violations: SchemaViolation[], data: Record<string, any>): MCPResponse {
+    const summary = violations.map(v => `${v.path || '/'} ${v.message}`).join('; ');
+    return {
+      jsonrpc: '2.0',
+      id: 0,
+      error: {
+        code: -32602,
+        message: `Invalid arguments for tool ${toolName}: ${summary}`,
+        data: {
+          toolName,
+          ...data,
+          violations
+        }
+      }
+    };
+  }
+
+  // Run the steps of a composite tool in order; the first failing step ends the call
+  private async callCompositeTool(
+    name: string,
+    composite: CompositeToolConfig,
+    args: any,
+    context?: ToolCallContext
+  ): Promise<MCPResponse> {
+    const violations = SchemaValidator.validate(composite.inputSchema || { type: 'object' }, args);
+    if (violations.length > 0) {
+      return this.invalidArgumentsResponse(name, violations, { compositeTool: name });
+    }
+
+    log.info(`Running composite tool ${name} (${composite.steps.length} steps)`);
+    const scope: TemplateScope = { input: args || {}, steps: {} };
+    const results: any[] = [];
+
+    for (const [index, step] of composite.steps.entries()) {
+      const stepLabel = `Step ${index + 1} (${step.tool}) of ${name}`;
+
+      if (context?.signal?.aborted) {
+        return this.compositeStepError(name, index, step.tool, -32000, `${stepLabel} not started: call was cancelled`);
+      }
+      // Composites only chain real tools, which also rules out cycles
+      if (this.getCompositeTools()[step.tool] && !this.toolRoutes.has(step.tool)) {
+        return this.compositeStepError(name, index, step.tool, -32601, `${stepLabel} refers to another composite tool`);
+      }
+
+      const stepArgs = ArgumentTemplate.render(step.arguments || {}, scope);
+      const response = context?.checkStepLimits?.(step.tool)
+        || await this.callTool(step.tool, stepArgs, { ...context, composite: { name, step: index } });
+
+      if (response.error) {
+        return this.compositeStepError(name, index, step.tool, response.error.code, `${stepLabel} failed: ${response.error.message}`, response.error);
+      }
+      if (response.result?.isError) {
+        // Tool-level errors stay results, prefixed with the failing step
+        return {
+          jsonrpc: '2.0',
+          id: 0,
+          result: {
+            content: [{ type: 'text', text: `${stepLabel} failed` }, ...(response.result.content || [])],
+            isError: true
+          }
+        };
+      }
+
+      results.push(response.result);
+      scope.steps[index] = response.result;
+      if (step.id) {
+        scope.steps[step.id] = response.result;
+      }
+    }
+
+    return {
+      jsonrpc: '2.0',
+      id: 0,
+      result: composite.result === 'last'
+        ? results[results.length - 1] || { content: [] }
+        : { content: results.flatMap(result => result?.content || []) }
+    };
+  }
+
+  private compositeStepError(name: string, step: number, tool: string, code: number, message: string, cause?: any): MCPResponse {
+    log.info(`Composite tool ${name}: ${message}`);
+    return {
+      jsonrpc: '2.0',
+      id: 0,
+      error: {
+        code,
+        message,
+        data: { compositeTool: name, step, tool, ...(cause && { error: cause }) }
+      }
+    };
+  }
+
+  private registerProgressRoute(clientId: string | undefined, progressToken: string | number): string {
+    const upstreamToken = `mcpdog-progress-${++this.progressCounter}`;
+    this.progressRoutes.set(upstreamToken, { clientId, progressToken });
+    return upstreamToken;
+  }
+
+  private buildToolCallOptions(progressToken: string | undefined, signal: AbortSignal, timeout: number): ToolCallOptions {
+    return {
+      ...(progressToken !== undefined && { progressToken }),
+      signal,
+      timeout
+    };
+  }
+
+  /**
+   * Limit for one upstream call: toolSettings timeout, else the server timeout, else the adapter default.
+   * A client hint may shorten it but never extend it.
+   */
+  private getCallTimeout(route: ToolRoute, hint?: number): number {
+    const configured = this.getToolSettings(route.serverName, route.originalName)?.timeout
+      || route.adapter.config?.timeout
+      || ToolRouter.DEFAULT_CALL_TIMEOUT;
+    return typeof hint === 'number' && hint > 0 ? Math.min(hint, configured) : configured;
+  }
+
+  private handleUpstreamProgress(serverName: string, params: any): void {
+    const route = this.progressRoutes.get(String(params.progressToken));
+    if (!route) {
+      return; // Call already finished or token was not issued by us
+    }
+
+    this.emit('progress', {
+      serverName,
+      clientId: route.clientId,
+      notification: {
+        jsonrpc: '2.0',
+        method: 'notifications/progress',
+        params: { ...params, progressToken: route.progressToken }
+      }
+    });
+  }
+
+  // stderr lines are only relayed when the server opts in with stderrLogs
+  private relayStderr(adapter: ServerAdapter, line: string): void {
+    const relay = adapter.config?.stderrLogs;
+    if (!relay?.enabled || (relay.pattern && !new RegExp(relay.pattern, 'i').test(line))) {
+      return;
+    }
+
+    const level: MCPLogLevel = relay.level
+      || (/\b(error|fatal|exception)\b/i.test(line) ? 'error' : /\bwarn(ing)?\b/i.test(line) ? 'warning' : 'info');
+    this.emit('log-message', { serverName: adapter.name, level, logger: adapter.name, data: line });
+  }
+
+  /**
+   * Ask every upstream that supports logging to emit messages at this level; servers connecting later get it too
+   */
+  setUpstreamLogLevel(level: MCPLogLevel): void {
+    this.upstreamLogLevel = level;
+    for (const adapter of this.getConnectedAdapters()) {
+      this.applyLogLevel(adapter, level);
+    }
+  }
+
+  private applyLogLevel(adapter: ServerAdapter, level: MCPLogLevel): void {
+    adapter.setLogLevel?.(level).catch(error => {
+      log.warn(`Failed to set log level on ${adapter.name}: ${(error as Error).message}`);
+    });
+  }
+
+  async getAllResources(): Promise<MCPResource[]> {
+    const collected: Array<{ resource: MCPResource; serverName: string; adapter: ServerAdapter }> = [];
+
+    for (const adapter of this.getConnectedAdapters()) {
+      if (typeof adapter.getResources !== 'function') {
+        continue;
+      }
+
+      try {
+        const resources = await this.withTimeout(adapter.getResources(), 8000);
+        for (const resource of resources) {
+          if (this.isResourceEnabled(adapter.name, resource.uri)) {
+            collected.push({ resource, serverName: adapter.name, adapter });
+          }
+        }
+      } catch (error) {
+        log.warn(`Failed to fetch resources from ${adapter.name}: ${(error as Error).message}`);
+      }
+    }
+
+    // Resolve URI conflicts the same way as tool name conflicts: prefix with server name
+    const uriCounts = new Map<string, number>();
+    for (const { resource } of collected) {
+      uriCounts.set(resource.uri, (uriCounts.get(resource.uri) || 0) + 1);
+    }
+
+    this.resourceRoutes.clear();
+    const allResources: MCPResource[] = [];
+    for (const { resource, serverName, adapter } of collected) {
+      const publishedUri = uriCounts.get(resource.uri)! > 1
+        ? `${serverName}-${resource.uri}`
+        : resource.uri;
+
+      this.resourceRoutes.set(publishedUri, {
+        uri: publishedUri,
+        originalUri: resource.uri,
+        serverName,
+        adapter
+      });
+
+      allResources.push({
+        ...resource,
+        uri: publishedUri,
+        description: `[${serverName}] ${resource.description || resource.name}`
+      });
+    }
+
+    return allResources;
+  }
+
+  async getAllResourceTemplates(): Promise<MCPResourceTemplate[]> {
+    const collected: Array<{ template: MCPResourceTemplate; serverName: string; adapter: ServerAdapter }> = [];
+
+    for (const adapter of this.getConnectedAdapters()) {
+      if (typeof adapter.getResourceTemplates !== 'function') {
+        continue;
+      }
+
+      try {
+        const templates = await this.withTimeout(adapter.getResourceTemplates(), 8000);
+        for (const template of templates) {
+          if (this.isResourceEnabled(adapter.name, template.uriTemplate)) {
+            collected.push({ template, serverName: adapter.name, adapter });
+          }
+        }
+      } catch (error) {
+        log.warn(`Failed to fetch resource templates from ${adapter.name}: ${(error as Error).message}`);
+      }
+    }
+
+    const templateCounts = new Map<string, number>();
+    for (const { template } of collected) {
+      templateCounts.set(template.uriTemplate, (templateCounts.get(template.uriTemplate) || 0) + 1);
+    }
+
+    this.resourceTemplateRoutes = [];
+    const allTemplates: MCPResourceTemplate[] = [];
+    for (const { template, serverName, adapter } of collected) {
+      const prefix = templateCounts.get(template.uriTemplate)! > 1 ? `${serverName}-` : '';
+
+      this.resourceTemplateRoutes.push({
+        uriTemplate: `${prefix}${template.uriTemplate}`,
+        prefix,
+        pattern: this.compileUriTemplate(template.uriTemplate),
+        serverName,
+        adapter
+      });
+
+      allTemplates.push({
+        ...template,
+        uriTemplate: `${prefix}${template.uriTemplate}`,
+        description: `[${serverName}] ${template.description || template.name}`
+      });
+    }
+
+    return allTemplates;
+  }
+
+  findResourceRoute(uri: string): ResourceRoute | undefined {
+    const route = this.resourceRoutes.get(uri);
+    if (route) {
+      return route;
+    }
+
+    // Fall back to resource templates for URIs that are not listed explicitly
+    for (const templateRoute of this.resourceTemplateRoutes) {
+      if (templateRoute.prefix && !uri.startsWith(templateRoute.prefix)) {
+        continue;
+      }
+
+      const originalUri = uri.substring(templateRoute.prefix.length);
+      if (templateRoute.pattern.test(originalUri)) {
+        return {
+          uri,
+          originalUri,
+          serverName: templateRoute.serverName,
+          adapter: templateRoute.adapter
+        };
+      }
+    }
+
+    return undefined;
+  }
+
+  async readResource(uri: string): Promise<MCPResponse> {
+    const route = await this.resolveResourceRoute(uri);
+    if (!route) {
+      return this.resourceNotFound(uri);
+    }
+
+    if (!route.adapter.isConnected || typeof route.adapter.readResource !== 'function') {
+      return {
+        jsonrpc: '2.0',
+        id: 0,
+        error: {
+          code: -32000,
+          message: `Server not connected: ${route.serverName}`,
+          data: { serverName: route.serverName }
+        }
+      };
+    }
+
+    try {
+      log.debug(`Routing resource read: ${uri} -> ${route.serverName}`);
+      const response = await route.adapter.readResource(route.originalUri);
+
+      // Map upstream URIs back to the URI the client asked for
+      if (route.originalUri !== uri && Array.isArray(response.result?.contents)) {
+        response.result.contents = response.result.contents.map((content: any) =>
+          content.uri === route.originalUri ? { ...content, uri } : content
+        );
+      }
+
+      this.emit('resource-read', { serverName: route.serverName, uri });
+      return response;
+    } catch (error) {
+      log.error(`Resource read failed: ${uri} -> ${route.serverName}:`, error);
+      return {
+        jsonrpc: '2.0',
+        id: 0,
+        error: {
+          code: -32000,
+          message: `Resource read failed: ${(error as Error).message}`,
+          data: { uri, serverName: route.serverName }
+        }
+      };
+    }
+  }
+
+  async subscribeResource(uri: string, clientId: string): Promise<MCPResponse> {
+    const existing = this.resourceSubscriptions.get(uri);
+    if (existing) {
+      existing.clientIds.add(clientId);
+      return { jsonrpc: '2.0', id: 0, result: {} };
+    }
+
+    const route = await this.resolveResourceRoute(uri);
+    if (!route) {
+      return this.resourceNotFound(uri);
+    }
+
+    if (typeof route.adapter.subscribeResource !== 'function') {
+      return {
+        jsonrpc: '2.0',
+        id: 0,
+        error: {
+          code: -32601,
+          message: `Server ${route.serverName} does not support resource subscriptions`
+        }
+      };
+    }
+
+    try {
+      const response = await route.adapter.subscribeResource(route.originalUri);
+      if (response.error) {
+        return { ...response, id: 0 };
+      }
+    } catch (error) {
+      return {
+        jsonrpc: '2.0',
+        id: 0,
+        error: {
+          code: -32000,
+          message: `Resource subscribe failed: ${(error as Error).message}`,
+          data: { uri, serverName: route.serverName }
+        }
+      };
+    }
+
+    this.resourceSubscriptions.set(uri, {
+      serverName: route.serverName,
+      originalUri: route.originalUri,
+      clientIds: new Set([clientId])
+    });
+    log.info(`Client ${clientId} subscribed to ${uri} (${route.serverName})`);
+
+    return { jsonrpc: '2.0', id: 0, result: {} };
+  }
+
+  async unsubscribeResource(uri: string, clientId: string): Promise<MCPResponse> {
+    const subscription = this.resourceSubscriptions.get(uri);
+    if (subscription) {
+      subscription.clientIds.delete(clientId);
+      if (subscription.clientIds.size === 0) {
+        await this.dropResourceSubscription(uri, subscription);
+      }
+    }
+
+    return { jsonrpc: '2.0', id: 0, result: {} };
+  }
+
+  // Drop every subscription held by a client (called when the client goes away)
+  async releaseClient(clientId: string): Promise<void> {
+    for (const [uri, subscription] of Array.from(this.resourceSubscriptions)) {
+      if (subscription.clientIds.delete(clientId) && subscription.clientIds.size === 0) {
+        await this.dropResourceSubscription(uri, subscription);
+      }
+    }
+  }
+
+  private async dropResourceSubscription(uri: string, subscription: ResourceSubscription): Promise<void> {
+    this.resourceSubscriptions.delete(uri);
+
+    const adapter = this.adapters.get(subscription.serverName);
+    if (adapter?.isConnected && typeof adapter.unsubscribeResource === 'function') {
+      try {
+        await adapter.unsubscribeResource(subscription.originalUri);
+      } catch (error) {
+        log.error(`Failed to unsubscribe ${uri} on ${subscription.serverName}:`, (error as Error).message);
+      }
+    }
+  }
+
+  private handleUpstreamResourceUpdated(serverName: string, originalUri: string): void {
+    for (const [uri, subscription] of this.resourceSubscriptions) {
+      if (subscription.serverName === serverName && subscription.originalUri === originalUri) {
+        this.emit('resource-updated', {
+          serverName,
+          uri,
+          clientIds: Array.from(subscription.clientIds)
+        });
+      }
+    }
+  }
+
+  // Upstream subscriptions do not survive a reconnect, so re-register them
+  private async restoreResourceSubscriptions(adapter: ServerAdapter): Promise<void> {
+    if (typeof adapter.subscribeResource !== 'function') {
+      return;
+    }
+
+    for (const subscription of this.resourceSubscriptions.values()) {
+      if (subscription.serverName === adapter.name) {
+        await adapter.subscribeResource(subscription.originalUri);
+      }
+    }
+  }
+
+  private async resolveResourceRoute(uri: string): Promise<ResourceRoute | undefined> {
+    let route = this.findResourceRoute(uri);
+    if (!route) {
+      // Route tables are built while listing, refresh them once before giving up
+      await this.getAllResources();
+      await this.getAllResourceTemplates();
+      route = this.findResourceRoute(uri);
+    }
+    return route;
+  }
+
+  private removeResourceRoutes(serverName: string): void {
+    for (const [uri, route] of Array.from(this.resourceRoutes)) {
+      if (route.serverName === serverName) {
+        this.resourceRoutes.delete(uri);
+      }
+    }
+    this.resourceTemplateRoutes = this.resourceTemplateRoutes.filter(route => route.serverName !== serverName);
+  }
+
+  private resourceNotFound(uri: string): MCPResponse {
+    return {
+      jsonrpc: '2.0',
+      id: 0,
+      error: {
+        code: -32002,
+        message: `Resource not found: ${uri}`,
+        data: { uri }
+      }
+    };
+  }
+
+  // Turn an RFC 6570 URI template into a matcher; every expression matches any text
+  private compileUriTemplate(uriTemplate: string): RegExp {
+    const source = uriTemplate
+      .split(/(\{[^}]*\})/)
+      .map(part => part.startsWith('{') ? '.*' : part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+      .join('');
+    return new RegExp(`^${source}$`);
+  }
+
+  async getAllPrompts(): Promise<MCPPrompt[]> {
+    const collected: Array<{ prompt: MCPPrompt; serverName: string; adapter: ServerAdapter }> = [];
+
+    for (const adapter of this.getConnectedAdapters()) {
+      if (typeof adapter.getPrompts !== 'function') {
+        continue;
+      }
+
+      try {
+        const prompts = await this.withTimeout(adapter.getPrompts(), 8000);
+        for (const prompt of prompts) {
+          if (this.isPromptEnabled(adapter.name, prompt.name)) {
+            collected.push({ prompt, serverName: adapter.name, adapter });
+          }
+        }
+      } catch (error) {
+        log.warn(`Failed to fetch prompts from ${adapter.name}: ${(error as Error).message}`);
+      }
+    }
+
+    // Resolve name conflicts the same way as tools: prefix with server name
+    const nameCounts = new Map<string, number>();
+    for (const { prompt } of collected) {
+      nameCounts.set(prompt.name, (nameCounts.get(prompt.name) || 0) + 1);
+    }
+
+    this.promptRoutes.clear();
+    const allPrompts: MCPPrompt[] = [];
+    for (const { prompt, serverName, adapter } of collected) {
+      const publishedName = nameCounts.get(prompt.name)! > 1
+        ? `${serverName}-${prompt.name}`
+        : prompt.name;
+
+      this.promptRoutes.set(publishedName, {
+        promptName: publishedName,
+        originalName: prompt.name,
+        serverName,
+        adapter
+      });
+
+      allPrompts.push({
+        ...prompt,
+        name: publishedName,
+        description: `[${serverName}] ${prompt.description || prompt.name}`
+      });
+    }
+
+    return allPrompts;
+  }
+
+  findPromptRoute(promptName: string): PromptRoute | undefined {
+    return this.promptRoutes.get(promptName);
+  }
+
+  async getPrompt(promptName: string, args?: Record<string, string>): Promise<MCPResponse> {
+    let route = this.promptRoutes.get(promptName);
+    if (!route) {
+      // Routes are built while listing, refresh once before giving up
+      await this.getAllPrompts();
+      route = this.promptRoutes.get(promptName);
+    }
+
+    if (!route) {
+      return {
+        jsonrpc: '2.0',
+        id: 0,
+        error: {
+          code: -32602,
+          message: `Prompt not found: ${promptName}`,
+          data: { availablePrompts: Array.from(this.promptRoutes.keys()) }
+        }
+      };
+    }
+
+    if (!route.adapter.isConnected || typeof route.adapter.getPrompt !== 'function') {
+      return {
+        jsonrpc: '2.0',
+        id: 0,
+        error: {
+          code: -32000,
+          message: `Server not connected: ${route.serverName}`,
+          data: { serverName: route.serverName }
+        }
+      };
+    }
+
+    try {
+      log.debug(`Routing prompt get: ${promptName} -> ${route.serverName}`);
+      const response = await route.adapter.getPrompt(route.originalName, args);
+      this.emit('prompt-requested', { serverName: route.serverName, promptName });
+      return response;
+    } catch (error) {
+      log.error(`Prompt get failed: ${promptName} -> ${route.serverName}:`, error);
+      return {
+        jsonrpc: '2.0',
+        id: 0,
+        error: {
+          code: -32000,
+          message: `Prompt get failed: ${(error as Error).message}`,
+          data: { promptName, serverName: route.serverName }
+        }
+      };
+    }
+  }
+
+  private removePromptRoutes(serverName: string): void {
+    for (const [promptName, route] of Array.from(this.promptRoutes)) {
+      if (route.serverName === serverName) {
+        this.promptRoutes.delete(promptName);
+      }
+    }
+  }
+
+  private withTimeout<T>(promise: Promise<T>, timeout: number): Promise<T> {
+    let timeoutId: NodeJS.Timeout;
+    return Promise.race([
+      promise,
+      new Promise<never>((_, reject) => {
+        timeoutId = setTimeout(() => reject(new Error('Timeout')), timeout);
+      })
+    ]).finally(() => clearTimeout(timeoutId));
   }
 
   async connectAll(options?: { 
@@ -398,15 +1581,16 @@ export class ToolRouter extends EventEmitter {
   }): Promise<void> {
     const { timeout = 8000, maxConcurrent = 3 } = options || {};
     
+    // Lazy and on-demand servers with known tools wait for their first call
     const adaptersToConnect = Array.from(this.adapters.values())
-      .filter(adapter => !adapter.isConnected);
+      .filter(adapter => !adapter.isConnected && !this.isStandby(adapter.name));
 
     if (adaptersToConnect.length === 0) {
-      console.error("[ROUTER] No adapters to connect.");
+      log.info("No adapters to connect.");
       return;
     }
 
-    console.error(`[ROUTER] Starting parallel connection of ${adaptersToConnect.length} adapters (timeout: ${timeout}ms, max concurrent: ${maxConcurrent})`);
+    log.info(`Starting parallel connection of ${adaptersToConnect.length} adapters (timeout: ${timeout}ms, max concurrent: ${maxConcurrent})`);
 
     // Batch parallel connection, limit concurrency
     const batches: any[][] = [];
@@ -424,11 +1608,11 @@ export class ToolRouter extends EventEmitter {
           // Add timeout control for each connection
           await this.connectWithTimeout(adapter, timeout);
           const duration = Date.now() - startTime;
-          console.error(`[ROUTER] ✅ ${adapter.name} connection successful (${duration}ms)`);
+          log.info(`${adapter.name} connection successful (${duration}ms)`);
           connectedCount++;
         } catch (error) {
           const duration = Date.now() - startTime;
-          console.error(`[ROUTER] ❌ ${adapter.name} connection failed (${duration}ms):`, (error as Error).message);
+          log.error(`${adapter.name} connection failed (${duration}ms):`, (error as Error).message);
           failedCount++;
         }
       });
@@ -436,7 +1620,7 @@ export class ToolRouter extends EventEmitter {
       await Promise.allSettled(batchPromises);
     }
 
-    console.error(`[ROUTER] Connection completed: ${connectedCount} successful, ${failedCount} failed`);
+    log.info(`Connection completed: ${connectedCount} successful, ${failedCount} failed`);
   }
 
   private async connectWithTimeout(adapter: any, timeout: number): Promise<void> {
@@ -463,7 +1647,7 @@ export class ToolRouter extends EventEmitter {
         try {
           await adapter.disconnect();
         } catch (error) {
-          console.error(`Failed to disconnect ${adapter.name}:`, error);
+          log.error(`Failed to disconnect ${adapter.name}:`, error);
         }
       });
 
@@ -476,15 +1660,27 @@ export class ToolRouter extends EventEmitter {
     totalTools: number;
     toolsByServer: Record<string, number>;
     toolConflicts: string[];
+    aliasConflicts: ToolAliasConflict[];
+    hiddenTools: string[];
+    queues: Record<string, RequestQueueStats>;
+    replicaGroups: Record<string, {
+      policy: NonNullable<ReplicaGroupConfig['policy']>;
+      members: Array<{ serverName: string; connected: boolean; circuit?: CircuitState; averageLatencyMs?: number }>;
+    }>;
   } {
     const connectedAdapters = this.getConnectedAdapters();
     const toolsByServer: Record<string, number> = {};
+    const queues: Record<string, RequestQueueStats> = {};
     const toolNames = new Set<string>();
     const toolConflicts: string[] = [];
 
     for (const adapter of this.adapters.values()) {
       const tools = this.toolsByServer.get(adapter.name) || [];
       toolsByServer[adapter.name] = tools.length;
+      const queueStats = adapter.getQueueStats?.();
+      if (queueStats) {
+        queues[adapter.name] = queueStats;
+      }
 
       for (const tool of tools) {
         if (toolNames.has(tool.name)) {
@@ -500,10 +1696,39 @@ export class ToolRouter extends EventEmitter {
       connectedAdapters: connectedAdapters.length,
       totalTools: this.toolRoutes.size,
       toolsByServer,
-      toolConflicts: Array.from(new Set(toolConflicts))
+      toolConflicts: Array.from(new Set(toolConflicts)),
+      aliasConflicts: this.aliasConflicts,
+      hiddenTools: this.hiddenTools,
+      queues,
+      replicaGroups: Object.fromEntries(Object.entries(this.getReplicaGroups()).map(([name, group]) => [name, {
+        policy: group.policy || 'priority',
+        members: group.servers.map(serverName => {
+          const adapter = this.adapters.get(serverName);
+          const latency = this.serverLatency.get(serverName);
+          return {
+            serverName,
+            connected: !!adapter?.isConnected,
+            ...(adapter?.getCircuitStats && { circuit: adapter.getCircuitStats().state }),
+            ...(latency !== undefined && { averageLatencyMs: Math.round(latency) })
+          };
+        })
+      }]))
     };
   }
 
+  getCacheStats(): ResultCacheStats {
+    return this.resultCache.getStats();
+  }
+
+  /**
+   * Drop cached results for a server (optionally one upstream tool), or all of them
+   */
+  purgeCache(serverName?: string, toolName?: string): number {
+    const removed = this.resultCache.purge(serverName, toolName);
+    log.info(`Purged ${removed} cached results${serverName ? ` for ${serverName}${toolName ? `/${toolName}` : ''}` : ''}`);
+    return removed;
+  }
+
   // Tool search and filtering
   searchTools(query: string): MCPTool[] {
     const allTools = Array.from(this.toolsByServer.values()).flat();
@@ -528,12 +1753,12 @@ export class ToolRouter extends EventEmitter {
   async forceReconnectServer(serverName: string): Promise<boolean> {
     const adapter = this.adapters.get(serverName);
     if (!adapter) {
-      console.error(`Server ${serverName} not found`);
+      log.info(`Server ${serverName} not found`);
       return false;
     }
 
     try {
-      console.error(`🔄 Force reconnecting server: ${serverName}`);
+      log.info(`Force reconnecting server: ${serverName}`);
       
       // If adapter supports force reconnect, use dedicated method
       if ('forceReconnect' in adapter && typeof adapter.forceReconnect === 'function') {
@@ -546,11 +1771,11 @@ export class ToolRouter extends EventEmitter {
         await adapter.connect();
       }
 
-      console.error(`✅ ${serverName} reconnected successfully`);
+      log.info(`${serverName} reconnected successfully`);
       return true;
 
     } catch (error) {
-      console.error(`❌ Failed to reconnect ${serverName}:`, (error as Error).message);
+      log.error(`Failed to reconnect ${serverName}:`, (error as Error).message);
       return false;
     }
   }
@@ -591,7 +1816,7 @@ export class ToolRouter extends EventEmitter {
     
     for (const [serverName, healthInfo] of Object.entries(health)) {
       if (healthInfo.status === 'failed') {
-        console.error(`🩹 Auto-healing failed server: ${serverName}`);
+        log.info(`Auto-healing failed server: ${serverName}`);
         await this.forceReconnectServer(serverName);
       }
     }
@@ -614,13 +1839,13 @@ export class ToolRouter extends EventEmitter {
   clearServerBlacklist(serverName: string): boolean {
     const adapter = this.adapters.get(serverName);
     if (!adapter) {
-      console.error(`Server ${serverName} not found`);
+      log.info(`Server ${serverName} not found`);
       return false;
     }
 
     if ('clearBlacklist' in adapter && typeof adapter.clearBlacklist === 'function') {
       (adapter as any).clearBlacklist();
-      console.error(`🟢 Cleared blacklist for ${serverName}`);
+      log.info(`Cleared blacklist for ${serverName}`);
       return true;
     }
 
@@ -629,7 +1854,7 @@ export class ToolRouter extends EventEmitter {
 
   // Clear all server blacklists
   clearAllBlacklists(): void {
-    console.error('🟢 Clearing all server blacklists...');
+    log.info('Clearing all server blacklists...');
     
     for (const [name, adapter] of this.adapters) {
       if ('clearBlacklist' in adapter && typeof adapter.clearBlacklist === 'function') {
@@ -643,6 +1868,11 @@ export class ToolRouter extends EventEmitter {
     return this.getConnectedAdapters().length;
   }
 
+  // Get number of servers whose tools are published, standby ones included (for MCPDogServer)
+  getReadyServerCount(): number {
+    return this.getPublishingAdapters().length;
+  }
+
   // Get total number of servers (for MCPDogServer)
   getTotalServerCount(): number {
     return this.adapters.size;
@@ -660,7 +1890,7 @@ export class ToolRouter extends EventEmitter {
   }
 
   async updateServerTools(serverName: string): Promise<void> {
-    console.log(`[ROUTER] Updating tools for server: ${serverName}`);
+    log.info(`Updating tools for server: ${serverName}`);
     await this.refreshToolRoutes(serverName);
   }
 }
\ No newline at end of file
@@ -2,30 +2,58 @@ import { createServer, IncomingMessage, ServerResponse } from 'http';
 import { EventEmitter } from 'events';
 import { randomUUID } from 'crypto';
 import { MCPDogServer } from './core/mcpdog-server.js';
-import { MCPMessage, MCPNotification, MCPNotificationRequest, MCPResponse, MCPRequest } from './types/index.js';
+import { ClientSession, MCPMessage, MCPNotification, MCPNotificationRequest, MCPResponse, MCPRequest } from './types/index.js';
 import { ConfigManager } from './config/config-manager.js';
 import { createAuthMiddleware } from './middleware/auth.js';
+import { ProtocolVersion } from './utils/protocol-version.js';
+import { MCPDOG_VERSION } from './utils/package-info.js';
+import { globalLogger } from './logging/logger.js';
+
+const log = globalLogger.child('http');
+
+const STANDALONE_STREAM_ID = 'standalone';
+
+interface SSEStream {
+  id: string;                      // STANDALONE_STREAM_ID for the GET stream, `request-<id>` for a POST response stream
+  res?: ServerResponse;            // Attached HTTP response; absent while the client is disconnected
+  progressToken?: string | number; // Progress for this token belongs on this stream
+  started: boolean;                // SSE headers written (POST responses switch to SSE lazily)
+}
+
+interface BufferedEvent {
+  seq: number;                     // Sent as the SSE event id
+  streamId: string;
+  message: MCPResponse | MCPNotification | MCPRequest;
+}
+
+interface HttpSession {
+  id: string;
+  clientAddress: string;
+  mcpSession: ClientSession;       // Shared session state (activity, client info, capabilities)
+  streams: Map<string, SSEStream>;
+  events: BufferedEvent[];         // Replay buffer for Last-Event-ID resumption
+  nextEventSeq: number;
+}
 
 export class StreamableHttpMCPServer extends EventEmitter {
   private server: MCPDogServer;
+  private ownsServer: boolean;     // False when embedded in a process (the daemon) that owns the MCPDogServer
   private httpServer: any;
   private port: number;
   private authToken?: string;
   private authMiddleware?: (req: IncomingMessage, res: ServerResponse, next: () => void) => void;
-  private sessions: Map<string, {
-    id: string;
-    clientId: string;
-    created: Date;
-    lastActivity: Date;
-  }> = new Map();
+  private sessions: Map<string, HttpSession> = new Map();
   private sessionTimeout: number = 30 * 60 * 1000; // 30 minutes
+  private replayBufferSize: number = 100; // Events kept per session for resumption
 
-  constructor(configManager: ConfigManager, port: number = 4000, authToken?: string) {
+  // Pass server to serve HTTP clients from an existing MCPDogServer, sharing its sessions, audit log and metrics
+  constructor(configManager: ConfigManager, port: number = 4000, authToken?: string, server?: MCPDogServer) {
     super();
-    console.error(`[HTTP] Creating StreamableHttpMCPServer instance on port ${port}${authToken ? ' with authentication' : ''}`);
+    log.info(`Creating StreamableHttpMCPServer instance on port ${port}${authToken ? ' with authentication' : ''}`);
     this.port = port;
     this.authToken = authToken;
-    this.server = new MCPDogServer(configManager);
+    this.ownsServer = !server;
+    this.server = server || new MCPDogServer(configManager);
     
     // Setup auth middleware if token is provided
     if (this.authToken) {
@@ -37,21 +65,33 @@ export class StreamableHttpMCPServer extends EventEmitter {
   }
 
   private setupServer(): void {
-    this.server.on('notification', (notification: MCPNotification) => {
-      // HTTP mode doesn't push notifications like stdio, they're request-response based
-      console.error(`[HTTP] Received notification: ${notification.method}`);
+    this.server.on('notification', (notification: MCPNotification, targetClientId?: string) => {
+      this.routeNotification(notification, targetClientId);
+    });
+
+    // Requests relayed from upstream servers (sampling, elicitation, roots)
+    this.server.on('request', (request: MCPRequest, targetClientId: string) => {
+      const session = this.sessions.get(targetClientId);
+      if (session) {
+        this.sendToSession(session, request);
+      }
+    });
+
+    // Sessions closed by the core server (e.g. on shutdown) also end the HTTP session
+    this.server.getSessionManager().on('session-closed', (session: ClientSession) => {
+      this.dropSession(session.id);
     });
 
     this.server.on('error', ({ error, context }) => {
-      console.error(`MCPDog error [${context}]:`, error);
+      log.error(`MCPDog error [${context}]:`, error);
     });
 
     this.server.on('started', () => {
-      console.error('MCPDog Server started (HTTP streamable mode)');
+      log.info('MCPDog Server started (HTTP streamable mode)');
     });
 
     this.server.on('stopped', () => {
-      console.error('MCPDog Server stopped');
+      log.info('MCPDog Server stopped');
     });
   }
 
@@ -62,8 +102,9 @@ export class StreamableHttpMCPServer extends EventEmitter {
     this.httpServer.on('request', (req: IncomingMessage, res: ServerResponse) => {
       // Set CORS headers
       res.setHeader('Access-Control-Allow-Origin', '*');
-      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-session-id');
+      res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, mcp-session-id, mcp-protocol-version, last-event-id, traceparent, tracestate');
+      res.setHeader('Access-Control-Expose-Headers', 'mcp-session-id');
 
       if (req.method === 'OPTIONS') {
         res.writeHead(200);
@@ -82,35 +123,85 @@ export class StreamableHttpMCPServer extends EventEmitter {
     });
 
     this.httpServer.on('error', (error: Error) => {
-      console.error('HTTP server error:', error);
+      log.error('HTTP server error:', error);
     });
 
-    // Handle process signals
-    process.on('SIGINT', () => this.shutdown());
-    process.on('SIGTERM', () => this.shutdown());
-    process.on('uncaughtException', (error) => {
-      console.error('Uncaught exception:', error);
-      this.shutdown();
-    });
+    // Handle process signals, unless the process that owns the MCPDogServer does
+    if (this.ownsServer) {
+      process.on('SIGINT', () => this.shutdown());
+      process.on('SIGTERM', () => this.shutdown());
+      process.on('uncaughtException', (error) => {
+        log.error('Uncaught exception:', error);
+        this.shutdown();
+      });
+    }
   }
 
   private handleAuthenticatedRequest(req: IncomingMessage, res: ServerResponse): void {
     if (req.method === 'POST') {
       this.handleHttpRequest(req, res);
     } else if (req.method === 'GET') {
-      this.handleHealthCheck(req, res);
+      this.handleGetRequest(req, res);
+    } else if (req.method === 'DELETE') {
+      this.handleDeleteRequest(req, res);
     } else {
       res.writeHead(405, { 'Content-Type': 'application/json' });
       res.end(JSON.stringify({ error: 'Method not allowed' }));
     }
   }
 
+  private handleGetRequest(req: IncomingMessage, res: ServerResponse): void {
+    if (req.url?.split('?')[0] === '/metrics') {
+      this.handleMetrics(res);
+      return;
+    }
+
+    // Plain GETs (browsers, load balancers) still get the health check
+    if (!this.acceptsEventStream(req)) {
+      this.handleHealthCheck(req, res);
+      return;
+    }
+
+    const sessionId = req.headers['mcp-session-id'] as string;
+    if (!sessionId) {
+      this.sendErrorResponse(res, 400, 'Missing mcp-session-id header');
+      return;
+    }
+
+    if (!this.validateSession(sessionId)) {
+      this.sendErrorResponse(res, 401, 'Invalid or expired session');
+      return;
+    }
+
+    this.updateSessionActivity(sessionId);
+    this.openEventStream(this.sessions.get(sessionId)!, res, req.headers['last-event-id'] as string | undefined);
+  }
+
+  private async handleDeleteRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'] as string;
+    if (!sessionId || !this.sessions.has(sessionId)) {
+      this.sendErrorResponse(res, 404, 'Session not found');
+      return;
+    }
+
+    log.info(`Client ended session: ${sessionId}`);
+    await this.closeSession(sessionId);
+    res.writeHead(204);
+    res.end();
+  }
+
+  private handleMetrics(res: ServerResponse): void {
+    const metrics = this.server.getMetrics();
+    res.writeHead(200, { 'Content-Type': metrics.getContentType() });
+    res.end(metrics.render());
+  }
+
   private handleHealthCheck(req: IncomingMessage, res: ServerResponse): void {
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({
       status: 'healthy',
       service: 'mcpdog-streamable-http',
-      version: '2.0.15',
+      version: MCPDOG_VERSION,
       timestamp: new Date().toISOString()
     }));
   }
@@ -124,7 +215,7 @@ export class StreamableHttpMCPServer extends EventEmitter {
 
     req.on('end', async () => {
       try {
-        console.error(`[HTTP] Received request: ${body.substring(0, 100)}...`);
+        log.debug(`Received request: ${body.substring(0, 100)}...`);
         
         if (!body.trim()) {
           this.sendErrorResponse(res, 400, 'Empty request body');
@@ -135,11 +226,31 @@ export class StreamableHttpMCPServer extends EventEmitter {
         
         // Extract session ID from headers
         const sessionId = req.headers['mcp-session-id'] as string;
+
+        // Clients on 2025-06-18+ repeat the negotiated version on every request
+        const protocolVersionHeader = req.headers['mcp-protocol-version'] as string | undefined;
+        if (protocolVersionHeader && !ProtocolVersion.isSupported(protocolVersionHeader)) {
+          this.sendErrorResponse(res, 400, `Unsupported MCP-Protocol-Version: ${protocolVersionHeader}`);
+          return;
+        }
+        
+        // Responses to relayed server requests (no method field)
+        if (!('method' in message)) {
+          if (!sessionId || !this.validateSession(sessionId)) {
+            this.sendErrorResponse(res, 401, 'Invalid or expired session');
+            return;
+          }
+
+          this.server.handleClientResponse(message as MCPResponse, sessionId);
+          res.writeHead(202);
+          res.end();
+          return;
+        }
         
         // Check if it's a notification message (no id field)
         if (!('id' in message)) {
           const notification = message as MCPNotificationRequest;
-          console.error(`[HTTP] Handling notification: ${notification.method}`);
+          log.debug(`Handling notification: ${notification.method}`);
           
           // Validate session for non-initialize notifications
           if (sessionId && !this.validateSession(sessionId)) {
@@ -147,33 +258,50 @@ export class StreamableHttpMCPServer extends EventEmitter {
             return;
           }
           
+          await this.server.handleNotification(notification, sessionId);
+          
           // Notifications get 204 No Content response
           res.writeHead(204);
           res.end();
           return;
         }
 
-        // Handle regular requests
-        const request = message as MCPRequest;
+        // Handle regular requests; a traceparent header continues the caller's trace unless _meta already does
+        let request = message as MCPRequest;
+        const traceparent = req.headers['traceparent'];
+        if (typeof traceparent === 'string' && !request.params?._meta?.traceparent) {
+          const tracestate = req.headers['tracestate'];
+          const meta = { ...request.params?._meta, traceparent, ...(typeof tracestate === 'string' && { tracestate }) };
+          request = { ...request, params: { ...request.params, _meta: meta } };
+        }
 
-        console.error(`[HTTP] Processing request: ${request.method} (id: ${request.id})`);
+        log.debug(`Processing request: ${request.method} (id: ${request.id})`);
         
         // Handle initialize request - create new session
         if (request.method === 'initialize') {
-          const response = await this.server.handleRequest(request, 'http-client');
+          // Sessions opened on /mcp/<profile> only see that profile's tools
+          const profile = this.getRequestProfile(req);
+          if (profile && !this.server.getProfile(profile)) {
+            this.sendErrorResponse(res, 404, `Unknown profile: ${profile}`);
+            return;
+          }
+
+          // The session id doubles as the client id, so it must exist before initialize is handled
+          const newSessionId = this.createSession(req.socket?.remoteAddress || 'unknown');
+          if (profile) {
+            this.server.setSessionProfile(newSessionId, profile);
+          }
+          const response = await this.server.handleRequest(request, newSessionId);
           
           if (!response.error) {
-            // Create new session
-            const newSessionId = this.createSession(req.socket?.remoteAddress || 'unknown');
-            console.error(`[HTTP] Created new session: ${newSessionId}`);
+            log.info(`Created new session: ${newSessionId}`);
             
             // Add session ID to response headers
             res.setHeader('mcp-session-id', newSessionId);
-            
-            this.sendMCPResponse(res, response);
           } else {
-            this.sendMCPResponse(res, response);
+            await this.closeSession(newSessionId);
           }
+          this.sendMCPResponse(res, response);
           return;
         }
         
@@ -191,54 +319,186 @@ export class StreamableHttpMCPServer extends EventEmitter {
         // Update session activity
         this.updateSessionActivity(sessionId);
         
+        // Clients that accept SSE get intermediate messages (e.g. progress) on the response stream
+        if (this.acceptsEventStream(req)) {
+          await this.handleStreamableRequest(res, request, this.sessions.get(sessionId)!);
+          return;
+        }
+        
         const response = await this.server.handleRequest(request, sessionId);
-        console.error(`[HTTP] Sending response for: ${request.method} (id: ${request.id})`);
+        log.debug(`Sending response for: ${request.method} (id: ${request.id})`);
         
         this.sendMCPResponse(res, response);
 
       } catch (error) {
-        console.error('[HTTP] Error processing request:', error);
+        log.error('Error processing request:', error);
         this.sendErrorResponse(res, 500, 'Internal server error');
       }
     });
 
     req.on('error', (error) => {
-      console.error('[HTTP] Request error:', error);
+      log.error('Request error:', error);
       this.sendErrorResponse(res, 400, 'Bad request');
     });
   }
 
   private sendMCPResponse(res: ServerResponse, response: MCPResponse): void {
+    if (res.writableEnded) {
+      return; // Client went away before the response was ready
+    }
 
-    const responseBody = JSON.stringify(response);
-    
-    // Check if this could be a streaming response (for future SSE support)
-    const isStreamingRequest = this.shouldUseStreaming(response);
-    
-    if (isStreamingRequest) {
-      // Send as Server-Sent Events for streaming responses
-      res.writeHead(200, {
-        'Content-Type': 'text/event-stream',
-        'Cache-Control': 'no-cache',
-        'Connection': 'keep-alive'
-      });
-      
-      res.write(`event: message\n`);
-      res.write(`data: ${responseBody}\n\n`);
-      res.end();
-    } else {
-      // Send as regular JSON response
-      res.writeHead(200, {
-        'Content-Type': 'application/json'
-      });
-      res.end(responseBody);
+    res.writeHead(200, {
+      'Content-Type': 'application/json'
+    });
+    res.end(JSON.stringify(response));
+  }
+
+  private async handleStreamableRequest(res: ServerResponse, request: MCPRequest, session: HttpSession): Promise<void> {
+    const stream: SSEStream = {
+      id: `request-${request.id}`,
+      res,
+      progressToken: request.params?._meta?.progressToken,
+      started: false
+    };
+    session.streams.set(stream.id, stream);
+    res.on('close', () => {
+      if (stream.res === res) {
+        stream.res = undefined;
+      }
+    });
+
+    try {
+      const response = await this.server.handleRequest(request, session.id);
+      log.debug(`Sending response for: ${request.method} (id: ${request.id})`);
+
+      if (stream.started) {
+        // Intermediate messages already went out as SSE, so the response follows on the same stream
+        this.writeEvent(session, stream, response);
+        stream.res?.end();
+      } else {
+        this.sendMCPResponse(res, response);
+      }
+    } finally {
+      session.streams.delete(stream.id);
+    }
+  }
+
+  private openEventStream(session: HttpSession, res: ServerResponse, lastEventId?: string): void {
+    // Resuming continues the stream the last seen event belonged to
+    const resumedEvent = lastEventId !== undefined
+      ? session.events.find(event => event.seq === Number(lastEventId))
+      : undefined;
+    const streamId = resumedEvent?.streamId || STANDALONE_STREAM_ID;
+
+    this.startEventStream(res);
+
+    if (resumedEvent) {
+      const missed = session.events.filter(event => event.streamId === streamId && event.seq > resumedEvent.seq);
+      log.info(`Resuming stream ${streamId} for session ${session.id}: replaying ${missed.length} event(s)`);
+      for (const event of missed) {
+        this.writeSSE(res, event);
+      }
     }
+
+    let stream = session.streams.get(streamId);
+    if (!stream) {
+      if (streamId !== STANDALONE_STREAM_ID) {
+        // The request already completed; its response was part of the replay
+        res.end();
+        return;
+      }
+      stream = { id: STANDALONE_STREAM_ID, started: true };
+      session.streams.set(stream.id, stream);
+    }
+
+    // Only one connection per stream; a reconnect replaces the previous one
+    if (stream.res && stream.res !== res) {
+      stream.res.end();
+    }
+    stream.res = res;
+    stream.started = true;
+
+    const attachedStream = stream;
+    res.on('close', () => {
+      if (attachedStream.res === res) {
+        attachedStream.res = undefined;
+      }
+    });
+  }
+
+  private routeNotification(notification: MCPNotification, targetClientId?: string): void {
+    if (targetClientId) {
+      const session = this.sessions.get(targetClientId);
+      if (session) {
+        this.sendToSession(session, notification);
+      }
+      return;
+    }
+
+    for (const session of this.sessions.values()) {
+      this.sendToSession(session, notification);
+    }
+  }
+
+  private sendToSession(session: HttpSession, message: MCPNotification | MCPRequest): void {
+    // Progress goes on the stream of the request it belongs to, everything else on the GET stream
+    const requestStreams = Array.from(session.streams.values()).filter(s => s.id !== STANDALONE_STREAM_ID);
+    const progressToken = message.params?.progressToken;
+    let stream: SSEStream | undefined;
+    if (progressToken !== undefined) {
+      stream = requestStreams.find(s => s.progressToken === progressToken);
+    } else if ('id' in message) {
+      // Server requests ride on an in-flight request stream, where the client is certainly listening
+      stream = requestStreams.filter(s => s.res).pop();
+    }
+
+    if (!stream) {
+      stream = session.streams.get(STANDALONE_STREAM_ID);
+      if (!stream) {
+        // Buffer until the client opens its GET stream and resumes
+        stream = { id: STANDALONE_STREAM_ID, started: true };
+        session.streams.set(stream.id, stream);
+      }
+    }
+
+    this.writeEvent(session, stream, message);
   }
 
-  private shouldUseStreaming(response: MCPResponse): boolean {
-    // For now, always use JSON responses
-    // In the future, we could detect streaming scenarios (e.g., tool calls that take time)
-    return false;
+  private writeEvent(session: HttpSession, stream: SSEStream, message: MCPResponse | MCPNotification | MCPRequest): void {
+    const event: BufferedEvent = { seq: session.nextEventSeq++, streamId: stream.id, message };
+    session.events.push(event);
+    if (session.events.length > this.replayBufferSize) {
+      session.events.shift();
+    }
+
+    if (!stream.res || stream.res.writableEnded) {
+      return; // Client is disconnected; the event waits in the replay buffer
+    }
+
+    if (!stream.started) {
+      this.startEventStream(stream.res);
+      stream.started = true;
+    }
+    this.writeSSE(stream.res, event);
+  }
+
+  private startEventStream(res: ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.flushHeaders();
+  }
+
+  private writeSSE(res: ServerResponse, event: BufferedEvent): void {
+    res.write(`id: ${event.seq}\n`);
+    res.write(`event: message\n`);
+    res.write(`data: ${JSON.stringify(event.message)}\n\n`);
+  }
+
+  private acceptsEventStream(req: IncomingMessage): boolean {
+    return (req.headers['accept'] || '').includes('text/event-stream');
   }
 
   private sendErrorResponse(res: ServerResponse, statusCode: number, message: string): void {
@@ -251,15 +511,23 @@ export class StreamableHttpMCPServer extends EventEmitter {
     }));
   }
 
-  private createSession(clientId: string): string {
+  // Profile named by a /mcp/<profile> request path, if any
+  private getRequestProfile(req: IncomingMessage): string | undefined {
+    const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+    const match = pathname.match(/^\/mcp\/([^/]+)\/?$/);
+    return match ? decodeURIComponent(match[1]) : undefined;
+  }
+
+  private createSession(clientAddress: string): string {
     const sessionId = randomUUID();
-    const now = new Date();
     
     this.sessions.set(sessionId, {
       id: sessionId,
-      clientId: clientId,
-      created: now,
-      lastActivity: now
+      clientAddress,
+      mcpSession: this.server.getSessionManager().open(sessionId),
+      streams: new Map(),
+      events: [],
+      nextEventSeq: 1
     });
     
     return sessionId;
@@ -272,9 +540,10 @@ export class StreamableHttpMCPServer extends EventEmitter {
     }
     
     // Check if session has expired
-    const now = new Date();
-    if (now.getTime() - session.lastActivity.getTime() > this.sessionTimeout) {
-      this.sessions.delete(sessionId);
+    if (this.isSessionExpired(session, new Date())) {
+      this.closeSession(sessionId).catch(error => {
+        log.error(`Error closing expired session ${sessionId}:`, error);
+      });
       return false;
     }
     
@@ -282,25 +551,51 @@ export class StreamableHttpMCPServer extends EventEmitter {
   }
   
   private updateSessionActivity(sessionId: string): void {
-    const session = this.sessions.get(sessionId);
-    if (session) {
-      session.lastActivity = new Date();
-    }
+    this.server.getSessionManager().touch(sessionId);
   }
   
+  private isSessionExpired(session: HttpSession, now: Date): boolean {
+    // An open GET stream keeps the session alive even without new requests
+    const hasOpenStream = Array.from(session.streams.values()).some(stream => stream.res && !stream.res.writableEnded);
+    return !hasOpenStream && now.getTime() - session.mcpSession.lastActivity.getTime() > this.sessionTimeout;
+  }
+
   private cleanupExpiredSessions(): void {
     const now = new Date();
     for (const [sessionId, session] of this.sessions) {
-      if (now.getTime() - session.lastActivity.getTime() > this.sessionTimeout) {
-        console.error(`[HTTP] Cleaning up expired session: ${sessionId}`);
-        this.sessions.delete(sessionId);
+      if (this.isSessionExpired(session, now)) {
+        log.info(`Cleaning up expired session: ${sessionId}`);
+        this.closeSession(sessionId).catch(error => {
+          log.error(`Error closing expired session ${sessionId}:`, error);
+        });
       }
     }
   }
 
+  private async closeSession(sessionId: string): Promise<void> {
+    if (!this.dropSession(sessionId)) {
+      return;
+    }
+    await this.server.releaseClient(sessionId);
+  }
+
+  // Forget the transport state of a session and end its open streams
+  private dropSession(sessionId: string): boolean {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+
+    this.sessions.delete(sessionId);
+    for (const stream of session.streams.values()) {
+      stream.res?.end();
+    }
+    return true;
+  }
+
   async start(): Promise<void> {
     try {
-      console.error(`[HTTP] Starting StreamableHttpMCPServer...`);
+      log.info(`Starting StreamableHttpMCPServer...`);
       await this.server.start();
       
       // Start session cleanup timer
@@ -316,45 +611,58 @@ export class StreamableHttpMCPServer extends EventEmitter {
           if (error) {
             reject(error);
           } else {
-            console.error(`[HTTP] StreamableHttpMCPServer started successfully on port ${this.port}`);
-            console.error(`[HTTP] Health check endpoint: http://localhost:${this.port}/`);
-            console.error(`[HTTP] MCP endpoint: POST http://localhost:${this.port}/`);
-            console.error(`[HTTP] Session management enabled with ${this.sessionTimeout / 1000}s timeout`);
+            log.info(`StreamableHttpMCPServer started successfully on port ${this.port}`);
+            log.info(`Health check endpoint: http://localhost:${this.port}/`);
+            log.info(`MCP endpoint: POST http://localhost:${this.port}/`);
+            log.info(`Event stream: GET http://localhost:${this.port}/ (Accept: text/event-stream), end session: DELETE`);
+            for (const profile of Object.keys(this.server.getConfigManager().getConfig().profiles || {})) {
+              log.info(`Profile endpoint: POST http://localhost:${this.port}/mcp/${profile}`);
+            }
+            log.info(`Session management enabled with ${this.sessionTimeout / 1000}s timeout`);
             resolve();
           }
         });
       });
     } catch (error) {
-      console.error('Failed to start HTTP server:', error);
+      log.error('Failed to start HTTP server:', error);
       process.exit(1);
     }
   }
 
+  /**
+   * Close every session and the HTTP listener. The MCPDogServer is stopped only if this instance created it.
+   */
+  async stop(): Promise<void> {
+    // Clean up session cleanup timer
+    if ((this as any).cleanupInterval) {
+      clearInterval((this as any).cleanupInterval);
+    }
+
+    // Closing the sessions also ends their event streams, otherwise the HTTP server never finishes closing
+    await Promise.all([...this.sessions.keys()].map(sessionId => this.closeSession(sessionId)));
+
+    if (this.httpServer) {
+      await new Promise<void>((resolve) => {
+        this.httpServer.close(() => {
+          log.info('HTTP server closed');
+          resolve();
+        });
+      });
+    }
+
+    if (this.ownsServer) {
+      await this.server.stop();
+    }
+  }
+
   private async shutdown(): Promise<void> {
-    console.error('Shutting down StreamableHttpMCPServer...');
+    log.info('Shutting down StreamableHttpMCPServer...');
     
     try {
-      // Clean up session cleanup timer
-      if ((this as any).cleanupInterval) {
-        clearInterval((this as any).cleanupInterval);
-      }
-      
-      // Clear all sessions
-      this.sessions.clear();
-      
-      if (this.httpServer) {
-        await new Promise<void>((resolve) => {
-          this.httpServer.close(() => {
-            console.error('HTTP server closed');
-            resolve();
-          });
-        });
-      }
-      
-      await this.server.stop();
+      await this.stop();
       process.exit(0);
     } catch (error) {
-      console.error('Error during shutdown:', error);
+      log.error('Error during shutdown:', error);
       process.exit(1);
     }
   }
@@ -0,0 +1,87 @@
+/**
+ * Span Exporter
+ * Encodes finished spans as OTLP/JSON and either POSTs them to an OTLP/HTTP collector or appends
+ * them to a local JSONL file (one ExportTraceServiceRequest per line) for offline inspection.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname, resolve } from 'path';
+import { TracingConfig } from '../types/index.js';
+import { MCPDOG_VERSION } from '../utils/package-info.js';
+import type { AttributeValue, Span, SpanKind } from './tracer.js';
+
+// OTLP enum values
+const SPAN_KINDS: Record<SpanKind, number> = { internal: 1, server: 2, client: 3 };
+const STATUS_CODES = { unset: 0, ok: 1, error: 2 };
+
+export class SpanExporter {
+  static readonly DEFAULT_ENDPOINT = 'http://localhost:4318';
+  static readonly DEFAULT_FILE = 'traces/spans.jsonl';
+  static readonly EXPORT_TIMEOUT = 10000;
+
+  static async export(spans: Span[], serviceName: string, config: TracingConfig, baseDir: string): Promise<void> {
+    const payload = SpanExporter.toOtlp(spans, serviceName);
+    if (config.exporter === 'file') {
+      const filePath = resolve(baseDir, config.file || SpanExporter.DEFAULT_FILE);
+      await fs.mkdir(dirname(filePath), { recursive: true });
+      await fs.appendFile(filePath, JSON.stringify(payload) + '\n');
+      return;
+    }
+
+    const endpoint = (config.endpoint || SpanExporter.DEFAULT_ENDPOINT).replace(/\/+$/, '');
+    const url = endpoint.endsWith('/v1/traces') ? endpoint : `${endpoint}/v1/traces`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...config.headers },
+      body: JSON.stringify(payload),
+      signal: AbortSignal.timeout(SpanExporter.EXPORT_TIMEOUT)
+    });
+    if (!response.ok) {
+      throw new Error(`OTLP endpoint ${url} responded ${response.status} ${response.statusText}`);
+    }
+  }
+
+  static toOtlp(spans: Span[], serviceName: string): any {
+    return {
+      resourceSpans: [{
+        resource: {
+          attributes: SpanExporter.toAttributes({ 'service.name': serviceName, 'service.version': MCPDOG_VERSION })
+        },
+        scopeSpans: [{
+          scope: { name: 'mcpdog', version: MCPDOG_VERSION },
+          spans: spans.map(span => ({
+            traceId: span.context.traceId,
+            spanId: span.context.spanId,
+            parentSpanId: span.parentSpanId,
+            traceState: span.context.traceState,
+            name: span.name,
+            kind: SPAN_KINDS[span.kind],
+            startTimeUnixNano: SpanExporter.toNanos(span.startTime),
+            endTimeUnixNano: SpanExporter.toNanos(span.endTime ?? span.startTime),
+            attributes: SpanExporter.toAttributes(span.attributes),
+            events: span.events.map(event => ({
+              name: event.name,
+              timeUnixNano: SpanExporter.toNanos(event.time),
+              attributes: SpanExporter.toAttributes(event.attributes)
+            })),
+            status: { code: STATUS_CODES[span.status.code], message: span.status.message }
+          }))
+        }]
+      }]
+    };
+  }
+
+  private static toAttributes(attributes: Record<string, AttributeValue>): any[] {
+    return Object.entries(attributes).map(([key, value]) => ({
+      key,
+      value: typeof value === 'boolean' ? { boolValue: value }
+        : typeof value === 'number' ? (Number.isInteger(value) ? { intValue: String(value) } : { doubleValue: value })
+        : { stringValue: value }
+    }));
+  }
+
+  // Nanosecond timestamps exceed Number.MAX_SAFE_INTEGER, so OTLP/JSON carries them as strings
+  private static toNanos(ms: number): string {
+    return (BigInt(Math.round(ms)) * 1000000n).toString();
+  }
+}
@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile, readdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { Tracer } from './tracer';
+import { TracingConfig } from '../types';
+
+describe('Tracer', () => {
+  const createTracer = async (config: TracingConfig) => {
+    const dir = await mkdtemp(join(tmpdir(), 'mcpdog-trace-'));
+    const tracer = new Tracer();
+    tracer.configure(dir, () => ({ enabled: true, exporter: 'file', ...config }));
+    const readSpans = async () => {
+      const lines = (await readFile(join(dir, 'traces/spans.jsonl'), 'utf-8')).trim().split('\n');
+      return lines.flatMap(line => JSON.parse(line).resourceSpans[0].scopeSpans[0].spans);
+    };
+    return { dir, tracer, readSpans };
+  };
+  const request = { jsonrpc: '2.0' as const, id: 7, method: 'tools/call', params: { name: 'read_file', arguments: {} } };
+
+  it('should continue a remote trace and propagate context upstream', async () => {
+    const { tracer, readSpans } = await createTracer({});
+    const traceparent = '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-01';
+
+    let forwarded: any;
+    await tracer.trace('tools/call read_file', { kind: 'server', traceparent, traceState: 'vendor=1' }, () =>
+      tracer.traceUpstream('files', 'streamable-http', request, async upstreamRequest => {
+        forwarded = upstreamRequest;
+        return { jsonrpc: '2.0', id: 7, error: { code: -32000, message: 'boom' } };
+      })
+    );
+    await tracer.flush();
+
+    const [client, server] = await readSpans();
+    expect(server).toMatchObject({ traceId: '0af7651916cd43dd8448eb211c80319c', parentSpanId: 'b7ad6b7169203331', kind: 2 });
+    expect(client).toMatchObject({ traceId: server.traceId, parentSpanId: server.spanId, kind: 3, status: { code: 2, message: 'boom' } });
+    expect(client.attributes).toContainEqual({ key: 'rpc.jsonrpc.error_code', value: { intValue: '-32000' } });
+    expect(BigInt(client.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(client.startTimeUnixNano));
+
+    expect(forwarded.params._meta).toEqual({ traceparent: `00-${server.traceId}-${client.spanId}-01`, tracestate: 'vendor=1' });
+    expect(Tracer.headersFor(forwarded)).toEqual({ traceparent: forwarded.params._meta.traceparent, tracestate: 'vendor=1' });
+    expect(request.params).not.toHaveProperty('_meta');
+  });
+
+  it('should propagate but not record unsampled traces', async () => {
+    const { dir, tracer } = await createTracer({});
+    let forwarded: any;
+    await tracer.trace('tools/call', { traceparent: '00-0af7651916cd43dd8448eb211c80319c-b7ad6b7169203331-00' }, async () => {
+      forwarded = tracer.inject(request);
+    });
+    await tracer.flush();
+
+    expect(forwarded.params._meta.traceparent).toMatch(/^00-0af7651916cd43dd8448eb211c80319c-[0-9a-f]{16}-00$/);
+    expect(await readdir(dir)).toEqual([]);
+    expect(Tracer.parseTraceparent('00-00000000000000000000000000000000-b7ad6b7169203331-01')).toBeUndefined();
+  });
+
+  it('should do nothing unless enabled', async () => {
+    const tracer = new Tracer();
+    const traced = await tracer.trace('tools/call', {}, async span => {
+      span.setAttribute('ignored', true);
+      return tracer.inject(request);
+    });
+    expect(traced).toBe(request);
+    expect(tracer.getActiveSpan()).toBeUndefined();
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Tracer
+ * Minimal OpenTelemetry-compatible tracing. Spans nest through AsyncLocalStorage, so a span started
+ * anywhere under a client request becomes part of that request's trace. Context crosses process
+ * boundaries as a W3C traceparent: read from the incoming request's params._meta, written into the
+ * _meta of requests forwarded upstream and, for HTTP transports, sent as headers too.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomBytes } from 'crypto';
+import { MCPRequest, MCPResponse, TracingConfig } from '../types/index.js';
+import { SpanExporter } from './span-exporter.js';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('tracing');
+
+export type SpanKind = 'internal' | 'server' | 'client';
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+export interface SpanContext {
+  traceId: string;        // 32 hex chars
+  spanId: string;         // 16 hex chars
+  sampled: boolean;
+  traceState?: string;    // Passed through untouched
+}
+
+export interface SpanEvent {
+  name: string;
+  time: number;           // Epoch milliseconds
+  attributes: Record<string, AttributeValue>;
+}
+
+export interface TraceOptions {
+  kind?: SpanKind;
+  attributes?: Attributes;
+  traceparent?: string;   // Remote parent; the active span is the parent otherwise
+  traceState?: string;
+  root?: boolean;         // Start a new trace even when a span is active (background work outliving its caller)
+}
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+
+export class Span {
+  readonly startTime = Date.now();
+  endTime?: number;
+  readonly attributes: Record<string, AttributeValue> = {};
+  readonly events: SpanEvent[] = [];
+  status: { code: 'unset' | 'ok' | 'error'; message?: string } = { code: 'unset' };
+
+  // onEnd is only given to sampled spans; the others keep their ids for propagation and record nothing
+  constructor(
+    readonly name: string,
+    readonly kind: SpanKind,
+    readonly context: SpanContext,
+    readonly parentSpanId?: string,
+    private onEnd?: (span: Span) => void
+  ) {}
+
+  get recording(): boolean {
+    return !!this.onEnd && this.endTime === undefined;
+  }
+
+  setAttribute(key: string, value: AttributeValue | undefined): this {
+    if (this.recording && value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  setAttributes(attributes: Attributes = {}): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key, value);
+    }
+    return this;
+  }
+
+  addEvent(name: string, attributes: Attributes = {}): this {
+    if (this.recording) {
+      const defined = Object.entries(attributes).filter(([, value]) => value !== undefined) as [string, AttributeValue][];
+      this.events.push({ name, time: Date.now(), attributes: Object.fromEntries(defined) });
+    }
+    return this;
+  }
+
+  setError(error: unknown): this {
+    const message = error instanceof Error ? error.message : String(error);
+    if (this.recording) {
+      this.status = { code: 'error', message };
+      this.addEvent('exception', { 'exception.message': message, 'exception.type': error instanceof Error ? error.name : undefined });
+    }
+    return this;
+  }
+
+  end(): void {
+    if (!this.recording) {
+      return;
+    }
+    this.endTime = Date.now();
+    this.onEnd!(this);
+  }
+
+  traceparent(): string {
+    return `00-${this.context.traceId}-${this.context.spanId}-${this.context.sampled ? '01' : '00'}`;
+  }
+}
+
+// Handed to callbacks while tracing is off, so call sites never need to check
+const NOOP_SPAN = new Span('noop', 'internal', { traceId: '0'.repeat(32), spanId: '0'.repeat(16), sampled: false });
+
+export class Tracer {
+  static readonly DEFAULT_SERVICE_NAME = 'mcpdog';
+  static readonly MAX_BATCH_SIZE = 256;
+  static readonly MAX_QUEUE_SIZE = 2048;      // Oldest spans are dropped beyond this when the exporter falls behind
+  static readonly FLUSH_INTERVAL = 5000;
+
+  private storage = new AsyncLocalStorage<Span>();
+  private baseDir = process.cwd();
+  private getConfig: () => TracingConfig | undefined = () => undefined;
+  private queue: Span[] = [];
+  private flushTimer?: NodeJS.Timeout;
+  private exporting: Promise<void> = Promise.resolve();
+
+  // baseDir is the config file's directory, which relative tracing.file paths are resolved against
+  configure(baseDir: string, getConfig: () => TracingConfig | undefined): void {
+    this.baseDir = baseDir;
+    this.getConfig = getConfig;
+  }
+
+  isEnabled(): boolean {
+    return this.getConfig()?.enabled === true;
+  }
+
+  getActiveSpan(): Span | undefined {
+    return this.storage.getStore();
+  }
+
+  /**
+   * Run fn inside a new span that becomes the active span for everything fn awaits. The span
+   * records a thrown error and always ends when fn settles.
+   */
+  async trace<T>(name: string, options: TraceOptions, fn: (span: Span) => Promise<T>): Promise<T> {
+    if (!this.isEnabled()) {
+      return fn(NOOP_SPAN);
+    }
+
+    const span = this.startSpan(name, options);
+    return this.storage.run(span, async () => {
+      try {
+        return await fn(span);
+      } catch (error) {
+        span.setError(error);
+        throw error;
+      } finally {
+        span.end();
+      }
+    });
+  }
+
+  startSpan(name: string, options: TraceOptions = {}): Span {
+    const remote = options.traceparent ? Tracer.parseTraceparent(options.traceparent, options.traceState) : undefined;
+    const parent = remote || (options.root ? undefined : this.getActiveSpan()?.context);
+    const sampled = parent ? parent.sampled : Math.random() < (this.getConfig()?.sampleRate ?? 1);
+
+    const context: SpanContext = {
+      traceId: parent?.traceId || randomBytes(16).toString('hex'),
+      spanId: randomBytes(8).toString('hex'),
+      sampled,
+      traceState: parent?.traceState
+    };
+    const span = new Span(name, options.kind || 'internal', context, parent?.spanId, sampled ? ended => this.enqueue(ended) : undefined);
+    return span.setAttributes(options.attributes);
+  }
+
+  /**
+   * Client span around a request forwarded to an upstream server. send receives a copy of the request
+   * whose _meta carries this span's traceparent; JSON-RPC error responses mark the span as failed.
+   */
+  traceUpstream(
+    serverName: string,
+    transport: string,
+    request: MCPRequest,
+    send: (request: MCPRequest, span: Span) => Promise<MCPResponse>
+  ): Promise<MCPResponse> {
+    if (!this.isEnabled()) {
+      return send(request, NOOP_SPAN);
+    }
+
+    const attributes = {
+      'rpc.system': 'jsonrpc',
+      'mcp.method.name': request.method,
+      'mcpdog.server': serverName,
+      'mcpdog.transport': transport,
+      'gen_ai.tool.name': request.method === 'tools/call' ? request.params?.name : undefined
+    };
+    return this.trace(`${request.method} ${serverName}`, { kind: 'client', attributes }, async span => {
+      const response = await send(this.inject(request, span), span);
+      if (response.error) {
+        span.setAttribute('rpc.jsonrpc.error_code', response.error.code);
+        span.setError(response.error.message);
+      }
+      return response;
+    });
+  }
+
+  /**
+   * Copy of the request with the span's context in params._meta (traceparent and tracestate keys)
+   */
+  inject(request: MCPRequest, span: Span | undefined = this.getActiveSpan()): MCPRequest {
+    if (!span || span === NOOP_SPAN) {
+      return request;
+    }
+    const meta: Record<string, any> = { ...request.params?._meta, traceparent: span.traceparent() };
+    if (span.context.traceState) {
+      meta.tracestate = span.context.traceState;
+    }
+    return { ...request, params: { ...request.params, _meta: meta } };
+  }
+
+  /**
+   * W3C trace context headers for a request already passed through inject()
+   */
+  static headersFor(request: MCPRequest): Record<string, string> {
+    const meta = request.params?._meta;
+    const headers: Record<string, string> = {};
+    if (typeof meta?.traceparent === 'string') {
+      headers.traceparent = meta.traceparent;
+      if (typeof meta.tracestate === 'string') {
+        headers.tracestate = meta.tracestate;
+      }
+    }
+    return headers;
+  }
+
+  static parseTraceparent(traceparent: string, traceState?: string): SpanContext | undefined {
+    const match = TRACEPARENT_PATTERN.exec(traceparent.trim().toLowerCase());
+    if (!match || match[1] === 'ff' || /^0+$/.test(match[2]) || /^0+$/.test(match[3])) {
+      return undefined;
+    }
+    return {
+      traceId: match[2],
+      spanId: match[3],
+      sampled: (parseInt(match[4], 16) & 1) === 1,
+      traceState
+    };
+  }
+
+  /**
+   * Export everything ended so far; resolves once the exporter is done with it
+   */
+  flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, Tracer.MAX_BATCH_SIZE);
+      const config = this.getConfig() || {};
+      const serviceName = config.serviceName || Tracer.DEFAULT_SERVICE_NAME;
+      this.exporting = this.exporting
+        .then(() => SpanExporter.export(batch, serviceName, config, this.baseDir))
+        .catch(error => {
+          log.warn(`Failed to export ${batch.length} spans: ${(error as Error).message}`);
+        });
+    }
+    return this.exporting;
+  }
+
+  private enqueue(span: Span): void {
+    this.queue.push(span);
+    if (this.queue.length > Tracer.MAX_QUEUE_SIZE) {
+      this.queue.splice(0, this.queue.length - Tracer.MAX_QUEUE_SIZE);
+    }
+
+    if (this.queue.length >= Tracer.MAX_BATCH_SIZE) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), Tracer.FLUSH_INTERVAL);
+      this.flushTimer.unref();
+    }
+  }
+}
+
+export const globalTracer = new Tracer();
@@ -41,8 +41,63 @@ export interface MCPServerConfig {
       enabled: boolean;
       alias?: string;             // 工具别名
       description?: string;       // 自定义描述
+      transform?: ToolTransform;  // 参数与结果转换规则
+      timeout?: number;           // 调用超时（毫秒），覆盖服务器级 timeout
+      rateLimit?: RateLimitRule;  // 该工具的速率限制（所有客户端共享）
+      cacheTtl?: number;          // 结果缓存时长（毫秒），设置后对相同参数的调用直接返回缓存结果
     }>;
   };
+
+  // 资源级别控制配置（与 toolsConfig 规则相同，按资源 URI 匹配）
+  resourcesConfig?: {
+    mode: 'all' | 'whitelist' | 'blacklist';
+    resourceSettings?: Record<string, {
+      enabled: boolean;
+    }>;
+  };
+  
+  // 提示模板级别控制配置（与 toolsConfig 规则相同，按提示名称匹配）
+  promptsConfig?: {
+    mode: 'all' | 'whitelist' | 'blacklist';
+    promptSettings?: Record<string, {
+      enabled: boolean;
+    }>;
+  };
+  
+  // Sampling 策略：是否允许该服务器通过 MCPDog 请求客户端进行 LLM 采样（默认允许）
+  sampling?: {
+    enabled: boolean;
+    maxTokens?: number;           // 单次采样请求允许的最大 maxTokens
+  };
+  
+  // 工具命名空间策略，覆盖全局 toolNamespacing
+  toolNamespacing?: ToolNamespacing;
+  
+  // 转发 tools/call 前按 inputSchema 校验参数：on（默认，拒绝无效调用）、warn（仅记录日志）、off
+  argumentValidation?: 'on' | 'warn' | 'off';
+  
+  // 该服务器所有工具调用的速率限制（所有客户端共享）
+  rateLimit?: RateLimitRule;
+  
+  // 并发控制：同时发往该服务器的最大请求数（未设置则不限制），超出的请求进入有界队列排队
+  maxConcurrentRequests?: number;
+  maxQueueSize?: number;          // 队列上限（默认 100），队列满时直接拒绝
+  queueTimeout?: number;          // 单个请求最长排队时间（毫秒，默认 30000）
+  
+  // 生命周期（仅 stdio）：eager 随守护进程启动（默认）；lazy 首次调用时启动；on-demand 首次调用时启动并在空闲后停止
+  // lazy / on-demand 服务器在未启动时用缓存的工具清单回答 tools/list
+  lifecycle?: 'eager' | 'lazy' | 'on-demand';
+  idleTimeout?: number;           // on-demand 服务器无调用多久后停止（毫秒，默认 300000）
+  
+  // 熔断器：近期错误率（含慢调用）超过阈值时打开，直接拒绝请求而不是等待超时（默认启用）
+  circuitBreaker?: CircuitBreakerConfig;
+  
+  // 将 stderr 输出作为 notifications/message 转发给客户端（仅 stdio，默认关闭）
+  stderrLogs?: {
+    enabled: boolean;
+    level?: MCPLogLevel;          // 转发时使用的级别；不设置则按内容推断（error / warn 关键字，其余为 info）
+    pattern?: string;             // 只转发匹配该正则的行（不区分大小写）
+  };
   
   // 其他配置
   timeout?: number;
@@ -58,20 +113,156 @@ export interface MCPDogConfig {
     port: number;
     host: string;
   };
-  logging?: {
-    level: 'error' | 'warn' | 'info' | 'debug';
-    file?: string;
+  // MCPDog 自身的诊断日志
+  logging?: LoggingConfig;
+  // 无法确定触发客户端时，上游请求（sampling / elicitation / roots）转发给此客户端（按 clientInfo.name 匹配）
+  defaultClient?: string;
+  // 具名配置档（profile）：不同客户端/端点只看到所选的工具子集
+  profiles?: Record<string, ProfileConfig>;
+  // 工具发布名称的命名空间策略（默认 on-conflict），可被服务器配置覆盖
+  toolNamespacing?: ToolNamespacing;
+  // 组合工具：按顺序调用多个上游工具的虚拟工具（键为发布的工具名）
+  compositeTools?: Record<string, CompositeToolConfig>;
+  // 副本组：同一 MCP 服务器的多个实例，工具只以一个名称发布（键为组名，冲突时用作前缀）
+  replicaGroups?: Record<string, ReplicaGroupConfig>;
+  // 按客户端身份（clientInfo.name）限制工具调用；'*' 为未单独配置的客户端各自适用的默认规则
+  clientRateLimits?: Record<string, RateLimitRule>;
+  // 工具结果缓存（各工具通过 toolSettings.<tool>.cacheTtl 启用）
+  cache?: {
+    maxBytes?: number;            // 缓存占用内存上限（字节，默认 10 MB），超出后按 LRU 淘汰
   };
+  // 工具调用审计日志（JSONL，按大小轮转）
+  audit?: AuditConfig;
+  // OpenTelemetry 链路追踪（OTLP/HTTP JSON 或本地文件）
+  tracing?: TracingConfig;
+}
+
+export interface LoggingConfig {
+  level?: 'error' | 'warn' | 'info' | 'debug'; // 默认 info；客户端可通过 logging/setLevel 临时调整
+  file?: string;                  // 日志文件路径（相对路径基于配置文件目录），不设置则只写 stderr
+  format?: 'text' | 'json';       // 输出格式（默认 text），json 为每行一个对象
+  console?: boolean;              // 设为 false 时不写 stderr（仍写 file）
+  maxFileSize?: number;           // 单个日志文件大小上限（字节，默认 10 MB），超出后轮转
+  maxFiles?: number;              // 保留的轮转文件数（默认 5）
+}
+
+export interface AuditConfig {
+  enabled?: boolean;              // 默认关闭
+  file?: string;                  // 日志文件路径（相对路径基于配置文件目录，默认 audit/tool-calls.jsonl）
+  maxFileSize?: number;           // 单个文件大小上限（字节，默认 10 MB），超出后轮转
+  maxFiles?: number;              // 保留的轮转文件数（默认 5）
+  maxPayloadLength?: number;      // 参数、结果序列化后的长度上限（字符，默认 4096），超出部分截断
+  redact?: {
+    keys?: string[];              // 追加的敏感键名（不区分大小写，忽略 - 和 _），其值记为 [REDACTED]；内置 password、token、apiKey 等
+    arguments?: boolean;          // true 时完全不记录参数
+    results?: boolean;            // true 时完全不记录结果
+  };
+}
+
+export interface TracingConfig {
+  enabled?: boolean;              // 默认关闭
+  exporter?: 'otlp' | 'file';     // 导出方式（默认 otlp）
+  endpoint?: string;              // OTLP/HTTP 地址（默认 http://localhost:4318），span 发送到 {endpoint}/v1/traces
+  headers?: Record<string, string>; // 发送到 OTLP collector 的额外请求头（如认证信息）
+  file?: string;                  // file 导出的文件路径（相对路径基于配置文件目录，默认 traces/spans.jsonl）
+  serviceName?: string;           // service.name 资源属性（默认 mcpdog）
+  sampleRate?: number;            // 根 span 的采样率（0-1，默认 1）；带 traceparent 的请求沿用调用方的采样决定
+}
+
+export interface CircuitBreakerConfig {
+  enabled?: boolean;              // 设为 false 关闭熔断
+  errorRateThreshold?: number;    // 打开熔断的错误率阈值（0-1，默认 0.5）
+  minimumRequests?: number;       // 窗口内至少有这么多请求才计算错误率（默认 5）
+  windowMs?: number;              // 统计窗口（毫秒，默认 60000）
+  slowCallThreshold?: number;     // 超过该耗时（毫秒）的调用按失败计（默认不启用）
+  openDuration?: number;          // 打开状态持续时间（毫秒，默认 30000），之后进入半开状态
+  halfOpenRequests?: number;      // 半开状态下放行的试探请求数（默认 1），全部成功后关闭熔断
+}
+
+export interface ReplicaGroupConfig {
+  servers: string[];                                      // 成员服务器名（priority 策略按此顺序）
+  policy?: 'priority' | 'round-robin' | 'least-latency';  // 选择成员的策略（默认 priority）
+  retries?: number;                                       // 连接级失败后最多改投几个成员（默认其余所有成员）
+}
+
+export interface CompositeToolConfig {
+  description: string;
+  inputSchema?: MCPTool['inputSchema'];   // 默认 { type: 'object' }
+  steps: Array<{
+    id?: string;                          // 供后续步骤以 steps.<id> 引用（也可用步骤序号）
+    tool: string;                         // 发布的上游工具名
+    arguments?: Record<string, any>;      // 支持 {{input.x}}、{{steps.<id>.text}} 等模板
+  }>;
+  result?: 'all' | 'last';                // 返回所有步骤的内容（默认）或仅最后一步的结果
+}
+
+// never：始终使用原名；on-conflict：冲突时加 "服务器名-" 前缀；always：始终加前缀；或自定义模板，如 '{server}__{tool}'
+export type ToolNamespacing = 'never' | 'on-conflict' | 'always' | `${string}{tool}${string}`;
+
+// 单个工具的声明式转换规则（参数在转发前处理，结果在返回客户端前处理）
+export interface ToolTransform {
+  defaults?: Record<string, any>;     // 客户端未提供时注入的参数
+  fixed?: Record<string, any>;        // 始终使用的参数值（覆盖客户端，并从发布的 inputSchema 中移除）
+  rename?: Record<string, string>;    // 客户端参数名 -> 上游参数名
+  hidden?: string[];                  // 从发布的 inputSchema 中移除的参数（上游参数名），客户端传入时丢弃
+  result?: {
+    maxLength?: number;               // 文本内容的最大长度，超出部分截断
+    redact?: string[];                // 正则表达式，匹配的文本替换为 [REDACTED]
+  };
+}
+
+// 速率限制：令牌桶（每分钟请求数，容量为 burst）与每日配额（UTC 零点重置），任一项可单独使用
+export interface RateLimitRule {
+  requestsPerMinute?: number;
+  burst?: number;                     // 令牌桶容量，默认等于 requestsPerMinute
+  dailyQuota?: number;                // 每日最多调用次数
+}
+
+export interface ProfileConfig {
+  description?: string;
+  servers?: string[];                 // 包含这些服务器的全部工具
+  tools?: string[];                   // 额外包含的工具（发布名）
+  aliases?: Record<string, string>;   // 发布名 -> 此配置档中对客户端显示的名称
 }
 
 export interface MCPTool {
   name: string;
+  title?: string;                       // 2025-06-18+
   description: string;
   inputSchema: {
     type: string;
     properties?: Record<string, any>;
     required?: string[];
   };
+  outputSchema?: Record<string, any>;   // 2025-06-18+，结构化输出
+  annotations?: Record<string, any>;    // 2025-03-26+，工具行为提示
+}
+
+export interface MCPResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+  size?: number;
+}
+
+export interface MCPResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+export interface MCPPrompt {
+  name: string;
+  description?: string;
+  arguments?: MCPPromptArgument[];
 }
 
 export interface MCPRequest {
@@ -106,6 +297,52 @@ export interface MCPNotification {
   params?: any;
 }
 
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborting cancels the pending upstream request
+  timeout?: number;     // Overrides config.timeout (ms) for this request
+  timedOut?: boolean;   // Set by the caller when it aborts signal because the timeout passed
+}
+
+export interface RequestQueueStats {
+  maxConcurrentRequests: number | null; // null when the server has no limit
+  maxQueueSize: number;
+  active: number;        // Requests currently in flight upstream
+  queued: number;        // Requests waiting for a slot
+  oldestWaitMs: number;  // How long the head of the queue has been waiting
+  averageWaitMs: number; // Over all requests dispatched so far
+  maxWaitMs: number;
+  rejected: number;      // Turned away because the queue was full
+  timedOut: number;      // Gave up after queueTimeout
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitTransition {
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+  timestamp: string;
+}
+
+export interface CircuitBreakerStats {
+  enabled: boolean;
+  state: CircuitState;
+  requests: number;      // Requests recorded in the current window
+  failures: number;      // Errors, timeouts and slow calls in the window
+  slowCalls: number;
+  errorRate: number;     // 0-1 over the window
+  rejected: number;      // Failed fast without reaching the server
+  openedAt?: string;     // When the circuit last opened (while not closed)
+  reason?: string;       // Why it opened
+  retryAt?: string;      // When an open circuit lets trial requests through
+  lastError?: string;
+  transitions: CircuitTransition[]; // Most recent first
+}
+
+export interface ToolCallOptions extends RequestOptions {
+  progressToken?: string | number; // Attached upstream as _meta.progressToken
+}
+
 export interface ServerAdapter extends EventEmitter {
   name: string;
   config: MCPServerConfig;
@@ -114,8 +351,27 @@ export interface ServerAdapter extends EventEmitter {
   connect(): Promise<void>;
   disconnect(): Promise<void>;
   getTools(): Promise<MCPTool[]>;
-  callTool(name: string, args: any): Promise<MCPResponse>;
-  sendRequest(request: MCPRequest): Promise<MCPResponse>;
+  callTool(name: string, args: any, options?: ToolCallOptions): Promise<MCPResponse>;
+  sendRequest(request: MCPRequest, options?: RequestOptions): Promise<MCPResponse>;
+  sendResponse?(response: MCPResponse): Promise<void>; // Answer a request initiated by the upstream server
+  protocolVersion?: string; // Negotiated with the upstream server during initialize
+  getQueueStats?(): RequestQueueStats; // Concurrency limit and queue state (see maxConcurrentRequests)
+  getCircuitStats?(): CircuitBreakerStats; // Breaker state; emits 'circuit-state-changed' on transitions
+  getStatus?(): { pendingRequests: number }; // Requests sent upstream and still awaiting an answer
+
+  // Resource support (only available when the upstream advertises the resources capability)
+  getResources?(): Promise<MCPResource[]>;
+  getResourceTemplates?(): Promise<MCPResourceTemplate[]>;
+  readResource?(uri: string): Promise<MCPResponse>;
+  subscribeResource?(uri: string): Promise<MCPResponse>;
+  unsubscribeResource?(uri: string): Promise<MCPResponse>;
+
+  // Prompt support (only available when the upstream advertises the prompts capability)
+  getPrompts?(): Promise<MCPPrompt[]>;
+  getPrompt?(name: string, args?: Record<string, string>): Promise<MCPResponse>;
+
+  // Logging support (only sent when the upstream advertises the logging capability)
+  setLogLevel?(level: MCPLogLevel): Promise<void>;
 }
 
 export interface ClientCapabilities {
@@ -124,6 +380,24 @@ export interface ClientCapabilities {
   clientVersion: string;
 }
 
+// MCP 日志级别（logging/setLevel）
+export type MCPLogLevel = 'debug' | 'info' | 'notice' | 'warning' | 'error' | 'critical' | 'alert' | 'emergency';
+
+// 每个客户端的会话状态
+export interface ClientSession {
+  id: string;                          // 客户端 ID（daemon 连接 ID、HTTP 会话 ID 或 stdio-client）
+  initialized: boolean;
+  protocolVersion?: string;
+  clientInfo?: { name: string; version: string };
+  capabilities: Record<string, any>;   // 客户端声明的能力
+  supportsNotifications: boolean;
+  logLevel?: MCPLogLevel;
+  profile?: string;                    // 客户端选择的配置档，未设置时可见全部工具
+  subscriptions: Set<string>;          // 已订阅的资源 URI
+  createdAt: Date;
+  lastActivity: Date;
+}
+
 // 事件类型
 export type MCPDogEvents = {
   'server-connected': { serverName: string };
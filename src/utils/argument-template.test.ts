@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { ArgumentTemplate } from './argument-template';
+
+describe('ArgumentTemplate', () => {
+  const scope = {
+    input: { url: 'https://example.com', depth: 2 },
+    steps: {
+      0: { content: [{ type: 'text', text: 'first' }, { type: 'text', text: 'second' }] },
+      page: { content: [{ type: 'text', text: 'page body' }], structuredContent: { title: 'Example' } }
+    }
+  };
+
+  it('should keep the type of whole-string placeholders', () => {
+    expect(ArgumentTemplate.render({ url: '{{input.url}}', depth: '{{ input.depth }}' }, scope))
+      .toEqual({ url: 'https://example.com', depth: 2 });
+  });
+
+  it('should resolve step results by index or id, including their text', () => {
+    expect(ArgumentTemplate.render({
+      text: '{{steps.0.text}}',
+      summary: 'Title: {{steps.page.structuredContent.title}} ({{steps.page.text}})',
+      missing: '{{steps.9.text}}'
+    }, scope)).toEqual({
+      text: 'first\nsecond',
+      summary: 'Title: Example (page body)',
+      missing: undefined
+    });
+  });
+});
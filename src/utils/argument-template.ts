@@ -0,0 +1,67 @@
+/**
+ * Argument Templates
+ * Renders composite tool step arguments that reference the composite's input and earlier step results,
+ * e.g. "{{input.url}}" or "{{steps.snapshot.text}}"
+ */
+
+// Matches a whole-string placeholder, whose value keeps its JSON type
+const WHOLE_PLACEHOLDER = /^\{\{\s*([^{}]+?)\s*\}\}$/;
+// Matches placeholders embedded in a longer string, which are stringified
+const EMBEDDED_PLACEHOLDER = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export interface TemplateScope {
+  input: Record<string, any>;
+  steps: Record<string, any>; // Step results keyed by index and by step id
+}
+
+export class ArgumentTemplate {
+  static render(template: any, scope: TemplateScope): any {
+    if (typeof template === 'string') {
+      const whole = template.match(WHOLE_PLACEHOLDER);
+      if (whole) {
+        return this.resolve(whole[1], scope);
+      }
+      return template.replace(EMBEDDED_PLACEHOLDER, (_, expression: string) => {
+        const value = this.resolve(expression, scope);
+        if (value === undefined || value === null) return '';
+        return typeof value === 'string' ? value : JSON.stringify(value);
+      });
+    }
+
+    if (Array.isArray(template)) {
+      return template.map(item => this.render(item, scope));
+    }
+
+    if (template !== null && typeof template === 'object') {
+      return Object.fromEntries(Object.entries(template).map(([key, value]) => [key, this.render(value, scope)]));
+    }
+
+    return template;
+  }
+
+  /**
+   * Resolve a dotted path such as "steps.0.content.0.text". Step results also expose
+   * "text", the concatenated text content of the result.
+   */
+  static resolve(expression: string, scope: TemplateScope): any {
+    const [root, ...path] = expression.split('.');
+    let value: any = root === 'input' || root === 'steps' ? scope[root] : undefined;
+
+    for (let i = 0; i < path.length && value !== undefined && value !== null; i++) {
+      const key = path[i];
+      if (root === 'steps' && i === 1 && key === 'text' && value.text === undefined) {
+        value = this.textOf(value);
+      } else {
+        value = value[key];
+      }
+    }
+    return value;
+  }
+
+  static textOf(result: any): string {
+    return (result?.content || [])
+      .filter((item: any) => item?.type === 'text')
+      .map((item: any) => item.text)
+      .join('\n');
+  }
+}
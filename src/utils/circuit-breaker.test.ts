@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  const breakerFor = (circuitBreaker: Record<string, any>, onTransition?: (transition: any) => void) =>
+    new CircuitBreaker('search', () => ({
+      name: 'search', enabled: true, transport: 'streamable-http', circuitBreaker
+    }), onTransition);
+  const fail = () => Promise.reject(new Error('ECONNREFUSED'));
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should open once the error rate crosses the threshold and fail fast', async () => {
+    const transitions: any[] = [];
+    const breaker = breakerFor({ minimumRequests: 4, errorRateThreshold: 0.5 }, t => transitions.push(t));
+
+    await breaker.run(async () => 'ok');
+    await breaker.run(async () => 'ok');
+    await expect(breaker.run(fail)).rejects.toThrow('ECONNREFUSED');
+    expect(breaker.getStats().state).toBe('closed');
+    await expect(breaker.run(fail)).rejects.toThrow('ECONNREFUSED');
+
+    const task = vi.fn(async () => 'ok');
+    await expect(breaker.run(task)).rejects.toThrow(
+      /^Circuit open for search: 2\/4 recent requests failed, error rate 50% >= 50%; failing fast, retry in 30s$/
+    );
+    expect(task).not.toHaveBeenCalled();
+    expect(transitions).toMatchObject([{ from: 'closed', to: 'open' }]);
+    expect(breaker.getStats()).toMatchObject({ state: 'open', failures: 2, rejected: 1, lastError: 'ECONNREFUSED' });
+  });
+
+  it('should count slow calls as failures but ignore client cancellations', async () => {
+    vi.useFakeTimers();
+    const breaker = breakerFor({ minimumRequests: 2, slowCallThreshold: 100 });
+
+    const slow = breaker.run(() => new Promise(resolve => setTimeout(() => resolve('late'), 150)));
+    await vi.advanceTimersByTimeAsync(150);
+    expect(await slow).toBe('late');
+
+    const controller = new AbortController();
+    controller.abort('Cancelled by client');
+    await expect(breaker.run(fail, { signal: controller.signal, timeout: 30000 })).rejects.toThrow();
+
+    expect(breaker.getStats()).toMatchObject({ state: 'closed', requests: 1, failures: 1, slowCalls: 1 });
+  });
+
+  it('should let a trial request through after openDuration and close on success', async () => {
+    vi.useFakeTimers();
+    const transitions: any[] = [];
+    const breaker = breakerFor({ minimumRequests: 1, openDuration: 1000 }, t => transitions.push(t));
+
+    await expect(breaker.run(fail)).rejects.toThrow('ECONNREFUSED');
+    vi.advanceTimersByTime(1000);
+
+    const trial = breaker.run(() => new Promise(resolve => setTimeout(() => resolve('ok'), 10)));
+    expect(breaker.getStats().state).toBe('half-open');
+    await expect(breaker.run(async () => 'other')).rejects.toThrow('Circuit half-open for search: waiting on trial request');
+
+    await vi.advanceTimersByTimeAsync(10);
+    expect(await trial).toBe('ok');
+    expect(transitions.map(t => t.to)).toEqual(['open', 'half-open', 'closed']);
+    expect(breaker.getStats()).toMatchObject({ state: 'closed', requests: 0 });
+  });
+
+  it('should pass everything through when disabled', async () => {
+    const breaker = breakerFor({ enabled: false, minimumRequests: 1 });
+    await expect(breaker.run(fail)).rejects.toThrow('ECONNREFUSED');
+    expect(await breaker.run(async () => 'ok')).toBe('ok');
+    expect(breaker.getStats()).toMatchObject({ enabled: false, state: 'closed' });
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Circuit Breaker
+ * Tracks the outcome of recent requests to one upstream server. When the error rate over the rolling
+ * window crosses errorRateThreshold the circuit opens and requests fail fast instead of waiting out
+ * their timeout; after openDuration a limited number of trial requests decide whether it closes again.
+ */
+
+import { MCPServerConfig, CircuitBreakerStats, CircuitState, CircuitTransition, RequestOptions } from '../types/index.js';
+import { UpstreamError } from './upstream-error.js';
+
+interface Outcome {
+  time: number;
+  failed: boolean;  // Error, timeout, or slower than slowCallThreshold
+  slow: boolean;
+}
+
+export class CircuitBreaker {
+  static readonly DEFAULT_ERROR_RATE_THRESHOLD = 0.5;
+  static readonly DEFAULT_MINIMUM_REQUESTS = 5;
+  static readonly DEFAULT_WINDOW_MS = 60000;
+  static readonly DEFAULT_OPEN_DURATION = 30000;
+  static readonly DEFAULT_HALF_OPEN_REQUESTS = 1;
+  static readonly MAX_TRANSITIONS = 10;
+
+  private state: CircuitState = 'closed';
+  private outcomes: Outcome[] = [];
+  private openedAt = 0;
+  private openReason = '';
+  private lastError?: string;
+  private trialsInFlight = 0;
+  private trialSuccesses = 0;
+  private generation = 0; // Bumped on every transition so late results from an older state are ignored
+  private rejected = 0;
+  private transitions: CircuitTransition[] = [];
+
+  // The config is read on every request so thresholds follow the adapter's current config
+  constructor(
+    private serverName: string,
+    private getConfig: () => MCPServerConfig,
+    private onTransition?: (transition: CircuitTransition) => void
+  ) {}
+
+  /**
+   * Fail fast when the circuit is open. Adapters call this before queueing so rejected
+   * requests never take a queue slot.
+   */
+  check(now: number = Date.now()): void {
+    if (!this.isEnabled()) {
+      return;
+    }
+    this.refreshState(now);
+
+    if (this.state === 'open') {
+      this.rejected++;
+      const retryIn = Math.ceil((this.getRetryAt() - now) / 1000);
+      throw UpstreamError.notDispatched(`Circuit open for ${this.serverName}: ${this.openReason}; failing fast, retry in ${retryIn}s`);
+    }
+    if (this.state === 'half-open' && this.trialsInFlight >= this.getHalfOpenRequests()) {
+      this.rejected++;
+      throw UpstreamError.notDispatched(`Circuit half-open for ${this.serverName}: waiting on trial request${this.trialsInFlight > 1 ? 's' : ''} before accepting more`);
+    }
+  }
+
+  /**
+   * Run a request and record its outcome. An abort counts against the server only when the caller
+   * flagged it as a timeout (options.timedOut); any other abort is a client cancellation.
+   */
+  async run<T>(task: () => Promise<T>, options?: RequestOptions): Promise<T> {
+    if (!this.isEnabled()) {
+      return task();
+    }
+
+    this.check();
+    const generation = this.generation;
+    const trial = this.state === 'half-open';
+    if (trial) {
+      this.trialsInFlight++;
+    }
+
+    const startTime = Date.now();
+    try {
+      const result = await task();
+      this.record(generation, trial, startTime, undefined, options);
+      return result;
+    } catch (error) {
+      this.record(generation, trial, startTime, error as Error, options);
+      throw error;
+    }
+  }
+
+  getStats(now: number = Date.now()): CircuitBreakerStats {
+    const enabled = this.isEnabled();
+    if (enabled) {
+      this.refreshState(now);
+    }
+    const recent = this.getRecentOutcomes(now);
+    const failures = recent.filter(outcome => outcome.failed).length;
+
+    return {
+      enabled,
+      state: this.state,
+      requests: recent.length,
+      failures,
+      slowCalls: recent.filter(outcome => outcome.slow).length,
+      errorRate: recent.length > 0 ? failures / recent.length : 0,
+      rejected: this.rejected,
+      ...(this.state !== 'closed' && { openedAt: new Date(this.openedAt).toISOString(), reason: this.openReason }),
+      ...(this.state === 'open' && { retryAt: new Date(this.getRetryAt()).toISOString() }),
+      ...(this.lastError && { lastError: this.lastError }),
+      transitions: [...this.transitions]
+    };
+  }
+
+  private record(generation: number, trial: boolean, startTime: number, error: Error | undefined, options?: RequestOptions): void {
+    const now = Date.now();
+    const elapsed = now - startTime;
+    if (trial && generation === this.generation) {
+      this.trialsInFlight--;
+    }
+
+    if (error && options?.signal?.aborted && !options.timedOut) {
+      return; // Cancelled by the client, says nothing about the server
+    }
+    if (generation !== this.generation) {
+      return;
+    }
+
+    const config = this.getConfig().circuitBreaker;
+    const slow = !!config?.slowCallThreshold && elapsed > config.slowCallThreshold;
+    const failed = !!error || slow;
+    if (error) {
+      this.lastError = error.message;
+    }
+
+    if (this.state === 'half-open') {
+      if (failed) {
+        const cause = error ? error.message : `took ${elapsed}ms (slowCallThreshold: ${config!.slowCallThreshold}ms)`;
+        this.transition('open', `trial request failed: ${cause}`, now);
+      } else if (++this.trialSuccesses >= this.getHalfOpenRequests()) {
+        this.outcomes = [];
+        this.transition('closed', `${this.trialSuccesses} trial request${this.trialSuccesses > 1 ? 's' : ''} succeeded`, now);
+      }
+      return;
+    }
+
+    this.outcomes.push({ time: now, failed, slow });
+    const recent = this.getRecentOutcomes(now);
+    this.outcomes = recent;
+
+    const minimumRequests = config?.minimumRequests ?? CircuitBreaker.DEFAULT_MINIMUM_REQUESTS;
+    const threshold = config?.errorRateThreshold ?? CircuitBreaker.DEFAULT_ERROR_RATE_THRESHOLD;
+    const failures = recent.filter(outcome => outcome.failed).length;
+    if (recent.length >= minimumRequests && failures / recent.length >= threshold) {
+      const slowCalls = recent.filter(outcome => outcome.slow).length;
+      const rate = Math.round(failures / recent.length * 100);
+      this.transition('open',
+        `${failures}/${recent.length} recent requests failed${slowCalls > 0 ? ` (${slowCalls} slow)` : ''}, error rate ${rate}% >= ${Math.round(threshold * 100)}%`,
+        now);
+    }
+  }
+
+  // An open circuit becomes half-open once openDuration has passed
+  private refreshState(now: number): void {
+    if (this.state === 'open' && now >= this.getRetryAt()) {
+      const openDuration = this.getConfig().circuitBreaker?.openDuration ?? CircuitBreaker.DEFAULT_OPEN_DURATION;
+      this.transition('half-open', `openDuration (${openDuration}ms) elapsed, allowing trial request${this.getHalfOpenRequests() > 1 ? 's' : ''}`, now);
+    }
+  }
+
+  private transition(to: CircuitState, reason: string, now: number): void {
+    const from = this.state;
+    this.state = to;
+    this.generation++;
+    this.trialsInFlight = 0;
+    this.trialSuccesses = 0;
+    if (to === 'open') {
+      this.openedAt = now;
+      this.openReason = reason;
+    }
+
+    const transition: CircuitTransition = { from, to, reason, timestamp: new Date(now).toISOString() };
+    this.transitions = [transition, ...this.transitions].slice(0, CircuitBreaker.MAX_TRANSITIONS);
+    this.onTransition?.(transition);
+  }
+
+  private getRecentOutcomes(now: number): Outcome[] {
+    const windowMs = this.getConfig().circuitBreaker?.windowMs ?? CircuitBreaker.DEFAULT_WINDOW_MS;
+    return this.outcomes.filter(outcome => outcome.time > now - windowMs);
+  }
+
+  private getRetryAt(): number {
+    return this.openedAt + (this.getConfig().circuitBreaker?.openDuration ?? CircuitBreaker.DEFAULT_OPEN_DURATION);
+  }
+
+  private getHalfOpenRequests(): number {
+    return this.getConfig().circuitBreaker?.halfOpenRequests ?? CircuitBreaker.DEFAULT_HALF_OPEN_REQUESTS;
+  }
+
+  private isEnabled(): boolean {
+    return this.getConfig().circuitBreaker?.enabled !== false;
+  }
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { IdleTracker } from './idle-tracker';
+
+describe('IdleTracker', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should fire once the last call in flight has been idle for the timeout', () => {
+    const onIdle = vi.fn();
+    const tracker = new IdleTracker(onIdle);
+
+    tracker.begin('files');
+    tracker.begin('files');
+    tracker.end('files', 1000);
+    vi.advanceTimersByTime(5000);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    tracker.end('files', 1000);
+    vi.advanceTimersByTime(999);
+    expect(onIdle).not.toHaveBeenCalled();
+    vi.advanceTimersByTime(1);
+    expect(onIdle).toHaveBeenCalledWith('files');
+  });
+
+  it('should restart the countdown when a new call begins', () => {
+    const onIdle = vi.fn();
+    const tracker = new IdleTracker(onIdle);
+
+    tracker.arm('files', 1000);
+    vi.advanceTimersByTime(800);
+    tracker.begin('files');
+    tracker.end('files', 1000);
+    vi.advanceTimersByTime(800);
+    expect(onIdle).not.toHaveBeenCalled();
+
+    tracker.forget('files');
+    vi.advanceTimersByTime(1000);
+    expect(onIdle).not.toHaveBeenCalled();
+    expect(tracker.getLastActivity('files')).toBeUndefined();
+  });
+});
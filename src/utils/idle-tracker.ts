@@ -0,0 +1,64 @@
+/**
+ * Idle Tracker
+ * Counts calls in flight per server and fires a callback once a server has had none for its idle
+ * timeout. Used to stop on-demand servers that nobody is using.
+ */
+
+export class IdleTracker {
+  private inFlight: Map<string, number> = new Map();
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private lastActivity: Map<string, number> = new Map();
+
+  constructor(private onIdle: (serverName: string) => void) {}
+
+  begin(serverName: string): void {
+    this.cancel(serverName);
+    this.inFlight.set(serverName, (this.inFlight.get(serverName) || 0) + 1);
+    this.lastActivity.set(serverName, Date.now());
+  }
+
+  /**
+   * Finish a call; the idle countdown starts once the last call in flight is done
+   */
+  end(serverName: string, idleTimeout: number): void {
+    const remaining = Math.max(0, (this.inFlight.get(serverName) || 0) - 1);
+    this.inFlight.set(serverName, remaining);
+    this.lastActivity.set(serverName, Date.now());
+    if (remaining === 0) {
+      this.arm(serverName, idleTimeout);
+    }
+  }
+
+  // (Re)start the countdown, e.g. when a server was launched only to learn its tools
+  arm(serverName: string, idleTimeout: number): void {
+    this.cancel(serverName);
+    if (this.inFlight.get(serverName)) {
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      this.timers.delete(serverName);
+      this.onIdle(serverName);
+    }, idleTimeout);
+    timer.unref?.();
+    this.timers.set(serverName, timer);
+  }
+
+  cancel(serverName: string): void {
+    const timer = this.timers.get(serverName);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(serverName);
+    }
+  }
+
+  forget(serverName: string): void {
+    this.cancel(serverName);
+    this.inFlight.delete(serverName);
+    this.lastActivity.delete(serverName);
+  }
+
+  getLastActivity(serverName: string): number | undefined {
+    return this.lastActivity.get(serverName);
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { MetricsRegistry } from './metrics-registry';
+
+describe('MetricsRegistry', () => {
+  it('should render counters and cumulative histogram buckets', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('calls_total', 'Calls');
+    registry.histogram('call_duration_seconds', 'Latency', [0.1, 1]);
+
+    registry.inc('calls_total', { server: 'files', status: 'success' });
+    registry.inc('calls_total', { status: 'success', server: 'files' });
+    registry.observe('call_duration_seconds', { server: 'files' }, 0.05);
+    registry.observe('call_duration_seconds', { server: 'files' }, 0.5);
+    registry.observe('call_duration_seconds', { server: 'files' }, 3);
+
+    expect(registry.render()).toBe([
+      '# HELP calls_total Calls',
+      '# TYPE calls_total counter',
+      'calls_total{server="files",status="success"} 2',
+      '# HELP call_duration_seconds Latency',
+      '# TYPE call_duration_seconds histogram',
+      'call_duration_seconds_bucket{server="files",le="0.1"} 1',
+      'call_duration_seconds_bucket{server="files",le="1"} 2',
+      'call_duration_seconds_bucket{server="files",le="+Inf"} 3',
+      'call_duration_seconds_sum{server="files"} 3.55',
+      'call_duration_seconds_count{server="files"} 3',
+      ''
+    ].join('\n'));
+  });
+
+  it('should refill collected series on every scrape and escape label values', () => {
+    const registry = new MetricsRegistry();
+    registry.gauge('connected', 'Connected');
+    let servers = ['files', 'say "hi"\\now'];
+    registry.addCollector(() => servers.forEach(server => registry.set('connected', { server }, 1)));
+
+    expect(registry.render()).toContain('connected{server="say \\"hi\\"\\\\now"} 1');
+    servers = ['files'];
+    expect(registry.render()).not.toContain('say');
+  });
+
+  it('should reject mismatched metric types', () => {
+    const registry = new MetricsRegistry();
+    registry.gauge('connected', 'Connected');
+    expect(() => registry.inc('connected')).toThrow('Metric connected is a gauge, not a counter');
+    expect(() => registry.observe('missing', {}, 1)).toThrow('Unknown metric: missing');
+  });
+});
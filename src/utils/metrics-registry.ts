@@ -0,0 +1,148 @@
+/**
+ * Metrics Registry
+ * Minimal Prometheus text exposition (format 0.0.4). Counters and histograms are updated as events
+ * happen; gauges, and counters mirrored from stats kept elsewhere, are filled in by collectors that
+ * run on every scrape.
+ */
+
+export type MetricLabels = Record<string, string | number>;
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface Series {
+  labels: MetricLabels;
+  value: number;          // Counters and gauges
+  buckets: number[];      // Histograms: cumulative counts per upper bound
+  sum: number;
+  count: number;
+}
+
+interface Metric {
+  type: MetricType;
+  help: string;
+  collected: boolean;     // Reset before collectors run, so series of removed servers disappear
+  buckets: number[];
+  series: Map<string, Series>;
+}
+
+export class MetricsRegistry {
+  // Seconds; tool calls range from cache hits to long-running crawls
+  static readonly DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+  static readonly CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+  private metrics: Map<string, Metric> = new Map();
+  private collectors: Array<() => void> = [];
+
+  counter(name: string, help: string, options: { collected?: boolean } = {}): void {
+    this.define(name, 'counter', help, !!options.collected);
+  }
+
+  gauge(name: string, help: string): void {
+    this.define(name, 'gauge', help, true);
+  }
+
+  histogram(name: string, help: string, buckets: number[] = MetricsRegistry.DEFAULT_BUCKETS): void {
+    this.define(name, 'histogram', help, false, buckets);
+  }
+
+  addCollector(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  inc(name: string, labels: MetricLabels = {}, value: number = 1): void {
+    this.getSeries(name, 'counter', labels).value += value;
+  }
+
+  set(name: string, labels: MetricLabels, value: number): void {
+    const metric = this.getMetric(name);
+    if (metric.type === 'histogram') {
+      throw new Error(`Metric ${name} is a histogram`);
+    }
+    this.getSeries(name, metric.type, labels).value = value;
+  }
+
+  observe(name: string, labels: MetricLabels, value: number): void {
+    const metric = this.getMetric(name);
+    const series = this.getSeries(name, 'histogram', labels);
+    metric.buckets.forEach((bound, index) => {
+      if (value <= bound) {
+        series.buckets[index]++;
+      }
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  render(): string {
+    for (const metric of this.metrics.values()) {
+      if (metric.collected) {
+        metric.series.clear();
+      }
+    }
+    for (const collector of this.collectors) {
+      collector();
+    }
+
+    const lines: string[] = [];
+    for (const [name, metric] of this.metrics) {
+      lines.push(`# HELP ${name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+      lines.push(`# TYPE ${name} ${metric.type}`);
+      for (const series of metric.series.values()) {
+        if (metric.type !== 'histogram') {
+          lines.push(`${name}${this.formatLabels(series.labels)} ${this.formatValue(series.value)}`);
+          continue;
+        }
+        metric.buckets.forEach((bound, index) => {
+          lines.push(`${name}_bucket${this.formatLabels({ ...series.labels, le: bound })} ${series.buckets[index]}`);
+        });
+        lines.push(`${name}_bucket${this.formatLabels({ ...series.labels, le: '+Inf' })} ${series.count}`);
+        lines.push(`${name}_sum${this.formatLabels(series.labels)} ${this.formatValue(series.sum)}`);
+        lines.push(`${name}_count${this.formatLabels(series.labels)} ${series.count}`);
+      }
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private define(name: string, type: MetricType, help: string, collected: boolean, buckets: number[] = []): void {
+    if (this.metrics.has(name)) {
+      throw new Error(`Metric ${name} is already registered`);
+    }
+    this.metrics.set(name, { type, help, collected, buckets: [...buckets].sort((a, b) => a - b), series: new Map() });
+  }
+
+  private getMetric(name: string): Metric {
+    const metric = this.metrics.get(name);
+    if (!metric) {
+      throw new Error(`Unknown metric: ${name}`);
+    }
+    return metric;
+  }
+
+  private getSeries(name: string, type: MetricType, labels: MetricLabels): Series {
+    const metric = this.getMetric(name);
+    if (metric.type !== type) {
+      throw new Error(`Metric ${name} is a ${metric.type}, not a ${type}`);
+    }
+
+    const key = JSON.stringify(Object.keys(labels).sort().map(label => [label, String(labels[label])]));
+    let series = metric.series.get(key);
+    if (!series) {
+      series = { labels, value: 0, buckets: metric.buckets.map(() => 0), sum: 0, count: 0 };
+      metric.series.set(key, series);
+    }
+    return series;
+  }
+
+  private formatLabels(labels: MetricLabels): string {
+    const pairs = Object.entries(labels).map(([label, value]) =>
+      `${label}="${String(value).replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`
+    );
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  }
+
+  private formatValue(value: number): string {
+    if (value === Infinity) return '+Inf';
+    if (value === -Infinity) return '-Inf';
+    return String(value);
+  }
+}
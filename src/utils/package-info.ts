@@ -0,0 +1,21 @@
+import { readFileSync } from 'fs';
+import { join, dirname } from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+function readPackageVersion(): string {
+  try {
+    // Same relative location from src/utils and dist/utils
+    const packageJson = JSON.parse(readFileSync(join(__dirname, '../../package.json'), 'utf-8'));
+    return packageJson.version;
+  } catch {
+    return '0.0.0';
+  }
+}
+
+/**
+ * MCPDog version, as reported in serverInfo/clientInfo during MCP initialization
+ */
+export const MCPDOG_VERSION = readPackageVersion();
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { ProtocolVersion } from './protocol-version';
+
+describe('ProtocolVersion', () => {
+  it('should accept supported versions and fall back to the latest otherwise', () => {
+    expect(ProtocolVersion.negotiate('2024-11-05')).toBe('2024-11-05');
+    expect(ProtocolVersion.negotiate('2099-01-01')).toBe(ProtocolVersion.LATEST);
+    expect(ProtocolVersion.negotiate(undefined)).toBe(ProtocolVersion.LATEST);
+  });
+
+  it('should strip tool fields unknown to older revisions', () => {
+    const tools = [{
+      name: 'search',
+      title: 'Search',
+      description: 'Search things',
+      inputSchema: { type: 'object' },
+      outputSchema: { type: 'object' },
+      annotations: { readOnlyHint: true }
+    }];
+
+    expect(ProtocolVersion.adaptTools(tools, '2025-06-18')).toBe(tools);
+    expect(ProtocolVersion.adaptTools(tools, '2025-03-26')[0]).toEqual({
+      name: 'search',
+      description: 'Search things',
+      inputSchema: { type: 'object' },
+      annotations: { readOnlyHint: true }
+    });
+    expect(ProtocolVersion.adaptTools(tools, '2024-11-05')[0]).not.toHaveProperty('annotations');
+  });
+
+  it('should move structured output and resource links into content for older clients', () => {
+    const result = {
+      content: [{ type: 'resource_link', uri: 'file:///a.txt', name: 'a.txt' }],
+      structuredContent: { count: 1 }
+    };
+
+    const adapted = ProtocolVersion.adaptToolResult(result, '2024-11-05');
+    expect(adapted).not.toHaveProperty('structuredContent');
+    expect(adapted.content).toEqual([{ type: 'text', text: 'a.txt (file:///a.txt)' }]);
+
+    const structuredOnly = ProtocolVersion.adaptToolResult({ content: [], structuredContent: { count: 1 } }, '2025-03-26');
+    expect(structuredOnly.content).toEqual([{ type: 'text', text: '{"count":1}' }]);
+
+    expect(ProtocolVersion.adaptToolResult(result, '2025-06-18')).toBe(result);
+  });
+});
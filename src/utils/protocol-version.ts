@@ -0,0 +1,122 @@
+/**
+ * MCP Protocol Version Support
+ * Negotiates protocol revisions and translates payloads for clients on older revisions
+ */
+
+export type ProtocolFeature =
+  | 'toolAnnotations'
+  | 'audioContent'
+  | 'structuredOutput'
+  | 'resourceLinks'
+  | 'toolTitles'
+  | 'protocolVersionHeader';
+
+export class ProtocolVersion {
+  static readonly LATEST: string = '2025-06-18';
+
+  // Newest first
+  static readonly SUPPORTED: readonly string[] = [ProtocolVersion.LATEST, '2025-03-26', '2024-11-05'];
+
+  // Revision each feature first appeared in
+  private static readonly FEATURE_VERSIONS: Record<ProtocolFeature, string> = {
+    toolAnnotations: '2025-03-26',
+    audioContent: '2025-03-26',
+    structuredOutput: '2025-06-18',
+    resourceLinks: '2025-06-18',
+    toolTitles: '2025-06-18',
+    protocolVersionHeader: '2025-06-18'
+  };
+
+  /**
+   * Pick the version to answer a client's initialize with: its own if we support it, otherwise our latest
+   */
+  static negotiate(requested?: string): string {
+    if (requested && this.SUPPORTED.includes(requested)) {
+      return requested;
+    }
+    return this.LATEST;
+  }
+
+  static isSupported(version: string): boolean {
+    return this.SUPPORTED.includes(version);
+  }
+
+  /**
+   * Check whether a revision includes a feature (revisions are ISO dates, so they sort as strings)
+   */
+  static supports(version: string | undefined, feature: ProtocolFeature): boolean {
+    return (version || this.LATEST) >= this.FEATURE_VERSIONS[feature];
+  }
+
+  /**
+   * Drop tool fields the client's revision does not know about
+   */
+  static adaptTools<T extends Record<string, any>>(tools: T[], version?: string): T[] {
+    const keepTitles = this.supports(version, 'toolTitles');
+    const keepOutputSchema = this.supports(version, 'structuredOutput');
+    const keepAnnotations = this.supports(version, 'toolAnnotations');
+    if (keepTitles && keepOutputSchema && keepAnnotations) {
+      return tools;
+    }
+
+    return tools.map(tool => {
+      const { title, outputSchema, annotations, ...rest } = tool;
+      return {
+        ...rest,
+        ...(keepTitles && title !== undefined && { title }),
+        ...(keepOutputSchema && outputSchema !== undefined && { outputSchema }),
+        ...(keepAnnotations && annotations !== undefined && { annotations })
+      } as unknown as T;
+    });
+  }
+
+  /**
+   * Rewrite a tools/call result so a client on an older revision can understand it
+   */
+  static adaptToolResult(result: any, version?: string): any {
+    if (!result || typeof result !== 'object') {
+      return result;
+    }
+
+    let adapted = result;
+
+    if (result.structuredContent !== undefined && !this.supports(version, 'structuredOutput')) {
+      // Older clients only read content, so make sure the structured data is still visible there
+      const { structuredContent, ...rest } = result;
+      const hasContent = Array.isArray(rest.content) && rest.content.length > 0;
+      adapted = {
+        ...rest,
+        content: hasContent ? rest.content : [{ type: 'text', text: JSON.stringify(structuredContent) }]
+      };
+    }
+
+    const needsContentRewrite = !this.supports(version, 'resourceLinks') || !this.supports(version, 'audioContent');
+    if (needsContentRewrite && Array.isArray(adapted.content)) {
+      adapted = {
+        ...adapted,
+        content: adapted.content.map((item: any) => this.adaptContent(item, version))
+      };
+    }
+
+    return adapted;
+  }
+
+  private static adaptContent(item: any, version?: string): any {
+    if (item?.type === 'resource_link' && !this.supports(version, 'resourceLinks')) {
+      const label = item.name || item.uri;
+      return {
+        type: 'text',
+        text: item.description ? `${label} (${item.uri}): ${item.description}` : `${label} (${item.uri})`
+      };
+    }
+
+    if (item?.type === 'audio' && !this.supports(version, 'audioContent')) {
+      return {
+        type: 'text',
+        text: `[Audio content (${item.mimeType || 'unknown type'}) omitted: not supported by protocol ${version}]`
+      };
+    }
+
+    return item;
+  }
+}
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { RateLimiter } from './rate-limiter';
+
+describe('RateLimiter', () => {
+  const start = Date.UTC(2025, 0, 1, 12, 0, 0);
+
+  it('should allow bursts up to capacity and refill over time', () => {
+    const limiter = new RateLimiter();
+    const targets = [{ scope: 'tool' as const, key: 'search/web_search', rule: { requestsPerMinute: 60, burst: 2 } }];
+
+    expect(limiter.consume(targets, start)).toBeUndefined();
+    expect(limiter.consume(targets, start)).toBeUndefined();
+    expect(limiter.consume(targets, start)).toEqual({
+      scope: 'tool', key: 'search/web_search', reason: 'rate', limit: 60, retryAfterMs: 1000
+    });
+
+    expect(limiter.consume(targets, start + 1000)).toBeUndefined();
+    expect(limiter.getUsage(start + 1000)[0]).toMatchObject({ tokens: 0, burst: 2, usedToday: 3, rejected: 1 });
+  });
+
+  it('should enforce daily quotas until midnight UTC without charging other targets', () => {
+    const limiter = new RateLimiter();
+    const server = { scope: 'server' as const, key: 'search', rule: { dailyQuota: 1 } };
+    const client = { scope: 'client' as const, key: 'cursor', rule: { requestsPerMinute: 10 } };
+
+    expect(limiter.consume([client, server], start)).toBeUndefined();
+    expect(limiter.consume([client, server], start)).toMatchObject({
+      scope: 'server', reason: 'quota', limit: 1, retryAfterMs: 12 * 60 * 60 * 1000
+    });
+    // The rejected call did not spend the client's token
+    expect(limiter.getUsage(start).find(usage => usage.scope === 'client')).toMatchObject({ tokens: 9, usedToday: 1 });
+
+    expect(limiter.consume([server], Date.UTC(2025, 0, 2, 0, 0, 1))).toBeUndefined();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Rate Limiter
+ * Token buckets (requestsPerMinute / burst) and daily quotas for tool calls, tracked per
+ * client identity, per server and per tool. Quotas reset at midnight UTC.
+ */
+
+import { RateLimitRule } from '../types/index.js';
+
+export type RateLimitScope = 'client' | 'server' | 'tool';
+
+export interface RateLimitTarget {
+  scope: RateLimitScope;
+  key: string;          // Client identity, server name, or "server/tool"
+  rule: RateLimitRule;
+}
+
+export interface RateLimitRejection {
+  scope: RateLimitScope;
+  key: string;
+  reason: 'rate' | 'quota';
+  limit: number;        // requestsPerMinute or dailyQuota, depending on reason
+  retryAfterMs: number;
+}
+
+export interface RateLimitUsage {
+  scope: RateLimitScope;
+  key: string;
+  requestsPerMinute?: number;
+  burst?: number;
+  tokens?: number;      // Calls available right now
+  dailyQuota?: number;
+  usedToday: number;
+  quotaResetsAt: string;
+  rejected: number;
+}
+
+interface BucketState {
+  scope: RateLimitScope;
+  key: string;
+  rule: RateLimitRule;
+  tokens: number;
+  lastRefill: number;
+  day: string;
+  usedToday: number;
+  rejected: number;
+}
+
+export class RateLimiter {
+  private buckets: Map<string, BucketState> = new Map();
+
+  /**
+   * Admit one call against every target. Nothing is consumed unless all targets allow it;
+   * otherwise the rejection with the longest wait is returned.
+   */
+  consume(targets: RateLimitTarget[], now: number = Date.now()): RateLimitRejection | undefined {
+    const states = targets.map(target => this.getState(target, now));
+
+    let rejection: RateLimitRejection | undefined;
+    states.forEach(state => {
+      const current = this.check(state, now);
+      if (current) {
+        state.rejected++;
+        if (!rejection || current.retryAfterMs > rejection.retryAfterMs) {
+          rejection = current;
+        }
+      }
+    });
+    if (rejection) {
+      return rejection;
+    }
+
+    for (const state of states) {
+      if (state.rule.requestsPerMinute) {
+        state.tokens -= 1;
+      }
+      state.usedToday++;
+    }
+    return undefined;
+  }
+
+  getUsage(now: number = Date.now()): RateLimitUsage[] {
+    return Array.from(this.buckets.values()).map(state => {
+      this.refill(state, now);
+      const { requestsPerMinute, dailyQuota } = state.rule;
+      return {
+        scope: state.scope,
+        key: state.key,
+        ...(requestsPerMinute && {
+          requestsPerMinute,
+          burst: this.getCapacity(state.rule),
+          tokens: Math.floor(state.tokens)
+        }),
+        ...(dailyQuota !== undefined && { dailyQuota }),
+        usedToday: state.usedToday,
+        quotaResetsAt: new Date(this.nextUtcMidnight(now)).toISOString(),
+        rejected: state.rejected
+      };
+    });
+  }
+
+  private check(state: BucketState, now: number): RateLimitRejection | undefined {
+    const { requestsPerMinute, dailyQuota } = state.rule;
+
+    if (dailyQuota !== undefined && state.usedToday >= dailyQuota) {
+      return { scope: state.scope, key: state.key, reason: 'quota', limit: dailyQuota, retryAfterMs: this.nextUtcMidnight(now) - now };
+    }
+
+    if (requestsPerMinute && state.tokens < 1) {
+      const msPerToken = 60000 / requestsPerMinute;
+      return { scope: state.scope, key: state.key, reason: 'rate', limit: requestsPerMinute, retryAfterMs: Math.ceil((1 - state.tokens) * msPerToken) };
+    }
+
+    return undefined;
+  }
+
+  private getState(target: RateLimitTarget, now: number): BucketState {
+    const id = `${target.scope}:${target.key}`;
+    let state = this.buckets.get(id);
+    if (!state) {
+      state = {
+        scope: target.scope,
+        key: target.key,
+        rule: target.rule,
+        tokens: this.getCapacity(target.rule),
+        lastRefill: now,
+        day: this.utcDay(now),
+        usedToday: 0,
+        rejected: 0
+      };
+      this.buckets.set(id, state);
+    }
+
+    // Rules follow config reloads; the bucket keeps its current level within the new capacity
+    state.rule = target.rule;
+    this.refill(state, now);
+    return state;
+  }
+
+  private refill(state: BucketState, now: number): void {
+    const capacity = this.getCapacity(state.rule);
+    if (state.rule.requestsPerMinute) {
+      const elapsed = Math.max(0, now - state.lastRefill);
+      state.tokens = Math.min(capacity, state.tokens + elapsed * state.rule.requestsPerMinute / 60000);
+    }
+    state.lastRefill = now;
+
+    const day = this.utcDay(now);
+    if (day !== state.day) {
+      state.day = day;
+      state.usedToday = 0;
+    }
+  }
+
+  private getCapacity(rule: RateLimitRule): number {
+    return rule.burst ?? rule.requestsPerMinute ?? 0;
+  }
+
+  private utcDay(now: number): string {
+    return new Date(now).toISOString().substring(0, 10);
+  }
+
+  private nextUtcMidnight(now: number): number {
+    const date = new Date(now);
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+  }
+}
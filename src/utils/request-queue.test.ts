@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { RequestQueue } from './request-queue';
+
+describe('RequestQueue', () => {
+  const deferred = () => {
+    let resolve!: (value: string) => void;
+    const promise = new Promise<string>(r => { resolve = r; });
+    return { promise, resolve };
+  };
+  const queueFor = (config: Record<string, any>) => new RequestQueue('puppeteer', () => ({
+    name: 'puppeteer', enabled: true, transport: 'stdio', ...config
+  }));
+
+  it('should run at most maxConcurrentRequests at a time and start queued requests in order', async () => {
+    const queue = queueFor({ maxConcurrentRequests: 1 });
+    const first = deferred();
+    const started: string[] = [];
+
+    const a = queue.run(() => { started.push('a'); return first.promise; });
+    const b = queue.run(async () => { started.push('b'); return 'b'; });
+    await Promise.resolve();
+
+    expect(started).toEqual(['a']);
+    expect(queue.getStats()).toMatchObject({ maxConcurrentRequests: 1, active: 1, queued: 1 });
+
+    first.resolve('a');
+    expect(await Promise.all([a, b])).toEqual(['a', 'b']);
+    expect(started).toEqual(['a', 'b']);
+    expect(queue.getStats()).toMatchObject({ active: 0, queued: 0 });
+  });
+
+  it('should reject when the queue is full or the wait exceeds queueTimeout', async () => {
+    const queue = queueFor({ maxConcurrentRequests: 1, maxQueueSize: 1, queueTimeout: 20 });
+    const first = deferred();
+
+    const a = queue.run(() => first.promise);
+    const b = queue.run(async () => 'b');
+    await expect(queue.run(async () => 'c')).rejects.toThrow('Request queue for puppeteer is full (1 waiting, 1/1 in flight)');
+    await expect(b).rejects.toThrow(/^Request to puppeteer waited \d+ms in queue \(queueTimeout: 20ms\)$/);
+    expect(queue.getStats()).toMatchObject({ rejected: 1, timedOut: 1, queued: 0 });
+
+    first.resolve('a');
+    expect(await a).toBe('a');
+  });
+
+  it('should drop queued requests whose signal aborts', async () => {
+    const queue = queueFor({ maxConcurrentRequests: 1 });
+    const first = deferred();
+    const controller = new AbortController();
+
+    const a = queue.run(() => first.promise);
+    const b = queue.run(async () => 'b', controller.signal);
+    controller.abort('Cancelled by client');
+
+    await expect(b).rejects.toThrow('Request cancelled while queued: Cancelled by client');
+    expect(queue.getStats().queued).toBe(0);
+    first.resolve('a');
+    await a;
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Request Queue
+ * Caps the number of requests in flight to one upstream server (maxConcurrentRequests) and parks
+ * the rest in a bounded FIFO queue, so servers that cannot handle parallel calls are fed one at a time
+ */
+
+import { MCPServerConfig, RequestQueueStats } from '../types/index.js';
+import { UpstreamError } from './upstream-error.js';
+
+interface QueuedRequest {
+  enqueuedAt: number;
+  start: () => void;
+  reject: (error: Error) => void;
+  timeoutId: NodeJS.Timeout;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export class RequestQueue {
+  static readonly DEFAULT_MAX_QUEUE_SIZE = 100;
+  static readonly DEFAULT_QUEUE_TIMEOUT = 30000;
+
+  private active = 0;
+  private waiting: QueuedRequest[] = [];
+  private dispatched = 0;
+  private totalWaitMs = 0;
+  private maxWaitMs = 0;
+  private rejected = 0;
+  private timedOut = 0;
+
+  // The config is read on every request so limits follow the adapter's current config
+  constructor(private serverName: string, private getConfig: () => MCPServerConfig) {}
+
+  /**
+   * Run a request once a slot is free. Rejects without running it when the queue is full,
+   * the request waited longer than queueTimeout, or the signal aborted while it was queued.
+   */
+  async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    await this.acquire(signal);
+    try {
+      return await task();
+    } finally {
+      this.release();
+    }
+  }
+
+  getStats(): RequestQueueStats {
+    const config = this.getConfig();
+    const now = Date.now();
+    return {
+      maxConcurrentRequests: config.maxConcurrentRequests ?? null,
+      maxQueueSize: this.getMaxQueueSize(),
+      active: this.active,
+      queued: this.waiting.length,
+      oldestWaitMs: this.waiting.length > 0 ? now - this.waiting[0].enqueuedAt : 0,
+      averageWaitMs: this.dispatched > 0 ? Math.round(this.totalWaitMs / this.dispatched) : 0,
+      maxWaitMs: this.maxWaitMs,
+      rejected: this.rejected,
+      timedOut: this.timedOut
+    };
+  }
+
+  /**
+   * Reject everything still waiting, e.g. when the adapter disconnects
+   */
+  clear(reason: string): void {
+    const waiting = this.waiting;
+    this.waiting = [];
+    for (const entry of waiting) {
+      this.settle(entry);
+      entry.reject(UpstreamError.notDispatched(reason));
+    }
+  }
+
+  private acquire(signal?: AbortSignal): Promise<void> {
+    const limit = this.getConfig().maxConcurrentRequests;
+    if (!limit || limit <= 0 || (this.active < limit && this.waiting.length === 0)) {
+      this.active++;
+      this.recordWait(0);
+      return Promise.resolve();
+    }
+
+    if (signal?.aborted) {
+      return Promise.reject(new Error(`Request cancelled${typeof signal.reason === 'string' ? `: ${signal.reason}` : ''}`));
+    }
+
+    const maxQueueSize = this.getMaxQueueSize();
+    if (this.waiting.length >= maxQueueSize) {
+      this.rejected++;
+      return Promise.reject(UpstreamError.notDispatched(`Request queue for ${this.serverName} is full (${this.waiting.length} waiting, ${this.active}/${limit} in flight)`));
+    }
+
+    const queueTimeout = this.getConfig().queueTimeout || RequestQueue.DEFAULT_QUEUE_TIMEOUT;
+    return new Promise<void>((resolve, reject) => {
+      const entry: QueuedRequest = {
+        enqueuedAt: Date.now(),
+        start: resolve,
+        reject,
+        signal,
+        timeoutId: setTimeout(() => {
+          this.remove(entry);
+          this.timedOut++;
+          reject(UpstreamError.notDispatched(`Request to ${this.serverName} waited ${Date.now() - entry.enqueuedAt}ms in queue (queueTimeout: ${queueTimeout}ms)`));
+        }, queueTimeout)
+      };
+
+      if (signal) {
+        entry.onAbort = () => {
+          this.remove(entry);
+          reject(new Error(`Request cancelled while queued${typeof signal.reason === 'string' ? `: ${signal.reason}` : ''}`));
+        };
+        signal.addEventListener('abort', entry.onAbort, { once: true });
+      }
+
+      this.waiting.push(entry);
+    });
+  }
+
+  private release(): void {
+    this.active--;
+    const limit = this.getConfig().maxConcurrentRequests;
+    while (this.waiting.length > 0 && (!limit || limit <= 0 || this.active < limit)) {
+      const next = this.waiting.shift()!;
+      this.settle(next);
+      this.active++;
+      this.recordWait(Date.now() - next.enqueuedAt);
+      next.start();
+    }
+  }
+
+  private remove(entry: QueuedRequest): void {
+    const index = this.waiting.indexOf(entry);
+    if (index !== -1) {
+      this.waiting.splice(index, 1);
+    }
+    this.settle(entry);
+  }
+
+  private settle(entry: QueuedRequest): void {
+    clearTimeout(entry.timeoutId);
+    if (entry.onAbort) {
+      entry.signal?.removeEventListener('abort', entry.onAbort);
+    }
+  }
+
+  private recordWait(waitMs: number): void {
+    this.dispatched++;
+    this.totalWaitMs += waitMs;
+    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+  }
+
+  private getMaxQueueSize(): number {
+    return this.getConfig().maxQueueSize ?? RequestQueue.DEFAULT_MAX_QUEUE_SIZE;
+  }
+}
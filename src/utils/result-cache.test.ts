@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { ResultCache } from './result-cache';
+
+describe('ResultCache', () => {
+  const result = (text: string) => ({ content: [{ type: 'text', text }] });
+
+  it('should share entries between equivalent arguments until the TTL expires', () => {
+    const cache = new ResultCache();
+    cache.set('docs', 'lookup', { topic: 'hooks', lang: 'en' }, result('Hooks'), 1000, 0);
+
+    expect(cache.get('docs', 'lookup', { lang: 'en', topic: 'hooks' }, 500)).toEqual(result('Hooks'));
+    expect(cache.get('docs', 'lookup', { topic: 'hooks' }, 500)).toBeUndefined();
+    expect(cache.get('docs', 'lookup', { topic: 'hooks', lang: 'en' }, 1000)).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ entries: 0, hits: 1, misses: 2 });
+  });
+
+  it('should evict the least recently used entries when over the byte budget', () => {
+    const entrySize = Buffer.byteLength(ResultCache.keyOf('fs', 'read', { path: 'a' })) + JSON.stringify(result('a')).length;
+    const cache = new ResultCache(() => entrySize * 2);
+
+    cache.set('fs', 'read', { path: 'a' }, result('a'), 60000);
+    cache.set('fs', 'read', { path: 'b' }, result('b'), 60000);
+    cache.get('fs', 'read', { path: 'a' });
+    cache.set('fs', 'read', { path: 'c' }, result('c'), 60000);
+
+    expect(cache.get('fs', 'read', { path: 'b' })).toBeUndefined();
+    expect(cache.get('fs', 'read', { path: 'a' })).toEqual(result('a'));
+    expect(cache.getStats()).toMatchObject({ entries: 2, evictions: 1 });
+    expect(cache.purge('fs')).toBe(2);
+  });
+});
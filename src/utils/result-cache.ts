@@ -0,0 +1,157 @@
+/**
+ * Result Cache
+ * In-memory cache of tools/call results for tools that opt in with toolSettings.<tool>.cacheTtl.
+ * Entries are keyed on server, tool and normalized arguments and evicted least-recently-used
+ * once the cache exceeds its byte budget.
+ */
+
+export interface ResultCacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;  // 0-1 over all lookups
+  byServer: Record<string, { entries: number; hits: number; misses: number }>;
+}
+
+interface CacheEntry {
+  serverName: string;
+  toolName: string;
+  json: string;     // Stored serialized so callers can never mutate a cached result
+  bytes: number;
+  expiresAt: number;
+}
+
+export class ResultCache {
+  static readonly DEFAULT_MAX_BYTES = 10 * 1024 * 1024;
+
+  // Map iteration order doubles as recency order: the first entry is the least recently used
+  private entries: Map<string, CacheEntry> = new Map();
+  private bytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+  private serverCounters: Map<string, { hits: number; misses: number }> = new Map();
+
+  constructor(private getMaxBytes: () => number = () => ResultCache.DEFAULT_MAX_BYTES) {}
+
+  /**
+   * Arguments are normalized (object keys sorted) so equivalent calls share an entry
+   */
+  static keyOf(serverName: string, toolName: string, args: any): string {
+    return JSON.stringify([serverName, toolName, this.normalize(args ?? {})]);
+  }
+
+  get(serverName: string, toolName: string, args: any, now: number = Date.now()): any | undefined {
+    const key = ResultCache.keyOf(serverName, toolName, args);
+    const entry = this.entries.get(key);
+    const counters = this.getServerCounters(serverName);
+
+    if (!entry || entry.expiresAt <= now) {
+      if (entry) {
+        this.delete(key, entry);
+      }
+      this.misses++;
+      counters.misses++;
+      return undefined;
+    }
+
+    // Refresh recency
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    counters.hits++;
+    return JSON.parse(entry.json);
+  }
+
+  set(serverName: string, toolName: string, args: any, value: any, ttl: number, now: number = Date.now()): void {
+    const key = ResultCache.keyOf(serverName, toolName, args);
+    const json = JSON.stringify(value);
+    const bytes = Buffer.byteLength(key) + Buffer.byteLength(json);
+    const maxBytes = this.getMaxBytes();
+    if (bytes > maxBytes) {
+      return; // Would evict everything else and still not fit
+    }
+
+    const existing = this.entries.get(key);
+    if (existing) {
+      this.delete(key, existing);
+    }
+
+    this.entries.set(key, { serverName, toolName, json, bytes, expiresAt: now + ttl });
+    this.bytes += bytes;
+
+    for (const [oldestKey, oldest] of this.entries) {
+      if (this.bytes <= maxBytes) {
+        break;
+      }
+      this.delete(oldestKey, oldest);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Drop entries for a server (optionally one tool), or everything. Returns the number removed.
+   */
+  purge(serverName?: string, toolName?: string): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if ((!serverName || entry.serverName === serverName) && (!toolName || entry.toolName === toolName)) {
+        this.delete(key, entry);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  getStats(): ResultCacheStats {
+    const byServer: ResultCacheStats['byServer'] = {};
+    for (const [serverName, counters] of this.serverCounters) {
+      byServer[serverName] = { entries: 0, ...counters };
+    }
+    for (const entry of this.entries.values()) {
+      byServer[entry.serverName] = byServer[entry.serverName] || { entries: 0, hits: 0, misses: 0 };
+      byServer[entry.serverName].entries++;
+    }
+
+    const lookups = this.hits + this.misses;
+    return {
+      entries: this.entries.size,
+      bytes: this.bytes,
+      maxBytes: this.getMaxBytes(),
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+      byServer
+    };
+  }
+
+  private delete(key: string, entry: CacheEntry): void {
+    this.entries.delete(key);
+    this.bytes -= entry.bytes;
+  }
+
+  private getServerCounters(serverName: string): { hits: number; misses: number } {
+    let counters = this.serverCounters.get(serverName);
+    if (!counters) {
+      counters = { hits: 0, misses: 0 };
+      this.serverCounters.set(serverName, counters);
+    }
+    return counters;
+  }
+
+  private static normalize(value: any): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.normalize(item));
+    }
+    if (value !== null && typeof value === 'object') {
+      return Object.fromEntries(
+        Object.keys(value).sort().filter(key => value[key] !== undefined).map(key => [key, this.normalize(value[key])])
+      );
+    }
+    return value;
+  }
+}
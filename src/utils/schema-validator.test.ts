@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { SchemaValidator } from './schema-validator';
+
+describe('SchemaValidator', () => {
+  const schema = {
+    type: 'object',
+    properties: {
+      url: { type: 'string', pattern: '^https?://' },
+      timeout: { type: 'integer', minimum: 0 },
+      mode: { enum: ['fast', 'full'] },
+      tags: { type: 'array', items: { type: 'string' } }
+    },
+    required: ['url'],
+    additionalProperties: false
+  };
+
+  it('should accept valid arguments', () => {
+    expect(SchemaValidator.validate(schema, { url: 'https://example.com', timeout: 10, tags: ['a'] })).toEqual([]);
+  });
+
+  it('should report every violation with its path', () => {
+    const violations = SchemaValidator.validate(schema, { timeout: -1.5, mode: 'slow', tags: ['a', 2], extra: true });
+
+    expect(violations).toEqual([
+      { path: '/url', message: 'is required' },
+      { path: '/timeout', message: 'must be integer, got number' },
+      { path: '/mode', message: 'must be one of "fast", "full"' },
+      { path: '/tags/1', message: 'must be string, got number' },
+      { path: '/extra', message: 'is not an allowed property' }
+    ]);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * JSON Schema Validator
+ * Checks tool arguments against an inputSchema before they are forwarded upstream.
+ * Covers the keywords MCP servers use in practice; $ref and format are not checked.
+ */
+
+export interface SchemaViolation {
+  path: string;    // JSON pointer to the offending value ('' for the arguments object itself)
+  message: string;
+}
+
+export class SchemaValidator {
+  static validate(schema: any, value: any, path: string = ''): SchemaViolation[] {
+    if (schema === false) {
+      return [{ path, message: 'is not allowed' }];
+    }
+    if (!schema || typeof schema !== 'object') {
+      return [];
+    }
+
+    if (schema.type !== undefined) {
+      const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+      if (!types.some(type => this.matchesType(type, value))) {
+        // Nothing else is meaningful once the type is wrong
+        return [{ path, message: `must be ${types.join(' or ')}, got ${this.typeOf(value)}` }];
+      }
+    }
+
+    const violations: SchemaViolation[] = [];
+
+    if (schema.enum && !schema.enum.some((option: any) => this.isEqual(option, value))) {
+      violations.push({ path, message: `must be one of ${schema.enum.map((option: any) => JSON.stringify(option)).join(', ')}` });
+    }
+    if (schema.const !== undefined && !this.isEqual(schema.const, value)) {
+      violations.push({ path, message: `must be ${JSON.stringify(schema.const)}` });
+    }
+
+    if (typeof value === 'string') {
+      violations.push(...this.validateString(schema, value, path));
+    } else if (typeof value === 'number') {
+      violations.push(...this.validateNumber(schema, value, path));
+    } else if (Array.isArray(value)) {
+      violations.push(...this.validateArray(schema, value, path));
+    } else if (value !== null && typeof value === 'object') {
+      violations.push(...this.validateObject(schema, value, path));
+    }
+
+    violations.push(...this.validateCombinators(schema, value, path));
+    return violations;
+  }
+
+  private static validateString(schema: any, value: string, path: string): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      violations.push({ path, message: `must have at least ${schema.minLength} characters` });
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      violations.push({ path, message: `must have at most ${schema.maxLength} characters` });
+    }
+    if (schema.pattern !== undefined) {
+      try {
+        if (!new RegExp(schema.pattern, 'u').test(value)) {
+          violations.push({ path, message: `must match pattern ${schema.pattern}` });
+        }
+      } catch {
+        // Patterns JavaScript cannot compile are left to the upstream server
+      }
+    }
+    return violations;
+  }
+
+  private static validateNumber(schema: any, value: number, path: string): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      violations.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      violations.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      violations.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      violations.push({ path, message: `must be < ${schema.exclusiveMaximum}` });
+    }
+    return violations;
+  }
+
+  private static validateArray(schema: any, value: any[], path: string): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      violations.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      violations.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items && !Array.isArray(schema.items)) {
+      value.forEach((item, index) => {
+        violations.push(...this.validate(schema.items, item, `${path}/${index}`));
+      });
+    }
+    return violations;
+  }
+
+  private static validateObject(schema: any, value: Record<string, any>, path: string): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+    const properties: Record<string, any> = schema.properties || {};
+
+    for (const name of schema.required || []) {
+      if (value[name] === undefined) {
+        violations.push({ path: `${path}/${name}`, message: 'is required' });
+      }
+    }
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      if (propertyValue === undefined) {
+        continue;
+      }
+      if (properties[name]) {
+        violations.push(...this.validate(properties[name], propertyValue, `${path}/${name}`));
+      } else if (schema.additionalProperties === false) {
+        violations.push({ path: `${path}/${name}`, message: 'is not an allowed property' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        violations.push(...this.validate(schema.additionalProperties, propertyValue, `${path}/${name}`));
+      }
+    }
+    return violations;
+  }
+
+  private static validateCombinators(schema: any, value: any, path: string): SchemaViolation[] {
+    const violations: SchemaViolation[] = [];
+
+    for (const subschema of schema.allOf || []) {
+      violations.push(...this.validate(subschema, value, path));
+    }
+    if (schema.anyOf && !schema.anyOf.some((subschema: any) => this.validate(subschema, value, path).length === 0)) {
+      violations.push({ path, message: 'must match at least one of the allowed schemas (anyOf)' });
+    }
+    if (schema.oneOf) {
+      const matches = schema.oneOf.filter((subschema: any) => this.validate(subschema, value, path).length === 0).length;
+      if (matches !== 1) {
+        violations.push({ path, message: `must match exactly one of the allowed schemas (oneOf), matched ${matches}` });
+      }
+    }
+    if (schema.not && this.validate(schema.not, value, path).length === 0) {
+      violations.push({ path, message: 'must not match the excluded schema (not)' });
+    }
+    return violations;
+  }
+
+  private static matchesType(type: string, value: any): boolean {
+    switch (type) {
+      case 'string':
+        return typeof value === 'string';
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value);
+      case 'integer':
+        return Number.isInteger(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+      case 'null':
+        return value === null;
+      default:
+        return true; // Unknown types are left to the upstream server
+    }
+  }
+
+  private static typeOf(value: any): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+  }
+
+  private static isEqual(a: any, b: any): boolean {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+}
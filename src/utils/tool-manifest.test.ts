@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { mkdtemp, readFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ToolManifest } from './tool-manifest';
+import { MCPServerConfig } from '../types';
+
+describe('ToolManifest', () => {
+  const config: MCPServerConfig = { name: 'files', enabled: true, transport: 'stdio', command: 'npx', args: ['files-server'] };
+  const tools = [{ name: 'read_file', description: 'Read a file', inputSchema: { type: 'object' } }];
+
+  it('should ignore entries once the launch settings change', async () => {
+    const manifest = new ToolManifest();
+    await manifest.set('files', config, tools);
+
+    expect(manifest.get('files', { ...config, enabled: false })).toEqual(tools);
+    expect(manifest.get('files', { ...config, args: ['files-server', '--root', '/tmp'] })).toBeUndefined();
+    expect(manifest.get('other', config)).toBeUndefined();
+  });
+
+  it('should persist entries across loads', async () => {
+    const filePath = join(await mkdtemp(join(tmpdir(), 'mcpdog-manifest-')), 'nested', 'tool-manifest.json');
+    const manifest = new ToolManifest();
+    await manifest.load(filePath);
+    await manifest.set('files', config, tools);
+
+    expect(JSON.parse(await readFile(filePath, 'utf-8')).files.tools).toEqual(tools);
+
+    const reloaded = new ToolManifest();
+    await reloaded.load(filePath);
+    expect(reloaded.get('files', config)).toEqual(tools);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Tool Manifest
+ * Remembers the tool list each server last reported, so lazy and on-demand servers can have their
+ * tools published without launching them. Entries are tied to a fingerprint of the launch settings
+ * and ignored once the command, arguments or environment change.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { MCPServerConfig, MCPTool } from '../types/index.js';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('router');
+
+interface ManifestEntry {
+  fingerprint: string;
+  tools: MCPTool[];
+  updatedAt: string;
+}
+
+export class ToolManifest {
+  private entries: Record<string, ManifestEntry> = {};
+  private filePath?: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  static fingerprint(config: MCPServerConfig): string {
+    return JSON.stringify([config.transport, config.command, config.args || [], config.env || {}, config.cwd, config.url || config.endpoint]);
+  }
+
+  /**
+   * Read the manifest file; until then (or without a file) the manifest only lives in memory
+   */
+  async load(filePath: string): Promise<void> {
+    this.filePath = filePath;
+    try {
+      this.entries = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.warn(`Ignoring unreadable tool manifest ${filePath}: ${(error as Error).message}`);
+      }
+      this.entries = {};
+    }
+  }
+
+  get(serverName: string, config: MCPServerConfig): MCPTool[] | undefined {
+    const entry = this.entries[serverName];
+    return entry && entry.fingerprint === ToolManifest.fingerprint(config) ? entry.tools : undefined;
+  }
+
+  set(serverName: string, config: MCPServerConfig, tools: MCPTool[]): Promise<void> {
+    this.entries[serverName] = {
+      fingerprint: ToolManifest.fingerprint(config),
+      tools,
+      updatedAt: new Date().toISOString()
+    };
+    return this.save();
+  }
+
+  private save(): Promise<void> {
+    const filePath = this.filePath;
+    if (!filePath) {
+      return Promise.resolve();
+    }
+
+    // Writes are chained so an older snapshot can never overwrite a newer one
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.mkdir(dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, JSON.stringify(this.entries, null, 2));
+      } catch (error) {
+        log.warn(`Failed to save tool manifest ${filePath}: ${(error as Error).message}`);
+      }
+    });
+    return this.writing;
+  }
+}
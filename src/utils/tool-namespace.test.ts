@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { ToolNamespace } from './tool-namespace';
+
+describe('ToolNamespace', () => {
+  it('should build published names for each strategy', () => {
+    expect(ToolNamespace.apply('on-conflict', 'fs', 'read_file')).toBe('read_file');
+    expect(ToolNamespace.apply('always', 'fs', 'read_file')).toBe('fs-read_file');
+    expect(ToolNamespace.apply('{server}__{tool}', 'fs', 'read_file')).toBe('fs__read_file');
+  });
+
+  it('should reject templates that produce invalid tool names', () => {
+    expect(ToolNamespace.validateStrategy('{server}__{tool}')).toBeUndefined();
+    expect(ToolNamespace.validateStrategy('{server}')).toContain('must contain {tool}');
+    expect(ToolNamespace.validateStrategy('{server}/{tool}')).toContain('invalid tool names');
+    expect(ToolNamespace.isValidName('a'.repeat(129))).toBe(false);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tool Namespacing
+ * Builds the names under which upstream tools are published and validates them against MCP naming rules
+ */
+
+import { ToolNamespacing } from '../types/index.js';
+
+export class ToolNamespace {
+  // MCP tool names: 1-128 characters, letters, digits, underscore, hyphen and dot
+  private static readonly TOOL_NAME_PATTERN = /^[A-Za-z0-9_.-]{1,128}$/;
+
+  static readonly DEFAULT: ToolNamespacing = 'on-conflict';
+
+  static isValidName(name: string): boolean {
+    return this.TOOL_NAME_PATTERN.test(name);
+  }
+
+  /**
+   * Check a strategy from the config, returning an error message if it is unusable
+   */
+  static validateStrategy(strategy: string): string | undefined {
+    if (strategy === 'never' || strategy === 'on-conflict' || strategy === 'always') {
+      return undefined;
+    }
+
+    if (!strategy.includes('{tool}')) {
+      return `Namespacing template "${strategy}" must contain {tool}`;
+    }
+
+    const sample = this.expand(strategy, 'server', 'tool');
+    if (!this.isValidName(sample)) {
+      return `Namespacing template "${strategy}" produces invalid tool names (allowed: A-Z, a-z, 0-9, _, -, .)`;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Name a tool is published under before conflicts are considered
+   */
+  static apply(strategy: ToolNamespacing, serverName: string, toolName: string): string {
+    switch (strategy) {
+      case 'never':
+      case 'on-conflict':
+        return toolName;
+      case 'always':
+        return this.prefix(serverName, toolName);
+      default:
+        return this.expand(strategy, serverName, toolName);
+    }
+  }
+
+  // Prefix used by 'always' and to resolve conflicts under 'on-conflict'
+  static prefix(serverName: string, toolName: string): string {
+    return `${serverName}-${toolName}`;
+  }
+
+  private static expand(template: string, serverName: string, toolName: string): string {
+    return template.replace(/\{server\}/g, serverName).replace(/\{tool\}/g, toolName);
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { ToolProfile } from './tool-profile';
+
+describe('ToolProfile', () => {
+  const tools = [
+    { name: 'read_file', description: '[fs] Read a file', inputSchema: { type: 'object' } },
+    { name: 'search', description: '[web] Search the web', inputSchema: { type: 'object' } },
+    { name: 'navigate', description: '[browser] Open a page', inputSchema: { type: 'object' } }
+  ];
+  const servers: Record<string, string> = { read_file: 'fs', search: 'web', navigate: 'browser' };
+  const lookup = (name: string) => servers[name] ? { serverName: servers[name] } : undefined;
+
+  it('should select tools by server or by name and apply aliases', () => {
+    const profile = { servers: ['fs'], tools: ['search'], aliases: { search: 'web_search' } };
+
+    expect(ToolProfile.apply(tools, profile, lookup).map(tool => tool.name)).toEqual(['read_file', 'web_search']);
+    expect(ToolProfile.apply(tools, {}, lookup)).toHaveLength(3);
+  });
+
+  it('should resolve aliases back to published names', () => {
+    const profile = { tools: ['search'], aliases: { search: 'web_search' } };
+
+    expect(ToolProfile.resolve(profile, 'web_search')).toBe('search');
+    expect(ToolProfile.resolve(profile, 'navigate')).toBe('navigate');
+    expect(ToolProfile.includes(profile, 'navigate', lookup('navigate'))).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Tool Profiles
+ * Narrows the aggregated tool list to the subset a profile selects and applies its aliases
+ */
+
+import { MCPTool, ProfileConfig } from '../types/index.js';
+
+// Where a published tool comes from (see ToolRouter.findToolRoute)
+export type ToolOrigin = { serverName: string; group?: string };
+
+export class ToolProfile {
+  /**
+   * Whether a published tool belongs to the profile.
+   * A profile without servers or tools selects everything.
+   */
+  static includes(profile: ProfileConfig, toolName: string, origin?: ToolOrigin): boolean {
+    if (!profile.servers && !profile.tools) {
+      return true;
+    }
+
+    // A replica group's tools can be selected by the group name as well as by its primary member
+    if (origin && (profile.servers?.includes(origin.serverName) || (origin.group && profile.servers?.includes(origin.group)))) {
+      return true;
+    }
+
+    return !!profile.tools?.includes(toolName);
+  }
+
+  /**
+   * Filter published tools down to the profile and rename aliased ones
+   */
+  static apply(
+    tools: MCPTool[],
+    profile: ProfileConfig,
+    lookup: (toolName: string) => ToolOrigin | undefined
+  ): MCPTool[] {
+    return tools
+      .filter(tool => this.includes(profile, tool.name, lookup(tool.name)))
+      .map(tool => {
+        const alias = profile.aliases?.[tool.name];
+        return alias ? { ...tool, name: alias } : tool;
+      });
+  }
+
+  /**
+   * Map a name a profile client called back to the published tool name
+   */
+  static resolve(profile: ProfileConfig, toolName: string): string {
+    for (const [publishedName, alias] of Object.entries(profile.aliases || {})) {
+      if (alias === toolName) {
+        return publishedName;
+      }
+    }
+    return toolName;
+  }
+}
@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { ToolTransformer } from './tool-transformer';
+
+describe('ToolTransformer', () => {
+  const transform = {
+    defaults: { root: '/workspace' },
+    fixed: { format: 'markdown' },
+    rename: { file: 'path' },
+    hidden: ['debug'],
+    result: { maxLength: 10, redact: ['sk-[a-z0-9]+'] }
+  };
+
+  it('should publish the client view of the schema', () => {
+    const schema = {
+      type: 'object',
+      properties: { path: { type: 'string' }, root: { type: 'string' }, format: { type: 'string' }, debug: { type: 'boolean' } },
+      required: ['path', 'root', 'format']
+    };
+
+    expect(ToolTransformer.transformSchema(schema, transform)).toEqual({
+      type: 'object',
+      properties: { file: { type: 'string' }, root: { type: 'string' } },
+      required: ['file']
+    });
+  });
+
+  it('should rewrite arguments to the upstream shape', () => {
+    expect(ToolTransformer.transformArguments({ file: 'a.txt', debug: true, format: 'html' }, transform)).toEqual({
+      path: 'a.txt',
+      root: '/workspace',
+      format: 'markdown'
+    });
+  });
+
+  it('should report upstream argument paths under client names', () => {
+    expect(ToolTransformer.toClientPath('/path', transform)).toBe('/file');
+    expect(ToolTransformer.toClientPath('/root/0', transform)).toBe('/root/0');
+  });
+
+  it('should redact and truncate text content', () => {
+    const result = ToolTransformer.transformResult({
+      content: [{ type: 'text', text: 'key sk-abc123' }, { type: 'image', data: 'x' }]
+    }, transform);
+
+    expect(result.content[0].text).toBe('key [REDAC\n… [truncated 4 characters]');
+    expect(result.content[1]).toEqual({ type: 'image', data: 'x' });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Tool Transformer
+ * Applies the declarative per-tool rules from toolSettings[].transform to schemas, arguments and results
+ */
+
+import { ToolTransform } from '../types/index.js';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('router');
+
+export class ToolTransformer {
+  static readonly REDACTED = '[REDACTED]';
+
+  /**
+   * inputSchema as published to clients: hidden and fixed arguments removed, renamed arguments
+   * published under their client names, defaulted arguments no longer required
+   */
+  static transformSchema<T extends { properties?: Record<string, any>; required?: string[] }>(schema: T, transform: ToolTransform): T {
+    const removed = new Set([...(transform.hidden || []), ...Object.keys(transform.fixed || {})]);
+    const defaulted = new Set(Object.keys(transform.defaults || {}));
+    const clientNames = new Map(Object.entries(transform.rename || {}).map(([clientName, upstreamName]) => [upstreamName, clientName]));
+    const publish = (name: string) => clientNames.get(name) || name;
+
+    const properties: Record<string, any> = {};
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      if (!removed.has(name)) {
+        properties[publish(name)] = property;
+      }
+    }
+
+    return {
+      ...schema,
+      ...(schema.properties && { properties }),
+      ...(schema.required && {
+        required: schema.required.filter(name => !removed.has(name) && !defaulted.has(name)).map(publish)
+      })
+    };
+  }
+
+  /**
+   * Arguments as sent upstream: renamed, hidden ones dropped, then defaults and fixed values applied
+   */
+  static transformArguments(args: Record<string, any>, transform: ToolTransform): Record<string, any> {
+    const hidden = new Set(transform.hidden || []);
+    const result: Record<string, any> = {};
+
+    for (const [name, value] of Object.entries(args || {})) {
+      const upstreamName = transform.rename?.[name] || name;
+      if (!hidden.has(upstreamName)) {
+        result[upstreamName] = value;
+      }
+    }
+
+    for (const [name, value] of Object.entries(transform.defaults || {})) {
+      if (result[name] === undefined) {
+        result[name] = value;
+      }
+    }
+
+    return { ...result, ...transform.fixed };
+  }
+
+  /**
+   * Map a JSON pointer into upstream arguments back to the argument names the client used
+   */
+  static toClientPath(path: string, transform: ToolTransform): string {
+    const [, first, ...rest] = path.split('/');
+    const clientName = Object.entries(transform.rename || {}).find(([, upstreamName]) => upstreamName === first)?.[0];
+    return clientName ? ['', clientName, ...rest].join('/') : path;
+  }
+
+  /**
+   * Post-process the text content of a tools/call result (redaction, then truncation)
+   */
+  static transformResult(result: any, transform: ToolTransform): any {
+    const rules = transform.result;
+    if (!rules || !Array.isArray(result?.content)) {
+      return result;
+    }
+
+    const patterns = (rules.redact || []).flatMap(pattern => {
+      try {
+        return [new RegExp(pattern, 'g')];
+      } catch {
+        log.warn(`Ignoring invalid redact pattern: ${pattern}`);
+        return [];
+      }
+    });
+
+    return {
+      ...result,
+      content: result.content.map((item: any) => {
+        if (item?.type !== 'text' || typeof item.text !== 'string') {
+          return item;
+        }
+
+        let text = patterns.reduce((current: string, pattern) => current.replace(pattern, this.REDACTED), item.text);
+        if (rules.maxLength !== undefined && text.length > rules.maxLength) {
+          text = `${text.substring(0, rules.maxLength)}\n… [truncated ${text.length - rules.maxLength} characters]`;
+        }
+        return { ...item, text };
+      })
+    };
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Upstream Error
+ * Says whether a failed upstream request may be retried on a replica. Only failures where the upstream
+ * server cannot have run the request qualify: the adapter was not connected, the circuit or queue turned
+ * the request away before dispatch, the connection itself could not be made, or a gateway answered
+ * 502/503/504 because it could not reach the server behind it. Everything else, including resets,
+ * timeouts and closed connections after the request was written, is not retryable.
+ */
+
+export class UpstreamError {
+  private static readonly GATEWAY_STATUSES = [502, 503, 504];
+  // Raised while connecting, before any byte of the request reached the server
+  private static readonly CONNECT_ERROR_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'EHOSTUNREACH', 'ENETUNREACH', 'EAI_AGAIN'];
+
+  /**
+   * An error for a request that was never dispatched upstream
+   */
+  static notDispatched(message: string): Error & { retryable: boolean } {
+    return Object.assign(new Error(message), { retryable: true });
+  }
+
+  // cause is the HTTP client's error, which carries response.status when the server answered
+  static fromHttp(message: string, cause: any): Error & { retryable: boolean } {
+    const status: number | undefined = cause?.response?.status;
+    const retryable = status !== undefined
+      ? UpstreamError.GATEWAY_STATUSES.includes(status)
+      : UpstreamError.CONNECT_ERROR_CODES.includes(cause?.code);
+    return Object.assign(new Error(message), { retryable });
+  }
+
+  static isRetryable(error: unknown): boolean {
+    return (error as { retryable?: boolean } | undefined)?.retryable === true;
+  }
+}
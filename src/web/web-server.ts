@@ -12,6 +12,9 @@ import { globalLogManager } from '../logging/server-log-manager.js';
 import { fileURLToPath } from 'url';
 import { MCPDogServer } from '../core/mcpdog-server.js';
 import { ConfigManager } from '../config/config-manager.js';
+import { globalLogger } from '../logging/logger.js';
+
+const log = globalLogger.child('web');
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -109,7 +112,7 @@ export class MCPDogWebServer {
 
   private setupWebSocket(): void {
     this.io.on('connection', (socket) => {
-      console.log('Web client connected:', socket.id);
+      log.debug('Web client connected:', socket.id);
       
       // Send initial status
       this.sendStatusUpdate(socket);
@@ -120,7 +123,7 @@ export class MCPDogWebServer {
       });
       
       socket.on('disconnect', () => {
-        console.log('Web client disconnected:', socket.id);
+        log.debug('Web client disconnected:', socket.id);
       });
     });
   }
@@ -404,10 +407,10 @@ export class MCPDogWebServer {
       // Immediately start Web server, do not wait for MCP server
       const webStartPromise = new Promise<void>((resolve) => {
         this.server.listen(this.port, () => {
-          console.log(`🌐 MCPDog Web界面启动在端口 ${this.port}`);
-          console.log(`📊 管理界面: http://localhost:${this.port}`);
-          console.log(`🔌 WebSocket: ws://localhost:${this.port}`);
-          console.log(`⚡ MCP server will connect asynchronously in the background...`);
+          log.info(`MCPDog Web界面启动在端口 ${this.port}`);
+          log.info(`管理界面: http://localhost:${this.port}`);
+          log.info(`WebSocket: ws://localhost:${this.port}`);
+          log.info(`MCP server will connect asynchronously in the background...`);
           resolve();
         });
       });
@@ -418,18 +421,18 @@ export class MCPDogWebServer {
       // Only wait for Web server to start
       return webStartPromise;
     } catch (error) {
-      console.error('Failed to start web server:', error);
+      log.error('Failed to start web server:', error);
       throw error;
     }
   }
 
   private async startMCPServerInBackground(): Promise<void> {
     try {
-      console.log('🔄 Starting MCP server in background...');
+      log.info('Starting MCP server in background...');
       await this.mcpServer.start();
-      console.log('✅ MCPDog Server background startup complete');
+      log.info('MCPDog Server background startup complete');
     } catch (error) {
-      console.error('❌ MCP server background startup failed:', error);
+      log.error('MCP server background startup failed:', error);
       // Do not throw error, let Web interface remain available
     }
   }
@@ -440,12 +443,12 @@ export class MCPDogWebServer {
       
       return new Promise((resolve) => {
         this.server.close(() => {
-          console.log('MCPDog Web server stopped');
+          log.info('MCPDog Web server stopped');
           resolve();
         });
       });
     } catch (error) {
-      console.error('Error stopping web server:', error);
+      log.error('Error stopping web server:', error);
       throw error;
     }
   }
@@ -463,7 +466,7 @@ export class MCPDogWebServer {
         timestamp: new Date().toISOString()
       });
     } catch (error) {
-      console.error('Error getting all logs:', error);
+      log.error('Error getting all logs:', error);
       res.status(500).json({ error: 'Failed to get logs' });
     }
   }
@@ -498,7 +501,7 @@ export class MCPDogWebServer {
         timestamp: new Date().toISOString()
       });
     } catch (error) {
-      console.error('Error getting server logs:', error);
+      log.error('Error getting server logs:', error);
       res.status(500).json({ error: 'Failed to get server logs' });
     }
   }
@@ -519,7 +522,7 @@ export class MCPDogWebServer {
         timestamp: new Date().toISOString()
       });
     } catch (error) {
-      console.error('Error getting server stats:', error);
+      log.error('Error getting server stats:', error);
       res.status(500).json({ error: 'Failed to get server stats' });
     }
   }
@@ -534,7 +537,7 @@ export class MCPDogWebServer {
         timestamp: new Date().toISOString()
       });
     } catch (error) {
-      console.error('Error clearing server logs:', error);
+      log.error('Error clearing server logs:', error);
       res.status(500).json({ error: 'Failed to clear server logs' });
     }
   }
@@ -553,7 +556,7 @@ export class MCPDogWebServer {
       res.setHeader('Content-Type', format === 'json' ? 'application/json' : 'text/plain');
       res.send(exportData);
     } catch (error) {
-      console.error('Error exporting server logs:', error);
+      log.error('Error exporting server logs:', error);
       res.status(500).json({ error: 'Failed to export server logs' });
     }
   }
@@ -0,0 +1,267 @@
+import React, { useState, useEffect } from 'react';
+import { X, RefreshCw, Search, ChevronDown, ChevronRight } from 'lucide-react';
+import { useConfigStore } from '../store/configStore';
+import { AuditQueryResult, AuditRecord } from '../types/config';
+import { apiClient } from '../utils/api';
+
+const PAGE_SIZE = 100;
+
+// Time windows offered by the "since" filter, in milliseconds
+const TIME_RANGES: { label: string; ms?: number }[] = [
+  { label: 'Last hour', ms: 3600000 },
+  { label: 'Last 24 hours', ms: 86400000 },
+  { label: 'Last 7 days', ms: 7 * 86400000 },
+  { label: 'All time' }
+];
+
+interface AuditFilters {
+  search: string;
+  client: string;
+  server: string;
+  tool: string;
+  status: '' | 'success' | 'error';
+  range: number; // Index into TIME_RANGES
+}
+
+export const AuditLogModal: React.FC = () => {
+  const [filters, setFilters] = useState<AuditFilters>({ search: '', client: '', server: '', tool: '', status: '', range: 1 });
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [data, setData] = useState<AuditQueryResult | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { hideAuditLog } = useConfigStore();
+
+  const loadRecords = async (currentFilters: AuditFilters = filters, currentLimit: number = limit) => {
+    setLoading(true);
+    try {
+      const params = new URLSearchParams({ limit: String(currentLimit) });
+      for (const key of ['search', 'client', 'server', 'tool', 'status'] as const) {
+        if (currentFilters[key]) {
+          params.set(key, currentFilters[key]);
+        }
+      }
+      const rangeMs = TIME_RANGES[currentFilters.range].ms;
+      if (rangeMs) {
+        params.set('since', new Date(Date.now() - rangeMs).toISOString());
+      }
+
+      setData(await apiClient.get(`/api/audit?${params}`));
+      setError(null);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadRecords();
+  }, []);
+
+  const applyFilters = (updates: Partial<AuditFilters>) => {
+    const next = { ...filters, ...updates };
+    setFilters(next);
+    setLimit(PAGE_SIZE);
+    loadRecords(next, PAGE_SIZE);
+  };
+
+  const loadMore = () => {
+    const next = limit + PAGE_SIZE;
+    setLimit(next);
+    loadRecords(filters, next);
+  };
+
+  const formatJson = (value: any) => JSON.stringify(value, null, 2);
+
+  const renderDetails = (record: AuditRecord) => (
+    <div className="space-y-2 text-sm">
+      <div className="text-base-content/70">
+        Session <span className="font-mono">{record.clientId || 'unknown'}</span>
+        {record.clientVersion && <> · version {record.clientVersion}</>}
+        {record.profile && <> · profile {record.profile}</>}
+      </div>
+      {record.error && (
+        <div className="text-error">Error {record.error.code}: {record.error.message}</div>
+      )}
+      {record.args !== undefined && (
+        <div>
+          <div className="font-semibold mb-1">Arguments</div>
+          <pre className="bg-base-200 rounded p-2 overflow-x-auto text-xs">{formatJson(record.args)}</pre>
+        </div>
+      )}
+      {record.result !== undefined && (
+        <div>
+          <div className="font-semibold mb-1">Result</div>
+          <pre className="bg-base-200 rounded p-2 overflow-x-auto max-h-64 text-xs">{formatJson(record.result)}</pre>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-base-100 rounded-lg shadow-xl w-full max-w-6xl max-h-[90vh] overflow-hidden">
+        {/* Modal header */}
+        <div className="flex items-center justify-between p-6 border-b border-base-300">
+          <div>
+            <h2 className="text-xl font-bold text-base-content">Audit Log</h2>
+            <p className="text-sm text-base-content/70 mt-1">
+              Every tool call with its client, arguments and outcome
+              {data?.file && <> · <span className="font-mono">{data.file}</span></>}
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => loadRecords()}
+              className="btn btn-ghost btn-sm btn-circle"
+              title="Refresh"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </button>
+            <button
+              onClick={hideAuditLog}
+              className="btn btn-ghost btn-sm btn-circle"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <form
+          className="flex flex-wrap items-center gap-2 px-6 py-3 border-b border-base-300"
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyFilters({});
+          }}
+        >
+          <div className="relative flex-1 min-w-[12rem]">
+            <Search className="h-4 w-4 absolute left-3 top-1/2 -translate-y-1/2 text-base-content/50" />
+            <input
+              type="text"
+              placeholder="Search arguments, results, errors..."
+              className="input input-bordered input-sm w-full pl-9"
+              value={filters.search}
+              onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+            />
+          </div>
+          {(['client', 'server', 'tool'] as const).map(key => (
+            <input
+              key={key}
+              type="text"
+              placeholder={key.charAt(0).toUpperCase() + key.slice(1)}
+              className="input input-bordered input-sm w-32"
+              value={filters[key]}
+              onChange={(e) => setFilters({ ...filters, [key]: e.target.value })}
+            />
+          ))}
+          <select
+            className="select select-bordered select-sm"
+            value={filters.status}
+            onChange={(e) => applyFilters({ status: e.target.value as AuditFilters['status'] })}
+          >
+            <option value="">Any status</option>
+            <option value="success">Success</option>
+            <option value="error">Error</option>
+          </select>
+          <select
+            className="select select-bordered select-sm"
+            value={filters.range}
+            onChange={(e) => applyFilters({ range: parseInt(e.target.value) })}
+          >
+            {TIME_RANGES.map((range, index) => (
+              <option key={range.label} value={index}>{range.label}</option>
+            ))}
+          </select>
+          <button type="submit" className="btn btn-primary btn-sm">Search</button>
+        </form>
+
+        <div className="p-6 overflow-y-auto max-h-[65vh]">
+          {error && (
+            <div className="alert alert-error mb-4">
+              <span>Failed to load audit log: {error}</span>
+            </div>
+          )}
+
+          {data && !data.enabled && (
+            <div className="alert alert-warning mb-4">
+              <span>
+                Auditing is disabled. Set <code>"audit": {'{'} "enabled": true {'}'}</code> in the config to record tool calls.
+              </span>
+            </div>
+          )}
+
+          {loading && !data ? (
+            <div className="text-center py-8">
+              <span className="loading loading-spinner loading-md text-primary"></span>
+            </div>
+          ) : !data || data.records.length === 0 ? (
+            <div className="text-center py-8 text-base-content/70">
+              <p>No matching tool calls</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="table table-sm w-full">
+                <thead>
+                  <tr>
+                    <th></th>
+                    <th>Time</th>
+                    <th>Client</th>
+                    <th>Tool</th>
+                    <th>Server</th>
+                    <th>Status</th>
+                    <th>Duration</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {data.records.map(record => (
+                    <React.Fragment key={record.id}>
+                      <tr
+                        className="hover cursor-pointer"
+                        onClick={() => setExpanded(expanded === record.id ? null : record.id)}
+                      >
+                        <td>
+                          {expanded === record.id
+                            ? <ChevronDown className="h-4 w-4" />
+                            : <ChevronRight className="h-4 w-4" />}
+                        </td>
+                        <td className="text-sm whitespace-nowrap">{new Date(record.timestamp).toLocaleString()}</td>
+                        <td className="text-sm">{record.clientName || record.clientId || '—'}</td>
+                        <td className="font-mono text-sm">{record.toolName}</td>
+                        <td className="text-sm">{record.serverName || '—'}</td>
+                        <td>
+                          <span
+                            className={`badge badge-sm ${record.status === 'success' ? 'badge-success' : 'badge-error'}`}
+                            title={record.error?.message}
+                          >
+                            {record.status}
+                          </span>
+                        </td>
+                        <td className="text-sm">{record.duration}ms</td>
+                      </tr>
+                      {expanded === record.id && (
+                        <tr>
+                          <td></td>
+                          <td colSpan={6}>{renderDetails(record)}</td>
+                        </tr>
+                      )}
+                    </React.Fragment>
+                  ))}
+                </tbody>
+              </table>
+              {data.hasMore && (
+                <div className="text-center mt-4">
+                  <button onClick={loadMore} className="btn btn-outline btn-sm" disabled={loading}>
+                    Load more
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -29,6 +29,8 @@ export const EventLog: React.FC = () => {
         return `Error: ${event.data.error} (${event.data.context})`;
       case 'status-update':
         return 'System status updated';
+      case 'circuit-state-changed':
+        return `Circuit for ${event.data.serverName}: ${event.data.from} → ${event.data.to} (${event.data.reason})`;
       default:
         return 'Unknown event';
     }
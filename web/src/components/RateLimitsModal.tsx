@@ -0,0 +1,140 @@
+import React, { useState, useEffect } from 'react';
+import { X, RefreshCw } from 'lucide-react';
+import { useConfigStore } from '../store/configStore';
+import { RateLimitUsage } from '../types/config';
+import { apiClient } from '../utils/api';
+
+// Consumption is polled while the modal is open
+const REFRESH_INTERVAL = 5000;
+
+export const RateLimitsModal: React.FC = () => {
+  const [usage, setUsage] = useState<RateLimitUsage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const { hideRateLimits } = useConfigStore();
+
+  const loadUsage = async () => {
+    try {
+      const data = await apiClient.get('/api/rate-limits');
+      setUsage(data.usage || []);
+      setError(null);
+    } catch (error) {
+      setError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadUsage();
+    const interval = setInterval(loadUsage, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
+
+  const scopeBadge = (scope: RateLimitUsage['scope']) =>
+    scope === 'client' ? 'badge-info' : scope === 'server' ? 'badge-secondary' : 'badge-accent';
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-base-100 rounded-lg shadow-xl w-full max-w-4xl max-h-[90vh] overflow-hidden">
+        {/* Modal header */}
+        <div className="flex items-center justify-between p-6 border-b border-base-300">
+          <div>
+            <h2 className="text-xl font-bold text-base-content">Rate Limits & Quotas</h2>
+            <p className="text-sm text-base-content/70 mt-1">
+              Current consumption per client, server and tool (quotas reset at midnight UTC)
+            </p>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={loadUsage}
+              className="btn btn-ghost btn-sm btn-circle"
+              title="Refresh"
+            >
+              <RefreshCw className="h-4 w-4" />
+            </button>
+            <button
+              onClick={hideRateLimits}
+              className="btn btn-ghost btn-sm btn-circle"
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-6 overflow-y-auto max-h-[80vh]">
+          {error && (
+            <div className="alert alert-error mb-4">
+              <span>Failed to load rate limits: {error}</span>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="text-center py-8">
+              <span className="loading loading-spinner loading-md text-primary"></span>
+            </div>
+          ) : usage.length === 0 ? (
+            <div className="text-center py-8 text-base-content/70">
+              <p>No rate-limited calls yet</p>
+              <p className="text-sm mt-1">
+                Configure <code>rateLimit</code> on servers or tools, or <code>clientRateLimits</code> for clients
+              </p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="table table-sm w-full">
+                <thead>
+                  <tr>
+                    <th>Scope</th>
+                    <th>Name</th>
+                    <th>Rate (available / burst)</th>
+                    <th>Today</th>
+                    <th>Rejected</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {usage.map(entry => {
+                    const quotaRatio = entry.dailyQuota ? entry.usedToday / entry.dailyQuota : 0;
+                    return (
+                      <tr key={`${entry.scope}:${entry.key}`}>
+                        <td>
+                          <span className={`badge badge-sm ${scopeBadge(entry.scope)}`}>{entry.scope}</span>
+                        </td>
+                        <td className="font-mono text-sm">{entry.key}</td>
+                        <td>
+                          {entry.requestsPerMinute ? (
+                            <span className={entry.tokens === 0 ? 'text-error' : ''}>
+                              {entry.tokens} / {entry.burst} ({entry.requestsPerMinute}/min)
+                            </span>
+                          ) : (
+                            <span className="text-base-content/50">—</span>
+                          )}
+                        </td>
+                        <td>
+                          {entry.dailyQuota ? (
+                            <div className="flex items-center gap-2">
+                              <progress
+                                className={`progress w-24 ${quotaRatio >= 1 ? 'progress-error' : quotaRatio >= 0.8 ? 'progress-warning' : 'progress-success'}`}
+                                value={Math.min(entry.usedToday, entry.dailyQuota)}
+                                max={entry.dailyQuota}
+                              />
+                              <span className="text-sm">{entry.usedToday} / {entry.dailyQuota}</span>
+                            </div>
+                          ) : (
+                            <span className="text-sm">{entry.usedToday}</span>
+                          )}
+                        </td>
+                        <td className={entry.rejected > 0 ? 'text-error' : ''}>{entry.rejected}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -27,6 +27,7 @@ export const ServerListItem: React.FC<ServerListItemProps> = React.memo(({ serve
       <div className="flex items-center space-x-3 mb-2">
         <div className={`w-3 h-3 rounded-full ${
           server?.connected ? 'bg-green-500' : 
+          server?.standby ? 'bg-blue-400' :
           server?.enabled ? 'bg-yellow-500' : 'bg-gray-400'
         }`} />
         <h3 className="font-medium text-base-content truncate">{server?.name || 'Unknown'}</h3>
@@ -50,10 +51,12 @@ export const ServerListItem: React.FC<ServerListItemProps> = React.memo(({ serve
         
         <span className={`badge ${
           server?.connected ? 'badge-success' :
+          server?.standby ? 'badge-info' :
           server?.enabled ? 'badge-warning' :
           'badge-neutral'
         }`}>
           {server?.connected ? 'Connected' : 
+           server?.standby ? 'Standby' :
            server?.enabled ? 'Waiting' : 'Disabled'}
         </span>
       </div>
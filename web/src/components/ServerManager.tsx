@@ -1,11 +1,13 @@
 import React, { useEffect } from 'react';
-import { Plus, Copy, Settings, LogOut } from 'lucide-react';
+import { Plus, Copy, Settings, LogOut, Gauge, ScrollText } from 'lucide-react';
 import { useConfigStore } from '../store/configStore';
 import { useAppStore } from '../store/useAppStore';
 import { ServerListItem } from './ServerListItem';
 import { ServerPanel } from './ServerPanel';
 import { AddServerModal } from './AddServerModal';
 import { ClientConfigModal } from './ClientConfigModal';
+import { RateLimitsModal } from './RateLimitsModal';
+import { AuditLogModal } from './AuditLogModal';
 import { ThemeToggle } from './ThemeToggle';
 import { ServerStatus } from '../types/index';
 
@@ -25,6 +27,10 @@ export const ServerManager: React.FC<ServerManagerProps> = ({ refreshServerTools
     showClientConfig,
     showAddServerModal,
     showClientConfigModal,
+    showRateLimits,
+    showRateLimitsModal,
+    showAuditLog,
+    showAuditLogModal,
     loadConfig,
   } = useConfigStore();
 
@@ -44,7 +50,10 @@ export const ServerManager: React.FC<ServerManagerProps> = ({ refreshServerTools
       connected: liveServer?.connected ?? configServer.connected, // Use live status if available
       toolCount: liveServer?.toolCount ?? configServer.toolCount, // Use live toolCount if available
       enabledToolCount: liveServer?.enabledToolCount ?? configServer.enabledToolCount, // Use live enabledToolCount if available
-      tools: liveServer?.tools ?? configServer.tools // Use live tools if available
+      tools: liveServer?.tools ?? configServer.tools, // Use live tools if available
+      queue: liveServer?.queue ?? configServer.queue, // Use live queue stats if available
+      circuit: liveServer?.circuit ?? configServer.circuit, // Use live breaker state if available
+      standby: liveServer?.standby ?? configServer.standby
     };
   });
 
@@ -109,6 +118,22 @@ export const ServerManager: React.FC<ServerManagerProps> = ({ refreshServerTools
               </button>
             )}
             
+            <button
+              onClick={showRateLimits}
+              className="btn btn-outline btn-sm flex items-center space-x-2"
+            >
+              <Gauge className="h-4 w-4" />
+              <span>Rate Limits</span>
+            </button>
+            
+            <button
+              onClick={showAuditLog}
+              className="btn btn-outline btn-sm flex items-center space-x-2"
+            >
+              <ScrollText className="h-4 w-4" />
+              <span>Audit Log</span>
+            </button>
+            
             <button
               onClick={showClientConfig}
               className="btn btn-outline btn-sm flex items-center space-x-2"
@@ -197,6 +222,8 @@ export const ServerManager: React.FC<ServerManagerProps> = ({ refreshServerTools
       {/* Modal windows */}
       {showAddServerModal && <AddServerModal />}
       {showClientConfigModal && <ClientConfigModal />}
+      {showRateLimitsModal && <RateLimitsModal />}
+      {showAuditLogModal && <AuditLogModal />}
     </div>
   );
 };
\ No newline at end of file
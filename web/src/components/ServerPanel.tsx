@@ -11,7 +11,7 @@ import {
   Plus
 } from 'lucide-react';
 import { useConfigStore } from '../store/configStore';
-import { ServerWithTools } from '../types/config';
+import { ServerWithTools, CircuitState } from '../types/config';
 import { ToolsPanel } from './ToolsPanel';
 import { ServerLogs } from './ServerLogs';
 import { apiClient } from '../utils/api';
@@ -161,6 +161,9 @@ export const ServerPanel: React.FC<ServerPanelProps> = ({ server, refreshServerT
     
     // Clean up empty environment variables
     const cleanedConfig = { ...editedConfig };
+    delete cleanedConfig.queue; // Runtime stats, not configuration
+    delete cleanedConfig.circuit;
+    delete cleanedConfig.standby;
     if (cleanedConfig.env) {
       const cleanedEnv: Record<string, string> = {};
       Object.entries(cleanedConfig.env).forEach(([key, value]) => {
@@ -333,6 +336,9 @@ export const ServerPanel: React.FC<ServerPanelProps> = ({ server, refreshServerT
 
   const isStdio = editedConfig.transport === 'stdio';
 
+  const circuitBadge = (state: CircuitState) =>
+    state === 'open' ? 'badge-error' : state === 'half-open' ? 'badge-warning' : 'badge-success';
+
   return (
     <div className="flex flex-col h-full">
       {/* Server header */}
@@ -352,6 +358,39 @@ export const ServerPanel: React.FC<ServerPanelProps> = ({ server, refreshServerT
             <p className="text-sm text-base-content/70 mt-1">
               {server?.description || 'No description'}
             </p>
+            {server?.queue?.maxConcurrentRequests && (
+              <p className="text-xs text-base-content/60 mt-1">
+                In flight {server.queue.active}/{server.queue.maxConcurrentRequests}
+                {' · '}
+                <span className={server.queue.queued > 0 ? 'text-warning' : ''}>
+                  Queued {server.queue.queued}/{server.queue.maxQueueSize}
+                </span>
+                {' · '}Avg wait {server.queue.averageWaitMs}ms (max {server.queue.maxWaitMs}ms)
+                {(server.queue.rejected > 0 || server.queue.timedOut > 0) && (
+                  <span className="text-error">
+                    {' · '}Rejected {server.queue.rejected}, timed out {server.queue.timedOut}
+                  </span>
+                )}
+              </p>
+            )}
+            {server?.circuit?.enabled && (server.circuit.state !== 'closed' || server.circuit.transitions.length > 0) && (
+              <div className="text-xs text-base-content/60 mt-1">
+                <p>
+                  Circuit{' '}
+                  <span className={`badge badge-xs ${circuitBadge(server.circuit.state)}`}>{server.circuit.state}</span>
+                  {' · '}Error rate {Math.round(server.circuit.errorRate * 100)}% ({server.circuit.failures}/{server.circuit.requests})
+                  {server.circuit.rejected > 0 && <>{' · '}Failed fast {server.circuit.rejected}</>}
+                  {server.circuit.retryAt && <>{' · '}Retry at {new Date(server.circuit.retryAt).toLocaleTimeString()}</>}
+                </p>
+                <ul className="mt-1 space-y-0.5">
+                  {server.circuit.transitions.slice(0, 3).map(transition => (
+                    <li key={transition.timestamp + transition.to}>
+                      {new Date(transition.timestamp).toLocaleTimeString()} {transition.from} → {transition.to}: {transition.reason}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </div>
 
@@ -679,6 +718,77 @@ export const ServerPanel: React.FC<ServerPanelProps> = ({ server, refreshServerT
                         placeholder="3"
                       />
                     </div>
+                    <div className="form-control">
+                      <label className="label">
+                        <span className="label-text">Max Concurrent Requests</span>
+                      </label>
+                      <input
+                        type="number"
+                        value={editedConfig.maxConcurrentRequests || ''}
+                        onChange={(e) => handleInputChange('maxConcurrentRequests', e.target.value ? parseInt(e.target.value) : undefined)}
+                        disabled={!isEditing}
+                        className="input input-bordered w-full"
+                        placeholder="Unlimited"
+                      />
+                    </div>
+                    <div className="form-control">
+                      <label className="label">
+                        <span className="label-text">Max Queue Size</span>
+                      </label>
+                      <input
+                        type="number"
+                        value={editedConfig.maxQueueSize ?? ''}
+                        onChange={(e) => handleInputChange('maxQueueSize', e.target.value ? parseInt(e.target.value) : undefined)}
+                        disabled={!isEditing}
+                        className="input input-bordered w-full"
+                        placeholder="100"
+                      />
+                    </div>
+                    <div className="form-control">
+                      <label className="label">
+                        <span className="label-text">Queue Timeout (ms)</span>
+                      </label>
+                      <input
+                        type="number"
+                        value={editedConfig.queueTimeout || ''}
+                        onChange={(e) => handleInputChange('queueTimeout', e.target.value ? parseInt(e.target.value) : undefined)}
+                        disabled={!isEditing}
+                        className="input input-bordered w-full"
+                        placeholder="30000"
+                      />
+                    </div>
+                    {isStdio && (
+                      <>
+                        <div className="form-control">
+                          <label className="label">
+                            <span className="label-text">Lifecycle</span>
+                          </label>
+                          <select
+                            value={editedConfig.lifecycle || 'eager'}
+                            onChange={(e) => handleInputChange('lifecycle', e.target.value === 'eager' ? undefined : e.target.value)}
+                            disabled={!isEditing}
+                            className="select select-bordered w-full"
+                          >
+                            <option value="eager">Eager (start with the daemon)</option>
+                            <option value="lazy">Lazy (start on first call)</option>
+                            <option value="on-demand">On demand (stop when idle)</option>
+                          </select>
+                        </div>
+                        <div className="form-control">
+                          <label className="label">
+                            <span className="label-text">Idle Timeout (ms)</span>
+                          </label>
+                          <input
+                            type="number"
+                            value={editedConfig.idleTimeout || ''}
+                            onChange={(e) => handleInputChange('idleTimeout', e.target.value ? parseInt(e.target.value) : undefined)}
+                            disabled={!isEditing || editedConfig.lifecycle !== 'on-demand'}
+                            className="input input-bordered w-full"
+                            placeholder="300000"
+                          />
+                        </div>
+                      </>
+                    )}
                   </div>
                 </div>
               </div>
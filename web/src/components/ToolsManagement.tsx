@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Zap, Play, Settings, FileText, AlertCircle, CheckCircle } from 'lucide-react';
+import { Zap, Play, Settings, FileText, AlertCircle, CheckCircle, Save } from 'lucide-react';
 import { useAppStore } from '../store/useAppStore';
 import { ToolInfo } from '../types';
 
@@ -8,10 +8,39 @@ export const ToolsManagement: React.FC = () => {
   const [testResult, setTestResult] = useState<any>(null);
   const [testing, setTesting] = useState(false);
   const [testArgs, setTestArgs] = useState('{}');
+  const [aliasInput, setAliasInput] = useState('');
+  const [descriptionInput, setDescriptionInput] = useState('');
+  const [settingsMessage, setSettingsMessage] = useState<{ error: boolean; text: string } | null>(null);
 
   const handleToolSelect = (toolName: string) => {
     setSelectedTool(selectedTool === toolName ? null : toolName);
     setTestResult(null);
+    setSettingsMessage(null);
+
+    const tool = tools.find(t => t.name === toolName);
+    const aliased = tool?.originalName && tool.originalName !== toolName;
+    setAliasInput(aliased ? toolName : '');
+    setDescriptionInput('');
+  };
+
+  const handleSaveSettings = async (tool: ToolInfo) => {
+    const originalName = tool.originalName || tool.name;
+    try {
+      const response = await fetch(`/api/servers/${tool.serverName}/tools/${originalName}/settings`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ alias: aliasInput.trim(), description: descriptionInput.trim() }),
+      });
+
+      const result = await response.json();
+      setSettingsMessage(response.ok
+        ? { error: false, text: 'Settings saved' }
+        : { error: true, text: result.message || result.error });
+    } catch (error) {
+      setSettingsMessage({ error: true, text: error instanceof Error ? error.message : 'Unknown error' });
+    }
   };
 
   const handleTestTool = async (toolName: string) => {
@@ -96,6 +125,9 @@ export const ToolsManagement: React.FC = () => {
                       <div className="flex-1">
                         <div className="flex items-center space-x-3">
                           <h4 className="font-medium text-gray-900">{tool.name}</h4>
+                          {tool.originalName && tool.originalName !== tool.name && (
+                            <span className="text-xs text-gray-500">({tool.originalName})</span>
+                          )}
                           <button
                             onClick={() => handleToolSelect(tool.name)}
                             className="text-blue-600 hover:text-blue-800 text-sm"
@@ -124,6 +156,39 @@ export const ToolsManagement: React.FC = () => {
                           {renderSchema(tool.inputSchema)}
                         </div>
 
+                        {/* Alias and description overrides */}
+                        <div>
+                          <h5 className="font-medium text-gray-700 mb-2">Tool Settings:</h5>
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                            <input
+                              value={aliasInput}
+                              onChange={(e) => setAliasInput(e.target.value)}
+                              className="p-2 border border-gray-300 rounded-md text-sm"
+                              placeholder={`Alias (default: ${tool.originalName || tool.name})`}
+                            />
+                            <input
+                              value={descriptionInput}
+                              onChange={(e) => setDescriptionInput(e.target.value)}
+                              className="p-2 border border-gray-300 rounded-md text-sm"
+                              placeholder="Custom description (leave empty for upstream description)"
+                            />
+                          </div>
+                          <div className="flex items-center space-x-2 mt-2">
+                            <button
+                              onClick={() => handleSaveSettings(tool)}
+                              className="btn-secondary btn-sm flex items-center space-x-2"
+                            >
+                              <Save className="h-3 w-3" />
+                              <span>Save Settings</span>
+                            </button>
+                            {settingsMessage && (
+                              <span className={`text-sm ${settingsMessage.error ? 'text-red-600' : 'text-green-600'}`}>
+                                {settingsMessage.text}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+
                         {/* Testing area */}
                         <div>
                           <h5 className="font-medium text-gray-700 mb-2">Test Parameters:</h5>
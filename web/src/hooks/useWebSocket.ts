@@ -251,6 +251,16 @@ export const useWebSocket = (url: string) => {
       });
     });
 
+    // 熔断器状态变化事件（服务器列表随后的 status-update 会带上最新状态）
+    socket.on('circuit-state-changed', (data) => {
+      console.log('[WebSocket] Circuit state changed:', data);
+      addEvent({
+        type: 'circuit-state-changed',
+        data,
+        timestamp: data.timestamp || new Date().toISOString()
+      });
+    });
+
     // 错误事件
     socket.on('error', (data) => {
       console.error('Socket error:', data);
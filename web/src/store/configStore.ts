@@ -20,6 +20,8 @@ interface ConfigState {
   // Modal states
   showAddServerModal: boolean;
   showClientConfigModal: boolean;
+  showRateLimitsModal: boolean;
+  showAuditLogModal: boolean;
   
   // Actions
   loadConfig: () => Promise<void>;
@@ -37,6 +39,10 @@ interface ConfigState {
   hideAddServer: () => void;
   showClientConfig: () => void;
   hideClientConfig: () => void;
+  showRateLimits: () => void;
+  hideRateLimits: () => void;
+  showAuditLog: () => void;
+  hideAuditLog: () => void;
   
   // Tool management
   updateServerTools: (serverName: string, toolsConfig: any) => Promise<void>;
@@ -63,6 +69,8 @@ export const useConfigStore = create<ConfigState>((set, get) => ({
   authToken: null,
   showAddServerModal: false,
   showClientConfigModal: false,
+  showRateLimitsModal: false,
+  showAuditLogModal: false,
 
   // Actions
   loadConfig: async () => {
@@ -330,6 +338,18 @@ export const useConfigStore = create<ConfigState>((set, get) => ({
     console.log('[ConfigStore] Hiding client config modal.');
     set({ showClientConfigModal: false });
   },
+  showRateLimits: () => {
+    set({ showRateLimitsModal: true });
+  },
+  hideRateLimits: () => {
+    set({ showRateLimitsModal: false });
+  },
+  showAuditLog: () => {
+    set({ showAuditLogModal: true });
+  },
+  hideAuditLog: () => {
+    set({ showAuditLogModal: false });
+  },
 
   // Client config generation
   generateClientConfig: (clientType: string, servers?: string[]): MCPClientConfig => {
@@ -41,16 +41,110 @@ export interface ServerConfig {
   // Tool configuration
   toolsConfig?: ToolsConfig;
   
+  // Concurrency settings
+  maxConcurrentRequests?: number;
+  maxQueueSize?: number;
+  queueTimeout?: number;
+  
+  // Lifecycle settings (stdio only)
+  lifecycle?: 'eager' | 'lazy' | 'on-demand';
+  idleTimeout?: number;
+  
+  // Circuit breaker settings
+  circuitBreaker?: {
+    enabled?: boolean;
+    errorRateThreshold?: number;
+    minimumRequests?: number;
+    windowMs?: number;
+    slowCallThreshold?: number;
+    openDuration?: number;
+    halfOpenRequests?: number;
+  };
+  
   // Other settings
   timeout?: number;
   retries?: number;
 }
 
+export interface RequestQueueStats {
+  maxConcurrentRequests: number | null;
+  maxQueueSize: number;
+  active: number;
+  queued: number;
+  oldestWaitMs: number;
+  averageWaitMs: number;
+  maxWaitMs: number;
+  rejected: number;
+  timedOut: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitTransition {
+  from: CircuitState;
+  to: CircuitState;
+  reason: string;
+  timestamp: string;
+}
+
+export interface CircuitBreakerStats {
+  enabled: boolean;
+  state: CircuitState;
+  requests: number;
+  failures: number;
+  slowCalls: number;
+  errorRate: number;
+  rejected: number;
+  openedAt?: string;
+  reason?: string;
+  retryAt?: string;
+  lastError?: string;
+  transitions: CircuitTransition[];
+}
+
+export interface RateLimitUsage {
+  scope: 'client' | 'server' | 'tool';
+  key: string;
+  requestsPerMinute?: number;
+  burst?: number;
+  tokens?: number;
+  dailyQuota?: number;
+  usedToday: number;
+  quotaResetsAt: string;
+  rejected: number;
+}
+
+export interface AuditRecord {
+  id: string;
+  timestamp: string;
+  clientId?: string;
+  clientName?: string;
+  clientVersion?: string;
+  profile?: string;
+  toolName: string;
+  serverName?: string;
+  status: 'success' | 'error';
+  args?: any;
+  result?: any;
+  error?: { code: number; message: string };
+  duration: number;
+}
+
+export interface AuditQueryResult {
+  records: AuditRecord[];
+  hasMore: boolean;
+  enabled: boolean;
+  file: string;
+}
+
 export interface ServerWithTools extends ServerConfig {
   connected: boolean;
   toolCount: number;
   enabledToolCount: number;
   tools: ToolWithConfig[];
+  queue?: RequestQueueStats; // Runtime stats, not part of the saved config
+  circuit?: CircuitBreakerStats; // Runtime breaker state, not part of the saved config
+  standby?: boolean; // Lazy/on-demand server stopped until its next call
 }
 
 export interface ToolWithConfig {
@@ -1,5 +1,7 @@
 // Web界面相关类型定义
 
+import type { RequestQueueStats, CircuitBreakerStats } from './config';
+
 export interface MCPServerConfig {
   name: string;
   enabled: boolean;
@@ -57,12 +59,19 @@ export interface ServerStatus {
   // 其他配置字段
   cwd?: string;
   env?: Record<string, string>;
+  // 并发队列运行时统计
+  queue?: RequestQueueStats;
+  // 熔断器状态
+  circuit?: CircuitBreakerStats;
+  // lazy / on-demand 服务器未启动，工具来自缓存清单
+  standby?: boolean;
 }
 
 export interface ToolInfo {
   name: string;
   description: string;
   serverName: string;
+  originalName?: string; // Upstream name when the tool is published under an alias or prefix
   inputSchema?: any;
   annotations?: any;
 }
@@ -82,7 +91,7 @@ export interface SystemStatus {
 }
 
 export interface RealtimeEvent {
-  type: 'server-updated' | 'tool-called' | 'error' | 'status-update' | 'config-changed' | 'routes-updated' | 'server-connected' | 'server-disconnected' | 'server-error';
+  type: 'server-updated' | 'tool-called' | 'error' | 'status-update' | 'config-changed' | 'routes-updated' | 'server-connected' | 'server-disconnected' | 'server-error' | 'circuit-state-changed';
   data: any;
   timestamp: string;
 }